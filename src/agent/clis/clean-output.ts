@@ -78,7 +78,7 @@ export function cleanSectionOutput(content: string): string {
   // Normalize source link paths: ensure .skilld/ prefix is present
   // LLMs sometimes emit [source](./docs/...) instead of [source](./.skilld/docs/...)
   cleaned = cleaned.replace(
-    /\[source\]\(\.\/((docs|issues|discussions|releases|pkg|guide)\/)/g,
+    /\[source\]\(\.\/((docs|api|issues|discussions|releases|pkg|guide)\/)/g,
     '[source](./.skilld/$1',
   )
 
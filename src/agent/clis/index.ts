@@ -20,6 +20,8 @@ export type { CustomPrompt, SkillSection } from '../prompts/index.ts'
 export { cleanSectionOutput } from './clean-output.ts'
 export { createToolProgress } from './cli-progress.ts'
 export type { CliModelConfig, CliName, ModelInfo, OptimizeDocsOptions, OptimizeModel, OptimizeResult, StreamProgress } from './types.ts'
+export type { CitationIssue, CitationReport } from './verify-citations.ts'
+export { verifyCitations } from './verify-citations.ts'
 
 // ── Per-CLI dispatch ─────────────────────────────────────────────────
 
@@ -55,7 +55,7 @@ const SAFE_COMMANDS = new Set(['skilld', 'ls', 'cat', 'find'])
 const SHELL_META_RE = /[;&|`$()<>]/
 
 /** Resolve a path safely within skilldDir, blocking traversal. */
-function resolveSandboxedPath(p: string, skilldDir: string): string {
+export function resolveSandboxedPath(p: string, skilldDir: string): string {
   const cleaned = String(p).replace(STATIC_REGEX_1, './').replace(STATIC_REGEX_2, './').replace(STATIC_REGEX_3, '')
   const resolved = resolve(skilldDir, cleaned)
   if (!resolved.startsWith(`${skilldDir}/`) && resolved !== skilldDir)
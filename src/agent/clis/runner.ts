@@ -14,6 +14,7 @@ import { join } from 'pathe'
 import { isWindows } from 'std-env'
 import { getSectionValidator, SECTION_OUTPUT_FILES } from '../prompts/index.ts'
 import { cleanSectionOutput } from './clean-output.ts'
+import { summarizeCitationReport, verifyCitations } from './verify-citations.ts'
 
 /**
  * Strategy for running one section through a model. Two real adapters today:
@@ -65,8 +66,9 @@ export function prepareSection(opts: {
 
 /**
  * Turn a RawRunOutput into a SectionResult: resolve final text (file > writeContent > stdout),
- * clean, validate, and write debug logs. CLI runs additionally pass `cliCleanup` to enforce
- * prompt-injection defense (delete unexpected files in skilldDir).
+ * clean, verify citations (dropping unsupported items), validate, and write debug logs. CLI
+ * runs additionally pass `cliCleanup` to enforce prompt-injection defense (delete unexpected
+ * files in skilldDir).
  */
 export function finalizeSection(opts: {
   section: SkillSection
@@ -120,13 +122,19 @@ export function finalizeSection(opts: {
     return { section, content: '', wasOptimized: false, error: stderr.trim() || `CLI exited with code ${code}` }
   }
 
-  const content = text ? cleanSectionOutput(text) : ''
+  const cleaned = text ? cleanSectionOutput(text) : ''
+  // Drop items whose citations don't resolve or don't back their claims before anything is merged
+  const citations = cleaned ? verifyCitations(cleaned, skilldDir, { drop: true }) : null
+  const content = citations?.content ?? ''
   if (content)
     writeFileSync(outputPath, content)
 
   const validator = getSectionValidator(section)
   const rawWarnings = content && validator ? validator(content) : []
-  const warnings: ValidationWarning[] = rawWarnings.map(w => ({ section, warning: w.warning }))
+  const warnings: ValidationWarning[] = [
+    ...rawWarnings.map(w => ({ section, warning: w.warning })),
+    ...(citations ? summarizeCitationReport(citations, true).map(warning => ({ section, warning })) : []),
+  ]
 
   return {
     section,
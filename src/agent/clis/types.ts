@@ -91,8 +91,12 @@ export interface StreamProgress {
 export interface OptimizeDocsOptions {
   packageName: string
   skillDir: string
+  /** Project directory; its `.npmrc` applies to registry fetches by deterministic sections */
+  cwd?: string
   model?: OptimizeModel
   version?: string
+  /** Lockfile version before this update (enables the `migration` section) */
+  previousVersion?: string
   hasGithub?: boolean
   hasReleases?: boolean
   hasChangelog?: string | false
@@ -114,6 +118,12 @@ export interface OptimizeDocsOptions {
   pkgFiles?: string[]
   /** Lines consumed by SKILL.md overhead (frontmatter + header + search + footer) */
   overheadLines?: number
+  /** Skip remaining sections once this run has cost this much (USD); defaults to config `maxCostPerRun` */
+  maxCostPerRun?: number
+  /** Skip remaining sections once this run has used this many tokens; defaults to config `maxTokensPerRun` */
+  maxTokensPerRun?: number
+  /** Usage ledger file (default `~/.skilld/usage.jsonl`); `false` disables recording */
+  ledgerPath?: string | false
 }
 
 export interface OptimizeResult {
@@ -136,6 +146,8 @@ export interface SectionResult {
   warnings?: ValidationWarning[]
   usage?: { input: number, output: number }
   cost?: number
+  /** Not started because the run budget was exhausted */
+  skipped?: boolean
 }
 
 export interface ValidationWarning {
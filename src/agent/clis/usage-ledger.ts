@@ -0,0 +1,129 @@
+/**
+ * Persistent LLM usage ledger (`~/.skilld/usage.jsonl`) plus the per-run
+ * budget that `optimizeDocs` checks before starting each section.
+ *
+ * One JSON line per executed section — cached sections cost nothing and
+ * aren't recorded. Append-only so concurrent runs can't clobber each other.
+ */
+
+import type { SkillSection } from '../prompts/index.ts'
+import type { OptimizeModel } from './types.ts'
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'node:fs'
+import { dirname } from 'pathe'
+import { USAGE_LEDGER_PATH } from '../../core/paths.ts'
+
+export interface LedgerEntry {
+  /** ISO timestamp of when the section finished */
+  timestamp: string
+  package: string
+  version?: string
+  model: OptimizeModel
+  section: SkillSection
+  inputTokens: number
+  outputTokens: number
+  /** USD, when the executor reports it (API providers and Claude CLI do) */
+  cost?: number
+}
+
+export type LedgerGroupBy = 'package' | 'model' | 'month'
+
+export interface LedgerSummaryRow {
+  key: string
+  /** Section runs in this group */
+  runs: number
+  inputTokens: number
+  outputTokens: number
+  cost: number
+  /** Runs whose executor reported no cost (cost is a lower bound when > 0) */
+  unpriced: number
+}
+
+export function appendLedger(entries: LedgerEntry[], path: string = USAGE_LEDGER_PATH): void {
+  if (entries.length === 0)
+    return
+  mkdirSync(dirname(path), { recursive: true, mode: 0o700 })
+  appendFileSync(path, `${entries.map(e => JSON.stringify(e)).join('\n')}\n`, { mode: 0o600 })
+}
+
+/** All ledger entries, skipping lines that don't parse (e.g. a write cut short). */
+export function readLedger(path: string = USAGE_LEDGER_PATH): LedgerEntry[] {
+  if (!existsSync(path))
+    return []
+  const entries: LedgerEntry[] = []
+  for (const line of readFileSync(path, 'utf-8').split('\n')) {
+    if (!line.trim())
+      continue
+    try {
+      const entry = JSON.parse(line) as LedgerEntry
+      if (entry.timestamp && entry.package && typeof entry.inputTokens === 'number')
+        entries.push(entry)
+    }
+    catch {}
+  }
+  return entries
+}
+
+function groupKey(entry: LedgerEntry, by: LedgerGroupBy): string {
+  if (by === 'month')
+    return entry.timestamp.slice(0, 7)
+  return by === 'model' ? entry.model : entry.package
+}
+
+/** Totals per group: months chronologically, packages and models by cost then tokens. */
+export function summarizeLedger(entries: LedgerEntry[], by: LedgerGroupBy): LedgerSummaryRow[] {
+  const rows = new Map<string, LedgerSummaryRow>()
+  for (const entry of entries) {
+    const key = groupKey(entry, by)
+    let row = rows.get(key)
+    if (!row)
+      rows.set(key, row = { key, runs: 0, inputTokens: 0, outputTokens: 0, cost: 0, unpriced: 0 })
+    row.runs++
+    row.inputTokens += entry.inputTokens
+    row.outputTokens += entry.outputTokens
+    if (entry.cost != null)
+      row.cost += entry.cost
+    else
+      row.unpriced++
+  }
+  const list = [...rows.values()]
+  if (by === 'month')
+    return list.sort((a, b) => a.key.localeCompare(b.key))
+  return list.sort((a, b) => b.cost - a.cost || (b.inputTokens + b.outputTokens) - (a.inputTokens + a.outputTokens))
+}
+
+export interface RunBudgetLimits {
+  maxCost?: number
+  maxTokens?: number
+}
+
+export interface RunBudget {
+  /** Count a finished section against the limits */
+  charge: (usage?: { input: number, output: number }, cost?: number) => void
+  /** Reason the budget is used up, or null while there's room for another section */
+  exhausted: () => string | null
+  /** Whether any limit is set; sections then run one at a time so each check sees the last charge */
+  readonly limited: boolean
+  readonly spent: { tokens: number, cost: number }
+}
+
+/** Limits are checked before a section starts, so the last section to start can overshoot. */
+export function createRunBudget(limits: RunBudgetLimits): RunBudget {
+  const spent = { tokens: 0, cost: 0 }
+  return {
+    spent,
+    limited: limits.maxCost != null || limits.maxTokens != null,
+    charge(usage, cost) {
+      if (usage)
+        spent.tokens += usage.input + usage.output
+      if (cost != null)
+        spent.cost += cost
+    },
+    exhausted() {
+      if (limits.maxCost != null && spent.cost >= limits.maxCost)
+        return `cost budget exhausted ($${spent.cost.toFixed(2)} of $${limits.maxCost.toFixed(2)} per run)`
+      if (limits.maxTokens != null && spent.tokens >= limits.maxTokens)
+        return `token budget exhausted (${spent.tokens.toLocaleString('en-US')} of ${limits.maxTokens.toLocaleString('en-US')} per run)`
+      return null
+    },
+  }
+}
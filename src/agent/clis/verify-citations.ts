@@ -0,0 +1,193 @@
+/**
+ * Post-generation citation check for LLM-written sections.
+ *
+ * Every `[source](./.skilld/...)` link is resolved against the skill's
+ * reference dirs: the file must exist, line references (`:L12`, `#L12-L40`)
+ * must fall inside it, and code identifiers in the cited bullet must appear in
+ * at least one of the bullet's cited files. Bullets whose citations all point
+ * at missing files, or whose identifiers appear in none of them, are
+ * unsupported and dropped before the section is merged into SKILL.md.
+ */
+
+import { existsSync, readFileSync, statSync } from 'node:fs'
+import { join, normalize } from 'pathe'
+
+// `[source](./.skilld/docs/x.md)` plus an optional `:L12`, `:L12:40`, `#L12-L40` or `#heading` suffix
+const CITATION_RE = /\[[^\]\n]*\]\(\.\/\.skilld\/([^)#\s]+?)(:L[\d:-]+|#[^)\s]*)?\)/g
+const LINE_ANCHOR_RE = /^[:#]L(\d+)(?:[-:]L?(\d+))?$/
+const INLINE_CODE_RE = /`([^`\n]+)`/g
+const IDENTIFIER_RE = /^<?([A-Z_$][\w$]*(?:\.[A-Z_$][\w$]*)*)/i
+const FENCE_RE = /^\s*```/
+const BULLET_RE = /^- /
+const HEADING_RE = /^#{1,6}\s/
+const BLANK_RUNS_RE = /\n{3,}/g
+
+/** Shorter identifiers (`id`, `fn`) match almost any file */
+const MIN_IDENTIFIER_LENGTH = 3
+
+export type CitationIssueKind = 'missing-file' | 'broken-anchor' | 'unverified-identifier'
+
+export interface CitationIssue {
+  kind: CitationIssueKind
+  /** First line of the bullet, trimmed for display */
+  bullet: string
+  /** Cited path relative to `.skilld/` */
+  path?: string
+  detail: string
+}
+
+export interface CitationReport {
+  /** Content with unsupported bullets removed (unchanged unless `drop`) */
+  content: string
+  issues: CitationIssue[]
+  /** Bullets with at least one citation */
+  checked: number
+  /** Unsupported bullets (removed when `drop`) */
+  unsupported: string[]
+}
+
+interface Bullet {
+  start: number
+  end: number
+  text: string
+}
+
+/** Top-level `- ` items with their continuation lines (nested items, code blocks), skipping fenced code */
+function splitBullets(lines: string[]): Bullet[] {
+  const bullets: Bullet[] = []
+  let current: Bullet | null = null
+  let inFence = false
+  const close = (end: number) => {
+    if (current) {
+      current.end = end
+      current.text = lines.slice(current.start, end).join('\n')
+      bullets.push(current)
+      current = null
+    }
+  }
+  lines.forEach((line, i) => {
+    if (FENCE_RE.test(line)) {
+      inFence = !inFence
+      return
+    }
+    if (inFence)
+      return
+    if (BULLET_RE.test(line)) {
+      close(i)
+      current = { start: i, end: i + 1, text: line }
+    }
+    else if (HEADING_RE.test(line)) {
+      close(i)
+    }
+  })
+  close(lines.length)
+  return bullets
+}
+
+/**
+ * Identifiers named in a bullet's inline code spans (`useFetch()` → `useFetch`,
+ * `app.use` → `use`). Fenced example code is skipped: it's illustrative and
+ * rarely verbatim in the reference.
+ */
+export function extractCodeIdentifiers(text: string): string[] {
+  const prose: string[] = []
+  let inFence = false
+  for (const line of text.split('\n')) {
+    if (FENCE_RE.test(line))
+      inFence = !inFence
+    else if (!inFence)
+      prose.push(line)
+  }
+  const identifiers = new Set<string>()
+  for (const [, code] of prose.join('\n').matchAll(INLINE_CODE_RE)) {
+    const name = code!.trim().match(IDENTIFIER_RE)?.[1]?.split('.').at(-1)
+    if (name && name.length >= MIN_IDENTIFIER_LENGTH)
+      identifiers.add(name)
+  }
+  return [...identifiers]
+}
+
+function bulletLabel(bullet: Bullet): string {
+  const first = bullet.text.split('\n')[0]!.slice(2).trim()
+  return first.length > 80 ? `${first.slice(0, 79)}…` : first
+}
+
+/** Verify citations in `content` against `skilldDir`; with `drop`, remove unsupported bullets. */
+export function verifyCitations(content: string, skilldDir: string, opts: { drop?: boolean } = {}): CitationReport {
+  const lines = content.split('\n')
+  const files = new Map<string, string | null>()
+  const readCited = (path: string): string | null => {
+    if (!files.has(path)) {
+      const full = join(skilldDir, path)
+      const inside = !normalize(path).startsWith('..')
+      const isFile = inside && existsSync(full) && statSync(full).isFile()
+      files.set(path, isFile ? readFileSync(full, 'utf-8') : null)
+    }
+    return files.get(path)!
+  }
+
+  const issues: CitationIssue[] = []
+  const unsupported: Bullet[] = []
+  let checked = 0
+
+  for (const bullet of splitBullets(lines)) {
+    const citations = [...bullet.text.matchAll(CITATION_RE)].map(m => ({ path: m[1]!, anchor: m[2] }))
+    if (citations.length === 0)
+      continue
+    checked++
+    const label = bulletLabel(bullet)
+    const cited: string[] = []
+
+    for (const { path, anchor } of citations) {
+      const file = readCited(path)
+      if (file === null) {
+        issues.push({ kind: 'missing-file', bullet: label, path, detail: `cites missing file ./.skilld/${path}` })
+        continue
+      }
+      cited.push(file)
+      const range = anchor?.match(LINE_ANCHOR_RE)
+      if (range) {
+        const lineCount = file.split('\n').length
+        const start = Number(range[1])
+        const end = range[2] ? Number(range[2]) : start
+        if (start < 1 || end < start || end > lineCount)
+          issues.push({ kind: 'broken-anchor', bullet: label, path, detail: `${anchor} is outside ./.skilld/${path} (${lineCount} lines)` })
+      }
+    }
+
+    if (cited.length === 0) {
+      unsupported.push(bullet)
+      continue
+    }
+    const identifiers = extractCodeIdentifiers(bullet.text)
+    const missing = identifiers.filter(id => !cited.some(file => file.includes(id)))
+    if (missing.length > 0)
+      issues.push({ kind: 'unverified-identifier', bullet: label, detail: `${missing.map(id => `\`${id}\``).join(', ')} not found in cited files` })
+    if (identifiers.length > 0 && missing.length === identifiers.length)
+      unsupported.push(bullet)
+  }
+
+  let result = content
+  if (opts.drop && unsupported.length > 0) {
+    const dropped = new Set(unsupported.flatMap(b => Array.from({ length: b.end - b.start }, (_, i) => b.start + i)))
+    result = lines.filter((_, i) => !dropped.has(i)).join('\n').replace(BLANK_RUNS_RE, '\n\n').trim()
+  }
+  return { content: result, issues, checked, unsupported: unsupported.map(bulletLabel) }
+}
+
+/** One warning per problem type, so a sloppy run doesn't flood the summary */
+export function summarizeCitationReport(report: CitationReport, dropped: boolean): string[] {
+  const warnings: string[] = []
+  const missing = [...new Set(report.issues.filter(i => i.kind === 'missing-file').map(i => `./.skilld/${i.path}`))]
+  if (missing.length > 0)
+    warnings.push(`${missing.length} cited files don't exist: ${missing.slice(0, 3).join(', ')}${missing.length > 3 ? ', …' : ''}`)
+  const anchors = report.issues.filter(i => i.kind === 'broken-anchor')
+  if (anchors.length > 0)
+    warnings.push(`${anchors.length} line references point outside their file: ${anchors.slice(0, 3).map(i => i.detail).join('; ')}`)
+  const identifiers = report.issues.filter(i => i.kind === 'unverified-identifier')
+  if (identifiers.length > 0)
+    warnings.push(`${identifiers.length} items mention code not found in their cited files: ${identifiers.slice(0, 3).map(i => i.detail).join('; ')}`)
+  if (report.unsupported.length > 0)
+    warnings.push(`${dropped ? 'Dropped' : 'Found'} ${report.unsupported.length}/${report.checked} unsupported items: ${report.unsupported.slice(0, 3).map(b => `"${b}"`).join(', ')}`)
+  return warnings
+}
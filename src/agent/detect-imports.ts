@@ -1,9 +1,10 @@
 /**
- * Detect directly-used npm packages by scanning source files
+ * Detect directly-used npm packages (and Cargo crates) by scanning source files
  */
 
 import { glob, readFile } from 'node:fs/promises'
 import { join } from 'pathe'
+import { readCargoDependencies, toRustCrateIdent } from '../sources/cargo.ts'
 import { detectPresetPackages } from './detect-presets.ts'
 
 // Static: import x from '...' | export ... from '...'
@@ -12,6 +13,9 @@ const FROM_STATIC_IMPORT_RE = /\bfrom\s*['"]([^'"\n]+)['"]/g
 const SIDE_EFFECT_IMPORT_RE = /\bimport\s*['"]([^'"\n]+)['"]/g
 // Dynamic: import('...')
 const DYNAMIC_IMPORT_RE = /\bimport\s*\(\s*['"]([^'"\n]+)['"]\s*\)/g
+// Rust: use serde::Deserialize | serde_json::from_str(..) | extern crate log
+const RUST_PATH_RE = /\b([a-z_]\w*)::/gi
+const RUST_EXTERN_CRATE_RE = /\bextern\s+crate\s+(\w+)/g
 
 export interface PackageUsage {
   name: string
@@ -25,7 +29,9 @@ export interface DetectResult {
 }
 
 const PATTERNS = ['**/*.{ts,js,vue,mjs,cjs,tsx,jsx,mts,cts}']
+const RUST_PATTERNS = ['**/*.rs']
 const IGNORE_DIRS = ['node_modules', 'dist', '.nuxt', '.output', 'coverage']
+const RUST_IGNORE_DIRS = [...IGNORE_DIRS, 'target']
 
 function addPackage(counts: Map<string, number>, specifier: string | undefined) {
   if (!specifier || specifier.startsWith('.') || specifier.startsWith('/'))
@@ -70,6 +76,10 @@ export async function detectImportedPackages(cwd: string = process.cwd()): Promi
         addPackage(counts, m[1])
     }))
 
+    // Cargo crates referenced from Rust sources, reported as `crate:<name>`
+    for (const [name, count] of await countRustCrates(cwd))
+      counts.set(`crate:${name}`, count)
+
     // Sort by usage count (descending), then alphabetically
     const packages: PackageUsage[] = Array.from(counts.entries(), ([name, count]) => ({ name, count, source: 'import' as const }))
       .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
@@ -89,6 +99,46 @@ export async function detectImportedPackages(cwd: string = process.cwd()): Promi
   }
 }
 
+/**
+ * Count references to Cargo.toml dependencies in `.rs` files. Only crates
+ * declared in the manifest are matched, so `std::`/`crate::`/module paths drop out.
+ */
+async function countRustCrates(cwd: string): Promise<Map<string, number>> {
+  const counts = new Map<string, number>()
+  const deps = readCargoDependencies(cwd)
+  if (deps.length === 0)
+    return counts
+
+  const byIdent = new Map(deps.map(d => [toRustCrateIdent(d.alias), d.name]))
+  const addCrate = (ident: string | undefined) => {
+    const name = ident && byIdent.get(ident)
+    if (name)
+      counts.set(name, (counts.get(name) || 0) + 1)
+  }
+
+  const files: string[] = []
+  for await (const file of glob(RUST_PATTERNS, {
+    cwd,
+    exclude: (p: string) => RUST_IGNORE_DIRS.some(dir => p === dir || p.endsWith(`/${dir}`)),
+  })) {
+    files.push(join(cwd, file))
+  }
+
+  await Promise.all(files.map(async (file) => {
+    const content = await readFile(file, 'utf8')
+    // One hit per file per crate: paths repeat far more than imports do
+    const seen = new Set<string>()
+    for (const m of content.matchAll(RUST_PATH_RE))
+      seen.add(m[1]!)
+    for (const m of content.matchAll(RUST_EXTERN_CRATE_RE))
+      seen.add(m[1]!)
+    for (const ident of seen)
+      addCrate(ident)
+  }))
+
+  return counts
+}
+
 const NODE_BUILTINS = new Set([
   'assert',
   'async_hooks',
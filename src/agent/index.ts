@@ -24,7 +24,7 @@ export { computeSkillDirName, installSkillForAgents, linkSkillToAgents, sanitize
 export { optimizeDocs } from './llm-enhancer.ts'
 
 // Skill generation
-export { extractMarkedSections, generateSkillMd, getSectionValidator, portabilizePrompt, wrapSection, writeGeneratedSkillMd, writeSkillMd } from './prompts/index.ts'
+export { extractMarkedSections, generateSkillMd, getRegisteredSections, getSectionOutputFile, getSectionValidator, isDeterministicSection, isVersionCachedSection, portabilizePrompt, registerProjectSections, wrapSection, writeGeneratedSkillMd, writeSkillMd } from './prompts/index.ts'
 
 export type { SkillOptions } from './prompts/index.ts'
 // Targets
@@ -2,22 +2,26 @@
  * LLM enhancer — drives CLI adapters (and pi-ai) to generate SKILL.md sections.
  *
  * Owns the section-level lifecycle: cache lookup (references-dir + prompt-hash),
- * parallel spawn with stagger, rate-limit-aware retry, and merge-order assembly.
+ * parallel spawn with stagger, rate-limit-aware retry, per-run budget and usage
+ * ledger, and merge-order assembly.
  * Per-CLI concerns (argv, stream parsing, model registry) live in `./clis/`.
  */
 
 import type { SectionExecutor } from './clis/runner.ts'
 import type { OptimizeDocsOptions, OptimizeResult, SectionResult, StreamProgress } from './clis/types.ts'
+import type { RunBudget } from './clis/usage-ledger.ts'
 import type { SkillSection } from './prompts/index.ts'
 import { existsSync, lstatSync, mkdirSync, readdirSync } from 'node:fs'
 import { setTimeout as delay } from 'node:timers/promises'
 import { join } from 'pathe'
 import { createReferenceCache } from '../cache/index.ts'
+import { readConfig } from '../core/config.ts'
 import { skillInternalDir, skillLogDir } from '../core/paths.ts'
 import { getCached, setCache } from './clis/cli-cache.ts'
 import { selectExecutor } from './clis/executors.ts'
 import { finalizeSection, prepareSection } from './clis/runner.ts'
-import { buildAllSectionPrompts, SECTION_MERGE_ORDER, SECTION_OUTPUT_FILES, wrapSection } from './prompts/index.ts'
+import { appendLedger, createRunBudget } from './clis/usage-ledger.ts'
+import { buildAllSectionPrompts, generateDeterministicSections, getSectionOutputFile, isDeterministicSection, isVersionCachedSection, SECTION_MERGE_ORDER, wrapSection } from './prompts/index.ts'
 
 const STATIC_REGEX_1 = /\b429\b/
 const STATIC_REGEX_2 = /rate.?limit/i
@@ -63,8 +67,33 @@ async function optimizeSection(opts: OptimizeSectionOptions): Promise<SectionRes
 // ── Main orchestrator ────────────────────────────────────────────────
 
 export async function optimizeDocs(opts: OptimizeDocsOptions): Promise<OptimizeResult> {
-  const { packageName, skillDir, model = 'sonnet', version, hasGithub, hasReleases, hasChangelog, docFiles, docsType, hasShippedDocs, onProgress, timeout = 180000, debug, noCache, sections, customPrompt, features, pkgFiles, overheadLines } = opts
+  const { packageName, skillDir, cwd, model = 'sonnet', version, previousVersion, hasGithub, hasReleases, hasChangelog, docFiles, docsType, hasShippedDocs, onProgress, timeout = 180000, debug, noCache, sections, customPrompt, features, pkgFiles, overheadLines } = opts
   const cache = createReferenceCache(packageName, version)
+  const config = readConfig()
+  const budget = createRunBudget({
+    maxCost: opts.maxCostPerRun ?? config.maxCostPerRun,
+    maxTokens: opts.maxTokensPerRun ?? config.maxTokensPerRun,
+  })
+  const ledgerPath = opts.ledgerPath
+  /** Charge a finished section to the run budget and record it in the ledger */
+  const track = (result: SectionResult): SectionResult => {
+    if (result.usage || result.cost != null) {
+      budget.charge(result.usage, result.cost)
+      if (ledgerPath !== false) {
+        appendLedger([{
+          timestamp: new Date().toISOString(),
+          package: packageName,
+          version,
+          model,
+          section: result.section,
+          inputTokens: result.usage?.input ?? 0,
+          outputTokens: result.usage?.output ?? 0,
+          cost: result.cost,
+        }], ledgerPath)
+      }
+    }
+    return result
+  }
 
   const selectedSections = sections ?? ['api-changes', 'best-practices'] as SkillSection[]
 
@@ -72,6 +101,7 @@ export async function optimizeDocs(opts: OptimizeDocsOptions): Promise<OptimizeR
     packageName,
     skillDir,
     version,
+    previousVersion,
     hasIssues: hasGithub,
     hasDiscussions: hasGithub,
     hasReleases,
@@ -86,14 +116,33 @@ export async function optimizeDocs(opts: OptimizeDocsOptions): Promise<OptimizeR
     sections: selectedSections,
   })
 
-  if (sectionPrompts.size === 0) {
+  // Deterministic sections (no LLM): reuse the version-keyed output, else generate
+  const generatedResults: SectionResult[] = []
+  const toGenerate: SkillSection[] = []
+  for (const section of selectedSections.filter(isDeterministicSection)) {
+    const refCached = !noCache && version ? cache.readSection(getSectionOutputFile(section)) : null
+    if (refCached)
+      generatedResults.push({ section, content: refCached, wasOptimized: true })
+    else
+      toGenerate.push(section)
+  }
+  for (const [section, content] of await generateDeterministicSections({ packageName, version, skillDir, cwd }, toGenerate)) {
+    onProgress?.({ chunk: `[${section}: generated]`, type: 'text', text: content, reasoning: '', section })
+    generatedResults.push({ section, content, wasOptimized: true })
+  }
+
+  if (sectionPrompts.size === 0 && generatedResults.length === 0) {
     return { optimized: '', wasOptimized: false, error: 'No valid sections to generate' }
   }
 
-  const executorOrError = selectExecutor(model)
-  if ('error' in executorOrError)
-    return { optimized: '', wasOptimized: false, error: executorOrError.error }
-  const executor = executorOrError
+  // Deterministic-only runs never spawn, so they don't need a usable model
+  let executor: SectionExecutor | undefined
+  if (sectionPrompts.size > 0) {
+    const executorOrError = selectExecutor(model)
+    if ('error' in executorOrError)
+      return { optimized: '', wasOptimized: false, error: executorOrError.error }
+    executor = executorOrError
+  }
 
   // Check per-section cache: references dir first (version-keyed), then LLM cache (prompt-hashed)
   const cachedResults: SectionResult[] = []
@@ -101,8 +150,8 @@ export async function optimizeDocs(opts: OptimizeDocsOptions): Promise<OptimizeR
 
   for (const [section, prompt] of sectionPrompts) {
     if (!noCache) {
-      if (version) {
-        const outputFile = SECTION_OUTPUT_FILES[section]
+      if (version && isVersionCachedSection(section)) {
+        const outputFile = getSectionOutputFile(section)
         const refCached = cache.readSection(outputFile)
         if (refCached) {
           onProgress?.({ chunk: `[${section}: cached]`, type: 'text', text: refCached, reasoning: '', section })
@@ -136,23 +185,31 @@ export async function optimizeDocs(opts: OptimizeDocsOptions): Promise<OptimizeR
 
   const preExistingFiles = new Set(readdirSync(skilldDir))
 
-  // Spawn uncached sections with staggered starts to avoid rate-limit collisions
+  // Spawn uncached sections with staggered starts to avoid rate-limit collisions.
+  // With a run budget they go one at a time instead: usage is only known once a
+  // section finishes, so a parallel wave would start before any of it is charged.
   const STAGGER_MS = 3000
+  let previous: Promise<unknown> = Promise.resolve()
   const spawnResults = uncachedSections.length > 0
     ? await Promise.allSettled(
         uncachedSections.map(({ section, prompt }, i) => {
-          const outputFile = SECTION_OUTPUT_FILES[section]
-          const run = () => optimizeSection({
+          const outputFile = getSectionOutputFile(section)
+          const run = () => budgetSkip(budget, section, onProgress) ?? optimizeSection({
             section,
             prompt,
             outputFile,
             skillDir,
-            executor,
+            executor: executor!,
             onProgress,
             timeout,
             debug,
             preExistingFiles,
-          })
+          }).then(track)
+          if (budget.limited) {
+            const next = previous.then(run)
+            previous = next.catch(() => {})
+            return next
+          }
           if (i === 0)
             return run()
           return delay(i * STAGGER_MS).then(run)
@@ -160,7 +217,7 @@ export async function optimizeDocs(opts: OptimizeDocsOptions): Promise<OptimizeR
       )
     : []
 
-  const allResults: SectionResult[] = [...cachedResults]
+  const allResults: SectionResult[] = [...generatedResults, ...cachedResults]
   let totalUsage: { input: number, output: number } | undefined
   let totalCost = 0
   const retryQueue: Array<{ index: number, section: SkillSection, prompt: string }> = []
@@ -168,7 +225,10 @@ export async function optimizeDocs(opts: OptimizeDocsOptions): Promise<OptimizeR
   for (let i = 0; i < spawnResults.length; i++) {
     const r = spawnResults[i]!
     const { section, prompt } = uncachedSections[i]!
-    if (r.status === 'fulfilled' && r.value.wasOptimized) {
+    if (r.status === 'fulfilled' && r.value.skipped) {
+      allResults.push(r.value)
+    }
+    else if (r.status === 'fulfilled' && r.value.wasOptimized) {
       allResults.push(r.value)
       if (r.value.usage) {
         totalUsage = totalUsage ?? { input: 0, output: 0 }
@@ -187,6 +247,11 @@ export async function optimizeDocs(opts: OptimizeDocsOptions): Promise<OptimizeR
 
   // Retry failed sections (sequential, with rate-limit aware backoff)
   for (const { index, section, prompt } of retryQueue) {
+    const skipped = budgetSkip(budget, section, onProgress)
+    if (skipped) {
+      allResults.push(skipped)
+      continue
+    }
     const prevError = getRetryError(spawnResults[index]!)
     const rateLimitDelay = parseRateLimitDelay(prevError)
 
@@ -203,14 +268,14 @@ export async function optimizeDocs(opts: OptimizeDocsOptions): Promise<OptimizeR
     const result = await optimizeSection({
       section,
       prompt,
-      outputFile: SECTION_OUTPUT_FILES[section],
+      outputFile: getSectionOutputFile(section),
       skillDir,
-      executor,
+      executor: executor!,
       onProgress,
       timeout,
       debug,
       preExistingFiles,
-    }).catch((err: Error) => ({ section, content: '', wasOptimized: false, error: err.message }) as SectionResult)
+    }).then(track).catch((err: Error) => ({ section, content: '', wasOptimized: false, error: err.message }) as SectionResult)
 
     allResults.push(result)
     if (result.wasOptimized && !noCache)
@@ -227,8 +292,8 @@ export async function optimizeDocs(opts: OptimizeDocsOptions): Promise<OptimizeR
   // Write successful sections to global references dir for cross-project reuse
   if (version) {
     const sectionFiles = allResults
-      .filter(r => r.wasOptimized && r.content)
-      .map(r => ({ file: SECTION_OUTPUT_FILES[r.section], content: r.content }))
+      .filter(r => r.wasOptimized && r.content && isVersionCachedSection(r.section))
+      .map(r => ({ file: getSectionOutputFile(r.section), content: r.content }))
     if (sectionFiles.length > 0) {
       cache.writeSections(sectionFiles)
     }
@@ -271,6 +336,15 @@ export async function optimizeDocs(opts: OptimizeDocsOptions): Promise<OptimizeR
 
 // ── Helpers ──────────────────────────────────────────────────────────
 
+/** Result for a section that won't start because the run budget is used up, else null. */
+function budgetSkip(budget: RunBudget, section: SkillSection, onProgress?: (progress: StreamProgress) => void): SectionResult | null {
+  const reason = budget.exhausted()
+  if (!reason)
+    return null
+  onProgress?.({ chunk: `[${section}: skipped, ${reason}]`, type: 'reasoning', text: '', reasoning: '', section })
+  return { section, content: '', wasOptimized: false, skipped: true, error: `skipped, ${reason}` }
+}
+
 function isRateLimitError(error: string | undefined): boolean {
   if (!error)
     return false
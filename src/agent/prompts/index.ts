@@ -1,5 +1,5 @@
 export type { CustomPrompt, SectionValidationWarning } from './optional/index.ts'
-export { buildAllSectionPrompts, buildSectionPrompt, extractMarkedSections, getSectionValidator, portabilizePrompt, SECTION_MERGE_ORDER, SECTION_OUTPUT_FILES, wrapSection } from './prompt.ts'
-export type { BuildSkillPromptOptions, SkillSection } from './prompt.ts'
+export { buildAllSectionPrompts, buildSectionPrompt, extractMarkedSections, generateDeterministicSections, getRegisteredSections, getSectionOutputFile, getSectionValidator, isDeterministicSection, isPluginSection, isVersionCachedSection, portabilizePrompt, registerProjectSections, registerSection, SECTION_MERGE_ORDER, SECTION_OUTPUT_FILES, wrapSection } from './prompt.ts'
+export type { BuildSkillPromptOptions, BuiltinSkillSection, PluginSectionId, SectionModule, SkillSection } from './prompt.ts'
 export { generateSkillMd, writeGeneratedSkillMd, writeSkillMd } from './skill.ts'
 export type { SkillOptions } from './skill.ts'
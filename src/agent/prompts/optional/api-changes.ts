@@ -6,7 +6,7 @@ import { checkAbsolutePaths, checkLineCount, checkSourceCoverage, checkSourcePat
 
 const STATIC_REGEX_2 = /^## API Changes/im
 
-export function apiChangesSection({ packageName, version, hasReleases, hasChangelog, hasDocs, hasIssues, hasDiscussions, pkgFiles, features, enabledSectionCount, releaseCount, overheadLines }: SectionContext): PromptSection {
+export function apiChangesSection({ packageName, version, hasReleases, hasChangelog, hasDocs, hasApi, hasIssues, hasDiscussions, pkgFiles, features, enabledSectionCount, releaseCount, overheadLines }: SectionContext): PromptSection {
   const [, major, minor] = version?.match(SEMVER_MAJOR_MINOR_RE) ?? []
   const boost = releaseBoost(releaseCount, minor ? Number(minor) : undefined)
 
@@ -47,6 +47,9 @@ export function apiChangesSection({ packageName, version, hasReleases, hasChange
   if (hasDocs) {
     referenceWeights.push({ name: 'Docs', path: './.skilld/docs/', score: 4, useFor: 'Only migration guides or upgrade pages' })
   }
+  if (hasApi) {
+    referenceWeights.push({ name: 'API', path: './.skilld/api/_INDEX.md', score: 5, useFor: 'Deprecated exports and `since` tags — confirms an API exists in this version' })
+  }
   if (hasIssues) {
     referenceWeights.push({ name: 'Issues', path: './.skilld/issues/_INDEX.md', score: 2, useFor: 'Skip unless searching a specific removed API' })
   }
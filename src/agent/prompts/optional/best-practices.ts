@@ -6,7 +6,7 @@ import { checkAbsolutePaths, checkLineCount, checkSourceCoverage, checkSourcePat
 
 const STATIC_REGEX_2 = /^## Best Practices/im
 
-export function bestPracticesSection({ packageName, hasIssues, hasDiscussions, hasReleases, hasChangelog, hasDocs, pkgFiles, features, enabledSectionCount, releaseCount, version, overheadLines }: SectionContext): PromptSection {
+export function bestPracticesSection({ packageName, hasIssues, hasDiscussions, hasReleases, hasChangelog, hasDocs, hasApi, pkgFiles, features, enabledSectionCount, releaseCount, version, overheadLines }: SectionContext): PromptSection {
   const [,, minor] = version?.match(SEMVER_MAJOR_MINOR_RE) ?? []
   // Dampened boost — best practices are less directly tied to releases than API changes
   const rawBoost = releaseBoost(releaseCount, minor ? Number(minor) : undefined)
@@ -25,6 +25,9 @@ export function bestPracticesSection({ packageName, hasIssues, hasDiscussions, h
   if (hasDocs) {
     referenceWeights.push({ name: 'Docs', path: './.skilld/docs/', score: 9, useFor: 'Primary source — recommended patterns, configuration, idiomatic usage' })
   }
+  if (hasApi) {
+    referenceWeights.push({ name: 'API', path: './.skilld/api/_INDEX.md', score: hasDocs ? 6 : 8, useFor: 'Exact signatures, JSDoc examples and deprecations for cited APIs' })
+  }
   if (hasDiscussions) {
     referenceWeights.push({ name: 'Discussions', path: './.skilld/discussions/_INDEX.md', score: 5, useFor: 'Only maintainer-confirmed patterns — community workarounds are lower confidence' })
   }
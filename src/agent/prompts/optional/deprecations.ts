@@ -0,0 +1,65 @@
+import type { DeprecationEntry, DeprecationMap } from '../../../sources/deprecations.ts'
+import type { SectionGenerateContext } from './types.ts'
+import { existsSync } from 'node:fs'
+import { join } from 'pathe'
+import { skillInternalDir } from '../../../core/paths.ts'
+import { apiModuleName, apiSymbolAnchor } from '../../../sources/api-reference.ts'
+import { buildDeprecationMap } from '../../../sources/deprecations.ts'
+
+const TABLE_UNSAFE_RE = /\s*\n\s*/g
+const PIPE_RE = /\|/g
+const DEFAULT_SUFFIX_RE = / \(default\)$/
+
+function cell(text: string, max = 100): string {
+  const flat = text.replace(TABLE_UNSAFE_RE, ' ').replace(PIPE_RE, '\\|').trim()
+  return flat.length > max ? `${flat.slice(0, max - 3)}...` : flat
+}
+
+function symbolLabel(entry: Pick<DeprecationEntry, 'name' | 'kind'>): string {
+  const name = entry.name.replace(DEFAULT_SUFFIX_RE, '')
+  return entry.kind === 'function' ? `\`${name}()\`` : `\`${name}\``
+}
+
+function statusLabel(entry: DeprecationEntry, map: DeprecationMap): string {
+  if (entry.status === 'removed')
+    return `removed after v${map.previousVersion}`
+  if (entry.status === 'new')
+    return `new in v${map.version}`
+  return entry.since ? `deprecated, since v${entry.since}` : 'deprecated'
+}
+
+/**
+ * Render the deprecation map as a SKILL.md section. Current-version entries
+ * cite their `api/` reference page; removed ones only exist in the previous tarball.
+ */
+export function formatDeprecationMap(map: DeprecationMap): string {
+  const rows = map.entries.map((entry) => {
+    const replacement = entry.replacement ? `\`${cell(entry.replacement, 60)}\`` : '—'
+    const source = entry.status === 'removed'
+      ? ''
+      : ` [source](./.skilld/api/${apiModuleName(entry.source)}.md#${apiSymbolAnchor(entry.name)})`
+    const notes = `${entry.message ? cell(entry.message) : ''}${source}`.trim()
+    return `| ${symbolLabel(entry)} | ${replacement} | ${statusLabel(entry, map)} | ${notes || '—'} |`
+  })
+  const compared = map.previousVersion ? ` compared with v${map.previousVersion}` : ''
+  return [
+    '## Deprecated APIs',
+    '',
+    `Generated from \`@deprecated\` JSDoc in v${map.version}${compared}. Do not use these in new code — prefer the replacement.`,
+    '',
+    '| Deprecated | Replacement | Status | Notes |',
+    '|------------|-------------|--------|-------|',
+    ...rows,
+  ].join('\n')
+}
+
+/** Deterministic section: deprecation map from the linked package's `.d.ts` files. */
+export async function deprecationsSection({ packageName, version, skillDir, cwd }: SectionGenerateContext): Promise<string | null> {
+  const pkgDir = join(skillInternalDir(skillDir), 'pkg')
+  if (!version || !existsSync(pkgDir))
+    return null
+  const map = await buildDeprecationMap(packageName, version, pkgDir, cwd).catch(() => null)
+  if (!map?.entries.length)
+    return null
+  return formatDeprecationMap(map)
+}
@@ -2,4 +2,6 @@ export { apiChangesSection } from './api-changes.ts'
 export { bestPracticesSection } from './best-practices.ts'
 export { maxItems, maxLines, releaseBoost } from './budget.ts'
 export { customSection } from './custom.ts'
-export type { CustomPrompt, PromptSection, ReferenceWeight, SectionContext, SectionValidationWarning } from './types.ts'
+export { deprecationsSection, formatDeprecationMap } from './deprecations.ts'
+export { isMigrationRange, migrationSection } from './migration.ts'
+export type { CustomPrompt, PromptSection, ReferenceWeight, SectionContext, SectionGenerateContext, SectionValidationWarning } from './types.ts'
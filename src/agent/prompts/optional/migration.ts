@@ -0,0 +1,121 @@
+import type { PromptSection, ReferenceWeight, SectionContext, SectionValidationWarning } from './types.ts'
+import { semverDiff, semverParse, semverValid } from '../../../core/semver.ts'
+import { resolveSkilldCommand } from '../../../core/skilld-command.ts'
+import { maxItems, maxLines } from './budget.ts'
+import { checkAbsolutePaths, checkLineCount, checkSourceCoverage, checkSourcePaths, checkSparseness } from './validate.ts'
+
+const MIGRATION_HEADING_RE = /^## Migration/im
+const CHECKLIST_ITEM_RE = /^- \[[ x]\] /gm
+const BEFORE_AFTER_RE = /^- \[[ x]\] .*Before:.*After:/gm
+
+const MIGRATION_DIFFS = new Set(['major', 'minor', 'premajor', 'preminor'])
+
+/** True when `previous` → `next` crosses a major or minor version (patch bumps have nothing to migrate). */
+export function isMigrationRange(previous?: string, next?: string): boolean {
+  if (!previous || !next || !semverValid(previous) || !semverValid(next))
+    return false
+  const diff = semverDiff(previous, next)
+  return !!diff && MIGRATION_DIFFS.has(diff)
+}
+
+/**
+ * Before/after checklist for the project's own upgrade range. Only builds on
+ * updates where the lockfile's previous version and the new version differ by
+ * major or minor — `null` otherwise, so selecting it on a fresh add is a no-op.
+ */
+export function migrationSection({ packageName, version, previousVersion, hasReleases, hasChangelog, hasDocs, hasApi, hasIssues, features, enabledSectionCount, overheadLines }: SectionContext): PromptSection | null {
+  if (!isMigrationRange(previousVersion, version))
+    return null
+  const from = semverParse(previousVersion!)!
+  const to = semverParse(version!)!
+  const range = `v${previousVersion} → v${version}`
+
+  const cmd = resolveSkilldCommand()
+  const searchHints: string[] = []
+  if (features?.search !== false) {
+    searchHints.push(
+      `\`${cmd} search "breaking" -p ${packageName}\``,
+      `\`${cmd} search "migration" -p ${packageName}\``,
+    )
+    if (to.major !== from.major)
+      searchHints.push(`\`${cmd} search "v${to.major}" -p ${packageName}\``)
+    else
+      searchHints.push(`\`${cmd} search "v${to.major}.${to.minor}" -p ${packageName}\``)
+  }
+
+  const referenceWeights: ReferenceWeight[] = []
+  if (hasReleases) {
+    referenceWeights.push({ name: 'Releases', path: './.skilld/releases/_INDEX.md', score: 10, useFor: `Primary source — only releases after v${previousVersion} up to v${version}` })
+  }
+  if (hasChangelog) {
+    referenceWeights.push({ name: 'Changelog', path: `./.skilld/${hasChangelog}`, score: 9, useFor: `Entries between the v${previousVersion} and v${version} headings` })
+  }
+  if (hasDocs) {
+    referenceWeights.push({ name: 'Docs', path: './.skilld/docs/', score: 6, useFor: 'Official migration/upgrade guides for this range' })
+  }
+  if (hasApi) {
+    referenceWeights.push({ name: 'API', path: './.skilld/api/_INDEX.md', score: 4, useFor: `Confirms the "after" API exists in v${version}` })
+  }
+  if (hasIssues) {
+    referenceWeights.push({ name: 'Issues', path: './.skilld/issues/_INDEX.md', score: 2, useFor: 'Upgrade regressions reported against the new version' })
+  }
+
+  const migrationMaxLines = maxLines(30, 80, enabledSectionCount, overheadLines)
+
+  return {
+    referenceWeights,
+
+    validate(content: string): SectionValidationWarning[] {
+      const warnings: SectionValidationWarning[] = [
+        ...checkLineCount(content, migrationMaxLines),
+        ...checkSparseness(content),
+        ...checkSourceCoverage(content, 0.8),
+        ...checkSourcePaths(content),
+        ...checkAbsolutePaths(content),
+      ]
+      const items = (content.match(CHECKLIST_ITEM_RE) || []).length
+      const beforeAfter = (content.match(BEFORE_AFTER_RE) || []).length
+      if (items > 0 && beforeAfter / items < 0.8)
+        warnings.push({ warning: `Only ${beforeAfter}/${items} checklist items have Before:/After: pairs` })
+      if (!MIGRATION_HEADING_RE.test(content))
+        warnings.push({ warning: 'Missing required "## Migration" heading' })
+      return warnings
+    },
+
+    task: `**Write a migration checklist for upgrading ${packageName} from v${previousVersion} to v${version}.** This project was on v${previousVersion} and just moved to v${version}; its existing code uses the old APIs. List exactly what must change in that code.
+
+Read ONLY release notes and changelog entries published after v${previousVersion} up to and including v${version}. Ignore anything at or before v${previousVersion} (already applied) and anything after v${version} (not installed).
+
+Find:
+- **Removed or renamed APIs** the old code still calls
+- **Signature and default changes** where old code compiles but behaves differently
+- **Config, option, or import path changes**
+- **Required follow-up steps** (codemods, peer dependency bumps, minimum runtime versions)
+${searchHints.length ? `\nSearch: ${searchHints.join(', ')}` : ''}${hasReleases ? `\n\n**Scan release history:** Read \`./.skilld/releases/_INDEX.md\` and open only the releases in the ${range} range.` : ''}`,
+
+    format: `<format-example note="Illustrative structure only — replace placeholder names with real ${packageName} APIs">
+## Migration (${range})
+
+Checklist for code written against v${previousVersion}.
+
+- [ ] Before: \`createClient(url, key)\` → After: \`createClient({ url, key })\` — positional args are ignored since v2.0 [source](./.skilld/releases/v2.0.0.md:L18)
+
+- [ ] Before: \`import { helper } from 'pkg/utils'\` → After: \`import { helper } from 'pkg'\` — subpath export removed [source](./.skilld/CHANGELOG.md#200)
+
+- [ ] Run \`npx pkg-codemod v2\` — Before: manual \`config.legacy = true\` → After: removed, the codemod rewrites call sites [source](./.skilld/docs/migration.md:L12:30)
+</format-example>
+
+Each item: an unchecked \`- [ ]\` box + \`Before:\` old usage + \`After:\` new usage + why + source link. All source links MUST use \`./.skilld/\` prefix and include a **section anchor** (\`#heading-slug\`) or **line reference** (\`:L<line>\` or \`:L<start>:<end>\`). Order items by impact: silent breakage first, then removals, then renames. Do NOT use emoji.`,
+
+    rules: [
+      `- **Migration:** ${maxItems(4, 12, enabledSectionCount)} checklist items, MAX ${migrationMaxLines} lines`,
+      `- **Heading MUST be \`## Migration (${range})\`**`,
+      `- **Range only:** every item must come from a release or changelog entry after v${previousVersion} and at or before v${version}. If you cannot place a change in that range, do NOT include it`,
+      '- **Every item MUST have a `[source](./.skilld/...)` link** with a section anchor or line reference',
+      '- Only include changes that require edits to existing code — skip new features the project doesn\'t need to adopt',
+      hasReleases ? '- Start with `./.skilld/releases/_INDEX.md` to list the releases in range, then read those release files' : '',
+      hasChangelog ? `- Scan ${hasChangelog} between the v${previousVersion} and v${version} headings only` : '',
+      !hasReleases && !hasChangelog ? '- No release notes or changelog are indexed: rely on migration/upgrade guides in docs and keep the checklist short' : '',
+    ].filter(Boolean),
+  }
+}
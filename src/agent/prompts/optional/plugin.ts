@@ -0,0 +1,54 @@
+import type { ProjectSectionConfig } from '../../../core/project-config.ts'
+import type { PromptSection, SectionContext, SectionValidationWarning } from './types.ts'
+import { maxItems, maxLines } from './budget.ts'
+import { checkAbsolutePaths, checkLineCount, checkSourceCoverage, checkSourcePaths, checkSparseness } from './validate.ts'
+
+const REGEX_SPECIAL_RE = /[.*+?^${}()|[\]\\]/g
+
+/** Section declared in `skilld.config.json`: the team's prompt, budget and rules in the built-in section shape. */
+export function pluginSection(def: ProjectSectionConfig, { packageName, enabledSectionCount, overheadLines }: SectionContext): PromptSection {
+  const sectionMaxLines = maxLines(Math.min(30, def.maxLines ?? 80), def.maxLines ?? 80, enabledSectionCount, overheadLines)
+  const itemBudget = def.maxItems ? maxItems(Math.min(3, def.maxItems), def.maxItems, enabledSectionCount) : undefined
+  const headingRe = new RegExp(`^## ${def.heading.replace(REGEX_SPECIAL_RE, '\\$&')}\\s*$`, 'm')
+  const required = (def.validate?.require ?? []).map(p => new RegExp(p, 'm'))
+  const forbidden = (def.validate?.forbid ?? []).map(p => new RegExp(p, 'm'))
+
+  return {
+    validate(content: string): SectionValidationWarning[] {
+      const warnings: SectionValidationWarning[] = [
+        ...checkLineCount(content, sectionMaxLines),
+        ...checkSparseness(content),
+        ...checkSourceCoverage(content, def.validate?.sourceCoverage ?? 0.5),
+        ...checkSourcePaths(content),
+        ...checkAbsolutePaths(content),
+      ]
+      for (const re of required) {
+        if (!re.test(content))
+          warnings.push({ warning: `Output must match /${re.source}/` })
+      }
+      for (const re of forbidden) {
+        if (re.test(content))
+          warnings.push({ warning: `Output must not match /${re.source}/` })
+      }
+      if (!headingRe.test(content))
+        warnings.push({ warning: `Missing required "## ${def.heading}" heading` })
+      return warnings
+    },
+
+    task: `**${def.heading}** for ${packageName}:\n${def.prompt}`,
+
+    format: `\`\`\`
+## ${def.heading}
+
+- Concise, ${packageName}-specific items with code examples where they help [source](./.skilld/docs/guide.md#heading-slug)
+\`\`\`
+
+Source links MUST use the \`./.skilld/\` prefix and include a section anchor (\`#heading-slug\`) or line reference (\`:L<line>\`).`,
+
+    rules: [
+      `- **${def.heading}:** ${itemBudget ? `${itemBudget} items, ` : ''}MAX ${sectionMaxLines} lines, use \`## ${def.heading}\` heading`,
+      ...(def.validate?.require ?? []).map(p => `- Output must match \`/${p}/\``),
+      ...(def.validate?.forbid ?? []).map(p => `- Output must not match \`/${p}/\``),
+    ],
+  }
+}
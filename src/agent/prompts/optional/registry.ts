@@ -5,15 +5,32 @@
  *
  * Adding a new section is one new entry here plus the corresponding section
  * factory file under this directory. No edits to dispatch switches or
- * parallel constant tables.
+ * parallel constant tables. Projects add house sections at runtime through
+ * `registerSection` (see `skilld.config.json`); the derived tables below are
+ * kept in sync so plugins are merged exactly like built-ins.
  */
 
-import type { CustomPrompt, PromptSection, SectionContext } from './types.ts'
+import type { ProjectSectionConfig } from '../../../core/project-config.ts'
+import type { CustomPrompt, PromptSection, SectionContext, SectionGenerateContext } from './types.ts'
+import { defaultSectionOutputFile } from '../../../core/project-config.ts'
 import { apiChangesSection } from './api-changes.ts'
 import { bestPracticesSection } from './best-practices.ts'
 import { customSection } from './custom.ts'
+import { deprecationsSection } from './deprecations.ts'
+import { migrationSection } from './migration.ts'
+import { pluginSection } from './plugin.ts'
 
-export type SkillSection = 'api-changes' | 'best-practices' | 'custom'
+export type BuiltinSkillSection = 'api-changes' | 'migration' | 'deprecations' | 'best-practices' | 'custom'
+
+/**
+ * Id of a house section registered from `skilld.config.json`. Branded so a
+ * mistyped built-in id still fails to compile and switches over built-ins
+ * only need a `default` branch for plugins.
+ */
+export type PluginSectionId = string & { readonly __pluginSection: true }
+
+/** Built-in section ids plus any registered from project config */
+export type SkillSection = BuiltinSkillSection | PluginSectionId
 
 export interface SectionModule {
   id: SkillSection
@@ -21,15 +38,40 @@ export interface SectionModule {
   outputFile: string
   /** Build the `PromptSection` from context. Return `null` to skip (e.g. `custom` without a user prompt). */
   build: (ctx: SectionContext, customPrompt?: CustomPrompt) => PromptSection | null
+  /**
+   * Deterministic sections produce their content directly instead of via an
+   * LLM prompt (`build` returns null). Resolve null when there is nothing to add.
+   */
+  generate?: (ctx: SectionGenerateContext) => Promise<string | null>
+  /**
+   * Output depends on more than the package version (e.g. the `migration`
+   * old → new range), so it never reuses the version-keyed references cache.
+   */
+  rangeSpecific?: boolean
+  /** Fixed `## ` heading — lets `skilld validate` infer the section of a registered plugin */
+  heading?: string
+  /** Registered sections only: selected when sections aren't picked interactively */
+  selectedByDefault?: boolean
 }
 
-/** Order of this array is the SKILL.md merge order. */
-export const SECTIONS: readonly SectionModule[] = [
+const sections: SectionModule[] = [
   {
     id: 'api-changes',
     outputFile: '_API_CHANGES.md',
     build: ctx => apiChangesSection(ctx),
   },
+  {
+    id: 'migration',
+    outputFile: '_MIGRATION.md',
+    build: ctx => migrationSection(ctx),
+    rangeSpecific: true,
+  },
+  {
+    id: 'deprecations',
+    outputFile: '_DEPRECATIONS.md',
+    build: () => null,
+    generate: ctx => deprecationsSection(ctx),
+  },
   {
     id: 'best-practices',
     outputFile: '_BEST_PRACTICES.md',
@@ -44,12 +86,109 @@ export const SECTIONS: readonly SectionModule[] = [
   },
 ]
 
-export const SECTION_OUTPUT_FILES = Object.fromEntries(
-  SECTIONS.map(s => [s.id, s.outputFile]),
-) as Record<SkillSection, string>
+const BUILTIN_SECTION_IDS = new Set<SkillSection>(sections.map(s => s.id))
 
-export const SECTION_MERGE_ORDER: SkillSection[] = SECTIONS.map(s => s.id)
+/** Order of this array is the SKILL.md merge order. */
+export const SECTIONS: readonly SectionModule[] = sections
+
+export const SECTION_OUTPUT_FILES: Record<SkillSection, string> = {} as Record<BuiltinSkillSection, string>
+
+export const SECTION_MERGE_ORDER: SkillSection[] = []
+
+/** Rebuild the derived tables in place so existing imports see registered sections. */
+function syncDerivedTables(): void {
+  for (const id of Object.keys(SECTION_OUTPUT_FILES) as SkillSection[])
+    delete SECTION_OUTPUT_FILES[id]
+  for (const s of sections)
+    SECTION_OUTPUT_FILES[s.id] = s.outputFile
+  SECTION_MERGE_ORDER.splice(0, SECTION_MERGE_ORDER.length, ...sections.map(s => s.id))
+}
+syncDerivedTables()
 
 export function getSectionModule(id: SkillSection): SectionModule | undefined {
   return SECTIONS.find(s => s.id === id)
 }
+
+/** File a section writes to inside `.skilld/` (`_<ID>.md` for ids no longer registered) */
+export function getSectionOutputFile(id: SkillSection): string {
+  return SECTION_OUTPUT_FILES[id] ?? defaultSectionOutputFile(id)
+}
+
+/** True for sections that generate content without an LLM. */
+export function isDeterministicSection(id: SkillSection): boolean {
+  return !!getSectionModule(id)?.generate
+}
+
+/** True for sections registered from project config rather than built in. */
+export function isPluginSection(id: SkillSection): id is PluginSectionId {
+  return !BUILTIN_SECTION_IDS.has(id)
+}
+
+/**
+ * True for sections whose output can be shared across projects on the same
+ * package version. House sections depend on the project's prompt and config,
+ * so they only reuse the prompt-hashed LLM cache.
+ */
+export function isVersionCachedSection(id: SkillSection): boolean {
+  return !isPluginSection(id) && !getSectionModule(id)?.rangeSpecific
+}
+
+/** Sections registered at runtime (project plugins), in merge order. */
+export function getRegisteredSections(): SectionModule[] {
+  return sections.filter(s => isPluginSection(s.id))
+}
+
+/**
+ * Add a section to the registry. It merges after `after` when given, else
+ * before `custom` so the user's one-off section stays last. Returns a function
+ * that removes it again.
+ */
+export function registerSection(module: SectionModule, opts: { after?: SkillSection } = {}): () => void {
+  if (getSectionModule(module.id))
+    throw new Error(`Section "${module.id}" already exists`)
+  const owner = sections.find(s => s.outputFile === module.outputFile)
+  if (owner)
+    throw new Error(`Output file ${module.outputFile} is already used by "${owner.id}"`)
+  let index = sections.findIndex(s => s.id === 'custom')
+  if (opts.after) {
+    index = sections.findIndex(s => s.id === opts.after) + 1
+    if (index === 0)
+      throw new Error(`Unknown section "${opts.after}" in "after"`)
+  }
+  sections.splice(index, 0, module)
+  syncDerivedTables()
+  return () => {
+    const i = sections.indexOf(module)
+    if (i !== -1) {
+      sections.splice(i, 1)
+      syncDerivedTables()
+    }
+  }
+}
+
+/**
+ * Register house sections from `skilld.config.json`. Entries that clash with
+ * an existing section are reported and skipped.
+ */
+export function registerProjectSections(defs: ProjectSectionConfig[]): { registered: PluginSectionId[], errors: string[], unregister: () => void } {
+  const registered: PluginSectionId[] = []
+  const errors: string[] = []
+  const disposers: Array<() => void> = []
+  for (const def of defs) {
+    const id = def.id as PluginSectionId
+    try {
+      disposers.push(registerSection({
+        id,
+        outputFile: def.outputFile!,
+        build: ctx => pluginSection(def, ctx),
+        heading: def.heading,
+        selectedByDefault: def.default !== false,
+      }, { after: def.after as SkillSection | undefined }))
+      registered.push(id)
+    }
+    catch (err) {
+      errors.push(`sections["${def.id}"]: ${(err as Error).message}`)
+    }
+  }
+  return { registered, errors, unregister: () => disposers.reverse().forEach(d => d()) }
+}
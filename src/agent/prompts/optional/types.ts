@@ -26,12 +26,16 @@ export interface PromptSection {
 export interface SectionContext {
   packageName: string
   version?: string
+  /** Version recorded in the lockfile before this update — gates the `migration` section */
+  previousVersion?: string
   hasIssues?: boolean
   hasDiscussions?: boolean
   hasReleases?: boolean
   hasChangelog?: string | false
   /** Whether a docs directory exists in .skilld/ */
   hasDocs?: boolean
+  /** Whether an api/ reference (extracted from .d.ts) exists in .skilld/ */
+  hasApi?: boolean
   /** Key files from the package (e.g., dist/pkg.d.ts) — empty when no pkg dir (git skills) */
   pkgFiles?: string[]
   features?: FeaturesConfig
@@ -47,3 +51,13 @@ export interface CustomPrompt {
   heading: string
   body: string
 }
+
+/** Input for deterministic (non-LLM) sections */
+export interface SectionGenerateContext {
+  packageName: string
+  version?: string
+  /** Skill directory; the installed package is linked at `.skilld/pkg` */
+  skillDir: string
+  /** Project directory, for its `.npmrc` */
+  cwd?: string
+}
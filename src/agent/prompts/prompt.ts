@@ -3,20 +3,21 @@
  */
 
 import type { FeaturesConfig } from '../../core/config.ts'
-import type { CustomPrompt, SectionContext, SectionValidationWarning } from './optional/index.ts'
+import type { CustomPrompt, SectionContext, SectionGenerateContext, SectionValidationWarning } from './optional/index.ts'
 import type { SkillSection } from './optional/registry.ts'
 import { dirname } from 'pathe'
 import { resolveSkilldCommand } from '../../core/skilld-command.ts'
 import { getPackageRules } from '../../sources/package-registry.ts'
-import { getSectionModule, SECTION_MERGE_ORDER, SECTION_OUTPUT_FILES } from './optional/registry.ts'
+import { isMigrationRange } from './optional/migration.ts'
+import { getSectionModule, getSectionOutputFile, isDeterministicSection, SECTION_MERGE_ORDER } from './optional/registry.ts'
 
 const STATIC_REGEX_1 = /v\d+\.(\d+)\.(\d+)\.md$/
 const STATIC_REGEX_2 = /[^`]*\/\.skilld\//
 const STATIC_REGEX_3 = /\n## Output\n[\s\S]*$/
 const STATIC_REGEX_4 = /\n## Search\n[\s\S]*?(?=\n\n(?:\||## |<|\*\*))/
 
-export type { SkillSection } from './optional/registry.ts'
-export { SECTION_MERGE_ORDER, SECTION_OUTPUT_FILES } from './optional/registry.ts'
+export type { BuiltinSkillSection, PluginSectionId, SectionModule, SkillSection } from './optional/registry.ts'
+export { getRegisteredSections, getSectionOutputFile, isDeterministicSection, isPluginSection, isVersionCachedSection, registerProjectSections, registerSection, SECTION_MERGE_ORDER, SECTION_OUTPUT_FILES } from './optional/registry.ts'
 
 /** Wrap section content with HTML comment markers for targeted re-assembly */
 export function wrapSection(section: SkillSection, content: string): string {
@@ -43,6 +44,8 @@ export interface BuildSkillPromptOptions {
   skillDir: string
   /** Package version (e.g., "3.5.13") */
   version?: string
+  /** Lockfile version before this update — enables the `migration` section on major/minor bumps */
+  previousVersion?: string
   /** Has GitHub issues indexed */
   hasIssues?: boolean
   /** Has GitHub discussions indexed */
@@ -82,12 +85,13 @@ function formatDocTree(files: string[]): string {
   return [...dirs.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([dir, count]) => `- \`${dir}/\` (${count} .md files)`).join('\n')
 }
 
-function generateImportantBlock({ packageName, hasIssues, hasDiscussions, hasReleases, hasChangelog, docsType, hasShippedDocs, skillDir, features, pkgFiles }: {
+function generateImportantBlock({ packageName, hasIssues, hasDiscussions, hasReleases, hasChangelog, hasApi, docsType, hasShippedDocs, skillDir, features, pkgFiles }: {
   packageName: string
   hasIssues?: boolean
   hasDiscussions?: boolean
   hasReleases?: boolean
   hasChangelog?: string | false
+  hasApi?: boolean
   docsType: string
   hasShippedDocs: boolean
   skillDir: string
@@ -112,6 +116,9 @@ function generateImportantBlock({ packageName, hasIssues, hasDiscussions, hasRel
   if (typesFile) {
     rows.push(['Types', `\`${skillDir}/.skilld/pkg/${typesFile}\` — **read this file directly** to verify exports`])
   }
+  if (hasApi) {
+    rows.push(['API', `\`${skillDir}/.skilld/api/\` — exported signatures, JSDoc and deprecations`])
+  }
   if (hasIssues) {
     rows.push(['Issues', `\`${skillDir}/.skilld/issues/\``])
   }
@@ -151,7 +158,8 @@ function buildPreamble(opts: BuildSkillPromptOptions & { versionContext: string
     ? `<external-docs>\n**Documentation** (use Read tool to explore):\n${formatDocTree(docFiles)}\n</external-docs>`
     : ''
 
-  const importantBlock = generateImportantBlock({ packageName, hasIssues, hasDiscussions, hasReleases, hasChangelog, docsType, hasShippedDocs, skillDir, features: opts.features, pkgFiles: opts.pkgFiles })
+  const hasApi = !!docFiles?.some(f => f.includes('/.skilld/api/'))
+  const importantBlock = generateImportantBlock({ packageName, hasIssues, hasDiscussions, hasReleases, hasChangelog, hasApi, docsType, hasShippedDocs, skillDir, features: opts.features, pkgFiles: opts.pkgFiles })
 
   return `Generate SKILL.md section for "${packageName}"${versionContext}.
 
@@ -176,7 +184,9 @@ function getSectionDef(section: SkillSection, ctx: SectionContext, customPrompt?
  */
 export function getSectionValidator(section: SkillSection): ((content: string) => SectionValidationWarning[]) | null {
   const ctx: SectionContext = { packageName: '' }
-  // Custom needs a dummy prompt to instantiate
+  // Custom needs a dummy prompt, migration a version range to instantiate
+  if (section === 'migration')
+    Object.assign(ctx, { previousVersion: '0.0.0', version: '1.0.0' })
   const customPrompt = section === 'custom' ? { heading: 'Custom', body: '' } : undefined
   const def = getSectionDef(section, ctx, customPrompt)
   return def?.validate ?? null
@@ -192,6 +202,7 @@ export function buildSectionPrompt(opts: BuildSkillPromptOptions & { section: Sk
   const preamble = buildPreamble({ ...opts, versionContext })
 
   const hasDocs = !!opts.docFiles?.some(f => f.includes('/docs/'))
+  const hasApi = !!opts.docFiles?.some(f => f.includes('/.skilld/api/'))
   // Count significant (major/minor) releases — patch releases excluded from budget signal
   const releaseCount = opts.docFiles?.filter((f) => {
     if (!f.includes('/releases/'))
@@ -199,12 +210,12 @@ export function buildSectionPrompt(opts: BuildSkillPromptOptions & { section: Sk
     const m = f.match(STATIC_REGEX_1)
     return m && (m[1] === '0' || m[2] === '0') // major (x.0.y) or minor (x.y.0)
   }).length
-  const ctx: SectionContext = { packageName, version, hasIssues, hasDiscussions, hasReleases, hasChangelog, hasDocs, pkgFiles: opts.pkgFiles, features: opts.features, enabledSectionCount: opts.enabledSectionCount, releaseCount, overheadLines: opts.overheadLines }
+  const ctx: SectionContext = { packageName, version, previousVersion: opts.previousVersion, hasIssues, hasDiscussions, hasReleases, hasChangelog, hasDocs, hasApi, pkgFiles: opts.pkgFiles, features: opts.features, enabledSectionCount: opts.enabledSectionCount, releaseCount, overheadLines: opts.overheadLines }
   const sectionDef = getSectionDef(section, ctx, customPrompt)
   if (!sectionDef)
     return ''
 
-  const outputFile = SECTION_OUTPUT_FILES[section]
+  const outputFile = getSectionOutputFile(section)
   const packageRules = getPackageRules(packageName)
   const rules = [
     ...(sectionDef.rules ?? []),
@@ -212,7 +223,7 @@ export function buildSectionPrompt(opts: BuildSkillPromptOptions & { section: Sk
     `- **NEVER fetch external URLs.** All information is in the local \`./.skilld/\` directory. Use Read, Glob${opts.features?.search !== false ? ', and `skilld search`' : ''} only.`,
     '- **Do NOT use Task tool or spawn subagents.** Work directly.',
     '- **Do NOT re-read files** you have already read in this session.',
-    '- **Read `_INDEX.md` first** in docs/issues/releases/discussions — only drill into files that look relevant. Skip stub/placeholder files.',
+    '- **Read `_INDEX.md` first** in docs/api/issues/releases/discussions — only drill into files that look relevant. Skip stub/placeholder files.',
     '- **Skip files starting with `PROMPT_`** — these are generation prompts, not reference material.',
     '- **Stop exploring once you have enough high-quality items** to fill the budget. Do not read additional files just to be thorough.',
     opts.pkgFiles?.some(f => f.endsWith('.d.ts'))
@@ -253,14 +264,30 @@ After writing, run \`${cmd} validate ${skillDir}/.skilld/${outputFile}\` and fix
  */
 export function buildAllSectionPrompts(opts: BuildSkillPromptOptions & { sections: SkillSection[] }): Map<SkillSection, string> {
   const result = new Map<SkillSection, string>()
-  for (const section of opts.sections) {
-    const prompt = buildSectionPrompt({ ...opts, section, enabledSectionCount: opts.sections.length })
+  // Deterministic sections don't share the LLM line budget, nor does migration outside a major/minor update
+  const llmSections = opts.sections.filter(s => !isDeterministicSection(s) && (s !== 'migration' || isMigrationRange(opts.previousVersion, opts.version)))
+  for (const section of llmSections) {
+    const prompt = buildSectionPrompt({ ...opts, section, enabledSectionCount: llmSections.length })
     if (prompt)
       result.set(section, prompt)
   }
   return result
 }
 
+/**
+ * Produce content for the selected deterministic (non-LLM) sections.
+ * Sections that fail or have nothing to add are omitted.
+ */
+export async function generateDeterministicSections(ctx: SectionGenerateContext, sections: SkillSection[]): Promise<Map<SkillSection, string>> {
+  const result = new Map<SkillSection, string>()
+  for (const section of sections) {
+    const content = await getSectionModule(section)?.generate?.(ctx).catch(() => null)
+    if (content)
+      result.set(section, content)
+  }
+  return result
+}
+
 /**
  * Transform an agent-specific prompt into a portable prompt for any LLM.
  * - Rewrites .skilld/ paths → ./references/
@@ -304,7 +331,7 @@ export function portabilizePrompt(prompt: string, section?: SkillSection): strin
 
   // Add portable output instruction
   out = out.trimEnd()
-  const outputFile = section ? SECTION_OUTPUT_FILES[section] : undefined
+  const outputFile = section ? getSectionOutputFile(section) : undefined
   out += `\n\n## Output\n\nOutput the section content as plain markdown. Do not wrap in code fences.\n`
   if (outputFile) {
     out += `\nSave your output as \`${outputFile}\`, then run:\n\n\`\`\`bash\nskilld assemble\n\`\`\`\n`
@@ -30,6 +30,8 @@ export interface SkillOptions {
   hasDiscussions?: boolean
   hasReleases?: boolean
   hasChangelog?: string | false
+  /** `api/` reference generated from `.d.ts` files */
+  hasApi?: boolean
   docsType?: 'llms.txt' | 'readme' | 'docs'
   hasShippedDocs?: boolean
   /** Key files in package (entry points + docs) */
@@ -84,7 +86,7 @@ function formatShortDate(isoDate: string): string {
   return `${months[date.getUTCMonth()]} ${date.getUTCFullYear()}`
 }
 
-function generatePackageHeader({ name, version, distTags, repoUrl, hasIssues, hasDiscussions, hasReleases, docsType, pkgFiles, packages, eject }: SkillOptions): string {
+function generatePackageHeader({ name, version, distTags, repoUrl, hasIssues, hasDiscussions, hasReleases, hasApi, docsType, pkgFiles, packages, eject }: SkillOptions): string {
   const versionSuffix = version ? `@${version}` : ''
   let title = `# ${name}${versionSuffix}`
   if (repoUrl) {
@@ -123,6 +125,8 @@ function generatePackageHeader({ name, version, distTags, repoUrl, hasIssues, ha
   }
   if (docsType && docsType !== 'readme')
     refs.push(`[Docs](${refBase}/docs/_INDEX.md)`)
+  if (hasApi)
+    refs.push(`[API](${refBase}/api/_INDEX.md)`)
   if (hasIssues)
     refs.push(`[Issues](${refBase}/issues/_INDEX.md)`)
   if (hasDiscussions)
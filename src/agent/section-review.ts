@@ -0,0 +1,399 @@
+/**
+ * Per-bullet review of regenerated SKILL.md sections (`skilld update --review`).
+ *
+ * A section body is split into a preamble (heading + intro) and items: list
+ * bullets with their code blocks, plus standalone paragraphs such as the
+ * "**Also changed:**" line. Old and new items are paired by exact text, then by
+ * word overlap, giving added / removed / changed entries the user accepts or
+ * rejects. Rejected changes keep the old text in place.
+ *
+ * The review file is a markdown checklist: `[x]` accepts a change, and editing
+ * its `+` lines replaces the proposed text.
+ */
+
+import type { SkillSection } from './prompts/index.ts'
+import { extractMarkedSections, SECTION_MERGE_ORDER, wrapSection } from './prompts/index.ts'
+
+export type ReviewChangeKind = 'added' | 'removed' | 'changed'
+
+export interface ReviewChange {
+  /** `<section>#<n>` — how the review file refers to this change */
+  id: string
+  section: SkillSection
+  kind: ReviewChangeKind
+  /** Current item (removed / changed) */
+  before?: string
+  /** Proposed item (added / changed) */
+  after?: string
+  /** The current item isn't in the accepted baseline, i.e. it was edited by hand since the last review */
+  edited: boolean
+}
+
+export interface SectionReview {
+  section: SkillSection
+  /** Section content before the update */
+  before: string
+  /** Regenerated section content (equals `before` when the section wasn't regenerated) */
+  after: string
+  changes: ReviewChange[]
+}
+
+export interface ReviewDecision {
+  accept: boolean
+  /** Replacement for the proposed item, from an edited review file */
+  text?: string
+}
+
+interface SplitSection {
+  preamble: string
+  items: string[]
+}
+
+/** One change, by item index into the old / new item lists */
+interface PlannedChange {
+  kind: ReviewChangeKind
+  oldIndex?: number
+  newIndex?: number
+}
+
+interface SectionPlan {
+  oldItems: string[]
+  newItems: string[]
+  /** new item index → old item index, for items that didn't change */
+  same: Map<number, number>
+  /** Changes in review order: new-item order, then removals in old-item order */
+  changes: PlannedChange[]
+}
+
+const ITEM_START_RE = /^(?:[-*+]|\d+\.)\s/
+const FENCE_RE = /^\s*(?:```|~~~)/
+const INDENTED_RE = /^\s/
+const WHITESPACE_RE = /\s+/g
+const WORD_RE = /[a-z0-9_$]+/g
+const FIRST_CODE_SPAN_RE = /`([^`\n]+)`/
+const BLANK_LINE_ITEM_RE = /\n\n(?:[-*+]|\d+\.)\s/
+const REVIEW_ENTRY_RE = /^- \[([ x])\] ([a-z0-9-]+#\d+)\b/i
+const REVIEW_ADDED_LINE_RE = /^\+ ?/
+const REVIEW_INDENT_RE = /^ {2}/
+
+/** Items sharing at least this share of words are treated as one item rewritten */
+const CHANGED_MIN_OVERLAP = 0.5
+/** Lower bar when both items lead with the same inline code (usually the API name) */
+const CHANGED_MIN_OVERLAP_SAME_API = 0.25
+
+function normalize(text: string): string {
+  return text.replace(WHITESPACE_RE, ' ').trim()
+}
+
+/** Split a section body into its preamble and top-level items. */
+export function splitSectionItems(content: string): SplitSection {
+  const preamble: string[] = []
+  const items: string[][] = []
+  let current: string[] | null = null
+  let inFence = false
+  let prevBlank = false
+
+  for (const line of content.split('\n')) {
+    const blank = !line.trim()
+    const startsItem = !inFence && (ITEM_START_RE.test(line)
+      || (!!current && prevBlank && !blank && !INDENTED_RE.test(line) && !FENCE_RE.test(line)))
+    if (startsItem) {
+      current = [line]
+      items.push(current)
+    }
+    else {
+      (current ?? preamble).push(line)
+    }
+    if (FENCE_RE.test(line))
+      inFence = !inFence
+    prevBlank = blank
+  }
+
+  return {
+    preamble: preamble.join('\n').trim(),
+    items: items.map(lines => lines.join('\n').trim()),
+  }
+}
+
+function joinSectionItems(preamble: string, items: string[], separator: string): string {
+  const body = items.join(separator)
+  return [preamble, body].filter(Boolean).join('\n\n')
+}
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(WORD_RE) ?? [])
+}
+
+function overlap(a: Set<string>, b: Set<string>): number {
+  let shared = 0
+  for (const w of a) {
+    if (b.has(w))
+      shared++
+  }
+  const union = a.size + b.size - shared
+  return union === 0 ? 0 : shared / union
+}
+
+function planSection(before: string, after: string): SectionPlan {
+  const oldItems = splitSectionItems(before).items
+  const newItems = splitSectionItems(after).items
+  const same = new Map<number, number>()
+  const changed = new Map<number, number>()
+  const usedOld = new Set<number>()
+
+  const oldNorm = oldItems.map(normalize)
+  newItems.forEach((item, j) => {
+    const text = normalize(item)
+    const i = oldNorm.findIndex((o, i) => o === text && !usedOld.has(i))
+    if (i !== -1) {
+      same.set(j, i)
+      usedOld.add(i)
+    }
+  })
+
+  const candidates: Array<{ i: number, j: number, score: number }> = []
+  const oldWords = oldItems.map(words)
+  newItems.forEach((item, j) => {
+    if (same.has(j))
+      return
+    const newWords = words(item)
+    const api = item.match(FIRST_CODE_SPAN_RE)?.[1]
+    oldItems.forEach((oldItem, i) => {
+      if (usedOld.has(i))
+        return
+      const score = overlap(oldWords[i]!, newWords)
+      const min = api && oldItem.match(FIRST_CODE_SPAN_RE)?.[1] === api ? CHANGED_MIN_OVERLAP_SAME_API : CHANGED_MIN_OVERLAP
+      if (score >= min)
+        candidates.push({ i, j, score })
+    })
+  })
+  for (const { i, j } of candidates.sort((a, b) => b.score - a.score)) {
+    if (usedOld.has(i) || changed.has(j))
+      continue
+    changed.set(j, i)
+    usedOld.add(i)
+  }
+
+  const changes: PlannedChange[] = []
+  newItems.forEach((_, j) => {
+    if (!same.has(j))
+      changes.push({ kind: changed.has(j) ? 'changed' : 'added', oldIndex: changed.get(j), newIndex: j })
+  })
+  oldItems.forEach((_, i) => {
+    if (!usedOld.has(i))
+      changes.push({ kind: 'removed', oldIndex: i })
+  })
+  return { oldItems, newItems, same, changes }
+}
+
+/**
+ * Diff one section. `baseline` is the last accepted content — current items
+ * missing from it are flagged `edited` so changes to them aren't accepted by default.
+ */
+export function diffSection(section: SkillSection, before: string, after: string, baseline?: string): SectionReview {
+  const { oldItems, newItems, changes } = planSection(before, after)
+  const accepted = baseline != null ? new Set(splitSectionItems(baseline).items.map(normalize)) : null
+  return {
+    section,
+    before,
+    after,
+    changes: changes.map(({ kind, oldIndex, newIndex }, n) => ({
+      id: `${section}#${n + 1}`,
+      section,
+      kind,
+      before: oldIndex != null ? oldItems[oldIndex] : undefined,
+      after: newIndex != null ? newItems[newIndex] : undefined,
+      edited: oldIndex != null && !!accepted && !accepted.has(normalize(oldItems[oldIndex]!)),
+    })),
+  }
+}
+
+/** Review every section present before or after the update, in merge order. */
+export function reviewSections(
+  before: Map<SkillSection, string>,
+  after: Map<SkillSection, string>,
+  baseline?: Map<SkillSection, string>,
+): SectionReview[] {
+  const reviews: SectionReview[] = []
+  for (const section of SECTION_MERGE_ORDER) {
+    const old = before.get(section)
+    const next = after.get(section)
+    if (next == null) {
+      // Not regenerated this run (deselected, skipped by budget, failed): keep as is
+      if (old != null)
+        reviews.push({ section, before: old, after: old, changes: [] })
+      continue
+    }
+    reviews.push(diffSection(section, old ?? '', next, baseline?.get(section)))
+  }
+  return reviews
+}
+
+/** Accept everything except changes to hand-edited items. */
+export function isAcceptedByDefault(change: ReviewChange): boolean {
+  return !change.edited
+}
+
+/** Section content after applying `decisions`; changes without a decision fall back to the default. */
+export function mergeSectionReview(review: SectionReview, decisions: Map<string, ReviewDecision> = new Map()): string {
+  if (review.changes.length === 0)
+    return review.after
+
+  const { oldItems, newItems, same, changes } = planSection(review.before, review.after)
+  const decide = (n: number): ReviewDecision => {
+    const change = review.changes[n]
+    return (change && decisions.get(change.id)) ?? { accept: !change || isAcceptedByDefault(change) }
+  }
+
+  // Merged items, tagged with the old item they stand for so kept removals can be re-anchored
+  const merged: Array<{ text: string, oldIndex?: number }> = []
+  const byNewIndex = new Map(changes.map((c, n) => [c.newIndex, n]))
+  newItems.forEach((item, j) => {
+    const sameIndex = same.get(j)
+    if (sameIndex != null) {
+      merged.push({ text: oldItems[sameIndex]!, oldIndex: sameIndex })
+      return
+    }
+    const n = byNewIndex.get(j)!
+    const { oldIndex } = changes[n]!
+    const decision = decide(n)
+    if (decision.accept)
+      merged.push({ text: decision.text ?? item, oldIndex })
+    else if (oldIndex != null)
+      merged.push({ text: oldItems[oldIndex]!, oldIndex })
+  })
+
+  changes.forEach(({ kind, oldIndex }, n) => {
+    if (kind !== 'removed' || decide(n).accept)
+      return
+    // Keep it after the nearest preceding old item still in the output
+    let at = 0
+    merged.forEach((m, pos) => {
+      if (m.oldIndex != null && m.oldIndex < oldIndex!)
+        at = pos + 1
+    })
+    merged.splice(at, 0, { text: oldItems[oldIndex!]!, oldIndex })
+  })
+
+  const separator = BLANK_LINE_ITEM_RE.test(review.after) || BLANK_LINE_ITEM_RE.test(review.before) ? '\n\n' : '\n'
+  const preamble = splitSectionItems(review.after).preamble || splitSectionItems(review.before).preamble
+  return joinSectionItems(preamble, merged.map(m => m.text), separator)
+}
+
+/** Section contents (without markers) from a SKILL.md. */
+export function readMarkedSections(md: string): Map<SkillSection, string> {
+  const sections = new Map<SkillSection, string>()
+  for (const [section, { start, end }] of extractMarkedSections(md)) {
+    const open = `<!-- skilld:${section} -->`
+    const close = `<!-- /skilld:${section} -->`
+    sections.set(section, md.slice(start + open.length, end - close.length).trim())
+  }
+  return sections
+}
+
+/**
+ * Write `sections` into a SKILL.md: existing marked sections are replaced in
+ * place, missing ones go after the previous section in merge order (or before
+ * the `Related:` footer when the body has none yet). An empty string removes
+ * the section.
+ */
+export function replaceMarkedSections(md: string, sections: Map<SkillSection, string>): string {
+  let result = md
+  for (const section of SECTION_MERGE_ORDER) {
+    const content = sections.get(section)
+    if (content == null)
+      continue
+    const markers = extractMarkedSections(result)
+    const existing = markers.get(section)
+    if (!content) {
+      if (existing) {
+        const rest = result.slice(existing.end).trimStart()
+        result = `${result.slice(0, existing.start).trimEnd()}\n${rest ? `\n${rest}` : ''}`
+      }
+      continue
+    }
+    const wrapped = wrapSection(section, content)
+    if (existing) {
+      result = result.slice(0, existing.start) + wrapped + result.slice(existing.end)
+      continue
+    }
+    const previous = [...markers.entries()]
+      .filter(([s]) => SECTION_MERGE_ORDER.indexOf(s) < SECTION_MERGE_ORDER.indexOf(section))
+      .sort((a, b) => b[1].end - a[1].end)[0]
+    if (previous) {
+      result = `${result.slice(0, previous[1].end)}\n\n${wrapped}${result.slice(previous[1].end)}`
+      continue
+    }
+    const next = [...markers.values()].sort((a, b) => a.start - b.start)[0]
+    const footer = result.lastIndexOf('\nRelated: ')
+    const at = next?.start ?? (footer !== -1 ? footer + 1 : -1)
+    result = at === -1
+      ? `${result.trimEnd()}\n\n${wrapped}\n`
+      : `${result.slice(0, at)}${wrapped}\n\n${result.slice(at)}`
+  }
+  return result
+}
+
+function diffLines(prefix: '+' | '-', text: string): string[] {
+  return text.split('\n').map(line => `  ${prefix} ${line}`.trimEnd())
+}
+
+/** Render reviews as an editable checklist, one entry per change. */
+export function formatReviewFile(reviews: SectionReview[], opts: { name: string, from?: string, to?: string, applyCommand: string }): string {
+  const range = opts.from && opts.to ? ` ${opts.from} → ${opts.to}` : opts.to ? ` ${opts.to}` : ''
+  const lines = [
+    `# Section review: ${opts.name}${range}`,
+    '',
+    `Tick \`[x]\` to accept a change, \`[ ]\` to keep the current text. Edit \`+\` lines to adjust what gets merged, then run \`${opts.applyCommand}\`.`,
+  ]
+  for (const review of reviews) {
+    if (review.changes.length === 0)
+      continue
+    lines.push('', `## ${review.section}`, '')
+    for (const change of review.changes) {
+      const note = change.edited ? ' (hand-edited)' : ''
+      // `~~~` so code blocks inside items don't close the diff fence
+      lines.push(`- [${isAcceptedByDefault(change) ? 'x' : ' '}] ${change.id} ${change.kind}${note}`, '  ~~~diff')
+      if (change.before != null)
+        lines.push(...diffLines('-', change.before))
+      if (change.after != null)
+        lines.push(...diffLines('+', change.after))
+      lines.push('  ~~~')
+    }
+  }
+  return `${lines.join('\n')}\n`
+}
+
+/** Decisions from an edited review file. Entries whose `+` lines changed carry the edited text. */
+export function parseReviewFile(content: string, reviews: SectionReview[]): Map<string, ReviewDecision> {
+  const changes = new Map(reviews.flatMap(r => r.changes.map(c => [c.id, c] as const)))
+  const decisions = new Map<string, ReviewDecision>()
+  let current: { id: string, accept: boolean, added: string[] } | null = null
+
+  const flush = () => {
+    if (!current)
+      return
+    const change = changes.get(current.id)
+    if (change) {
+      const text = current.added.join('\n').trim()
+      decisions.set(current.id, change.after != null && text && normalize(text) !== normalize(change.after)
+        ? { accept: current.accept, text }
+        : { accept: current.accept })
+    }
+    current = null
+  }
+
+  for (const line of content.split('\n')) {
+    const entry = line.match(REVIEW_ENTRY_RE)
+    if (entry) {
+      flush()
+      current = { id: entry[2]!, accept: entry[1]!.toLowerCase() === 'x', added: [] }
+      continue
+    }
+    const body = line.replace(REVIEW_INDENT_RE, '')
+    if (current && line.startsWith('  ') && REVIEW_ADDED_LINE_RE.test(body))
+      current.added.push(body.replace(REVIEW_ADDED_LINE_RE, ''))
+  }
+  flush()
+  return decisions
+}
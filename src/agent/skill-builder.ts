@@ -23,9 +23,11 @@ import {
   buildAllSectionPrompts,
   createToolProgress,
   getModelLabel,
+  getSectionOutputFile,
+  isDeterministicSection,
+  isVersionCachedSection,
   optimizeDocs,
   SECTION_MERGE_ORDER,
-  SECTION_OUTPUT_FILES,
   wrapSection,
   writeGeneratedSkillMd,
 } from './index.ts'
@@ -53,6 +55,8 @@ export interface SkillReferences {
   hasDiscussions: boolean
   hasReleases: boolean
   hasChangelog: string | false
+  /** `api/` reference extracted from the package's `.d.ts` files */
+  hasApi?: boolean
 }
 
 /**
@@ -64,8 +68,12 @@ export interface SkillContext {
   packageName: string
   cachePackageName?: string
   version: string
+  /** Lockfile version this update replaces (set by `skilld update`) */
+  previousVersion?: string
   skillDir: string
   dirName?: string
+  /** Project directory, for its `.npmrc` */
+  cwd?: string
   references: SkillReferences
   resolved: ResolvedSkillMeta
   relatedSkills: string[]
@@ -101,8 +109,8 @@ export async function runSkillEnhancement(
   run: EnhanceRunOptions,
   onProgress: (progress: StreamProgress) => void,
 ): Promise<OptimizeResult> {
-  const { packageName, cachePackageName, version, skillDir, dirName, resolved, relatedSkills, references, packages, features, overheadLines } = ctx
-  const { docsType, hasShippedDocs: shippedDocs, pkgFiles, hasIssues, hasDiscussions, hasReleases, hasChangelog } = references
+  const { packageName, cachePackageName, version, previousVersion, skillDir, dirName, cwd, resolved, relatedSkills, references, packages, features, overheadLines } = ctx
+  const { docsType, hasShippedDocs: shippedDocs, pkgFiles, hasIssues, hasDiscussions, hasReleases, hasChangelog, hasApi } = references
   const { model, force, debug, sections, customPrompt, eject } = run
   const cacheKey = cachePackageName || packageName
 
@@ -111,8 +119,10 @@ export async function runSkillEnhancement(
   const result = await optimizeDocs({
     packageName: cacheKey,
     skillDir,
+    cwd,
     model,
     version,
+    previousVersion,
     hasGithub,
     hasReleases,
     hasChangelog,
@@ -141,6 +151,7 @@ export async function runSkillEnhancement(
       hasDiscussions,
       hasReleases,
       hasChangelog,
+      hasApi,
       docsType,
       hasShippedDocs: shippedDocs,
       pkgFiles,
@@ -221,6 +232,7 @@ export function writeBaseSkill(ctx: SkillContext, opts: BaseSkillOptions = {}):
     hasDiscussions: references.hasDiscussions,
     hasReleases: references.hasReleases,
     hasChangelog: references.hasChangelog,
+    hasApi: references.hasApi,
     docsType: references.docsType,
     hasShippedDocs: references.hasShippedDocs,
     pkgFiles: references.pkgFiles,
@@ -237,12 +249,17 @@ export function writeBaseSkill(ctx: SkillContext, opts: BaseSkillOptions = {}):
  * If every section in `sections` has cached LLM output for this package,
  * assemble the body and write SKILL.md with `generated_by: cached`.
  *
- * Returns true when applied. Caller passes `DEFAULT_SECTIONS` (or an override)
+ * Returns true when applied. Caller passes `defaultSectionsFor()` (or an override)
  * so the agent layer doesn't need to know about command-layer defaults.
+ * Range-specific sections (e.g. migration) are never cached, so selecting one
+ * always falls through to generation.
  */
 export function applyCachedSections(ctx: SkillContext, sections: SkillSection[], opts: { eject?: boolean } = {}): boolean {
+  if (!sections.every(isVersionCachedSection))
+    return false
   const cache = createReferenceCache(ctx.cachePackageName || ctx.packageName, ctx.version)
-  const allCached = sections.every(s => cache.readSection(SECTION_OUTPUT_FILES[s]) !== null)
+  // Deterministic sections may legitimately have no output (e.g. nothing deprecated)
+  const allCached = sections.every(s => isDeterministicSection(s) || cache.readSection(getSectionOutputFile(s)) !== null)
   if (!allCached)
     return false
 
@@ -250,10 +267,12 @@ export function applyCachedSections(ctx: SkillContext, sections: SkillSection[],
   for (const s of SECTION_MERGE_ORDER) {
     if (!sections.includes(s))
       continue
-    const content = cache.readSection(SECTION_OUTPUT_FILES[s])
+    const content = cache.readSection(getSectionOutputFile(s))
     if (content)
       parts.push(wrapSection(s, content))
   }
+  if (parts.length === 0)
+    return false
   writeBaseSkill(ctx, { body: parts.join('\n\n'), generatedBy: 'cached', eject: opts.eject })
   return true
 }
@@ -263,13 +282,14 @@ export function applyCachedSections(ctx: SkillContext, sections: SkillSection[],
  * Returns the list of sections that had prompts written.
  */
 export function writePromptFiles(ctx: SkillContext, run: PromptRunOptions): SkillSection[] {
-  const { packageName, version, skillDir, references, features, overheadLines } = ctx
+  const { packageName, version, previousVersion, skillDir, references, features, overheadLines } = ctx
   const { sections, customPrompt } = run
   const docFiles = listReferenceFiles(skillDir)
   const prompts = buildAllSectionPrompts({
     packageName,
     skillDir,
     version,
+    previousVersion,
     hasIssues: references.hasIssues,
     hasDiscussions: references.hasDiscussions,
     hasReleases: references.hasReleases,
@@ -294,7 +314,7 @@ export function writePromptFiles(ctx: SkillContext, run: PromptRunOptions): Skil
   if (written.length > 0) {
     const relDir = relative(process.cwd(), skillDir)
     const promptFiles = written.map(s => `PROMPT_${s}.md`).join(', ')
-    const outputFileList = written.map(s => SECTION_OUTPUT_FILES[s]).join(', ')
+    const outputFileList = written.map(s => getSectionOutputFile(s)).join(', ')
     p.log.info(`Prompt files written to ${relDir}/.skilld/\n${styleText(['dim', 'italic'], `  Read each prompt file (${promptFiles}) in ${relDir}/.skilld/, read the\n  referenced files, then write your output to the matching file (${outputFileList}).\n  When done, run: skilld assemble`)}`)
   }
 
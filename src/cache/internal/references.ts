@@ -20,6 +20,7 @@ import { dirname, join } from 'pathe'
 import { defaultFeatures, readConfig } from '../../core/config.ts'
 import { getPackageDbPath, getRepoCacheDir, skillInternalDir } from '../../core/paths.ts'
 import { hasShippedDocs } from '../../core/prepare.ts'
+import { isIndexModelStale } from '../../retriv/index-meta.ts'
 import { classifyCachedDoc } from './classify.ts'
 import {
   clearCache,
@@ -79,7 +80,7 @@ export function forceClearCache(packageName: string, version: string, repoInfo?:
   }
 }
 
-/** Link all reference symlinks (pkg, docs, issues, discussions, releases) */
+/** Link all reference symlinks (pkg, docs, api, issues, discussions, releases) */
 export function linkAllReferences(skillDir: string, packageName: string, cwd: string, version: string, docsType: string, extraPackages?: Array<{ name: string, version?: string }>, features?: FeaturesConfig, repoInfo?: { owner: string, repo: string }): void {
   const f = features ?? readConfig().features ?? defaultFeatures
   try {
@@ -88,6 +89,7 @@ export function linkAllReferences(skillDir: string, packageName: string, cwd: st
     if (!hasShippedDocs(packageName, cwd, version) && docsType !== 'readme') {
       linkCachedDir(skillDir, packageName, version, 'docs')
     }
+    linkCachedDir(skillDir, packageName, version, 'api')
     // Issues/discussions/releases: use repo cache when available, else package cache
     if (f.issues) {
       if (repoInfo)
@@ -153,6 +155,7 @@ export function ejectReferences(skillDir: string, packageName: string, cwd: stri
   // Copy cached docs (skip pkg — eject is for portable sharing, pkg references node_modules)
   if (!hasShippedDocs(packageName, cwd, version) && docsType !== 'readme')
     copyCachedSubdir(cacheDir, refsDir, 'docs')
+  copyCachedSubdir(cacheDir, refsDir, 'api')
 
   if (f.issues)
     copyCachedSubdir(repoDir, refsDir, 'issues')
@@ -200,9 +203,9 @@ export function loadCachedReferences(opts: LoadCachedReferencesOptions): CachedR
   const docSource = detected.docSource ?? readmeUrl ?? 'readme'
   const docsToIndex: IndexDoc[] = []
 
-  // Load cached docs for indexing if db doesn't exist yet
+  // Load cached docs for indexing if db doesn't exist yet (or must be rebuilt for a new embedding model)
   const dbPath = getPackageDbPath(packageName, version)
-  if (!existsSync(dbPath)) {
+  if (!existsSync(dbPath) || isIndexModelStale(dbPath)) {
     onProgress('Reading cached docs for indexing')
     const cached = readCachedDocs(packageName, version)
     for (const doc of cached) {
@@ -11,9 +11,10 @@ import { agents, detectImportedPackages, detectInstalledAgents } from './agent/i
 import { promptForAgent, resolveAgent } from './cli/agent-prompt.ts'
 import { sharedArgs } from './cli/args.ts'
 import { isInteractive, isRunningInsideAgent } from './cli/env.ts'
-import { formatStatus, getRepoHint, relativeTime } from './cli/intro.ts'
+import { formatStatus, getManifestLabel, getRepoHint, relativeTime } from './cli/intro.ts'
 import { guard, menuLoop } from './cli/menu.ts'
 import { hasPrepareHook, suggestPrepareHook } from './cli/prepare-hook.ts'
+import { loadProjectSections } from './cli/project-sections.ts'
 import { configCommand, configCommandDef } from './commands/config.ts'
 import { removeCommand, removeCommandDef } from './commands/remove.ts'
 import { infoCommandDef, statusCommand } from './commands/status.ts'
@@ -59,7 +60,7 @@ function deprecatedForwarder(
 
 // ── Subcommands (lazy-loaded) ──
 
-const SUBCOMMAND_NAMES = ['add', 'eject', 'update', 'info', 'list', 'config', 'remove', 'install', 'uninstall', 'search', 'cache', 'validate', 'assemble', 'setup', 'prepare', 'author', 'publish', 'upload', 'login', 'logout', 'whoami', 'pull']
+const SUBCOMMAND_NAMES = ['add', 'eject', 'update', 'info', 'list', 'config', 'remove', 'install', 'uninstall', 'search', 'mcp', 'serve', 'watch', 'cache', 'cost', 'validate', 'assemble', 'setup', 'prepare', 'author', 'publish', 'upload', 'login', 'logout', 'whoami', 'pull']
 
 // ── Main command ──
 
@@ -72,6 +73,10 @@ const main = defineCommand({
   args: {
     agent: sharedArgs.agent,
   },
+  // Runs before subcommand dispatch, so every command sees the project's house sections
+  setup() {
+    loadProjectSections()
+  },
   subCommands: {
     add: () => import('./commands/sync/add.ts').then(m => m.addCommandDef),
     update: () => import('./commands/sync/update.ts').then(m => m.updateCommandDef),
@@ -83,7 +88,11 @@ const main = defineCommand({
     prepare: () => import('./commands/prepare.ts').then(m => m.prepareCommandDef),
     uninstall: () => import('./commands/uninstall.ts').then(m => m.uninstallCommandDef),
     search: () => import('./commands/search.ts').then(m => m.searchCommandDef),
+    mcp: () => import('./commands/mcp.ts').then(m => m.mcpCommandDef),
+    serve: () => import('./commands/serve.ts').then(m => m.serveCommandDef),
+    watch: () => import('./commands/watch.ts').then(m => m.watchCommandDef),
     cache: () => import('./commands/cache.ts').then(m => m.cacheCommandDef),
+    cost: () => import('./commands/cost.ts').then(m => m.costCommandDef),
     setup: () => import('./commands/wizard.ts').then(m => m.setupCommandDef),
     login: () => import('./commands/login.ts').then(m => m.loginCommandDef),
     logout: () => import('./commands/logout.ts').then(m => m.logoutCommandDef),
@@ -210,7 +219,8 @@ const main = defineCommand({
       // Transition to project setup
       const pkgJsonPath = join(cwd, 'package.json')
       const projectPkg = readPackageJsonSafe(pkgJsonPath)
-      const hasPkgJson = !!projectPkg
+      const manifestLabel = getManifestLabel(cwd)
+      const hasPkgJson = !!manifestLabel
       const projectName = projectPkg?.parsed.name as string | undefined
       const projectLabel = projectName
         ? `Generating skills for ${styleText('cyan', projectName)}`
@@ -218,7 +228,7 @@ const main = defineCommand({
       p.log.step(projectLabel)
 
       if (!hasPkgJson) {
-        p.log.warn('No package.json found - enter npm package names manually.\n  For best results, run skilld inside a JS/TS project directory.')
+        p.log.warn('No package.json or Cargo.toml found - enter npm package names manually.\n  For best results, run skilld inside a JS/TS project directory.')
       }
 
       if (state.shipped.length > 0) {
@@ -242,7 +252,7 @@ const main = defineCommand({
               options: [
                 ...shippedOption,
                 { label: 'Scan source files', value: 'imports', hint: 'find actually used imports' },
-                { label: 'Use package.json', value: 'deps', hint: `all ${state.deps.size} dependencies` },
+                { label: `Use ${manifestLabel}`, value: 'deps', hint: `all ${state.deps.size} dependencies` },
                 { label: 'Enter manually', value: 'manual' },
                 { label: 'Skip for now', value: 'skip', hint: 'add skills later with `skilld add <pkg>`' },
               ],
@@ -304,7 +314,7 @@ const main = defineCommand({
             const result = await detectImportedPackages(cwd)
 
             if (result.packages.length === 0) {
-              spinner.stop('No imports found, falling back to package.json')
+              spinner.stop(`No imports found, falling back to ${manifestLabel}`)
               usages = Array.from(state.deps.keys(), name => ({ name, count: 0 }))
             }
             else {
@@ -516,14 +526,15 @@ const main = defineCommand({
             ].filter(Boolean) as string[])
             const uninstalledDeps = [...state.deps.keys()].filter(d => !installedNames.has(d))
             const allDepsInstalled = uninstalledDeps.length === 0
-            const hasPkgJsonMenu = !!readPackageJsonSafe(join(cwd, 'package.json'))
+            const manifestLabelMenu = getManifestLabel(cwd)
+            const hasPkgJsonMenu = !!manifestLabelMenu
 
             const source = hasPkgJsonMenu
               ? guard(await p.select({
                   message: 'How should I find packages?',
                   options: [
                     { label: 'Scan source files', value: 'imports' as const, hint: allDepsInstalled ? 'all installed' : 'find actually used imports', disabled: allDepsInstalled },
-                    { label: 'Use package.json', value: 'deps' as const, hint: allDepsInstalled ? 'all installed' : `${uninstalledDeps.length} uninstalled`, disabled: allDepsInstalled },
+                    { label: `Use ${manifestLabelMenu}`, value: 'deps' as const, hint: allDepsInstalled ? 'all installed' : `${uninstalledDeps.length} uninstalled`, disabled: allDepsInstalled },
                     { label: 'Enter manually', value: 'manual' as const },
                   ],
                 }))
@@ -550,7 +561,7 @@ const main = defineCommand({
                 const result = await detectImportedPackages(cwd)
 
                 if (result.packages.length === 0) {
-                  spinner.stop('No imports found, falling back to package.json')
+                  spinner.stop(`No imports found, falling back to ${manifestLabelMenu}`)
                   usages = uninstalledDeps.map(name => ({ name, count: 0 }))
                 }
                 else {
@@ -1,5 +1,6 @@
 import type { AgentType } from '../agent/index.ts'
 import type { ProjectState } from '../core/skills.ts'
+import { existsSync } from 'node:fs'
 import { styleText } from 'node:util'
 import { join } from 'pathe'
 import { agents, detectInstalledAgents, getAgentVersion, getModelName } from '../agent/index.ts'
@@ -83,6 +84,12 @@ export function formatStatus(synced: number, outdated: number): string {
   return `Skills: ${parts.join(' · ')}`
 }
 
+/** Dependency manifests in `cwd` as a picker label (`package.json + Cargo.toml`), or null when there are none. */
+export function getManifestLabel(cwd: string): string | null {
+  const manifests = ['package.json', 'Cargo.toml'].filter(f => existsSync(join(cwd, f)))
+  return manifests.length > 0 ? manifests.join(' + ') : null
+}
+
 export function getRepoHint(name: string, cwd: string): string | undefined {
   const result = readPackageJsonSafe(join(cwd, 'node_modules', name, 'package.json'))
   if (!result)
@@ -0,0 +1,19 @@
+import { styleText } from 'node:util'
+import { relative } from 'pathe'
+import { registerProjectSections } from '../agent/index.ts'
+import { readProjectConfig } from '../core/project-config.ts'
+
+/**
+ * Register house sections from the nearest `skilld.config.json` before any
+ * command runs. Bad entries are skipped with a warning on stderr (stdout may
+ * be an MCP transport or `--json` output).
+ */
+export function loadProjectSections(cwd: string = process.cwd()): void {
+  const config = readProjectConfig(cwd)
+  if (!config)
+    return
+  const { errors } = registerProjectSections(config.sections)
+  const problems = [...config.errors, ...errors]
+  if (problems.length > 0)
+    console.warn(styleText('yellow', `⚠ Ignoring invalid sections in ${relative(cwd, config.path) || config.path}:\n  ${problems.join('\n  ')}`))
+}
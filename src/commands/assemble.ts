@@ -23,7 +23,10 @@ import { iterateSkills } from '../core/skills.ts'
 
 const STATIC_REGEX_4 = /^## .+$/m
 
-const OUTPUT_FILE_SET = new Set(Object.values(SECTION_OUTPUT_FILES))
+/** Read at call time so house sections registered from skilld.config.json are included */
+function isSectionOutputFile(file: string): boolean {
+  return Object.values(SECTION_OUTPUT_FILES).includes(file)
+}
 
 /**
  * Find installed skill dirs that have pending section output files.
@@ -31,7 +34,7 @@ const OUTPUT_FILE_SET = new Set(Object.values(SECTION_OUTPUT_FILES))
 function discoverSkillDirsWithOutputs(): string[] {
   const dirs: string[] = []
   for (const skill of iterateSkills({})) {
-    if (readdirSync(skill.dir).some(f => OUTPUT_FILE_SET.has(f)))
+    if (readdirSync(skill.dir).some(isSectionOutputFile))
       dirs.push(skill.dir)
   }
   return dirs
@@ -47,7 +50,7 @@ export async function assembleCommand(dir: string | undefined): Promise<void> {
   else {
     // Check cwd first — if it has SKILL.md + output files, use it
     if (existsSync(join(cwd, 'SKILL.md'))
-      && readdirSync(cwd).some(f => OUTPUT_FILE_SET.has(f))) {
+      && readdirSync(cwd).some(isSectionOutputFile)) {
       dirs = [cwd]
     }
     else {
@@ -23,7 +23,6 @@ import { appendToJsonArray, patchPackageJson, readPackageJsonSafe } from '../cor
 import { skillInternalDir } from '../core/paths.ts'
 import { GIT_PLUS_PREFIX_RE, GIT_SUFFIX_RE, README_FILENAME_RE } from '../core/regex.ts'
 import { sanitizeMarkdown } from '../core/sanitize.ts'
-import { parseGitHubUrl } from '../core/url.ts'
 import {
   fetchGitHubDiscussions,
   fetchGitHubIssues,
@@ -32,6 +31,7 @@ import {
   generateDiscussionIndex,
   generateIssueIndex,
   isGhAvailable,
+  parseGitHubRepo,
   readLocalPackageInfo,
 } from '../sources/index.ts'
 import { selectLlmConfig } from './llm-prompts.ts'
@@ -160,7 +160,7 @@ async function fetchRemoteSupplements(opts: {
   if (!repoUrl || !isGhAvailable())
     return { hasIssues: false, hasDiscussions: false }
 
-  const gh = parseGitHubUrl(repoUrl)
+  const gh = parseGitHubRepo(repoUrl)
   if (!gh)
     return { hasIssues: false, hasDiscussions: false }
 
@@ -168,7 +168,7 @@ async function fetchRemoteSupplements(opts: {
   const issuesDir = join(cache.dir, 'issues')
   if (features.issues && !existsSync(issuesDir)) {
     onProgress('Fetching issues via GitHub API')
-    const issues = await fetchGitHubIssues(gh.owner, gh.repo, 30).catch(() => [])
+    const issues = await fetchGitHubIssues(gh.owner, gh.repo, 30, undefined, undefined, gh.host).catch(() => [])
     if (issues.length > 0) {
       onProgress(`Caching ${issues.length} issues`)
       cache.write(issues.map(issue => ({
@@ -190,7 +190,7 @@ async function fetchRemoteSupplements(opts: {
   const discussionsDir = join(cache.dir, 'discussions')
   if (features.discussions && !existsSync(discussionsDir)) {
     onProgress('Fetching discussions via GitHub API')
-    const discussions = await fetchGitHubDiscussions(gh.owner, gh.repo, 20).catch(() => [])
+    const discussions = await fetchGitHubDiscussions(gh.owner, gh.repo, 20, undefined, undefined, gh.host).catch(() => [])
     if (discussions.length > 0) {
       onProgress(`Caching ${discussions.length} discussions`)
       cache.write(discussions.map(d => ({
@@ -9,7 +9,8 @@ import * as p from '@clack/prompts'
 import { defineCommand } from 'citty'
 import { join } from 'pathe'
 import { CACHE_DIR, REFERENCES_DIR, REPOS_DIR } from '../cache/index.ts'
-import { clearEmbeddingCache } from '../retriv/embedding-cache.ts'
+import { clearEmbeddingCache, listEmbeddingCacheModels } from '../retriv/embedding-cache.ts'
+import { readIndexModel, resolveEmbeddingModel } from '../retriv/index-meta.ts'
 
 const LLM_CACHE_DIR = join(CACHE_DIR, 'llm-cache')
 const LLM_CACHE_MAX_AGE = 7 * 24 * 60 * 60 * 1000
@@ -136,6 +137,36 @@ export function cacheStatsCommand(): void {
   p.log.message(lines.join('\n'))
 }
 
+/** Embedding models in use: configured, per search index, and in the embeddings cache */
+export async function cacheModelsCommand(): Promise<void> {
+  const dim = (s: string) => styleText('gray', s)
+  const configured = resolveEmbeddingModel()
+
+  const indexCounts = new Map<string, number>()
+  for (const e of dirEntries(REFERENCES_DIR)) {
+    if (!e.isFile() || e.name !== 'search.db')
+      continue
+    const model = readIndexModel(join(e.parentPath, e.name))
+    if (model)
+      indexCounts.set(model, (indexCounts.get(model) ?? 0) + 1)
+  }
+  const cached = await listEmbeddingCacheModels()
+
+  const lines = [`Configured  ${configured}`, '', 'Search indexes']
+  if (indexCounts.size === 0)
+    lines.push(dim('  none'))
+  for (const [model, count] of indexCounts) {
+    const stale = model !== configured ? `  ${styleText('yellow', 'rebuilt on next update')}` : ''
+    lines.push(`  ${model}  ${dim(`${count} ${count === 1 ? 'index' : 'indexes'}`)}${stale}`)
+  }
+  lines.push('', 'Embedding cache')
+  if (cached.length === 0)
+    lines.push(dim('  none'))
+  for (const { model, dimensions } of cached)
+    lines.push(`  ${model}  ${dim(`${dimensions} dims`)}`)
+  p.log.message(lines.join('\n'))
+}
+
 export const cacheCommandDef = defineCommand({
   meta: { name: 'cache', description: 'Cache management', hidden: true },
   args: {
@@ -151,6 +182,12 @@ export const cacheCommandDef = defineCommand({
       description: 'Show cache disk usage',
       default: false,
     },
+    models: {
+      type: 'boolean',
+      alias: 'm',
+      description: 'List embedding models used by search indexes and the embeddings cache',
+      default: false,
+    },
   },
   async run({ args }) {
     if (args.stats) {
@@ -158,6 +195,11 @@ export const cacheCommandDef = defineCommand({
       cacheStatsCommand()
       return
     }
+    if (args.models) {
+      p.intro(`${styleText(['bold', 'magenta'], 'skilld')} cache models`)
+      await cacheModelsCommand()
+      return
+    }
     if (args.clean) {
       p.intro(`${styleText(['bold', 'magenta'], 'skilld')} cache clean`)
       await cacheCleanCommand()
@@ -165,6 +207,6 @@ export const cacheCommandDef = defineCommand({
     }
     // No flag: show usage
     p.intro(`${styleText(['bold', 'magenta'], 'skilld')} cache`)
-    p.log.message('Usage:\n  skilld cache --clean   Remove expired cache entries\n  skilld cache --stats   Show cache disk usage')
+    p.log.message('Usage:\n  skilld cache --clean   Remove expired cache entries\n  skilld cache --stats   Show cache disk usage\n  skilld cache --models  List embedding models in use')
   },
 })
@@ -49,6 +49,7 @@ export async function configCommand(): Promise<void> {
       options.push(
         { label: 'Enhancement model', value: 'model', hint: `${modelHint} · rewrites SKILL.md with best practices` },
         { label: 'Target agent', value: 'agent', hint: `${config.agent || 'auto-detect'} · where skills are installed` },
+        { label: 'Search reranking', value: 'rerank', hint: `${config.rerank ? 'on' : 'off'} · rescore results with a local cross-encoder` },
       )
       return options
     },
@@ -110,6 +111,16 @@ export async function configCommand(): Promise<void> {
           p.log.success(agentChoice ? `Target agent set to ${agentChoice}` : 'Target agent will be auto-detected')
           break
         }
+
+        case 'rerank': {
+          const rerank = guard<boolean>(await p.confirm({
+            message: 'Rerank search results with a local cross-encoder? (downloads a ~25MB model on first use)',
+            initialValue: readConfig().rerank ?? false,
+          }))
+          updateConfig({ rerank })
+          p.log.success(rerank ? 'Search reranking enabled' : 'Search reranking disabled')
+          break
+        }
       }
     },
   })
@@ -0,0 +1,119 @@
+/**
+ * `skilld cost` — token and cost report from the usage ledger
+ * (`~/.skilld/usage.jsonl`), grouped by package, model and month.
+ */
+
+import type { LedgerEntry, LedgerGroupBy, LedgerSummaryRow } from '../agent/clis/usage-ledger.ts'
+import { styleText } from 'node:util'
+import * as p from '@clack/prompts'
+import { defineCommand } from 'citty'
+import { readLedger, summarizeLedger } from '../agent/clis/usage-ledger.ts'
+import { readConfig } from '../core/config.ts'
+import { USAGE_LEDGER_PATH } from '../core/paths.ts'
+
+const MONTH_RE = /^\d{4}-\d{2}$/
+const GROUPS: LedgerGroupBy[] = ['package', 'model', 'month']
+const GROUP_TITLES: Record<LedgerGroupBy, string> = { package: 'By package', model: 'By model', month: 'By month' }
+
+function fmtTokens(n: number): string {
+  if (n >= 1_000_000)
+    return `${(n / 1_000_000).toFixed(1)}M`
+  if (n >= 1000)
+    return `${Math.round(n / 1000)}k`
+  return String(n)
+}
+
+function fmtCost(row: Pick<LedgerSummaryRow, 'cost' | 'runs' | 'unpriced'>): string {
+  if (row.unpriced === row.runs)
+    return '—'
+  return `$${row.cost.toFixed(2)}${row.unpriced > 0 ? '+' : ''}`
+}
+
+function total(entries: LedgerEntry[]): LedgerSummaryRow {
+  return summarizeLedger(entries.map(e => ({ ...e, package: 'total' })), 'package')[0]
+    ?? { key: 'total', runs: 0, inputTokens: 0, outputTokens: 0, cost: 0, unpriced: 0 }
+}
+
+/** Aligned table rows: key, section runs, input/output tokens, cost */
+export function formatLedgerTable(rows: LedgerSummaryRow[]): string[] {
+  const width = Math.max(...rows.map(r => r.key.length), 4)
+  return rows.map((r) => {
+    const runs = styleText('gray', `${r.runs} ${r.runs === 1 ? 'run' : 'runs'}`.padEnd(9))
+    const tokens = `${fmtTokens(r.inputTokens)} in / ${fmtTokens(r.outputTokens)} out`.padEnd(20)
+    return `  ${r.key.padEnd(width)}  ${runs} ${tokens} ${fmtCost(r)}`
+  })
+}
+
+export interface CostCommandOptions {
+  by?: LedgerGroupBy
+  /** Only entries from this month (`YYYY-MM`) onwards */
+  since?: string
+  json?: boolean
+  ledgerPath?: string
+}
+
+export function costCommand(opts: CostCommandOptions = {}): void {
+  const entries = readLedger(opts.ledgerPath ?? USAGE_LEDGER_PATH)
+    .filter(e => !opts.since || e.timestamp.slice(0, 7) >= opts.since)
+  const groups = opts.by ? [opts.by] : GROUPS
+
+  if (opts.json) {
+    const report = Object.fromEntries(groups.map(by => [by, summarizeLedger(entries, by)]))
+    process.stdout.write(`${JSON.stringify({ total: total(entries), ...report }, null, 2)}\n`)
+    return
+  }
+
+  p.intro(`${styleText(['bold', 'magenta'], 'skilld')} cost`)
+  if (entries.length === 0) {
+    p.log.info(opts.since ? `No LLM usage recorded since ${opts.since}` : 'No LLM usage recorded yet — enhance a skill to start the ledger')
+    return
+  }
+
+  for (const by of groups)
+    p.log.message([styleText('bold', GROUP_TITLES[by]), ...formatLedgerTable(summarizeLedger(entries, by))].join('\n'))
+
+  const sum = total(entries)
+  const lines = [`Total  ${fmtTokens(sum.inputTokens + sum.outputTokens)} tokens · ${fmtCost(sum)} over ${sum.runs} section runs`]
+  if (sum.unpriced > 0)
+    lines.push(styleText('gray', `${sum.unpriced} runs had no reported cost (CLI models); "+" marks a lower bound`))
+  const { maxCostPerRun, maxTokensPerRun } = readConfig()
+  const limits = [
+    maxCostPerRun ? `$${maxCostPerRun.toFixed(2)}` : '',
+    maxTokensPerRun ? `${fmtTokens(maxTokensPerRun)} tokens` : '',
+  ].filter(Boolean)
+  lines.push(styleText('gray', limits.length > 0
+    ? `Per-run limit: ${limits.join(', ')}`
+    : 'No per-run limit — set maxCostPerRun or maxTokensPerRun in ~/.skilld/config.yaml'))
+  p.log.message(lines.join('\n'))
+}
+
+export const costCommandDef = defineCommand({
+  meta: { name: 'cost', description: 'Show LLM token usage and cost by package, model and month' },
+  args: {
+    by: {
+      type: 'string',
+      description: 'Group by package, model or month (default: all three)',
+    },
+    since: {
+      type: 'string',
+      description: 'Only include usage from this month onwards (YYYY-MM)',
+    },
+    json: {
+      type: 'boolean',
+      description: 'Output the report as JSON',
+      default: false,
+    },
+  },
+  run({ args }) {
+    const by = args.by as LedgerGroupBy | undefined
+    if (by && !GROUPS.includes(by)) {
+      console.error(`Invalid --by "${by}": expected package, model or month`)
+      process.exit(1)
+    }
+    if (args.since && !MONTH_RE.test(args.since)) {
+      console.error(`Invalid --since "${args.since}": expected YYYY-MM`)
+      process.exit(1)
+    }
+    costCommand({ by, since: args.since, json: args.json })
+  },
+})
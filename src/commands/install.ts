@@ -218,6 +218,7 @@ export async function installCommand(opts: InstallOptions): Promise<void> {
       version,
       skillDir,
       skillDirName: name,
+      cwd,
       resources,
       prepared,
       resolved,
@@ -14,8 +14,9 @@
 import type { CustomPrompt, OptimizeModel, SkillSection } from '../agent/index.ts'
 import { styleText } from 'node:util'
 import * as p from '@clack/prompts'
-import { getAvailableModels, getModelName } from '../agent/index.ts'
+import { getAvailableModels, getModelName, getRegisteredSections, isDeterministicSection } from '../agent/index.ts'
 import { maxItems, maxLines } from '../agent/prompts/optional/budget.ts'
+import { isMigrationRange } from '../agent/prompts/optional/migration.ts'
 import { isInteractive } from '../cli/env.ts'
 import { NO_MODELS_MESSAGE, pickModel } from '../cli/model-picker.ts'
 import { readConfig, updateConfig } from '../core/config.ts'
@@ -72,16 +73,19 @@ export async function selectModel(skipPrompt: boolean): Promise<OptimizeModel |
   return choice as OptimizeModel
 }
 
-export async function selectSkillSections(message = 'Enhance SKILL.md'): Promise<{ sections: SkillSection[], customPrompt?: CustomPrompt, cancelled: boolean }> {
+export async function selectSkillSections(message = 'Enhance SKILL.md', initialValues: SkillSection[] = defaultSectionsFor()): Promise<{ sections: SkillSection[], customPrompt?: CustomPrompt, cancelled: boolean }> {
   p.log.info('Budgets adapt to package release density.')
   const selected = await p.multiselect({
     message,
     options: [
       { label: 'API changes', value: 'api-changes' as SkillSection, hint: 'new/deprecated APIs from version history' },
+      { label: 'Migration checklist', value: 'migration' as SkillSection, hint: 'before/after steps for a major/minor update, skipped otherwise' },
+      { label: 'Deprecation map', value: 'deprecations' as SkillSection, hint: 'deprecated → replacement table from @deprecated JSDoc, no LLM' },
       { label: 'Best practices', value: 'best-practices' as SkillSection, hint: 'gotchas, pitfalls, patterns' },
+      ...getRegisteredSections().map(s => ({ label: s.heading ?? s.id, value: s.id, hint: 'from skilld.config.json' })),
       { label: 'Custom section', value: 'custom' as SkillSection, hint: 'add your own section' },
     ],
-    initialValues: DEFAULT_SECTIONS,
+    initialValues,
     required: false,
   })
 
@@ -92,20 +96,26 @@ export async function selectSkillSections(message = 'Enhance SKILL.md'): Promise
   if (sections.length === 0)
     return { sections: [], cancelled: false }
 
-  if (sections.length > 1) {
-    const n = sections.length
+  const llmSections = sections.filter(s => !isDeterministicSection(s))
+  if (llmSections.length > 1) {
+    const n = llmSections.length
     const budgetLines: string[] = []
-    for (const s of sections) {
+    for (const s of llmSections) {
       switch (s) {
         case 'api-changes':
           budgetLines.push(`  API changes     ${maxItems(6, 12, n)}–${maxItems(6, Math.round(12 * 1.6), n)} items (adapts to release churn)`)
           break
+        case 'migration':
+          budgetLines.push(`  Migration       ${maxItems(4, 12, n)} items`)
+          break
         case 'best-practices':
           budgetLines.push(`  Best practices  ${maxItems(4, 10, n)}–${maxItems(4, Math.round(10 * 1.3), n)} items`)
           break
         case 'custom':
           budgetLines.push(`  Custom          ≤${maxLines(50, 80, n)} lines`)
           break
+        default:
+          budgetLines.push(`  ${s.padEnd(15)} (skilld.config.json budget)`)
       }
     }
     p.log.info(`Budget (${n} sections):\n${budgetLines.join('\n')}`)
@@ -151,16 +161,34 @@ export interface UpdateContext {
   bumpType?: string
 }
 
+const MIGRATION_BUMPS = new Set(['major', 'minor', 'premajor', 'preminor'])
+
+/**
+ * `DEFAULT_SECTIONS` plus default-on house sections from `skilld.config.json`,
+ * and `migration` when the update crosses a major/minor version.
+ */
+export function defaultSectionsFor(updateCtx?: UpdateContext): SkillSection[] {
+  const crosses = updateCtx?.bumpType
+    ? MIGRATION_BUMPS.has(updateCtx.bumpType)
+    : isMigrationRange(updateCtx?.oldVersion, updateCtx?.newVersion)
+  return [
+    ...DEFAULT_SECTIONS,
+    ...(crosses ? ['migration' as const] : []),
+    ...getRegisteredSections().filter(s => s.selectedByDefault).map(s => s.id),
+  ]
+}
+
 /**
  * Resolve sections + model for LLM enhancement.
- * If presetModel is provided, uses DEFAULT_SECTIONS without prompting.
+ * If presetModel is provided, uses the default sections without prompting.
  * Returns null if cancelled or no sections/model selected.
  */
 export async function selectLlmConfig(presetModel?: OptimizeModel, message?: string, updateCtx?: UpdateContext): Promise<LlmConfig | null> {
+  const defaultSections = defaultSectionsFor(updateCtx)
   if (presetModel) {
     const available = await getAvailableModels()
     if (available.some(m => m.id === presetModel))
-      return { model: presetModel, sections: DEFAULT_SECTIONS }
+      return { model: presetModel, sections: defaultSections }
     if (!isInteractive())
       return null
   }
@@ -243,6 +271,7 @@ export async function selectLlmConfig(presetModel?: OptimizeModel, message?: str
   if (choice === 'prompt') {
     const { sections, customPrompt, cancelled } = await selectSkillSections(
       message ? `${message} (prompt only)` : 'Select sections for prompt generation',
+      defaultSections,
     )
     if (cancelled || sections.length === 0)
       return null
@@ -266,6 +295,7 @@ export async function selectLlmConfig(presetModel?: OptimizeModel, message?: str
   const modelName = getModelName(model)
   const { sections, customPrompt, cancelled } = await selectSkillSections(
     message ? `${message} (${modelName})` : `Enhance SKILL.md with ${modelName}`,
+    defaultSections,
   )
 
   if (cancelled || sections.length === 0)
@@ -0,0 +1,130 @@
+import type { EvalReport } from '../retriv/eval.ts'
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { styleText } from 'node:util'
+import * as p from '@clack/prompts'
+import { defineCommand } from 'citty'
+import { join, resolve } from 'pathe'
+import { buildFixtureIndexes, parseGoldenQueries, runSearchEval } from '../retriv/eval.ts'
+import { SearchDepsUnavailableError } from '../retriv/index.ts'
+import { findPackageDbs } from './search-helpers.ts'
+
+export interface SearchEvalOptions {
+  /** Override k from the golden file */
+  k?: number
+  /** Build throwaway indexes from this fixtures dir instead of the project's installed skills */
+  fixtures?: string
+}
+
+function pct(n: number): string {
+  return `${(n * 100).toFixed(1)}%`
+}
+
+function formatReport(report: EvalReport): string {
+  const lines = report.queries.map((q) => {
+    const missed = q.ranks.filter(r => r.rank === null).map(r => r.expected)
+    const status = q.recall === 1 ? styleText('green', '✓') : q.recall > 0 ? styleText('yellow', '~') : styleText('red', '✗')
+    const pkg = q.package ? styleText('gray', ` [${q.package}]`) : ''
+    const miss = missed.length > 0 ? `\n    ${styleText('gray', `missed: ${missed.join(', ')}`)}` : ''
+    return `  ${status} ${q.query}${pkg}  recall ${pct(q.recall)} · RR ${q.reciprocalRank.toFixed(2)} · nDCG ${q.ndcg.toFixed(2)}${miss}`
+  })
+  const { summary, k } = report
+  return [
+    ...lines,
+    '',
+    `${summary.queries} queries · recall@${k} ${pct(summary.recall)} · MRR ${summary.mrr.toFixed(3)} · nDCG@${k} ${summary.ndcg.toFixed(3)}`,
+  ].join('\n')
+}
+
+/** Evaluate a golden queries file against project or fixture indexes. */
+export async function searchEval(file: string, opts: SearchEvalOptions = {}): Promise<EvalReport | null> {
+  const golden = parseGoldenQueries(readFileSync(file, 'utf-8'))
+  if (golden.queries.length === 0)
+    return null
+
+  if (!opts.fixtures)
+    return runSearchEval(golden, { k: opts.k, resolveDbs: findPackageDbs })
+
+  const outDir = mkdtempSync(join(tmpdir(), 'skilld-eval-'))
+  try {
+    const dbs = await buildFixtureIndexes(opts.fixtures, outDir)
+    return await runSearchEval(golden, {
+      k: opts.k,
+      resolveDbs: pkg => pkg ? [dbs.get(pkg)].filter((db): db is string => !!db) : [...dbs.values()],
+    })
+  }
+  finally {
+    rmSync(outDir, { recursive: true, force: true })
+  }
+}
+
+export const searchEvalCommandDef = defineCommand({
+  meta: { name: 'eval', description: 'Score search relevance against golden queries (recall@k, MRR, nDCG)' },
+  args: {
+    file: {
+      type: 'positional',
+      description: 'YAML file of golden queries',
+      required: true,
+    },
+    k: {
+      type: 'string',
+      description: 'Cutoff rank (default: `k` in the file, else 5)',
+      valueHint: 'n',
+    },
+    fixtures: {
+      type: 'string',
+      description: 'Index docs from this dir (one subdir per package) instead of installed skills',
+      valueHint: 'dir',
+    },
+    json: {
+      type: 'boolean',
+      description: 'Print the report as JSON (for diffing runs)',
+      default: false,
+    },
+    output: {
+      type: 'string',
+      alias: 'o',
+      description: 'Also write the JSON report to a file',
+      valueHint: 'path',
+    },
+  },
+  async run({ args }) {
+    const file = resolve(args.file)
+    if (!existsSync(file)) {
+      p.log.error(`Golden queries file not found: ${args.file}`)
+      process.exitCode = 1
+      return
+    }
+    const k = args.k ? Number(args.k) : undefined
+    if (k !== undefined && (!Number.isInteger(k) || k < 1)) {
+      p.log.error(`Invalid k: ${args.k}`)
+      process.exitCode = 1
+      return
+    }
+
+    let report: EvalReport | null
+    try {
+      report = await searchEval(file, { k, fixtures: args.fixtures ? resolve(args.fixtures) : undefined })
+    }
+    catch (err) {
+      if (err instanceof SearchDepsUnavailableError) {
+        p.log.error('Search requires native dependencies (sqlite-vec) that are not installed.\nInstall skilld globally or in a project to use search: npm i -g skilld')
+        process.exitCode = 1
+        return
+      }
+      throw err
+    }
+    if (!report) {
+      p.log.warn(`No queries with expectations in ${args.file}`)
+      return
+    }
+
+    const json = JSON.stringify(report, null, 2)
+    if (args.output)
+      writeFileSync(resolve(args.output), `${json}\n`)
+    if (args.json)
+      process.stdout.write(`${json}\n`)
+    else
+      p.log.message(formatReport(report))
+  },
+})
@@ -1,23 +1,29 @@
-import type { SearchFilter } from '../retriv/index.ts'
-import { existsSync, readdirSync } from 'node:fs'
+import type { Writable } from 'node:stream'
+import type { SearchFilter, SearchSnippet } from '../retriv/index.ts'
+import { existsSync, readdirSync, readFileSync } from 'node:fs'
 import * as p from '@clack/prompts'
-import { join } from 'pathe'
+import { dirname, join } from 'pathe'
 import { agents, detectTargetAgent } from '../agent/index.ts'
 import { getPackageDbPath, REFERENCES_DIR } from '../cache/index.ts'
-import { readLock } from '../core/index.ts'
-import { getSharedSkillsDir } from '../core/paths.ts'
+import { readLock, semverGt, semverSatisfies, semverValid } from '../core/index.ts'
+import { getRepoCacheDir, getSharedSkillsDir } from '../core/paths.ts'
 import { toStoragePackageName } from '../core/prefix.ts'
 
 const STATIC_REGEX_1 = /[-_/]+/
 const STATIC_REGEX_2 = /^(issues?|docs?|releases?):(.+)$/i
+const WHITESPACE_RE = /\s+/g
+/** Timeline sources written to the repo cache (`~/.skilld/repos/<owner>/<repo>/`) when the package has a GitHub repo */
+const REPO_CACHED_SOURCE_RE = /^(?:issues|discussions|releases)\//
 
-/** Collect search.db paths for packages installed in the current project (from skilld-lock.yaml) */
-export function findPackageDbs(packageFilter?: string): string[] {
-  const cwd = process.cwd()
+/**
+ * Collect search.db paths for packages installed in the current project (from skilld-lock.yaml).
+ * Stale-index warnings go to `warnOutput` (stdout by default).
+ */
+export function findPackageDbs(packageFilter?: string, cwd: string = process.cwd(), warnOutput?: Writable): string[] {
   const lock = readProjectLock(cwd)
   if (!lock)
     return []
-  return filterLockDbs(lock, packageFilter)
+  return filterLockDbs(lock, packageFilter, warnOutput)
 }
 
 /** Build package name → version map from the project lockfile */
@@ -33,18 +39,36 @@ export function getPackageVersions(cwd: string = process.cwd()): Map<string, str
   return map
 }
 
-/** Read the project's skilld-lock.yaml (shared dir or agent skills dir) */
-function readProjectLock(cwd: string): ReturnType<typeof readLock> {
-  const shared = getSharedSkillsDir(cwd)
-  if (shared) {
-    const lock = readLock(shared)
-    if (lock)
-      return lock
+/** Build package name → repo cache dir map from the project lockfile, for issue/discussion/release sources */
+export function getPackageRepoDirs(cwd: string = process.cwd()): Map<string, string> {
+  const lock = readProjectLock(cwd)
+  const map = new Map<string, string>()
+  if (!lock)
+    return map
+  for (const s of Object.values(lock.skills)) {
+    const [owner, repo, ...rest] = s.repo?.split('/') ?? []
+    if (s.packageName && owner && repo && rest.length === 0)
+      map.set(s.packageName, getRepoCacheDir(owner, repo))
   }
+  return map
+}
+
+/** Skills directory holding the project's skilld-lock.yaml (shared dir first, then the agent's skills dir) */
+export function getProjectSkillsDir(cwd: string = process.cwd()): string | null {
+  const shared = getSharedSkillsDir(cwd)
+  if (shared && readLock(shared))
+    return shared
   const agent = detectTargetAgent()
   if (!agent)
     return null
-  return readLock(`${cwd}/${agents[agent].skillsDir}`)
+  const dir = `${cwd}/${agents[agent].skillsDir}`
+  return readLock(dir) ? dir : null
+}
+
+/** Read the project's skilld-lock.yaml (shared dir or agent skills dir) */
+function readProjectLock(cwd: string): ReturnType<typeof readLock> {
+  const dir = getProjectSkillsDir(cwd)
+  return dir ? readLock(dir) : null
 }
 
 /** List installed packages with versions from the project lockfile */
@@ -60,21 +84,21 @@ export function listLockPackages(cwd: string = process.cwd()): string[] {
   return Array.from(seen, ([name, version]) => `${name}@${version}`)
 }
 
-function filterLockDbs(lock: ReturnType<typeof readLock>, packageFilter?: string): string[] {
+/** Fuzzy package match: every filter token overlaps some name token (`-p vue` matches `@vue/runtime-core`) */
+function matchesPackageFilter(name: string, packageFilter?: string): boolean {
+  if (!packageFilter)
+    return true
+  const tokenize = (s: string) => s.toLowerCase().replace(/@/g, '').split(STATIC_REGEX_1).filter(Boolean)
+  const nameTokens = tokenize(name)
+  return tokenize(packageFilter).every(ft => nameTokens.some(nt => nt.includes(ft) || ft.includes(nt)))
+}
+
+function filterLockDbs(lock: ReturnType<typeof readLock>, packageFilter?: string, warnOutput?: Writable): string[] {
   if (!lock)
     return []
-  const tokenize = (s: string) => s.toLowerCase().replace(/@/g, '').split(STATIC_REGEX_1).filter(Boolean)
 
   return Object.values(lock.skills)
-    .filter((info) => {
-      if (!info.packageName || !info.version)
-        return false
-      if (!packageFilter)
-        return true
-      const filterTokens = tokenize(packageFilter)
-      const nameTokens = tokenize(info.packageName)
-      return filterTokens.every(ft => nameTokens.some(nt => nt.includes(ft) || ft.includes(nt)))
-    })
+    .filter(info => !!info.packageName && !!info.version && matchesPackageFilter(info.packageName, packageFilter))
     .map((info) => {
       const storageName = toStoragePackageName(info.packageName!)
       const exact = getPackageDbPath(storageName, info.version!)
@@ -82,12 +106,152 @@ function filterLockDbs(lock: ReturnType<typeof readLock>, packageFilter?: string
         return exact
       const fallback = findAnyPackageDb(storageName)
       if (fallback)
-        p.log.warn(`Using cached search index for ${info.packageName} (v${info.version} not indexed). Run \`skilld update ${info.packageName}\` to re-index.`)
+        p.log.warn(`Using cached search index for ${info.packageName} (v${info.version} not indexed). Run \`skilld update ${info.packageName}\` to re-index.`, { output: warnOutput })
       return fallback
     })
     .filter((db): db is string => !!db)
 }
 
+export interface CachedPackageDb {
+  /** Storage name (cache dir name, e.g. `vue`, `@vue/shared`) */
+  name: string
+  version: string
+  dbPath: string
+}
+
+/** Every indexed package version under REFERENCES_DIR, regardless of project */
+export function listCachedPackageDbs(): CachedPackageDb[] {
+  if (!existsSync(REFERENCES_DIR))
+    return []
+  const found: CachedPackageDb[] = []
+  const collect = (dir: string, scope?: string) => {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      if (!entry.isDirectory())
+        continue
+      if (!scope && entry.name.startsWith('@')) {
+        collect(join(dir, entry.name), entry.name)
+        continue
+      }
+      const atIdx = entry.name.lastIndexOf('@')
+      const dbPath = join(dir, entry.name, 'search.db')
+      if (atIdx <= 0 || !existsSync(dbPath))
+        continue
+      const name = entry.name.slice(0, atIdx)
+      found.push({ name: scope ? `${scope}/${name}` : name, version: entry.name.slice(atIdx + 1), dbPath })
+    }
+  }
+  collect(REFERENCES_DIR)
+  return found
+}
+
+/**
+ * Whether cached version `a` should win over `b`. Cache dirs can be named after
+ * non-semver refs (`main`, commit SHAs), which rank below any release and
+ * compare by name among themselves.
+ */
+function isNewerCachedVersion(a: string, b: string): boolean {
+  const validA = !!semverValid(a)
+  const validB = !!semverValid(b)
+  if (validA && validB)
+    return semverGt(a, b)
+  if (validA !== validB)
+    return validA
+  return a > b
+}
+
+/**
+ * search.db paths across all cached references (`skilld search --all`), one per
+ * package: the newest version, or the newest matching `versionSelector` (`4`, `^4.2`, `4.2.1`).
+ */
+export function findAllPackageDbs(packageFilter?: string, versionSelector?: string): CachedPackageDb[] {
+  const newest = new Map<string, CachedPackageDb>()
+  for (const db of listCachedPackageDbs()) {
+    if (!matchesPackageFilter(db.name, packageFilter))
+      continue
+    if (versionSelector && db.version !== versionSelector && !semverSatisfies(db.version, versionSelector))
+      continue
+    const current = newest.get(db.name)
+    if (!current || isNewerCachedVersion(db.version, current.version))
+      newest.set(db.name, db)
+  }
+  return [...newest.values()].sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * One search.db per requested version of the package (`--versions 4,5`),
+ * in selector order. Selectors with no cached index are returned in `missing`.
+ */
+export function findPackageVersionDbs(packageFilter: string, selectors: string[]): { dbs: CachedPackageDb[], missing: string[] } {
+  const dbs: CachedPackageDb[] = []
+  const missing: string[] = []
+  // An exact package name compares that package only, not fuzzy matches like `@vue/shared` for `vue`
+  const storageName = toStoragePackageName(packageFilter)
+  const exact = listCachedPackageDbs().some(d => d.name === storageName)
+  for (const selector of selectors) {
+    const found = findAllPackageDbs(packageFilter, selector).filter(d => !exact || d.name === storageName)
+    if (found.length === 0)
+      missing.push(selector)
+    for (const db of found) {
+      if (!dbs.some(d => d.dbPath === db.dbPath))
+        dbs.push(db)
+    }
+  }
+  return { dbs, missing }
+}
+
+/**
+ * Snippets whose lines don't appear in the same file of any other compared
+ * version of their package, i.e. docs added, removed or rewritten in between.
+ * Compares the cached reference files next to each search.db, whitespace-insensitive.
+ * Issues, discussions and releases track the repo rather than a version, so they're never flagged.
+ */
+export function findVersionExclusiveSnippets(
+  results: Array<{ snippet: SearchSnippet, db: CachedPackageDb }>,
+  dbs: CachedPackageDb[],
+): Set<SearchSnippet> {
+  const files = new Map<string, string | null>()
+  const readCached = (path: string) => {
+    if (!files.has(path))
+      files.set(path, existsSync(path) ? readFileSync(path, 'utf-8') : null)
+    return files.get(path)!
+  }
+  const normalize = (text: string) => text.replace(WHITESPACE_RE, ' ').trim()
+
+  const exclusive = new Set<SearchSnippet>()
+  for (const { snippet, db } of results) {
+    const others = dbs.filter(d => d.name === db.name && d.dbPath !== db.dbPath)
+    if (others.length === 0 || REPO_CACHED_SOURCE_RE.test(snippet.source))
+      continue
+    // Prefer the raw file lines over chunk content, which may carry injected headings
+    const own = readCached(join(dirname(db.dbPath), snippet.source))
+    const chunk = normalize(own ? own.split('\n').slice(snippet.lineStart - 1, snippet.lineEnd).join('\n') : snippet.content)
+    if (!chunk)
+      continue
+    const inOther = others.some((other) => {
+      const content = readCached(join(dirname(other.dbPath), snippet.source))
+      return content !== null && normalize(content).includes(chunk)
+    })
+    if (!inOther)
+      exclusive.add(snippet)
+  }
+  return exclusive
+}
+
+/**
+ * Widen a snippet by `lines` surrounding lines read from its cached reference file (`--context N`).
+ * Issues, discussions and releases missing from `refDir` are read from the package's `repoDir`.
+ */
+export function expandSnippetContext(snippet: SearchSnippet, refDir: string, lines: number, repoDir?: string): SearchSnippet {
+  const baseDir = repoDir && REPO_CACHED_SOURCE_RE.test(snippet.source) && !existsSync(join(refDir, snippet.source)) ? repoDir : refDir
+  const file = join(baseDir, snippet.source)
+  if (lines <= 0 || !file.startsWith(`${baseDir}/`) || !existsSync(file))
+    return snippet
+  const fileLines = readFileSync(file, 'utf-8').split('\n')
+  const lineStart = Math.max(1, snippet.lineStart - lines)
+  const lineEnd = Math.min(fileLines.length, snippet.lineEnd + lines)
+  return { ...snippet, lineStart, lineEnd, content: fileLines.slice(lineStart - 1, lineEnd).join('\n') }
+}
+
 /** Find any search.db for a package when exact version cache is missing */
 function findAnyPackageDb(name: string): string | null {
   if (!existsSync(REFERENCES_DIR))
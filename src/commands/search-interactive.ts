@@ -3,7 +3,7 @@ import { styleText } from 'node:util'
 import { createLogUpdate } from 'log-update'
 import { formatCompactSnippet, highlightTerms, normalizeScores, sanitizeMarkdown, scoreLabel } from '../core/index.ts'
 import { closePool, openPool, SearchDepsUnavailableError, searchPooled } from '../retriv/index.ts'
-import { findPackageDbs, getPackageVersions, listLockPackages, parseFilterPrefix } from './search-helpers.ts'
+import { findAllPackageDbs, findPackageDbs, getPackageVersions, listLockPackages, parseFilterPrefix } from './search-helpers.ts'
 
 const FILTER_CYCLE = [undefined, 'docs', 'issues', 'releases'] as const
 type FilterLabel = typeof FILTER_CYCLE[number]
@@ -20,12 +20,28 @@ function filterToSearchFilter(label: FilterLabel): SearchFilter | undefined {
 
 const SPINNER_FRAMES = ['◐', '◓', '◑', '◒']
 
-export async function interactiveSearch(packageFilter?: string): Promise<void> {
-  const dbs = findPackageDbs(packageFilter)
-  const versions = getPackageVersions()
+export interface InteractiveSearchOptions {
+  /** Start scoped to every cached package (toggle with Ctrl+A) */
+  all?: boolean
+  /** Version or range to pick per cached package */
+  version?: string
+}
+
+export async function interactiveSearch(packageFilter?: string, opts: InteractiveSearchOptions = {}): Promise<void> {
+  const projectDbs = findPackageDbs(packageFilter)
+  const cached = findAllPackageDbs(packageFilter, opts.version)
+  const cachedDbs = cached.map(c => c.dbPath)
+  // Project lockfile versions win for packages in both scopes
+  const versions = new Map([...cached.map(c => [c.name, c.version] as const), ...getPackageVersions()])
+  let allScope = !!opts.all || !!opts.version
+  const dbs = allScope ? cachedDbs : projectDbs
   if (dbs.length === 0) {
     let msg: string
-    if (packageFilter) {
+    if (allScope) {
+      const target = [packageFilter, opts.version && `v${opts.version}`].filter(Boolean).join(' ')
+      msg = target ? `No cached docs indexed for ${target}.` : 'No cached docs indexed yet. Run `skilld add <package>` first.'
+    }
+    else if (packageFilter) {
       const available = listLockPackages()
       msg = available.length > 0
         ? `No docs indexed for "${packageFilter}". Available: ${available.join(', ')}`
@@ -65,7 +81,24 @@ export async function interactiveSearch(packageFilter?: string): Promise<void> {
 
   const cols = process.stdout.columns || 80
   const maxResults = 7
-  const titleLabel = packageFilter ? `Search ${packageFilter} docs` : 'Search docs'
+
+  function getTitleLabel(): string {
+    const base = packageFilter ? `Search ${packageFilter} docs` : 'Search docs'
+    if (!allScope)
+      return base
+    return `${base} ${styleText('gray', opts.version ? `(all cached, v${opts.version})` : '(all cached)')}`
+  }
+
+  /** DBs for the active scope; cached DBs open lazily on the first toggle */
+  async function scopedPool(): Promise<typeof pool> {
+    const active = allScope ? cachedDbs : projectDbs
+    const missing = active.filter(db => !pool.has(db))
+    if (missing.length > 0) {
+      for (const [dbPath, db] of await openPool(missing))
+        pool.set(dbPath, db)
+    }
+    return new Map(active.flatMap(db => pool.has(db) ? [[db, pool.get(db)!] as const] : []))
+  }
 
   function getFilterLabel(): string {
     const f = FILTER_CYCLE[filterIndex]
@@ -79,7 +112,7 @@ export async function interactiveSearch(packageFilter?: string): Promise<void> {
 
     // Title
     lines.push('')
-    lines.push(`  ${styleText('bold', titleLabel)}`)
+    lines.push(`  ${styleText('bold', getTitleLabel())}`)
     lines.push('')
 
     // Input line
@@ -147,7 +180,7 @@ export async function interactiveSearch(packageFilter?: string): Promise<void> {
     if (elapsed > 0 && !isSearching)
       parts.push(`${elapsed.toFixed(2)}s`)
     const footer = parts.length > 0 ? `${parts.join(' · ')}    ` : ''
-    lines.push(`  ${styleText('gray', `${footer}↑↓ navigate  ↵ select  tab filter  esc quit`)}`)
+    lines.push(`  ${styleText('gray', `${footer}↑↓ navigate  ↵ select  tab filter  ^a all  esc quit`)}`)
     lines.push('')
 
     logUpdate(lines.join('\n'))
@@ -178,7 +211,7 @@ export async function interactiveSearch(packageFilter?: string): Promise<void> {
     const filter = parsedFilter || filterToSearchFilter(FILTER_CYCLE[filterIndex])
     const start = performance.now()
 
-    const res = await searchPooled(parsed, pool, { limit: maxResults, filter }).catch((e) => {
+    const res = await scopedPool().then(scoped => searchPooled(parsed, scoped, { limit: maxResults, filter })).catch((e) => {
       if (id === searchId)
         error = e instanceof Error ? e.message : String(e)
       return [] as SearchSnippet[]
@@ -284,6 +317,18 @@ export async function interactiveSearch(packageFilter?: string): Promise<void> {
         return
       }
 
+      // Ctrl+A — toggle project skills / all cached packages
+      if (data === '\x01') {
+        const next = !allScope
+        if ((next ? cachedDbs : projectDbs).length === 0)
+          return
+        allScope = next
+        if (query.length >= 2)
+          scheduleSearch()
+        render()
+        return
+      }
+
       // Backspace
       if (data === '\x7F' || data === '\b') {
         if (query.length > 0) {
@@ -0,0 +1,212 @@
+/**
+ * `skilld serve` — local-only HTTP search API for editor plugins.
+ *
+ * Binds to 127.0.0.1 and answers JSON. Search DBs stay open in a live pool
+ * (reloaded when a package's `search.db` is re-indexed), so plugins can query
+ * per keystroke without spawning a process.
+ *
+ *   GET /search?q=<query>&package=<name>&filter=<json>&limit=<n>&rerank=<0|1>
+ *   GET /packages
+ *   GET /packages/<skill>/references
+ *   GET /packages/<skill>/skill
+ */
+
+import type { IncomingMessage, Server, ServerResponse } from 'node:http'
+import type { SearchFilter } from '../retriv/index.ts'
+import { existsSync, readFileSync } from 'node:fs'
+import { createServer } from 'node:http'
+import * as p from '@clack/prompts'
+import { defineCommand } from 'citty'
+import { join, relative } from 'pathe'
+import { listReferenceFiles } from '../cache/index.ts'
+import { readConfig, readLock, sanitizeMarkdown } from '../core/index.ts'
+import { skillInternalDir } from '../core/paths.ts'
+import { createLivePool, SearchDepsUnavailableError, searchPooled } from '../retriv/index.ts'
+import { version } from '../version.ts'
+import { findPackageDbs, getPackageVersions, getProjectSkillsDir, parseFilterPrefix } from './search-helpers.ts'
+import { parseJsonFilter } from './search.ts'
+
+const DEFAULT_PORT = 7433
+const LOCAL_HOSTS = new Set(['127.0.0.1', 'localhost', '[::1]'])
+const PORT_SUFFIX_RE = /:\d+$/
+const SKILL_ROUTE_RE = /^\/packages\/([^/]+)\/(references|skill)$/
+
+class HttpError extends Error {
+  status: number
+  constructor(status: number, message: string) {
+    super(message)
+    this.name = 'HttpError'
+    this.status = status
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json; charset=utf-8' })
+  res.end(JSON.stringify(body))
+}
+
+function decodeSkillName(raw: string): string {
+  try {
+    return decodeURIComponent(raw)
+  }
+  catch {
+    throw new HttpError(400, `Malformed skill name: ${raw}`)
+  }
+}
+
+export interface ServeHandler {
+  handle: (req: IncomingMessage, res: ServerResponse) => Promise<void>
+  close: () => Promise<void>
+}
+
+export function createServeHandler(cwd: string = process.cwd()): ServeHandler {
+  const pool = createLivePool()
+
+  function readProjectLock() {
+    const skillsDir = getProjectSkillsDir(cwd)
+    const lock = skillsDir ? readLock(skillsDir) : null
+    if (!skillsDir || !lock)
+      throw new HttpError(404, 'No skilld-lock.yaml found. Run `skilld add <package>` first.')
+    return { skillsDir, lock }
+  }
+
+  async function search(params: URLSearchParams) {
+    const rawQuery = params.get('q')?.trim()
+    if (!rawQuery)
+      throw new HttpError(400, 'Missing query parameter: q')
+    let jsonFilter: SearchFilter | undefined
+    const rawFilter = params.get('filter')
+    if (rawFilter) {
+      const parsed = parseJsonFilter(rawFilter)
+      if (!parsed)
+        throw new HttpError(400, `Invalid filter: ${rawFilter}`)
+      jsonFilter = parsed
+    }
+    const packageFilter = params.get('package') || undefined
+    const dbs = findPackageDbs(packageFilter, cwd)
+    if (dbs.length === 0)
+      throw new HttpError(404, packageFilter ? `No docs indexed for "${packageFilter}"` : 'No docs indexed yet')
+
+    const { query, filter: prefixFilter } = parseFilterPrefix(rawQuery)
+    const filter = prefixFilter || jsonFilter ? { ...prefixFilter, ...jsonFilter } : undefined
+    const limit = Math.max(1, Math.min(Number(params.get('limit')) || 10, 50))
+    const rerankParam = params.get('rerank')
+    const rerank = rerankParam ? rerankParam !== '0' && rerankParam !== 'false' : readConfig().rerank
+    const results = await pool.use(dbs, dbPool => searchPooled(query, dbPool, { limit, filter, rerank }))
+
+    const versions = getPackageVersions(cwd)
+    return {
+      query,
+      results: results.map(r => ({
+        ...r,
+        version: versions.get(r.package),
+        content: sanitizeMarkdown(r.content),
+      })),
+    }
+  }
+
+  function packages() {
+    const { skillsDir, lock } = readProjectLock()
+    return {
+      skills: Object.entries(lock.skills).map(([name, info]) => ({
+        name,
+        packageName: info.packageName,
+        version: info.version,
+        source: info.source,
+        dir: join(skillsDir, name),
+      })),
+    }
+  }
+
+  function skillRoute(name: string, kind: 'references' | 'skill') {
+    const { skillsDir, lock } = readProjectLock()
+    if (!lock.skills[name])
+      throw new HttpError(404, `Unknown skill: ${name}`)
+    const skillDir = join(skillsDir, name)
+    if (kind === 'references') {
+      const skilldDir = skillInternalDir(skillDir)
+      return { name, dir: skilldDir, files: listReferenceFiles(skillDir).map(file => relative(skilldDir, file)) }
+    }
+    const skillPath = join(skillDir, 'SKILL.md')
+    if (!existsSync(skillPath))
+      throw new HttpError(404, `SKILL.md not found for ${name}`)
+    return { name, path: skillPath, content: sanitizeMarkdown(readFileSync(skillPath, 'utf-8')) }
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      // Reject foreign Host headers (DNS rebinding from a browser tab)
+      const host = (req.headers.host ?? '').replace(PORT_SUFFIX_RE, '')
+      if (!LOCAL_HOSTS.has(host))
+        throw new HttpError(403, 'Forbidden host')
+      if (req.method !== 'GET')
+        throw new HttpError(405, 'Method not allowed')
+
+      const url = new URL(req.url ?? '/', 'http://localhost')
+      if (url.pathname === '/health')
+        return sendJson(res, 200, { ok: true, version })
+      if (url.pathname === '/search')
+        return sendJson(res, 200, await search(url.searchParams))
+      if (url.pathname === '/packages')
+        return sendJson(res, 200, packages())
+      const match = url.pathname.match(SKILL_ROUTE_RE)
+      if (match)
+        return sendJson(res, 200, skillRoute(decodeSkillName(match[1]!), match[2] as 'references' | 'skill'))
+      throw new HttpError(404, `Not found: ${url.pathname}`)
+    }
+    catch (err) {
+      if (err instanceof HttpError)
+        return sendJson(res, err.status, { error: err.message })
+      if (err instanceof SearchDepsUnavailableError)
+        return sendJson(res, 503, { error: 'Search requires native dependencies (sqlite-vec) that are not installed.' })
+      return sendJson(res, 500, { error: (err as Error).message })
+    }
+  }
+
+  return { handle, close: pool.close }
+}
+
+/** Start the HTTP server on 127.0.0.1; resolves once listening. */
+export async function startServer(port: number, cwd: string = process.cwd()): Promise<{ server: Server, port: number, close: () => Promise<void> }> {
+  const handler = createServeHandler(cwd)
+  const server = createServer((req, res) => void handler.handle(req, res))
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(port, '127.0.0.1', () => resolve())
+  })
+  const address = server.address()
+  return {
+    server,
+    port: typeof address === 'object' && address ? address.port : port,
+    async close() {
+      await new Promise<void>(resolve => server.close(() => resolve()))
+      await handler.close()
+    },
+  }
+}
+
+export const serveCommandDef = defineCommand({
+  meta: { name: 'serve', description: 'Serve a local HTTP search API for editor plugins' },
+  args: {
+    port: {
+      type: 'string',
+      description: `Port to listen on (default ${DEFAULT_PORT})`,
+      valueHint: 'port',
+    },
+  },
+  async run({ args }) {
+    const port = args.port ? Number(args.port) : DEFAULT_PORT
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      p.log.error(`Invalid port: ${args.port}`)
+      process.exitCode = 1
+      return
+    }
+    const running = await startServer(port)
+    p.log.success(`Listening on http://127.0.0.1:${running.port} (Ctrl+C to stop)`)
+    const shutdown = () => {
+      void running.close().then(() => process.exit(0))
+    }
+    process.once('SIGINT', shutdown)
+    process.once('SIGTERM', shutdown)
+  },
+})
@@ -18,7 +18,7 @@ import { sanitizeMarkdown } from '../core/sanitize.ts'
 import { shutdownWorker } from '../retriv/pool.ts'
 import { fetchGitSkills } from '../sources/git-skills.ts'
 import { track } from '../telemetry.ts'
-import { DEFAULT_SECTIONS, selectLlmConfig } from './llm-prompts.ts'
+import { defaultSectionsFor, selectLlmConfig } from './llm-prompts.ts'
 import { createGithubResolver } from './sync/resolvers.ts'
 import { createSyncRun } from './sync/run.ts'
 import { bindClackUi } from './sync/ui/clack.ts'
@@ -168,7 +168,7 @@ async function syncGitHubRepo(opts: GitSyncOptions): Promise<void> {
     force: opts.force,
     debug: opts.debug,
     from: opts.from,
-    defaultSections: DEFAULT_SECTIONS,
+    defaultSections: defaultSectionsFor,
   })
   bindClackUi(run.hooks, { cwd })
 
@@ -22,7 +22,7 @@ import { semverDiff } from '../core/semver.ts'
 import { parsePackageSpec } from '../core/url.ts'
 import { shutdownWorker } from '../retriv/pool.ts'
 import { searchNpmPackages } from '../sources/index.ts'
-import { DEFAULT_SECTIONS, resolveAutoModel, selectLlmConfig } from './llm-prompts.ts'
+import { defaultSectionsFor, resolveAutoModel, selectLlmConfig } from './llm-prompts.ts'
 import { npmResolver } from './sync/resolvers.ts'
 import { createSyncRun } from './sync/run.ts'
 import { bindParallelUi, renderParallel } from './sync/ui/parallel.ts'
@@ -80,7 +80,7 @@ export async function syncPackagesParallel(config: ParallelSyncConfig): Promise<
     mode: config.mode,
     force: config.force,
     debug: config.debug,
-    defaultSections: DEFAULT_SECTIONS,
+    defaultSections: defaultSectionsFor,
   })
   bindParallelUi(run.hooks, render)
 
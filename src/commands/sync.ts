@@ -8,10 +8,10 @@ import { detectImportedPackages } from '../agent/index.ts'
 import { suggestPrepareHook } from '../cli/prepare-hook.ts'
 import { readConfig } from '../core/config.ts'
 import { timedSpinner } from '../core/formatting.ts'
-import { isCrateSpec } from '../core/prefix.ts'
+import { isCrateSpec, isGoSpec, isPypiSpec } from '../core/prefix.ts'
 import { shutdownWorker } from '../retriv/pool.ts'
 import { searchNpmPackages } from '../sources/index.ts'
-import { DEFAULT_SECTIONS, resolveAutoModel, selectLlmConfig } from './llm-prompts.ts'
+import { defaultSectionsFor, resolveAutoModel, selectLlmConfig } from './llm-prompts.ts'
 import { syncPackagesParallel } from './sync-parallel.ts'
 import { handleMerge } from './sync/merge.ts'
 import { npmResolver } from './sync/resolvers.ts'
@@ -58,10 +58,15 @@ export interface SyncOptions {
   noSearch?: boolean
 }
 
+/** crates.io / PyPI / Go specs sync one at a time outside the npm parallel batch */
+function isNonNpmSpec(spec: string): boolean {
+  return isCrateSpec(spec) || isPypiSpec(spec) || isGoSpec(spec)
+}
+
 export async function syncCommand(state: ProjectState, opts: SyncOptions): Promise<void> {
   if (opts.packages && opts.packages.length > 0) {
-    const crateSpecs = opts.packages.filter(isCrateSpec)
-    const npmSpecs = opts.packages.filter(p => !isCrateSpec(p))
+    const nonNpmSpecs = opts.packages.filter(isNonNpmSpec)
+    const npmSpecs = opts.packages.filter(p => !isNonNpmSpec(p))
 
     if (npmSpecs.length > 1) {
       await syncPackagesParallel({
@@ -79,7 +84,7 @@ export async function syncCommand(state: ProjectState, opts: SyncOptions): Promi
       await syncSinglePackage(npmSpecs[0]!, opts)
     }
 
-    for (const spec of crateSpecs)
+    for (const spec of nonNpmSpecs)
       await syncSinglePackage(spec, opts)
 
     return
@@ -217,7 +222,7 @@ async function runSimpleSync(packageSpec: string, config: SyncConfig): Promise<v
     from: config.from,
     debug: config.debug,
     eject: config.eject,
-    defaultSections: DEFAULT_SECTIONS,
+    defaultSections: defaultSectionsFor,
     onMergeNeeded: state => handleMerge(state, { agent: config.agent, global: config.global }, cwd),
   })
   bindClackUi(run.hooks, { cwd })
@@ -230,7 +235,7 @@ async function runSimpleSync(packageSpec: string, config: SyncConfig): Promise<v
   }
 
   if (base.kind === 'unresolved') {
-    if (!isCrateSpec(packageSpec)) {
+    if (!isNonNpmSpec(packageSpec)) {
       const suggestions = await searchNpmPackages(base.identityName)
       if (suggestions.length > 0) {
         showResolveAttempts(base.attempts)
@@ -284,5 +289,13 @@ async function syncSinglePackage(packageSpec: string, config: SyncConfig): Promi
     p.log.error('Invalid crate spec. Use format: crate:<name>')
     return
   }
+  if (isPypiSpec(packageSpec) && !packageSpec.slice('pypi:'.length).trim()) {
+    p.log.error('Invalid PyPI spec. Use format: pypi:<name>')
+    return
+  }
+  if (isGoSpec(packageSpec) && !packageSpec.slice('go:'.length).trim()) {
+    p.log.error('Invalid Go spec. Use format: go:<module path>')
+    return
+  }
   return runSimpleSync(packageSpec, config)
 }
@@ -11,11 +11,11 @@ import { installSkills } from './install-many.ts'
 import { exportPortablePrompts } from './portable.ts'
 
 export const addCommandDef = defineCommand({
-  meta: { name: 'add', description: 'Install skills (npm:<pkg>, crate:<name>, gh:<owner/repo>, @<curator>)' },
+  meta: { name: 'add', description: 'Install skills (npm:<pkg>, crate:<name>, pypi:<name>, go:<module>, gh:<owner/repo>, @<curator>)' },
   args: {
     'package': {
       type: 'positional',
-      description: 'Package(s) to sync (space/comma-separated; npm:<pkg>, crate:<name>, or owner/repo)',
+      description: 'Package(s) to sync (space/comma-separated; npm:<pkg>, crate:<name>, pypi:<name>, go:<module>, or owner/repo)',
       required: true,
     },
     'skill': {
@@ -1,6 +1,6 @@
 /**
  * Install many skills from a parsed source list. Routes each `SkillSource`
- * to the right pipeline (git, npm registry → npm doc fallback, crate) and
+ * to the right pipeline (git, npm registry → npm doc fallback, crate/PyPI/Go) and
  * collects per-item outcomes for telemetry and `pull` summaries.
  */
 
@@ -82,7 +82,7 @@ export async function installSkills(items: SkillSource[], opts: InstallOpts): Pr
 
   const gitSources: Array<{ source: GitSkillSource, skillFilter?: string }> = []
   const npmEntries: Array<{ name: string, spec: string }> = []
-  const crateSpecs: string[] = []
+  const nonNpmSpecs: string[] = []
   const unsupported: string[] = []
 
   for (const source of items) {
@@ -94,7 +94,13 @@ export async function installSkills(items: SkillSource[], opts: InstallOpts): Pr
         npmEntries.push({ name: source.package, spec: source.tag ? `${source.package}@${source.tag}` : source.package })
         break
       case 'crate':
-        crateSpecs.push(source.version ? `crate:${source.package}@${source.version}` : `crate:${source.package}`)
+        nonNpmSpecs.push(source.version ? `crate:${source.package}@${source.version}` : `crate:${source.package}`)
+        break
+      case 'pypi':
+        nonNpmSpecs.push(source.version ? `pypi:${source.package}@${source.version}` : `pypi:${source.package}`)
+        break
+      case 'go':
+        nonNpmSpecs.push(source.version ? `go:${source.package}@${source.version}` : `go:${source.package}`)
         break
       case 'bare':
         p.log.warn(`Bare names are deprecated. Use ${styleText('cyan', `npm:${source.package}`)} instead.`)
@@ -117,7 +123,7 @@ export async function installSkills(items: SkillSource[], opts: InstallOpts): Pr
     p.log.error(`Curator and collection installs are not yet available:\n  ${unsupported.join('\n  ')}\n\nFollow https://skilld.dev for launch updates.`)
     summary.skipped += unsupported.length
     process.exitCode = 1
-    if (gitSources.length === 0 && npmEntries.length === 0 && crateSpecs.length === 0)
+    if (gitSources.length === 0 && npmEntries.length === 0 && nonNpmSpecs.length === 0)
       return summary
   }
 
@@ -199,7 +205,7 @@ export async function installSkills(items: SkillSource[], opts: InstallOpts): Pr
       const state = await getProjectState(cwd)
       p.intro(introLine({ state, agentId: opts.agent }))
       await syncCommand(state, {
-        packages: [...fallbackPackages, ...crateSpecs],
+        packages: [...fallbackPackages, ...nonNpmSpecs],
         global: !!opts.global,
         agent: opts.agent,
         model: opts.model,
@@ -207,16 +213,16 @@ export async function installSkills(items: SkillSource[], opts: InstallOpts): Pr
         force: opts.force,
         debug: opts.debug,
       })
-      summary.installed += fallbackPackages.length + crateSpecs.length
+      summary.installed += fallbackPackages.length + nonNpmSpecs.length
       return summary
     }
   }
 
-  if (crateSpecs.length > 0) {
+  if (nonNpmSpecs.length > 0) {
     const state = await getProjectState(cwd)
     p.intro(introLine({ state, agentId: opts.agent }))
     await syncCommand(state, {
-      packages: crateSpecs,
+      packages: nonNpmSpecs,
       global: !!opts.global,
       agent: opts.agent,
       model: opts.model,
@@ -224,7 +230,7 @@ export async function installSkills(items: SkillSource[], opts: InstallOpts): Pr
       force: opts.force,
       debug: opts.debug,
     })
-    summary.installed += crateSpecs.length
+    summary.installed += nonNpmSpecs.length
   }
 
   return summary
@@ -13,6 +13,7 @@ import { installSkill } from '../../agent/skill-installer.ts'
 import { createReferenceCache } from '../../cache/index.ts'
 import { getActiveFeatures } from '../../core/config.ts'
 import { todayIsoDate } from '../../core/formatting.ts'
+import { getGitHubEnterpriseHostnames } from '../../core/github-hosts.ts'
 import { parsePackageNames, readLock } from '../../core/lockfile.ts'
 import { getSharedSkillsDir, skillRefsSection } from '../../core/paths.ts'
 import { toStoragePackageName } from '../../core/prefix.ts'
@@ -35,7 +36,7 @@ export async function handleMerge(
   const cache = createReferenceCache(storageName, version)
   cache.linkPkgNamed(skillDir, cwd)
 
-  const repoSlug = parseGitHubRepoSlug(resolved.repoUrl)
+  const repoSlug = parseGitHubRepoSlug(resolved.repoUrl, getGitHubEnterpriseHostnames())
   installSkill({
     cwd,
     agent: config.agent,
@@ -55,7 +56,7 @@ export async function handleMerge(
 
   const updatedLock = readLock(baseDir)?.skills[skillDirName]
   const allPackages = parsePackageNames(updatedLock?.packages)
-  const relatedSkills = await findRelatedSkills(storageName, baseDir)
+  const relatedSkills = await findRelatedSkills(storageName, baseDir, cwd)
   const existingStorageName = toStoragePackageName(existingLock.packageName!)
   const existingCache = createReferenceCache(existingStorageName, existingLock.version)
   const pkgFiles = existingCache.keyFiles(cwd)
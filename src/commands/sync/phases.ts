@@ -20,6 +20,7 @@ import { ensureProjectFiles, handleShippedSkills, installSkill, linkShippedToAge
 import { createReferenceCache } from '../../cache/index.ts'
 import { getActiveFeatures } from '../../core/config.ts'
 import { todayIsoDate } from '../../core/formatting.ts'
+import { getGitHubEnterpriseHostnames } from '../../core/github-hosts.ts'
 import { findSkillDirByPackage, parsePackageNames, readLock } from '../../core/lockfile.ts'
 import { parseFrontmatter } from '../../core/markdown.ts'
 import { getSharedSkillsDir } from '../../core/paths.ts'
@@ -35,7 +36,7 @@ export interface ResolvedSpec {
   storageName: string
   version: string
   resolved: ResolvedPackage
-  kind: 'npm' | 'crate' | 'github'
+  kind: 'npm' | 'crate' | 'pypi' | 'go' | 'github'
   requestedTag?: string
   localVersion?: string
 }
@@ -107,7 +108,7 @@ export async function runBaseSync(
   hooks: Hookable<SyncHooks>,
   resolver: PackageResolver,
   cwd: string,
-  defaultSections: SkillSection[],
+  defaultSections: (updateCtx?: UpdateContext) => SkillSection[],
 ): Promise<BaseSyncResult> {
   await hooks.callHook('resolve:start', { spec })
 
@@ -135,13 +136,15 @@ export async function runBaseSync(
     cache.clearForce()
 
   const useCache = cache.has()
+  // crates.io, PyPI and Go packages have no npm tarball or shipped skills
+  const fromNpm = kind === 'npm' || kind === 'github'
 
-  if (kind !== 'crate' && !existsSync(join(cwd, 'node_modules', identityName))) {
+  if (fromNpm && !existsSync(join(cwd, 'node_modules', identityName))) {
     await hooks.callHook('dist:downloading', { spec })
-    await fetchPkgDist(identityName, version)
+    await fetchPkgDist(identityName, version, cwd)
   }
 
-  if (kind !== 'crate') {
+  if (fromNpm) {
     const shipped = handleShippedSkills(identityName, version, cwd, config.agent, config.global)
     if (shipped) {
       linkShippedToAgents(shipped.shipped, cwd, config.agent, config.global)
@@ -252,7 +255,7 @@ export async function runBaseSync(
     await hooks.callHook('index:done', { spec })
 
   if (!isEject) {
-    const repoSlug = parseGitHubRepoSlug(resolved.repoUrl)
+    const repoSlug = parseGitHubRepoSlug(resolved.repoUrl, getGitHubEnterpriseHostnames())
     cache.linkPkgNamed(skillDir, cwd)
     const lock: SkillInfo = {
       packageName: identityName,
@@ -281,8 +284,10 @@ export async function runBaseSync(
     packageName: identityName,
     cachePackageName: storageName,
     version,
+    previousVersion: updateCtx?.oldVersion,
     skillDir,
     skillDirName,
+    cwd,
     resources,
     prepared,
     resolved,
@@ -294,7 +299,7 @@ export async function runBaseSync(
   ctx.overheadLines = baseSkillMd.split('\n').length
   await hooks.callHook('base:done', { spec, skillDir: relative(cwd, skillDir), mode: config.mode === 'update' ? 'update' : 'add' })
 
-  const allSectionsCached = !config.force && applyCachedSections(ctx, defaultSections, { eject: isEject })
+  const allSectionsCached = !config.force && applyCachedSections(ctx, defaultSections(updateCtx), { eject: isEject })
   if (allSectionsCached)
     await hooks.callHook('sections:cached', { spec })
 
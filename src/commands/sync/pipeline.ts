@@ -1,4 +1,5 @@
 import type { SkillContext } from '../../agent/skill-builder.ts'
+import type { ReferenceCache } from '../../cache/index.ts'
 import type { FeaturesConfig } from '../../core/config.ts'
 import type { IndexDoc } from '../../sources/content-resolver.ts'
 import type { ResolvedPackage } from '../../sources/index.ts'
@@ -11,7 +12,9 @@ import { indexResources } from '../../retriv/index-pipeline.ts'
 import { resolveContentDocs } from '../../sources/content-resolver.ts'
 import {
   fetchNpmPackage,
+  generateApiReference,
   generateDocsIndex,
+  resolveEntryFiles,
   resolveLocalPackageDocs,
 } from '../../sources/index.ts'
 import { resolveTimelineReferences } from '../../sources/timeline-resolver.ts'
@@ -39,10 +42,10 @@ export async function resolveLocalDep(packageName: string, cwd: string): Promise
   return resolveLocalPackageDocs(resolve(cwd, depVersion.slice(5)))
 }
 
-export async function findRelatedSkills(packageName: string, skillsDir: string): Promise<string[]> {
+export async function findRelatedSkills(packageName: string, skillsDir: string, cwd?: string): Promise<string[]> {
   const related: string[] = []
 
-  const npmInfo = await fetchNpmPackage(packageName)
+  const npmInfo = await fetchNpmPackage(packageName, cwd)
   if (!npmInfo?.dependencies)
     return related
 
@@ -166,11 +169,25 @@ export async function fetchAndCacheResources(opts: {
   }
 }
 
+/** Extract `api/` reference pages from the package's `.d.ts` files (once per cached version) */
+async function writeApiReference(cache: ReferenceCache, cwd: string): Promise<boolean> {
+  if (existsSync(join(cache.dir, 'api', '_INDEX.md')))
+    return true
+  const pkgDir = cache.pkgDir(cwd)
+  if (!pkgDir)
+    return false
+  const apiDocs = generateApiReference(await resolveEntryFiles(pkgDir))
+  if (apiDocs.length > 0)
+    cache.write(apiDocs)
+  return apiDocs.length > 0
+}
+
 export interface PreparedSkill {
   hasChangelog: string | false
   shippedDocs: boolean
   pkgFiles: string[]
   relatedSkills: string[]
+  hasApi: boolean
 }
 
 export async function prepareSkillReferences(opts: {
@@ -187,6 +204,7 @@ export async function prepareSkillReferences(opts: {
   const { packageName, version, cwd, skillDir, resources, features, baseDir, extraPackages, onIndexProgress } = opts
   const cache = createReferenceCache(packageName, version)
 
+  const hasApi = await writeApiReference(cache, cwd)
   cache.linkInto(skillDir, cwd, resources.docsType, { features, repoInfo: resources.repoInfo, extraPackages })
 
   if (features.search) {
@@ -204,17 +222,20 @@ export async function prepareSkillReferences(opts: {
   const hasChangelog = detectChangelog(pkgDir, cache.dir)
   const shippedDocs = cache.hasShipped(cwd)
   const pkgFiles = cache.keyFiles(cwd)
-  const relatedSkills = baseDir ? await findRelatedSkills(packageName, baseDir) : []
+  const relatedSkills = baseDir ? await findRelatedSkills(packageName, baseDir, cwd) : []
 
-  return { hasChangelog, shippedDocs, pkgFiles, relatedSkills }
+  return { hasChangelog, shippedDocs, pkgFiles, relatedSkills, hasApi }
 }
 
 export interface BuildSkillContextOpts {
   packageName: string
   cachePackageName?: string
   version: string
+  /** Lockfile version on `skilld update` */
+  previousVersion?: string
   skillDir: string
   skillDirName: string
+  cwd?: string
   resources: FetchResult
   prepared: PreparedSkill
   resolved: ResolvedPackage
@@ -229,8 +250,10 @@ export function buildSkillContext(opts: BuildSkillContextOpts): SkillContext {
     packageName,
     ...(cachePackageName && cachePackageName !== packageName ? { cachePackageName } : {}),
     version: opts.version,
+    ...(opts.previousVersion && opts.previousVersion !== opts.version ? { previousVersion: opts.previousVersion } : {}),
     skillDir: opts.skillDir,
     dirName: opts.skillDirName,
+    cwd: opts.cwd,
     references: {
       docsType: opts.resources.docsType,
       hasShippedDocs: opts.prepared.shippedDocs,
@@ -239,6 +262,7 @@ export function buildSkillContext(opts: BuildSkillContextOpts): SkillContext {
       hasDiscussions: opts.resources.hasDiscussions,
       hasReleases: opts.resources.hasReleases,
       hasChangelog: opts.prepared.hasChangelog,
+      hasApi: opts.prepared.hasApi,
     },
     resolved: opts.resolved,
     relatedSkills: opts.prepared.relatedSkills,
@@ -6,6 +6,7 @@ import { join, relative, resolve } from 'pathe'
 import {
   buildAllSectionPrompts,
   computeSkillDirName,
+  getSectionOutputFile,
   portabilizePrompt,
   SECTION_OUTPUT_FILES,
   writeGeneratedSkillMd,
@@ -14,13 +15,14 @@ import { ensureGitignore, ensureProjectFiles, installSkill, resolveBaseDir } fro
 import { createReferenceCache, listReferenceFiles } from '../../cache/index.ts'
 import { getActiveFeatures } from '../../core/config.ts'
 import { timedSpinner, todayIsoDate } from '../../core/formatting.ts'
+import { getGitHubEnterpriseHostnames } from '../../core/github-hosts.ts'
 import { writeLock } from '../../core/lockfile.ts'
 import { parseGitHubRepoSlug } from '../../core/url.ts'
 import {
   fetchPkgDist,
   resolvePackageOrCrate,
 } from '../../sources/index.ts'
-import { DEFAULT_SECTIONS } from '../llm-prompts.ts'
+import { defaultSectionsFor } from '../llm-prompts.ts'
 import {
   fetchAndCacheResources,
   prepareSkillReferences,
@@ -32,7 +34,7 @@ export async function exportPortablePrompts(packageSpec: string, opts: {
   force?: boolean
   agent?: AgentType | 'none'
 }): Promise<void> {
-  const sections = opts.sections ?? DEFAULT_SECTIONS
+  const sections = opts.sections ?? defaultSectionsFor()
 
   const spin = timedSpinner()
   spin.start(`Resolving ${packageSpec}`)
@@ -54,7 +56,7 @@ export async function exportPortablePrompts(packageSpec: string, opts: {
 
   if (!existsSync(join(cwd, 'node_modules', packageName))) {
     spin.message(`Downloading ${packageName}@${version} dist`)
-    await fetchPkgDist(packageName, version)
+    await fetchPkgDist(packageName, version, cwd)
   }
 
   spin.stop(`Resolved ${packageName}@${useCache ? cache.versionKey : version}`)
@@ -101,7 +103,7 @@ export async function exportPortablePrompts(packageSpec: string, opts: {
     features,
     baseDir: join(skillDir, '..'),
   })
-  const { hasChangelog, shippedDocs, pkgFiles, relatedSkills } = prepared
+  const { hasChangelog, shippedDocs, pkgFiles, relatedSkills, hasApi } = prepared
   const docFiles = listReferenceFiles(skillDir)
 
   const prompts = buildAllSectionPrompts({
@@ -139,6 +141,7 @@ export async function exportPortablePrompts(packageSpec: string, opts: {
     hasDiscussions: resources.hasDiscussions,
     hasReleases: resources.hasReleases,
     hasChangelog,
+    hasApi,
     docsType: resources.docsType,
     hasShippedDocs: shippedDocs,
     pkgFiles,
@@ -147,7 +150,7 @@ export async function exportPortablePrompts(packageSpec: string, opts: {
     eject: true,
   })
 
-  const repoSlug = parseGitHubRepoSlug(resolved.repoUrl)
+  const repoSlug = parseGitHubRepoSlug(resolved.repoUrl, getGitHubEnterpriseHostnames())
   if (agent) {
     const { shared } = installSkill({
       cwd,
@@ -183,6 +186,6 @@ export async function exportPortablePrompts(packageSpec: string, opts: {
   p.log.success(`Skill installed to ${relDir}`)
 
   const promptFiles = sectionList.map(s => `PROMPT_${s}.md`).join(', ')
-  const outputFileList = sectionList.map(s => SECTION_OUTPUT_FILES[s]).join(', ')
+  const outputFileList = sectionList.map(s => getSectionOutputFile(s)).join(', ')
   p.log.info(`Have your agent enhance the skill. Give it this prompt:\n${styleText(['dim', 'italic'], `  Read each prompt file (${promptFiles}) in ${relDir}/, read the\n  referenced files, then write your output to the matching file (${outputFileList}).\n  When done, run: skilld assemble`)}`)
 }
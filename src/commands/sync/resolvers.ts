@@ -16,7 +16,7 @@ export const npmResolver: PackageResolver = async (spec, opts) => {
     cwd: opts.cwd,
     onProgress: msg => opts.onProgress(`${spec}: ${msg}`),
   })
-  const { isCrate, packageName, identityPackageName, storagePackageName, requestedTag, localVersion, attempts, registryVersion } = resolution
+  const { kind, packageName, identityPackageName, storagePackageName, requestedTag, localVersion, attempts, registryVersion } = resolution
 
   if (!resolution.resolved) {
     const result: ResolverResult = {
@@ -24,7 +24,7 @@ export const npmResolver: PackageResolver = async (spec, opts) => {
       attempts,
       registryVersion,
     }
-    if (!isCrate) {
+    if (kind === 'npm') {
       const shippedVersion = localVersion || registryVersion || 'latest'
       const shipped = handleShippedSkills(packageName, shippedVersion, opts.cwd, opts.agent, opts.global)
       if (shipped)
@@ -34,7 +34,7 @@ export const npmResolver: PackageResolver = async (spec, opts) => {
   }
 
   const resolved = resolution.resolved
-  const version = isCrate
+  const version = kind !== 'npm'
     ? (resolved.version || requestedTag || 'latest')
     : (localVersion || resolved.version || 'latest')
 
@@ -43,7 +43,7 @@ export const npmResolver: PackageResolver = async (spec, opts) => {
     storageName: storagePackageName,
     version,
     resolved,
-    kind: isCrate ? 'crate' : 'npm',
+    kind,
     requestedTag,
     localVersion,
   }
@@ -0,0 +1,255 @@
+/**
+ * `skilld update --review` — regenerate sections without losing hand-tuned
+ * bullets. Sections are snapshotted before the sync rewrites SKILL.md, then
+ * the regenerated output is diffed per bullet and merged back after the user
+ * accepts or rejects each change (interactively, or via `.skilld/review/REVIEW.md`
+ * and `skilld update --apply`).
+ *
+ * The merged result is kept as the baseline in `.skilld/baseline/`; items in
+ * SKILL.md that aren't in it were edited by hand and default to being kept.
+ */
+
+import type { SkillSection } from '../../agent/index.ts'
+import type { ReviewDecision, SectionReview } from '../../agent/section-review.ts'
+import type { SkillEntry } from '../../core/skills.ts'
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { styleText } from 'node:util'
+import * as p from '@clack/prompts'
+import { basename, dirname, join, relative } from 'pathe'
+import { getSectionOutputFile, SECTION_MERGE_ORDER } from '../../agent/index.ts'
+import { formatReviewFile, isAcceptedByDefault, mergeSectionReview, parseReviewFile, readMarkedSections, replaceMarkedSections, reviewSections } from '../../agent/section-review.ts'
+import { readLock } from '../../core/lockfile.ts'
+import { skillBaselineDir, skillReviewDir } from '../../core/paths.ts'
+
+const REVIEW_FILE = 'REVIEW.md'
+const PENDING_FILE = 'pending.json'
+const PREVIEW_MAX = 72
+
+export interface ReviewTarget {
+  name: string
+  skillDir: string
+  /** Sections before the update, from `snapshotSkillSections()` */
+  before: Map<SkillSection, string>
+  /** Lockfile version before the update */
+  fromVersion?: string
+}
+
+/** `prompt`: multiselect per section · `defaults`: merge without asking · `patch`: write REVIEW.md for `--apply` */
+export type ReviewMode = 'prompt' | 'defaults' | 'patch'
+
+/** Review state between `update --review` and `update --apply` */
+interface PendingReview {
+  name: string
+  from?: string
+  to?: string
+  before: Partial<Record<SkillSection, string>>
+  after: Partial<Record<SkillSection, string>>
+}
+
+/** Accepted section output from the last review, keyed by section. */
+function readBaseline(skillDir: string): Map<SkillSection, string> {
+  const dir = skillBaselineDir(skillDir)
+  const sections = new Map<SkillSection, string>()
+  if (!existsSync(dir))
+    return sections
+  for (const section of SECTION_MERGE_ORDER) {
+    const file = join(dir, getSectionOutputFile(section))
+    if (existsSync(file))
+      sections.set(section, readFileSync(file, 'utf-8').trim())
+  }
+  return sections
+}
+
+function writeBaseline(skillDir: string, sections: Map<SkillSection, string>): void {
+  const dir = skillBaselineDir(skillDir)
+  rmSync(dir, { recursive: true, force: true })
+  if (sections.size === 0)
+    return
+  mkdirSync(dir, { recursive: true })
+  for (const [section, content] of sections)
+    writeFileSync(join(dir, getSectionOutputFile(section)), `${content}\n`)
+}
+
+/** Sections currently in SKILL.md (hand edits included), falling back to the baseline. */
+export function snapshotSkillSections(skillDir: string): Map<SkillSection, string> {
+  const skillMdPath = join(skillDir, 'SKILL.md')
+  const sections = existsSync(skillMdPath) ? readMarkedSections(readFileSync(skillMdPath, 'utf-8')) : new Map<SkillSection, string>()
+  return sections.size > 0 ? sections : readBaseline(skillDir)
+}
+
+function skillPackageName(skill: SkillEntry): string {
+  return skill.info?.packageName ?? skill.packageName ?? skill.name
+}
+
+function isForPackages(skill: SkillEntry, packages: string[]): boolean {
+  return packages.includes(skillPackageName(skill)) || packages.includes(skill.name)
+}
+
+/** Snapshot the installed skills for `packages` before the sync overwrites their SKILL.md. */
+export function collectReviewTargets(skills: SkillEntry[], packages: string[]): ReviewTarget[] {
+  return skills
+    .filter(s => isForPackages(s, packages))
+    .map(s => ({
+      name: skillPackageName(s),
+      skillDir: s.dir,
+      before: snapshotSkillSections(s.dir),
+      fromVersion: s.info?.version,
+    }))
+}
+
+function lockVersion(skillDir: string): string | undefined {
+  return readLock(dirname(skillDir))?.skills[basename(skillDir)]?.version
+}
+
+function writeSkillSections(skillDir: string, sections: Map<SkillSection, string>): void {
+  const skillMdPath = join(skillDir, 'SKILL.md')
+  writeFileSync(skillMdPath, replaceMarkedSections(readFileSync(skillMdPath, 'utf-8'), sections))
+}
+
+function toRecord(sections: Map<SkillSection, string>): Partial<Record<SkillSection, string>> {
+  return Object.fromEntries(sections) as Partial<Record<SkillSection, string>>
+}
+
+function toMap(record: Partial<Record<SkillSection, string>>): Map<SkillSection, string> {
+  return new Map(Object.entries(record) as Array<[SkillSection, string]>)
+}
+
+function countChanges(reviews: SectionReview[]): number {
+  return reviews.reduce((n, r) => n + r.changes.length, 0)
+}
+
+/** Write the merged sections into SKILL.md, keep them as the new baseline, drop pending state. */
+function finishReview(skillDir: string, reviews: SectionReview[], decisions: Map<string, ReviewDecision>): { accepted: number, total: number } {
+  const merged = new Map<SkillSection, string>()
+  let accepted = 0
+  for (const review of reviews) {
+    merged.set(review.section, mergeSectionReview(review, decisions))
+    accepted += review.changes.filter(c => decisions.get(c.id)?.accept ?? isAcceptedByDefault(c)).length
+  }
+  writeSkillSections(skillDir, merged)
+  writeBaseline(skillDir, new Map([...merged].filter(([, content]) => content)))
+  rmSync(skillReviewDir(skillDir), { recursive: true, force: true })
+  return { accepted, total: countChanges(reviews) }
+}
+
+/** Park the review for `--apply` and put the pre-update sections back into SKILL.md. */
+function deferReview(target: ReviewTarget, pending: PendingReview, reviews: SectionReview[], cwd: string): void {
+  const dir = skillReviewDir(target.skillDir)
+  mkdirSync(dir, { recursive: true })
+  writeFileSync(join(dir, PENDING_FILE), `${JSON.stringify(pending, null, 2)}\n`)
+  writeFileSync(join(dir, REVIEW_FILE), formatReviewFile(reviews, {
+    name: pending.name,
+    from: pending.from,
+    to: pending.to,
+    applyCommand: `skilld update ${pending.name} --apply`,
+  }))
+  writeSkillSections(target.skillDir, new Map(reviews.map(r => [r.section, r.changes.length > 0 ? r.before : r.after])))
+  p.log.info(`Review saved to ${relative(cwd, join(dir, REVIEW_FILE))}\n${styleText('gray', `  Tick the changes to accept, then run: skilld update ${target.name} --apply`)}`)
+}
+
+function preview(text: string): string {
+  const line = text.split('\n')[0]!.trim()
+  return line.length > PREVIEW_MAX ? `${line.slice(0, PREVIEW_MAX - 1)}…` : line
+}
+
+function renderDiff(review: SectionReview): string {
+  const lines = [styleText('bold', `${review.section} — ${review.changes.length} ${review.changes.length === 1 ? 'change' : 'changes'}`)]
+  review.changes.forEach((change, n) => {
+    lines.push('', styleText('gray', `${n + 1}. ${change.kind}${change.edited ? ' (hand-edited)' : ''}`))
+    if (change.before != null)
+      lines.push(...change.before.split('\n').map(l => styleText('red', `- ${l}`)))
+    if (change.after != null)
+      lines.push(...change.after.split('\n').map(l => styleText('green', `+ ${l}`)))
+  })
+  return lines.join('\n')
+}
+
+/** Multiselect per section; null when the user cancels. */
+async function promptDecisions(reviews: SectionReview[]): Promise<Map<string, ReviewDecision> | null> {
+  const decisions = new Map<string, ReviewDecision>()
+  for (const review of reviews) {
+    if (review.changes.length === 0)
+      continue
+    p.log.message(renderDiff(review))
+    const picked = await p.multiselect({
+      message: `Accept changes to ${review.section}`,
+      options: review.changes.map((change, n) => ({
+        value: change.id,
+        label: `${n + 1}. ${change.kind}: ${preview(change.after ?? change.before ?? '')}`,
+        hint: change.edited ? 'hand-edited' : undefined,
+      })),
+      initialValues: review.changes.filter(isAcceptedByDefault).map(c => c.id),
+      required: false,
+    })
+    if (p.isCancel(picked))
+      return null
+    const accepted = new Set(picked as string[])
+    for (const change of review.changes)
+      decisions.set(change.id, { accept: accepted.has(change.id) })
+  }
+  return decisions
+}
+
+/**
+ * Review each target's regenerated sections against its snapshot. In `patch`
+ * mode (or once the user cancels a prompt) the review is parked in
+ * `.skilld/review/` and SKILL.md keeps its current sections until `--apply`.
+ */
+export async function reviewSkillUpdates(targets: ReviewTarget[], opts: { mode: ReviewMode, cwd: string }): Promise<void> {
+  let mode = opts.mode
+  for (const target of targets) {
+    const skillMdPath = join(target.skillDir, 'SKILL.md')
+    if (!existsSync(skillMdPath))
+      continue
+    const after = readMarkedSections(readFileSync(skillMdPath, 'utf-8'))
+    const baseline = readBaseline(target.skillDir)
+    const reviews = reviewSections(target.before, after, baseline.size > 0 ? baseline : undefined)
+    const total = countChanges(reviews)
+
+    if (total === 0) {
+      writeBaseline(target.skillDir, new Map(reviews.map(r => [r.section, r.after])))
+      p.log.info(`${target.name}: no section changes to review`)
+      continue
+    }
+
+    p.log.step(`Reviewing ${target.name}: ${total} ${total === 1 ? 'change' : 'changes'} in ${reviews.filter(r => r.changes.length > 0).length} section(s)`)
+    let decisions: Map<string, ReviewDecision> | null = new Map()
+    if (mode === 'prompt') {
+      decisions = await promptDecisions(reviews)
+      if (!decisions) {
+        p.log.warn('Review cancelled — SKILL.md keeps its current sections')
+        mode = 'patch'
+      }
+    }
+    if (mode === 'patch' || !decisions) {
+      deferReview(target, {
+        name: target.name,
+        from: target.fromVersion,
+        to: lockVersion(target.skillDir),
+        before: toRecord(target.before),
+        after: toRecord(after),
+      }, reviews, opts.cwd)
+      continue
+    }
+
+    const { accepted } = finishReview(target.skillDir, reviews, decisions)
+    p.log.success(`Merged ${accepted} of ${total} changes into ${relative(opts.cwd, skillMdPath)}`)
+  }
+}
+
+/** Skills with a review waiting for `--apply`, optionally limited to `packages`. */
+export function pendingReviewSkills(skills: SkillEntry[], packages?: string[]): SkillEntry[] {
+  return skills.filter(s => existsSync(join(skillReviewDir(s.dir), PENDING_FILE)) && (!packages || isForPackages(s, packages)))
+}
+
+/** Apply the edited `.skilld/review/REVIEW.md` from an earlier `update --review`. */
+export function applyPendingReview(skillDir: string, cwd: string): void {
+  const dir = skillReviewDir(skillDir)
+  const pending = JSON.parse(readFileSync(join(dir, PENDING_FILE), 'utf-8')) as PendingReview
+  const baseline = readBaseline(skillDir)
+  const reviews = reviewSections(toMap(pending.before), toMap(pending.after), baseline.size > 0 ? baseline : undefined)
+  const reviewFile = join(dir, REVIEW_FILE)
+  const decisions = existsSync(reviewFile) ? parseReviewFile(readFileSync(reviewFile, 'utf-8'), reviews) : new Map<string, ReviewDecision>()
+  const { accepted, total } = finishReview(skillDir, reviews, decisions)
+  p.log.success(`${pending.name}: merged ${accepted} of ${total} changes into ${relative(cwd, join(skillDir, 'SKILL.md'))}`)
+}
@@ -13,7 +13,7 @@
 import type { Hookable } from 'hookable'
 import type { OptimizeModel, SkillSection, StreamProgress } from '../../agent/index.ts'
 import type { ResolveAttempt } from '../../sources/index.ts'
-import type { LlmConfig } from '../llm-prompts.ts'
+import type { LlmConfig, UpdateContext } from '../llm-prompts.ts'
 import type { ReadyState } from './phases.ts'
 import type { PackageResolver } from './resolvers.ts'
 import { createHooks } from 'hookable'
@@ -62,7 +62,8 @@ export interface CreateSyncRunOptions {
   from?: string
   debug?: boolean
   eject?: boolean | string
-  defaultSections: SkillSection[]
+  /** Sections expected in the cache, given the version bump (e.g. migration on major/minor) */
+  defaultSections: (updateCtx?: UpdateContext) => SkillSection[]
   /**
    * LLM config resolver. Called once when the first ready state arrives
    * (sequential) or once for the whole batch (parallel) with the
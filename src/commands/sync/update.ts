@@ -1,4 +1,5 @@
 import type { AgentType, OptimizeModel } from '../../agent/index.ts'
+import type { ReviewMode } from './review.ts'
 import { styleText } from 'node:util'
 import * as p from '@clack/prompts'
 import { defineCommand } from 'citty'
@@ -11,10 +12,11 @@ import { getInstalledGenerators, introLine } from '../../cli/intro.ts'
 import { readConfig } from '../../core/config.ts'
 import { resolveSkillName } from '../../core/prefix.ts'
 import { COMMA_OR_WHITESPACE_RE } from '../../core/regex.ts'
-import { getProjectState } from '../../core/skills.ts'
+import { getProjectState, getUpdateSpecs } from '../../core/skills.ts'
 import { createRegistryClient } from '../../registry/client.ts'
 import { syncCommand } from '../sync.ts'
 import { exportPortablePrompts } from './portable.ts'
+import { applyPendingReview, collectReviewTargets, pendingReviewSkills, reviewSkillUpdates } from './review.ts'
 
 async function renderChangesDigest(): Promise<void> {
   const session = await loadSession()
@@ -31,6 +33,16 @@ async function renderChangesDigest(): Promise<void> {
   updateMarker({ lastDigestAt: digest.windowEnd })
 }
 
+/** Package inputs of `skilld update <pkg...>`: the positional plus extra args, split on commas/whitespace */
+function parsePackageArgs(args: { package?: string, _: string[] }): string[] {
+  return [...new Set([args.package ?? '', ...args._].flatMap(s => s.split(COMMA_OR_WHITESPACE_RE)).map(s => s.trim()).filter(Boolean))]
+}
+
+/** Skill names for the package inputs, dropping ones that don't address a single skill */
+function resolvePackageArgs(args: { package?: string, _: string[] }): string[] {
+  return parsePackageArgs(args).map(resolveSkillName).filter((s): s is string => s !== null)
+}
+
 export const updateCommandDef = defineCommand({
   meta: { name: 'update', description: 'Update outdated skills' },
   args: {
@@ -45,6 +57,21 @@ export const updateCommandDef = defineCommand({
       description: 'Run in background (detached process, non-interactive)',
       default: false,
     },
+    review: {
+      type: 'boolean',
+      description: 'Review regenerated sections bullet by bullet before merging into SKILL.md',
+      default: false,
+    },
+    patch: {
+      type: 'boolean',
+      description: 'With --review, write .skilld/review/REVIEW.md to edit instead of prompting',
+      default: false,
+    },
+    apply: {
+      type: 'boolean',
+      description: 'Merge the edited review file from an earlier --review run',
+      default: false,
+    },
     ...sharedArgs,
   },
   async run({ args }) {
@@ -52,7 +79,7 @@ export const updateCommandDef = defineCommand({
 
     if (args.background) {
       const { spawn } = await import('node:child_process')
-      const updateArgs = ['update', ...(args.package ? [args.package] : []), ...(args.agent ? ['--agent', args.agent] : []), ...(args.model ? ['--model', args.model as string] : [])]
+      const updateArgs = ['update', ...(args.package ? [args.package] : []), ...(args.agent ? ['--agent', args.agent] : []), ...(args.model ? ['--model', args.model as string] : []), ...(args.review ? ['--review'] : [])]
       const child = spawn(process.execPath, [process.argv[1]!, ...updateArgs], {
         cwd,
         detached: true,
@@ -64,6 +91,19 @@ export const updateCommandDef = defineCommand({
 
     const silent = !isInteractive()
 
+    if (args.apply) {
+      const state = await getProjectState(cwd)
+      const packages = args.package ? resolvePackageArgs(args) : undefined
+      const skills = pendingReviewSkills(state.skills, packages)
+      if (skills.length === 0) {
+        p.log.warn('No pending section reviews — run `skilld update --review --patch` first')
+        return
+      }
+      for (const skill of skills)
+        applyPendingReview(skill.dir, cwd)
+      return
+    }
+
     // `update --agent none` exports portable prompts; otherwise auto-detect or error.
     let agent: AgentType | 'none' | null
     if (args.agent === 'none') {
@@ -81,10 +121,7 @@ export const updateCommandDef = defineCommand({
     if (agent === 'none') {
       const state = await getProjectState(cwd)
       const packages = args.package
-        ? Array.from(
-            new Set([args.package, ...((args as any)._ || [])].flatMap(s => s.split(COMMA_OR_WHITESPACE_RE)).map(s => s.trim()).filter(Boolean)),
-            s => resolveSkillName(s),
-          ).filter((s): s is string => s !== null)
+        ? resolvePackageArgs(args)
         : state.outdated.map(s => s.packageName || s.name)
       if (packages.length === 0) {
         if (!silent)
@@ -98,6 +135,7 @@ export const updateCommandDef = defineCommand({
 
     const config = readConfig()
     const state = await getProjectState(cwd)
+    const reviewMode: ReviewMode = args.patch || silent ? 'patch' : args.yes ? 'defaults' : 'prompt'
 
     if (!silent) {
       const generators = getInstalledGenerators()
@@ -105,9 +143,8 @@ export const updateCommandDef = defineCommand({
     }
 
     if (args.package) {
-      const raw = [...new Set([args.package, ...((args as any)._ || [])].flatMap(s => s.split(COMMA_OR_WHITESPACE_RE)).map(s => s.trim()).filter(Boolean))]
       const packages: string[] = []
-      for (const r of raw) {
+      for (const r of parsePackageArgs(args)) {
         const name = resolveSkillName(r)
         if (!name) {
           p.log.warn(`Cannot update ${styleText('cyan', r)}: curator/collection inputs are not addressable here.`)
@@ -117,7 +154,8 @@ export const updateCommandDef = defineCommand({
       }
       if (packages.length === 0)
         return
-      return syncCommand(state, {
+      const targets = args.review ? collectReviewTargets(state.skills, packages) : []
+      await syncCommand(state, {
         packages,
         global: args.global,
         agent,
@@ -127,20 +165,18 @@ export const updateCommandDef = defineCommand({
         debug: args.debug,
         mode: 'update',
       })
+      if (args.review)
+        await reviewSkillUpdates(targets, { mode: reviewMode, cwd })
+      return
     }
 
-    const crateSpecs = state.skills
-      .map(s => s.info?.packageName)
-      .filter((name): name is string => !!name && name.startsWith('crate:'))
-    if (state.outdated.length === 0 && crateSpecs.length === 0) {
+    const packages = getUpdateSpecs(state)
+    if (packages.length === 0) {
       p.log.success('All skills up to date')
       return
     }
 
-    const packages = [
-      ...state.outdated.map(s => s.packageName || s.name),
-      ...crateSpecs,
-    ]
+    const targets = args.review ? collectReviewTargets(state.skills, packages) : []
     await syncCommand(state, {
       packages,
       global: args.global,
@@ -151,6 +187,8 @@ export const updateCommandDef = defineCommand({
       debug: args.debug,
       mode: 'update',
     })
+    if (args.review)
+      await reviewSkillUpdates(targets, { mode: reviewMode, cwd })
 
     if (!silent)
       await renderChangesDigest()
@@ -8,10 +8,12 @@
 import type { SkillSection } from '../agent/prompts/index.ts'
 import { existsSync, readFileSync } from 'node:fs'
 import { defineCommand } from 'citty'
-import { getSectionValidator } from '../agent/prompts/index.ts'
+import { getRegisteredSections, getSectionValidator } from '../agent/prompts/index.ts'
 
 const SECTION_HEADINGS: Record<string, SkillSection> = {
   '## API Changes': 'api-changes',
+  '## Migration (': 'migration',
+  '## Deprecated APIs': 'deprecations',
   '## Best Practices': 'best-practices',
 }
 
@@ -21,6 +23,11 @@ function inferSection(content: string): SkillSection | null {
     if (content.includes(heading))
       return section
   }
+  // House sections from skilld.config.json
+  for (const s of getRegisteredSections()) {
+    if (s.heading && content.includes(`## ${s.heading}`))
+      return s.id
+  }
   // Custom sections don't have a fixed heading — fall back
   return 'custom'
 }
@@ -35,7 +42,7 @@ export const validateCommandDef = defineCommand({
     },
     section: {
       type: 'string',
-      description: 'Section type (api-changes, best-practices, custom). Auto-detected from heading if omitted.',
+      description: 'Section type (api-changes, migration, deprecations, best-practices, custom). Auto-detected from heading if omitted.',
     },
   },
 
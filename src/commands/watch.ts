@@ -0,0 +1,284 @@
+/**
+ * `skilld watch` — incremental search reindexing while docs change.
+ *
+ * Watches the reference dirs behind each skill's `.skilld/` symlinks, plus the
+ * local `docs/` folders of `link:` dependencies and `skilld author` packages
+ * (mirrored into the reference cache first). Changed docs are diffed against
+ * the package's search.db and only they go through the indexing worker.
+ */
+
+import type { FSWatcher } from 'node:fs'
+import type { ChangedDoc } from '../retriv/index-pipeline.ts'
+import { createHash } from 'node:crypto'
+import { existsSync, lstatSync, readdirSync, readFileSync, realpathSync, rmSync, statSync, watch } from 'node:fs'
+import * as p from '@clack/prompts'
+import { defineCommand } from 'citty'
+import { join } from 'pathe'
+import { createReferenceCache } from '../cache/index.ts'
+import { readLock } from '../core/index.ts'
+import { detectMonorepoPackages } from '../core/monorepo.ts'
+import { skillInternalDir } from '../core/paths.ts'
+import { toStoragePackageName } from '../core/prefix.ts'
+import { indexChangedDocs } from '../retriv/index-pipeline.ts'
+import { shutdownWorker } from '../retriv/pool.ts'
+import { readLocalDependencies, readLocalPackageInfo } from '../sources/index.ts'
+import { getProjectSkillsDir } from './search-helpers.ts'
+
+const MARKDOWN_RE = /\.mdx?$/
+const DEFAULT_DEBOUNCE_MS = 300
+const REWATCH_DELAY_MS = 1000
+
+export interface WatchTarget {
+  /** Storage package name (reference cache key) */
+  packageName: string
+  version: string
+  /** Directory to watch */
+  dir: string
+  /** Cache-relative prefix of files under `dir` (`docs`, `issues`, ...) */
+  prefix: string
+  /** Local docs source: changes are copied into the reference cache before indexing */
+  mirror?: boolean
+}
+
+/** Real dirs behind a skill's `.skilld/` symlinks; skips linked package sources (`pkg`, `pkg-*`) */
+function skillReferenceTargets(skillDir: string, packageName: string, version: string): WatchTarget[] {
+  const refsDir = skillInternalDir(skillDir)
+  if (!existsSync(refsDir))
+    return []
+  const targets: WatchTarget[] = []
+  for (const entry of readdirSync(refsDir)) {
+    if (entry === 'pkg' || entry.startsWith('pkg-'))
+      continue
+    const full = join(refsDir, entry)
+    if (!lstatSync(full).isSymbolicLink() || !existsSync(full) || !statSync(full).isDirectory())
+      continue
+    targets.push({ packageName, version, dir: realpathSync(full), prefix: entry })
+  }
+  return targets
+}
+
+/** Package name → local dir of the project's `link:` dependencies */
+async function readLinkDeps(cwd: string): Promise<Map<string, string>> {
+  const deps = await readLocalDependencies(cwd).catch(() => [])
+  return new Map(deps.filter(d => d.localPath).map(d => [d.name, d.localPath!]))
+}
+
+/**
+ * Everything `skilld watch` should watch in `cwd`: `.skilld/` reference dirs
+ * of installed skills, `docs/` of `link:` deps, and `docs/` of authored
+ * packages (this package or its workspace packages) that have a reference cache.
+ */
+export async function resolveWatchTargets(cwd: string = process.cwd()): Promise<WatchTarget[]> {
+  const targets: WatchTarget[] = []
+  const add = (target: WatchTarget) => {
+    if (existsSync(target.dir) && !targets.some(t => t.dir === target.dir && t.packageName === target.packageName))
+      targets.push(target)
+  }
+
+  const skillsDir = getProjectSkillsDir(cwd)
+  const lock = skillsDir ? readLock(skillsDir) : null
+  const linkDeps = await readLinkDeps(cwd)
+  for (const [skillName, info] of Object.entries(lock?.skills ?? {})) {
+    if (!info.packageName || !info.version)
+      continue
+    const packageName = toStoragePackageName(info.packageName)
+    for (const target of skillReferenceTargets(join(skillsDir!, skillName), packageName, info.version))
+      add(target)
+    const localPath = linkDeps.get(info.packageName)
+    if (localPath)
+      add({ packageName, version: info.version, dir: join(localPath, 'docs'), prefix: 'docs', mirror: true })
+  }
+
+  const localInfo = readLocalPackageInfo(cwd)
+  const authored = detectMonorepoPackages(cwd)
+    ?? (localInfo?.name ? [{ name: localInfo.name, version: localInfo.version, dir: cwd }] : [])
+  for (const pkg of authored) {
+    if (createReferenceCache(pkg.name, pkg.version).has())
+      add({ packageName: pkg.name, version: pkg.version, dir: join(pkg.dir, 'docs'), prefix: 'docs', mirror: true })
+  }
+
+  return targets
+}
+
+export interface WatchOptions {
+  debounceMs?: number
+  onIndexed?: (target: Pick<WatchTarget, 'packageName' | 'version'>, result: { added: number, removed: number }) => void
+  onError?: (err: Error) => void
+  /** A target's watcher failed (dir removed, out of watch handles); it is re-created while the dir exists */
+  onWatchError?: (target: WatchTarget, err: Error) => void
+  onProgress?: (message: string) => void
+}
+
+export interface DocsWatcher {
+  /** Index pending changes now instead of waiting for the debounce */
+  flush: () => Promise<void>
+  close: () => Promise<void>
+}
+
+/** Watch targets and reindex changed markdown files, batched per package. */
+export function watchDocs(targets: WatchTarget[], opts: WatchOptions = {}): DocsWatcher {
+  const { debounceMs = DEFAULT_DEBOUNCE_MS } = opts
+  // package@version → doc id → changed file
+  const pending = new Map<string, Map<string, { target: WatchTarget, file: string }>>()
+  // Content hash last indexed per doc, so editor double-writes and mirror echoes are skipped
+  const indexedHashes = new Map<string, string>()
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let queue = Promise.resolve()
+
+  function readChange(target: WatchTarget, id: string, file: string): string | null {
+    if (!target.mirror)
+      return existsSync(file) ? readFileSync(file, 'utf-8') : null
+    const cache = createReferenceCache(target.packageName, target.version)
+    const cached = join(cache.dir, id)
+    if (!existsSync(file)) {
+      rmSync(cached, { force: true })
+      return null
+    }
+    cache.write([{ path: id, content: readFileSync(file, 'utf-8') }])
+    return readFileSync(cached, 'utf-8')
+  }
+
+  async function processBatch(batch: typeof pending): Promise<void> {
+    for (const changes of batch.values()) {
+      const { target } = [...changes.values()][0]!
+      const key = `${target.packageName}@${target.version}`
+      const changed: ChangedDoc[] = []
+      for (const [id, { target: t, file }] of changes) {
+        const content = readChange(t, id, file)
+        const hash = content === null ? '' : createHash('sha256').update(content).digest('hex')
+        if (indexedHashes.get(`${key}:${id}`) === hash)
+          continue
+        indexedHashes.set(`${key}:${id}`, hash)
+        changed.push({ id, content })
+      }
+      if (changed.length === 0)
+        continue
+      const result = await indexChangedDocs({
+        packageName: target.packageName,
+        version: target.version,
+        changed,
+        onProgress: opts.onProgress ?? (() => {}),
+      })
+      opts.onIndexed?.(target, result)
+    }
+  }
+
+  function flush(): Promise<void> {
+    if (timer) {
+      clearTimeout(timer)
+      timer = null
+    }
+    if (pending.size > 0) {
+      const batch = new Map(pending)
+      pending.clear()
+      // Serialize batches; the worker pool queues too, but diffs must see the previous write
+      queue = queue.then(() => processBatch(batch)).catch(err => opts.onError?.(err as Error))
+    }
+    return queue
+  }
+
+  const watchers = new Map<WatchTarget, FSWatcher>()
+  const rewatchTimers = new Set<ReturnType<typeof setTimeout>>()
+  let closed = false
+
+  function onChange(target: WatchTarget, filename: string | null): void {
+    if (!filename || !MARKDOWN_RE.test(filename))
+      return
+    const rel = filename.replaceAll('\\', '/')
+    const key = `${target.packageName}@${target.version}`
+    let changes = pending.get(key)
+    if (!changes)
+      pending.set(key, changes = new Map())
+    changes.set(`${target.prefix}/${rel}`, { target, file: join(target.dir, rel) })
+    if (timer)
+      clearTimeout(timer)
+    timer = setTimeout(() => void flush(), debounceMs)
+  }
+
+  /** Tear down a failed watcher and retry later; targets whose dir is gone are dropped. */
+  function rewatch(target: WatchTarget, err: Error): void {
+    watchers.get(target)?.close()
+    watchers.delete(target)
+    opts.onWatchError?.(target, err)
+    const retry = setTimeout(() => {
+      rewatchTimers.delete(retry)
+      if (!closed && existsSync(target.dir))
+        startWatcher(target)
+    }, REWATCH_DELAY_MS)
+    rewatchTimers.add(retry)
+  }
+
+  function startWatcher(target: WatchTarget): void {
+    try {
+      const watcher = watch(target.dir, { recursive: true }, (_event, filename) => onChange(target, filename))
+      watcher.on('error', err => rewatch(target, err))
+      watchers.set(target, watcher)
+    }
+    catch (err) {
+      rewatch(target, err as Error)
+    }
+  }
+
+  for (const target of targets)
+    startWatcher(target)
+
+  return {
+    flush,
+    async close() {
+      closed = true
+      for (const retry of rewatchTimers)
+        clearTimeout(retry)
+      rewatchTimers.clear()
+      for (const w of watchers.values())
+        w.close()
+      watchers.clear()
+      await flush()
+    },
+  }
+}
+
+export const watchCommandDef = defineCommand({
+  meta: { name: 'watch', description: 'Reindex search as linked, authored and cached docs change' },
+  args: {
+    debounce: {
+      type: 'string',
+      description: `Milliseconds to batch changes before indexing (default ${DEFAULT_DEBOUNCE_MS})`,
+      valueHint: 'ms',
+    },
+  },
+  async run({ args }) {
+    const debounceMs = args.debounce ? Number(args.debounce) : DEFAULT_DEBOUNCE_MS
+    if (!Number.isInteger(debounceMs) || debounceMs < 0) {
+      p.log.error(`Invalid debounce: ${args.debounce}`)
+      process.exitCode = 1
+      return
+    }
+
+    const targets = await resolveWatchTargets()
+    if (targets.length === 0) {
+      p.log.warn('Nothing to watch. Run `skilld add <package>` or `skilld author` first.')
+      return
+    }
+    const packages = new Set(targets.map(t => `${t.packageName}@${t.version}`))
+    p.log.info(`Watching ${targets.length} dirs across ${packages.size} packages (Ctrl+C to stop)`)
+
+    const watcher = watchDocs(targets, {
+      debounceMs,
+      onIndexed: (target, { added, removed }) => {
+        if (added > 0 || removed > 0)
+          p.log.step(`${target.packageName}@${target.version}: reindexed ${added} docs (${removed} stale chunks removed)`)
+      },
+      onError: err => p.log.error(`Reindex failed: ${err.message}`),
+      onWatchError: (target, err) => p.log.warn(`Watcher for ${target.dir} failed (${err.message}), ${existsSync(target.dir) ? 'restarting' : 'dir is gone, no longer watching it'}`),
+      onProgress: message => p.log.message(message),
+    })
+
+    const shutdown = () => {
+      void watcher.close()
+        .then(() => shutdownWorker())
+        .then(() => process.exit(0))
+    }
+    process.once('SIGINT', shutdown)
+    process.once('SIGTERM', shutdown)
+  },
+})
@@ -4,6 +4,9 @@ import { CACHE_DIR, CONFIG_PATH } from './paths.ts'
 import { yamlEscape, yamlParseKV, yamlUnescape } from './yaml.ts'
 
 const STATIC_REGEX_1 = /^ {2}(\w+):\s*(.+)/
+const GITHUB_HOST_LINE_RE = /^ {2}([\w.-]+):\s*$/
+const GITHUB_HOST_PROP_RE = /^ {4}(\w+):\s*(.+)/
+const GITHUB_HOST_KEYS = ['apiUrl', 'rawUrl', 'graphqlUrl', 'token'] as const
 
 export interface FeaturesConfig {
   search: boolean
@@ -29,12 +32,42 @@ export function getActiveFeatures(overrides?: Partial<FeaturesConfig>): Features
   return overrides ? { ...merged, ...overrides } : merged
 }
 
+/** Per-host settings for a GitHub Enterprise Server instance */
+export interface GitHubHostConfig {
+  /** REST API base, defaults to `https://{host}/api/v3` */
+  apiUrl?: string
+  /** Raw file base, defaults to `https://{host}/raw` */
+  rawUrl?: string
+  /** GraphQL endpoint, defaults to `https://{host}/api/graphql` */
+  graphqlUrl?: string
+  /** Access token for this host only (falls back to `gh auth token --hostname`) */
+  token?: string
+}
+
 export interface SkilldConfig {
   model?: OptimizeModel
   agent?: string
   features?: FeaturesConfig
   projects?: string[]
   skipLlm?: boolean
+  /** Self-hosted GitLab base URL (e.g. `https://gitlab.example.com`); gitlab.com is always recognised */
+  gitlabUrl?: string
+  /** GitLab personal/project access token for timeline data (`GITLAB_TOKEN` env takes precedence) */
+  gitlabToken?: string
+  /** Self-hosted Gitea/Forgejo base URL; codeberg.org and gitea.com are always recognised */
+  giteaUrl?: string
+  /** Gitea/Forgejo access token, only sent to `giteaUrl` (`GITEA_TOKEN` env takes precedence) */
+  giteaToken?: string
+  /** GitHub Enterprise Server hosts keyed by hostname, treated like github.com */
+  githubHosts?: Record<string, GitHubHostConfig>
+  /** Rerank search results with a local cross-encoder by default */
+  rerank?: boolean
+  /** transformers.js model id for search embeddings (e.g. `Xenova/bge-small-en-v1.5`); indexes rebuild when it changes */
+  embeddingModel?: string
+  /** Stop starting new sections once one enhancement run has cost this much (USD) */
+  maxCostPerRun?: number
+  /** Stop starting new sections once one enhancement run has used this many tokens */
+  maxTokensPerRun?: number
 }
 
 let configCache: SkilldConfig | undefined
@@ -57,6 +90,9 @@ export function readConfig(): SkilldConfig {
       ...configCache,
       features: configCache.features ? { ...configCache.features } : undefined,
       projects: configCache.projects ? [...configCache.projects] : undefined,
+      githubHosts: configCache.githubHosts
+        ? Object.fromEntries(Object.entries(configCache.githubHosts).map(([h, c]) => [h, { ...c }]))
+        : undefined,
     }
   }
   if (!existsSync(CONFIG_PATH))
@@ -64,9 +100,11 @@ export function readConfig(): SkilldConfig {
 
   const content = readFileSync(CONFIG_PATH, 'utf-8')
   const config: SkilldConfig = {}
-  let inBlock: 'projects' | 'features' | null = null
+  let inBlock: 'projects' | 'features' | 'githubHosts' | null = null
   const projects: string[] = []
   const features: Partial<FeaturesConfig> = {}
+  const githubHosts: Record<string, GitHubHostConfig> = {}
+  let githubHost: GitHubHostConfig | null = null
 
   for (const line of content.split('\n')) {
     if (line.startsWith('projects:')) {
@@ -77,6 +115,10 @@ export function readConfig(): SkilldConfig {
       inBlock = 'features'
       continue
     }
+    if (line.startsWith('githubHosts:')) {
+      inBlock = 'githubHosts'
+      continue
+    }
     if (inBlock === 'projects') {
       if (line.startsWith('  - ')) {
         projects.push(yamlUnescape(line.slice(4)))
@@ -94,6 +136,21 @@ export function readConfig(): SkilldConfig {
       }
       inBlock = null
     }
+    if (inBlock === 'githubHosts') {
+      const host = line.match(GITHUB_HOST_LINE_RE)
+      if (host) {
+        githubHost = githubHosts[host[1]!.toLowerCase()] = {}
+        continue
+      }
+      const prop = line.match(GITHUB_HOST_PROP_RE)
+      if (prop && githubHost) {
+        const key = prop[1] as typeof GITHUB_HOST_KEYS[number]
+        if (GITHUB_HOST_KEYS.includes(key))
+          githubHost[key] = yamlUnescape(prop[2]!)
+        continue
+      }
+      inBlock = null
+    }
     const kv = yamlParseKV(line)
     if (!kv)
       continue
@@ -104,12 +161,30 @@ export function readConfig(): SkilldConfig {
       config.agent = value
     if (key === 'skipLlm')
       config.skipLlm = value === 'true'
+    if (key === 'rerank')
+      config.rerank = value === 'true'
+    if (key === 'embeddingModel' && value)
+      config.embeddingModel = value
+    if (key === 'maxCostPerRun' && Number(value) > 0)
+      config.maxCostPerRun = Number(value)
+    if (key === 'maxTokensPerRun' && Number(value) > 0)
+      config.maxTokensPerRun = Math.floor(Number(value))
+    if (key === 'gitlabUrl' && value)
+      config.gitlabUrl = value
+    if (key === 'gitlabToken' && value)
+      config.gitlabToken = value
+    if (key === 'giteaUrl' && value)
+      config.giteaUrl = value
+    if (key === 'giteaToken' && value)
+      config.giteaToken = value
   }
 
   if (projects.length > 0)
     config.projects = projects
   if (Object.keys(features).length > 0)
     config.features = { ...defaultFeatures, ...features }
+  if (Object.keys(githubHosts).length > 0)
+    config.githubHosts = githubHosts
   configCache = config
   return config
 }
@@ -124,6 +199,32 @@ export function writeConfig(config: SkilldConfig): void {
     yaml += `agent: ${config.agent}\n`
   if (config.skipLlm)
     yaml += `skipLlm: true\n`
+  if (config.rerank)
+    yaml += `rerank: true\n`
+  if (config.embeddingModel)
+    yaml += `embeddingModel: ${yamlEscape(config.embeddingModel)}\n`
+  if (config.maxCostPerRun)
+    yaml += `maxCostPerRun: ${config.maxCostPerRun}\n`
+  if (config.maxTokensPerRun)
+    yaml += `maxTokensPerRun: ${config.maxTokensPerRun}\n`
+  if (config.gitlabUrl)
+    yaml += `gitlabUrl: ${yamlEscape(config.gitlabUrl)}\n`
+  if (config.gitlabToken)
+    yaml += `gitlabToken: ${yamlEscape(config.gitlabToken)}\n`
+  if (config.giteaUrl)
+    yaml += `giteaUrl: ${yamlEscape(config.giteaUrl)}\n`
+  if (config.giteaToken)
+    yaml += `giteaToken: ${yamlEscape(config.giteaToken)}\n`
+  if (config.githubHosts && Object.keys(config.githubHosts).length > 0) {
+    yaml += 'githubHosts:\n'
+    for (const [host, hostConfig] of Object.entries(config.githubHosts)) {
+      yaml += `  ${host}:\n`
+      for (const key of GITHUB_HOST_KEYS) {
+        if (hostConfig[key])
+          yaml += `    ${key}: ${yamlEscape(hostConfig[key])}\n`
+      }
+    }
+  }
   if (config.features) {
     yaml += 'features:\n'
     for (const [k, v] of Object.entries(config.features)) {
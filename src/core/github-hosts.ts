@@ -0,0 +1,100 @@
+/**
+ * GitHub host resolution: github.com plus configured GitHub Enterprise Server
+ * instances (`githubHosts` in config, or `GITHUB_ENTERPRISE_URL` env).
+ *
+ * Which host a given owner/repo lives on is tracked by the sources layer
+ * (`src/sources/github-common.ts`).
+ */
+
+import { readConfig } from './config.ts'
+
+const TRAILING_SLASHES_RE = /\/+$/
+
+export interface GitHubHost {
+  hostname: string
+  /** Web origin, e.g. `https://github.mycorp.com` */
+  webUrl: string
+  /** REST API base without trailing slash */
+  apiUrl: string
+  /** Raw file base; files live at `{rawUrl}/{owner}/{repo}/{ref}/{path}` */
+  rawUrl: string
+  graphqlUrl: string
+  /** Token configured for this host, if any */
+  token?: string
+  enterprise: boolean
+}
+
+export const GITHUB_COM_HOST: GitHubHost = {
+  hostname: 'github.com',
+  webUrl: 'https://github.com',
+  apiUrl: 'https://api.github.com',
+  rawUrl: 'https://raw.githubusercontent.com',
+  graphqlUrl: 'https://api.github.com/graphql',
+  enterprise: false,
+}
+
+function trimUrl(url: string | undefined): string | undefined {
+  return url?.trim().replace(TRAILING_SLASHES_RE, '') || undefined
+}
+
+function enterpriseHost(hostname: string, overrides: { apiUrl?: string, rawUrl?: string, graphqlUrl?: string, token?: string } = {}): GitHubHost {
+  const webUrl = `https://${hostname}`
+  return {
+    hostname,
+    webUrl,
+    apiUrl: trimUrl(overrides.apiUrl) || `${webUrl}/api/v3`,
+    rawUrl: trimUrl(overrides.rawUrl) || `${webUrl}/raw`,
+    graphqlUrl: trimUrl(overrides.graphqlUrl) || `${webUrl}/api/graphql`,
+    token: overrides.token || undefined,
+    enterprise: true,
+  }
+}
+
+function envHostname(): string | null {
+  const raw = process.env.GITHUB_ENTERPRISE_URL
+  if (!raw)
+    return null
+  try {
+    return new URL(raw.includes('://') ? raw : `https://${raw}`).hostname.toLowerCase()
+  }
+  catch {
+    return null
+  }
+}
+
+/**
+ * Configured enterprise hosts. The env host (`GITHUB_ENTERPRISE_URL` with
+ * optional `GITHUB_ENTERPRISE_{API,RAW,GRAPHQL}_URL` and
+ * `GITHUB_ENTERPRISE_TOKEN` / `GH_ENTERPRISE_TOKEN`) overrides config for the
+ * same hostname.
+ */
+export function getGitHubEnterpriseHosts(): GitHubHost[] {
+  const hosts = new Map<string, GitHubHost>()
+  for (const [hostname, config] of Object.entries(readConfig().githubHosts ?? {}))
+    hosts.set(hostname, enterpriseHost(hostname, config))
+
+  const hostname = envHostname()
+  if (hostname) {
+    const config = readConfig().githubHosts?.[hostname] ?? {}
+    hosts.set(hostname, enterpriseHost(hostname, {
+      apiUrl: process.env.GITHUB_ENTERPRISE_API_URL || config.apiUrl,
+      rawUrl: process.env.GITHUB_ENTERPRISE_RAW_URL || config.rawUrl,
+      graphqlUrl: process.env.GITHUB_ENTERPRISE_GRAPHQL_URL || config.graphqlUrl,
+      token: process.env.GITHUB_ENTERPRISE_TOKEN || process.env.GH_ENTERPRISE_TOKEN || config.token,
+    }))
+  }
+  return [...hosts.values()]
+}
+
+/** Look up github.com or a configured enterprise host by hostname. */
+export function findGitHubHost(hostname: string): GitHubHost | null {
+  const name = hostname.toLowerCase()
+  if (name === 'github.com' || name === 'www.github.com')
+    return GITHUB_COM_HOST
+  return getGitHubEnterpriseHosts().find(h => h.hostname === name) ?? null
+}
+
+/** Hostnames of the configured enterprise hosts, for `parseGitHubUrl()`. */
+export function getGitHubEnterpriseHostnames(): string[] {
+  return getGitHubEnterpriseHosts().map(h => h.hostname)
+}
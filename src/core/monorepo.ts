@@ -53,25 +53,18 @@ function readWorkspacePatterns(cwd: string, pkg: Record<string, any>): string[]
   return patterns
 }
 
-/**
- * Detect public (non-private) packages declared by a workspace root.
- * Returns null if `cwd` is not a private workspace root or has no public
- * packages. Supports `package.json#workspaces` (array or `{ packages }`)
- * and `pnpm-workspace.yaml`.
- */
-export function detectMonorepoPackages(cwd: string): MonorepoPackage[] | null {
-  const rootResult = readPackageJsonSafe(join(cwd, 'package.json'))
-  if (!rootResult)
-    return null
-
-  const pkg = rootResult.parsed as Record<string, any>
-  if (!pkg.private)
-    return null
-
-  const patterns = readWorkspacePatterns(cwd, pkg)
-  if (patterns.length === 0)
-    return null
+function toMonorepoPackage(pkg: Record<string, any>, dir: string): MonorepoPackage {
+  return {
+    name: pkg.name,
+    version: pkg.version || '0.0.0',
+    description: pkg.description,
+    repoUrl: readRepoUrl(pkg),
+    dir,
+  }
+}
 
+/** Expand workspace patterns one level deep, keeping packages that pass `include`. */
+function scanWorkspacePackages(cwd: string, patterns: string[], include: (pkg: Record<string, any>) => boolean): MonorepoPackage[] {
   const packages: MonorepoPackage[] = []
 
   for (const pattern of patterns) {
@@ -83,14 +76,8 @@ export function detectMonorepoPackages(cwd: string): MonorepoPackage[] | null {
     const directResult = readPackageJsonSafe(join(scanDir, 'package.json'))
     if (directResult) {
       const directPkg = directResult.parsed as Record<string, any>
-      if (!directPkg.private && directPkg.name) {
-        packages.push({
-          name: directPkg.name,
-          version: directPkg.version || '0.0.0',
-          description: directPkg.description,
-          repoUrl: readRepoUrl(directPkg),
-          dir: scanDir,
-        })
+      if (include(directPkg)) {
+        packages.push(toMonorepoPackage(directPkg, scanDir))
         continue
       }
     }
@@ -103,18 +90,43 @@ export function detectMonorepoPackages(cwd: string): MonorepoPackage[] | null {
         continue
 
       const childPkg = childResult.parsed as Record<string, any>
-      if (childPkg.private || !childPkg.name)
-        continue
-
-      packages.push({
-        name: childPkg.name,
-        version: childPkg.version || '0.0.0',
-        description: childPkg.description,
-        repoUrl: readRepoUrl(childPkg),
-        dir: join(scanDir, entry.name),
-      })
+      if (include(childPkg))
+        packages.push(toMonorepoPackage(childPkg, join(scanDir, entry.name)))
     }
   }
 
+  return packages
+}
+
+/**
+ * Detect public (non-private) packages declared by a workspace root.
+ * Returns null if `cwd` is not a private workspace root or has no public
+ * packages. Supports `package.json#workspaces` (array or `{ packages }`)
+ * and `pnpm-workspace.yaml`.
+ */
+export function detectMonorepoPackages(cwd: string): MonorepoPackage[] | null {
+  const rootResult = readPackageJsonSafe(join(cwd, 'package.json'))
+  if (!rootResult)
+    return null
+
+  const pkg = rootResult.parsed as Record<string, any>
+  if (!pkg.private)
+    return null
+
+  const patterns = readWorkspacePatterns(cwd, pkg)
+  if (patterns.length === 0)
+    return null
+
+  const packages = scanWorkspacePackages(cwd, patterns, p => !p.private && !!p.name)
   return packages.length > 0 ? packages : null
 }
+
+/**
+ * Every named package (private included) declared by the workspace root at
+ * `cwd`. Used to resolve `workspace:` specifiers to the sibling's version.
+ */
+export function readWorkspacePackages(cwd: string): MonorepoPackage[] {
+  const pkg = (readPackageJsonSafe(join(cwd, 'package.json'))?.parsed ?? {}) as Record<string, any>
+  const patterns = readWorkspacePatterns(cwd, pkg)
+  return patterns.length > 0 ? scanWorkspacePackages(cwd, patterns, p => !!p.name) : []
+}
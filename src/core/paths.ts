@@ -30,6 +30,9 @@ export const SKILL_INTERNAL_FILENAME = '_SKILL.md'
 /** Lockfile sibling of skill directories */
 export const LOCK_FILENAME = 'skilld-lock.yaml'
 
+/** Project config at (or above) the project root, e.g. for house section plugins */
+export const PROJECT_CONFIG_FILENAME = 'skilld.config.json'
+
 /** Config filename inside the global cache */
 export const CONFIG_FILENAME = 'config.yaml'
 
@@ -50,6 +53,9 @@ export const LLM_CACHE_DIR: string = join(CACHE_DIR, 'llm-cache')
 /** Global config file */
 export const CONFIG_PATH: string = join(CACHE_DIR, CONFIG_FILENAME)
 
+/** Append-only LLM usage ledger (one JSON record per section run) */
+export const USAGE_LEDGER_PATH: string = join(CACHE_DIR, 'usage.jsonl')
+
 /** pi-ai auth credentials */
 export const PI_AI_AUTH_PATH: string = join(CACHE_DIR, 'pi-ai-auth.json')
 
@@ -84,6 +90,16 @@ export function skillLogDir(skillDir: string): string {
   return join(skillDir, SKILL_INTERNAL_DIRNAME, 'logs')
 }
 
+/** Accepted section output from the last `update --review` (`<skillDir>/.skilld/baseline`) */
+export function skillBaselineDir(skillDir: string): string {
+  return join(skillDir, SKILL_INTERNAL_DIRNAME, 'baseline')
+}
+
+/** Pending `update --review` state and review file (`<skillDir>/.skilld/review`) */
+export function skillReviewDir(skillDir: string): string {
+  return join(skillDir, SKILL_INTERNAL_DIRNAME, 'review')
+}
+
 /** Per-skill section dir (`<skillDir>/.skilld/<section>`), e.g. issues/discussions/releases/docs */
 export function skillRefsSection(skillDir: string, section: string): string {
   return join(skillDir, SKILL_INTERNAL_DIRNAME, section)
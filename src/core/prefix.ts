@@ -4,6 +4,8 @@
  * All sources require an explicit prefix:
  *   npm:vue         → package skill from registry
  *   crate:serde     → Rust crate from crates.io
+ *   pypi:requests   → Python project from PyPI
+ *   go:golang.org/x/sync → Go module via the module proxy
  *   gh:owner/repo   → git skill
  *   github:o/r      → git skill (alias)
  *   @handle          → curator's skills
@@ -14,12 +16,17 @@
 
 import type { GitSkillSource } from '../sources/git-skills.ts'
 import { parseGitSkillInput } from '../sources/git-skills.ts'
+import { TRAILING_SLASH_RE } from './regex.ts'
 
 const STATIC_REGEX_1 = /^[\w.-]+\/[\w.-]+/
+const PYPI_NAME_SEPARATORS_RE = /[-_.]+/g
+const GO_PATH_SEPARATOR_RE = /\//g
 
 export type SkillSource
   = | { type: 'npm', package: string, tag?: string }
     | { type: 'crate', package: string, version?: string }
+    | { type: 'pypi', package: string, version?: string }
+    | { type: 'go', package: string, version?: string }
     | { type: 'git', source: GitSkillSource, skillFilter?: string }
     | { type: 'curator', handle: string }
     | { type: 'collection', handle: string, name: string }
@@ -49,6 +56,24 @@ export function parseSkillInput(input: string): SkillSource {
     return { type: 'crate', package: name, version }
   }
 
+  // pypi: prefix → Python project from PyPI (PEP 503 normalized name)
+  if (trimmed.startsWith('pypi:')) {
+    const rest = trimmed.slice(5).trim()
+    const atIdx = rest.indexOf('@')
+    const name = normalizePypiName(atIdx === -1 ? rest : rest.slice(0, atIdx))
+    const version = atIdx === -1 ? undefined : rest.slice(atIdx + 1) || undefined
+    return { type: 'pypi', package: name, version }
+  }
+
+  // go: prefix → Go module path (case-sensitive, no normalization)
+  if (trimmed.startsWith('go:')) {
+    const rest = trimmed.slice(3).trim()
+    const atIdx = rest.lastIndexOf('@')
+    const name = (atIdx === -1 ? rest : rest.slice(0, atIdx)).replace(TRAILING_SLASH_RE, '')
+    const version = atIdx === -1 ? undefined : rest.slice(atIdx + 1) || undefined
+    return { type: 'go', package: name, version }
+  }
+
   // gh: or github: prefix → git skill
   if (trimmed.startsWith('gh:') || trimmed.startsWith('github:')) {
     const rest = trimmed.startsWith('gh:') ? trimmed.slice(3) : trimmed.slice(7)
@@ -100,6 +125,10 @@ export function resolveSkillName(input: string): string | null {
       return source.package
     case 'crate':
       return `crate:${source.package}`
+    case 'pypi':
+      return `pypi:${source.package}`
+    case 'go':
+      return `go:${source.package}`
     case 'git':
       if (source.source.type === 'github' && source.source.repo)
         return source.source.repo
@@ -116,12 +145,17 @@ export function resolveSkillName(input: string): string | null {
 
 /**
  * Map a lockfile/identity package name to the storage-safe name used for
- * cache directories and symlinks. `crate:serde` → `@skilld-crate/serde`;
- * other names pass through unchanged.
+ * cache directories and symlinks. `crate:serde` → `@skilld-crate/serde`,
+ * `pypi:requests` → `@skilld-pypi/requests`, `go:golang.org/x/sync` →
+ * `@skilld-go/golang.org__x__sync`; other names pass through unchanged.
  */
 export function toStoragePackageName(identityName: string): string {
   if (identityName.startsWith('crate:'))
     return `@skilld-crate/${identityName.slice('crate:'.length)}`
+  if (identityName.startsWith('pypi:'))
+    return `@skilld-pypi/${identityName.slice('pypi:'.length)}`
+  if (identityName.startsWith('go:'))
+    return `@skilld-go/${identityName.slice('go:'.length).toLowerCase().replace(GO_PATH_SEPARATOR_RE, '__')}`
   return identityName
 }
 
@@ -135,6 +169,31 @@ export function toCrateIdentity(crateName: string): string {
   return `crate:${crateName}`
 }
 
+/** PEP 503 normalized project name: lowercase, runs of `-`/`_`/`.` collapsed to `-`. */
+export function normalizePypiName(name: string): string {
+  return name.trim().toLowerCase().replace(PYPI_NAME_SEPARATORS_RE, '-')
+}
+
+/** True if `spec` targets PyPI (`pypi:<name>` form). */
+export function isPypiSpec(spec: string): boolean {
+  return spec.startsWith('pypi:')
+}
+
+/** Wrap a normalized PyPI project name as the lockfile identity name. */
+export function toPypiIdentity(projectName: string): string {
+  return `pypi:${projectName}`
+}
+
+/** True if `spec` targets the Go module proxy (`go:<module path>` form). */
+export function isGoSpec(spec: string): boolean {
+  return spec.startsWith('go:')
+}
+
+/** Wrap a Go module path as the lockfile identity name. */
+export function toGoIdentity(modulePath: string): string {
+  return `go:${modulePath}`
+}
+
 /**
  * Split "package@tag" into name and optional tag.
  * Handles scoped packages: "@scope/pkg@tag"
@@ -14,11 +14,16 @@ import { readPackageJsonSafe } from './package-json.ts'
 import { README_FILENAME_RE } from './regex.ts'
 
 const STATIC_REGEX_2 = /^changelog\.md$/i
+const GO_PATH_SEPARATOR_RE = /\//g
 
-/** Map lockfile identity name to storage-safe cache key (crate:X → @skilld-crate/X) */
+/** Map lockfile identity name to storage-safe cache key (crate:X → @skilld-crate/X, pypi:X → @skilld-pypi/X, go:a/b → @skilld-go/a__b) */
 function toStorageName(name: string): string {
   if (name.startsWith('crate:'))
     return `@skilld-crate/${name.slice('crate:'.length)}`
+  if (name.startsWith('pypi:'))
+    return `@skilld-pypi/${name.slice('pypi:'.length)}`
+  if (name.startsWith('go:'))
+    return `@skilld-go/${name.slice('go:'.length).toLowerCase().replace(GO_PATH_SEPARATOR_RE, '__')}`
   return name
 }
 
@@ -30,7 +35,8 @@ export function resolvePkgDir(name: string, cwd: string, version?: string): stri
 
   if (version) {
     const cachedPkgDir = join(getCacheDir(name, version), 'pkg')
-    if (existsSync(join(cachedPkgDir, 'package.json')))
+    // npm tarballs carry package.json; Go module zips carry go.mod
+    if (existsSync(join(cachedPkgDir, 'package.json')) || existsSync(join(cachedPkgDir, 'go.mod')))
       return cachedPkgDir
   }
 
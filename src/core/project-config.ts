@@ -0,0 +1,199 @@
+/**
+ * Project config (`skilld.config.json`, JSONC) — settings a team commits next
+ * to its code, as opposed to the per-user `~/.skilld/config.yaml`.
+ *
+ * Currently holds house section definitions:
+ *
+ * ```jsonc
+ * {
+ *   "sections": [
+ *     {
+ *       "id": "testing-patterns",
+ *       "heading": "Testing Patterns",
+ *       "prompt": "How we test code that uses this package: fixtures, mocks, helpers.",
+ *       "maxLines": 60,
+ *       "after": "best-practices",
+ *       "validate": { "sourceCoverage": 0.5, "forbid": ["TODO"] }
+ *     }
+ *   ]
+ * }
+ * ```
+ */
+
+import type { ParseError } from 'jsonc-parser'
+import { existsSync, readFileSync } from 'node:fs'
+import { parse, printParseErrorCode } from 'jsonc-parser'
+import { dirname, join, resolve } from 'pathe'
+import { PROJECT_CONFIG_FILENAME } from './paths.ts'
+
+const SECTION_ID_RE = /^[a-z][a-z0-9-]*$/
+const OUTPUT_FILE_RE = /^_[\w-]+\.md$/
+const DASH_RE = /-/g
+
+export interface ProjectSectionValidation {
+  /** Minimum share of bullets with a `[source]` link (0–1, default 0.5) */
+  sourceCoverage?: number
+  /** Patterns (multiline regex) the output must match */
+  require?: string[]
+  /** Patterns (multiline regex) the output must not match */
+  forbid?: string[]
+}
+
+export interface ProjectSectionConfig {
+  /** Kebab-case id, used for cache keys, `PROMPT_<id>.md` and SKILL.md markers */
+  id: string
+  /** `## ` heading the section must start with */
+  heading: string
+  /** Instructions for the model */
+  prompt: string
+  /** File inside `.skilld/` the section writes to (default `_<ID>.md`) */
+  outputFile?: string
+  /** Line budget before scaling by enabled section count (default 80) */
+  maxLines?: number
+  /** Item budget before scaling (omit for free-form sections) */
+  maxItems?: number
+  /** Merge after this section in SKILL.md (default: before `custom`) */
+  after?: string
+  /** Selected when sections aren't picked interactively (default true) */
+  default?: boolean
+  validate?: ProjectSectionValidation
+}
+
+export interface ProjectConfig {
+  /** Absolute path of the config file */
+  path: string
+  sections: ProjectSectionConfig[]
+  /** Problems with individual entries; invalid entries are left out of `sections` */
+  errors: string[]
+}
+
+/** Nearest `skilld.config.json` at or above `cwd`, or null */
+export function findProjectConfig(cwd: string = process.cwd()): string | null {
+  let dir = resolve(cwd)
+  while (true) {
+    const candidate = join(dir, PROJECT_CONFIG_FILENAME)
+    if (existsSync(candidate))
+      return candidate
+    const parent = dirname(dir)
+    if (parent === dir)
+      return null
+    dir = parent
+  }
+}
+
+function isPositiveInt(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0
+}
+
+function checkPatterns(label: string, patterns: unknown, errors: string[]): string[] | undefined {
+  if (patterns === undefined)
+    return undefined
+  if (!Array.isArray(patterns) || patterns.some(p => typeof p !== 'string')) {
+    errors.push(`${label} must be an array of strings`)
+    return undefined
+  }
+  for (const pattern of patterns) {
+    try {
+      void new RegExp(pattern, 'm')
+    }
+    catch (err) {
+      errors.push(`${label}: invalid pattern ${JSON.stringify(pattern)} (${(err as Error).message})`)
+    }
+  }
+  return patterns
+}
+
+/** Default output file for a section id: `testing-patterns` → `_TESTING_PATTERNS.md` */
+export function defaultSectionOutputFile(id: string): string {
+  return `_${id.toUpperCase().replace(DASH_RE, '_')}.md`
+}
+
+/**
+ * Validate raw `sections` entries. Each invalid entry is reported and dropped
+ * so one typo doesn't disable every house section.
+ */
+export function parseProjectSections(raw: unknown): { sections: ProjectSectionConfig[], errors: string[] } {
+  const sections: ProjectSectionConfig[] = []
+  const errors: string[] = []
+  if (raw === undefined)
+    return { sections, errors }
+  if (!Array.isArray(raw))
+    return { sections, errors: ['"sections" must be an array'] }
+
+  raw.forEach((entry, i) => {
+    const label = typeof entry?.id === 'string' ? `sections["${entry.id}"]` : `sections[${i}]`
+    const entryErrors: string[] = []
+    if (!entry || typeof entry !== 'object') {
+      errors.push(`${label} must be an object`)
+      return
+    }
+    if (typeof entry.id !== 'string' || !SECTION_ID_RE.test(entry.id))
+      entryErrors.push(`${label}.id must be kebab-case (e.g. "testing-patterns")`)
+    for (const key of ['heading', 'prompt'] as const) {
+      if (typeof entry[key] !== 'string' || !entry[key].trim())
+        entryErrors.push(`${label}.${key} is required`)
+    }
+    if (entry.outputFile !== undefined && (typeof entry.outputFile !== 'string' || !OUTPUT_FILE_RE.test(entry.outputFile)))
+      entryErrors.push(`${label}.outputFile must look like "_NAME.md"`)
+    for (const key of ['maxLines', 'maxItems'] as const) {
+      if (entry[key] !== undefined && !isPositiveInt(entry[key]))
+        entryErrors.push(`${label}.${key} must be a positive integer`)
+    }
+    if (entry.after !== undefined && typeof entry.after !== 'string')
+      entryErrors.push(`${label}.after must be a section id`)
+    if (entry.default !== undefined && typeof entry.default !== 'boolean')
+      entryErrors.push(`${label}.default must be true or false`)
+
+    let validate: ProjectSectionValidation | undefined
+    if (entry.validate !== undefined) {
+      const v = entry.validate
+      if (!v || typeof v !== 'object') {
+        entryErrors.push(`${label}.validate must be an object`)
+      }
+      else {
+        if (v.sourceCoverage !== undefined && (typeof v.sourceCoverage !== 'number' || v.sourceCoverage < 0 || v.sourceCoverage > 1))
+          entryErrors.push(`${label}.validate.sourceCoverage must be between 0 and 1`)
+        validate = {
+          sourceCoverage: v.sourceCoverage,
+          require: checkPatterns(`${label}.validate.require`, v.require, entryErrors),
+          forbid: checkPatterns(`${label}.validate.forbid`, v.forbid, entryErrors),
+        }
+      }
+    }
+
+    if (entryErrors.length > 0) {
+      errors.push(...entryErrors)
+      return
+    }
+    if (sections.some(s => s.id === entry.id)) {
+      errors.push(`${label} is declared more than once`)
+      return
+    }
+    sections.push({
+      id: entry.id,
+      heading: entry.heading.trim(),
+      prompt: entry.prompt.trim(),
+      outputFile: entry.outputFile ?? defaultSectionOutputFile(entry.id),
+      maxLines: entry.maxLines,
+      maxItems: entry.maxItems,
+      after: entry.after,
+      default: entry.default ?? true,
+      validate,
+    })
+  })
+  return { sections, errors }
+}
+
+/** Read the nearest project config. Returns null when there is none. */
+export function readProjectConfig(cwd: string = process.cwd()): ProjectConfig | null {
+  const path = findProjectConfig(cwd)
+  if (!path)
+    return null
+  const parseErrors: ParseError[] = []
+  const data = parse(readFileSync(path, 'utf-8'), parseErrors, { allowTrailingComma: true })
+  if (parseErrors.length > 0)
+    return { path, sections: [], errors: parseErrors.map(e => `${printParseErrorCode(e.error)} at offset ${e.offset}`) }
+  if (!data || typeof data !== 'object' || Array.isArray(data))
+    return { path, sections: [], errors: ['Expected a JSON object'] }
+  return { path, ...parseProjectSections((data as Record<string, unknown>).sections) }
+}
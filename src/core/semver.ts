@@ -3,7 +3,8 @@
  * Centralized so the loose flag stays consistent across the project.
  */
 
-import { diff as _diff, gt as _gt, valid as _valid } from 'semver'
+import type { SemVer } from 'semver'
+import { diff as _diff, gt as _gt, parse as _parse, satisfies as _satisfies, valid as _valid } from 'semver'
 
 /** Returns the cleaned version if valid semver, null otherwise. */
 export function semverValid(v: string): string | null {
@@ -19,3 +20,13 @@ export function semverGt(a: string, b: string): boolean {
 export function semverDiff(a: string, b: string): string | null {
   return _diff(a, b)
 }
+
+/** Parsed version (major/minor/patch/prerelease), or null if invalid. */
+export function semverParse(v: string): SemVer | null {
+  return _parse(v, true)
+}
+
+/** Whether a version satisfies a range (`4`, `^4.2`, `4.x`, exact). False for invalid input. */
+export function semverSatisfies(v: string, range: string): boolean {
+  return _satisfies(v, range, { loose: true })
+}
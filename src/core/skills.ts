@@ -4,9 +4,10 @@ import type { ShippedSkill } from './prepare.ts'
 import { existsSync, readdirSync } from 'node:fs'
 import { join } from 'pathe'
 import { agents } from '../agent/index.ts'
-import { readLocalDependencies } from '../sources/index.ts'
+import { readCargoLocalDependencies, readLocalDependencies } from '../sources/index.ts'
 import { parsePackages, parseSkillFrontmatter, readLock } from './lockfile.ts'
 import { getSharedSkillsDir, LOCK_FILENAME, skillInternalFile } from './paths.ts'
+import { isCrateSpec, isGoSpec, isPypiSpec } from './prefix.ts'
 import { getShippedSkills } from './prepare.ts'
 import { NPM_SCOPE_PREFIX_RE, VERSION_RANGE_PREFIX_RE } from './regex.ts'
 import { semverGt, semverValid } from './semver.ts'
@@ -140,8 +141,11 @@ export function isOutdated(skill: SkillEntry, depVersion: string): boolean {
 export async function getProjectState(cwd: string = process.cwd()): Promise<ProjectState> {
   const skills = [...iterateSkills({ scope: 'local', cwd })]
 
-  // Get package.json deps
-  const localDeps = await readLocalDependencies(cwd).catch(() => [])
+  // Get package.json deps, plus Cargo.toml crates as `crate:<name>`
+  const localDeps = [
+    ...await readLocalDependencies(cwd).catch(() => []),
+    ...readCargoLocalDependencies(cwd),
+  ]
   const deps = new Map(localDeps.map(d => [d.name, d.version]))
 
   // Build unified lookup: packageName -> best skill entry
@@ -208,6 +212,22 @@ export async function getProjectState(cwd: string = process.cwd()): Promise<Proj
   return { skills, deps, missing, outdated, synced, unmatched, shipped }
 }
 
+/**
+ * Specs for a bare `skilld update`: outdated skills, plus every crates.io /
+ * PyPI / Go skill no project manifest tracks, since those always re-resolve.
+ * Crates declared in Cargo.toml are tracked like package.json deps and only
+ * listed when outdated.
+ */
+export function getUpdateSpecs(state: ProjectState): string[] {
+  const nonNpmSpecs = state.skills
+    .map(s => s.info?.packageName)
+    .filter((name): name is string => !!name && !state.deps.has(name) && (isCrateSpec(name) || isPypiSpec(name) || isGoSpec(name)))
+  return [...new Set([
+    ...state.outdated.map(s => s.packageName || s.name),
+    ...nonNpmSpecs,
+  ])]
+}
+
 export function getSkillsDir(agent: AgentType, scope: 'local' | 'global', cwd: string = process.cwd()): string {
   const agentConfig = agents[agent]
   if (scope === 'global') {
@@ -5,29 +5,48 @@ const STATIC_REGEX_3 = /#.*$/
 const STATIC_REGEX_7 = /^git@github\.com:/
 const STATIC_REGEX_8 = /^(?:127\.|10\.|172\.(?:1[6-9]|2\d|3[01])\.|192\.168\.|169\.254\.)/
 const STATIC_REGEX_9 = /^\[(?:f[cd]|fe[89ab]|::ffff:)/i
+const SSH_HOST_RE = /^(?:ssh:\/\/)?git@([^:/]+)[:/]/
 
 /**
  * Pure URL and package-spec parsers (no fetching, no I/O).
  *
  * Moved from `src/sources/utils.ts` to keep the sources barrel focused on
- * fetching primitives and resolvers.
+ * fetching primitives and resolvers. GitHub matching also accepts enterprise
+ * hostnames passed in by the caller (see `getGitHubEnterpriseHostnames()`).
  */
 
 /**
- * Parse owner/repo from GitHub URL
+ * Parse owner/repo from a GitHub URL. Matches github.com, plus any of
+ * `enterpriseHostnames` (see `getGitHubEnterpriseHostnames()`), in which case
+ * `host` is set to the enterprise hostname.
  */
-export function parseGitHubUrl(url: string): { owner: string, repo: string } | null {
+export function parseGitHubUrl(url: string, enterpriseHostnames: readonly string[] = []): { owner: string, repo: string, host?: string } | null {
   const match = url.match(STATIC_REGEX_1)
-  if (!match)
+  if (match)
+    return { owner: match[1]!, repo: match[2]! }
+
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  }
+  catch {
     return null
-  return { owner: match[1]!, repo: match[2]! }
+  }
+  const host = parsed.hostname.toLowerCase()
+  if (!enterpriseHostnames.includes(host))
+    return null
+  const [owner, rawRepo] = parsed.pathname.split('/').filter(Boolean)
+  const repo = rawRepo?.replace(GIT_SUFFIX_RE, '')
+  if (!owner || !repo)
+    return null
+  return { owner, repo, host }
 }
 
-/** Parse owner/repo slug from GitHub URL */
-export function parseGitHubRepoSlug(url: string | undefined): string | undefined {
+/** Parse owner/repo slug from GitHub URL (github.com or one of `enterpriseHostnames`) */
+export function parseGitHubRepoSlug(url: string | undefined, enterpriseHostnames: readonly string[] = []): string | undefined {
   if (!url)
     return undefined
-  const parsed = parseGitHubUrl(url)
+  const parsed = parseGitHubUrl(url, enterpriseHostnames)
   return parsed ? `${parsed.owner}/${parsed.repo}` : undefined
 }
 
@@ -54,10 +73,11 @@ export function parsePackageSpec(spec: string): { name: string, tag?: string } {
 }
 
 /**
- * Normalize git repo URL to https
+ * Normalize git repo URL to https. SSH remotes on `enterpriseHostnames` are
+ * rewritten to their https URL too.
  */
-export function normalizeRepoUrl(url: string): string {
-  return url
+export function normalizeRepoUrl(url: string, enterpriseHostnames: readonly string[] = []): string {
+  const normalized = url
     .replace(GIT_PLUS_PREFIX_RE, '')
     .replace(STATIC_REGEX_3, '')
     .replace(GIT_SUFFIX_RE, '')
@@ -65,6 +85,12 @@ export function normalizeRepoUrl(url: string): string {
     .replace(GITHUB_SSH_URL_PREFIX_RE, 'https://github.com')
     // SSH format: git@github.com:owner/repo
     .replace(STATIC_REGEX_7, 'https://github.com/')
+
+  // SSH remotes on enterprise hosts: git@github.mycorp.com:owner/repo
+  const sshHost = normalized.match(SSH_HOST_RE)?.[1]
+  if (sshHost && enterpriseHostnames.includes(sshHost.toLowerCase()))
+    return normalized.replace(SSH_HOST_RE, `https://${sshHost}/`)
+  return normalized
 }
 
 /**
@@ -82,25 +108,26 @@ export function extractBranchHint(url: string): string | undefined {
 }
 
 /**
- * Check if URL is a GitHub repo URL (not a docs site)
+ * Check if URL is a GitHub repo URL (not a docs site) on github.com or one of `enterpriseHostnames`
  */
-export function isGitHubRepoUrl(url: string): boolean {
+export function isGitHubRepoUrl(url: string, enterpriseHostnames: readonly string[] = []): boolean {
   try {
-    const parsed = new URL(url)
-    return parsed.hostname === 'github.com' || parsed.hostname === 'www.github.com'
+    const hostname = new URL(url).hostname.toLowerCase()
+    return hostname === 'github.com' || hostname === 'www.github.com' || enterpriseHostnames.includes(hostname)
   }
   catch {
     return false
   }
 }
 
-/** Check if URL points to a code hosting provider (GitHub/GitLab) rather than a docs site */
-export function isLikelyCodeHostUrl(url: string | undefined): boolean {
+/** Check if URL points to a code hosting provider (GitHub/GitLab/Codeberg, or one of `enterpriseHostnames`) rather than a docs site */
+export function isLikelyCodeHostUrl(url: string | undefined, enterpriseHostnames: readonly string[] = []): boolean {
   if (!url)
     return false
   try {
     const parsed = new URL(url)
-    return ['github.com', 'www.github.com', 'gitlab.com', 'www.gitlab.com'].includes(parsed.hostname)
+    return ['github.com', 'www.github.com', 'gitlab.com', 'www.gitlab.com', 'codeberg.org', 'gitea.com'].includes(parsed.hostname)
+      || enterpriseHostnames.includes(parsed.hostname.toLowerCase())
   }
   catch {
     return false
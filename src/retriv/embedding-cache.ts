@@ -1,14 +1,18 @@
 import type { DatabaseSync } from 'node:sqlite'
 import type { Embedding } from 'retriv'
-import { rmSync } from 'node:fs'
+import { existsSync, rmSync } from 'node:fs'
 import { join } from 'pathe'
 import { CACHE_DIR } from '../cache/index.ts'
+import { DEFAULT_EMBEDDING_MODEL } from './index-meta.ts'
 
 interface EmbeddingConfig {
   resolve: () => Promise<{ embedder: (texts: string[]) => Promise<Embedding[]>, dimensions: number, maxTokens?: number }>
 }
 
 const EMBEDDINGS_DB_PATH = join(CACHE_DIR, 'embeddings.db')
+const MODEL_META_PREFIX = 'model:'
+/** Meta key of the pre-namespacing schema, when keys were bare text hashes */
+const LEGACY_DIMENSIONS_KEY = 'dimensions'
 
 let _db: DatabaseSync | null = null
 
@@ -21,10 +25,35 @@ async function openDb(): Promise<DatabaseSync> {
   db.exec('PRAGMA busy_timeout=5000')
   db.exec(`CREATE TABLE IF NOT EXISTS embeddings (text_hash TEXT PRIMARY KEY, embedding BLOB NOT NULL)`)
   db.exec(`CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL)`)
+  migrateLegacyKeys(db)
   _db = db
   return db
 }
 
+/**
+ * Caches from before keys were namespaced by model only ever held the built-in
+ * model's vectors, so their bare hashes move under `default:` instead of being
+ * orphaned.
+ */
+function migrateLegacyKeys(db: DatabaseSync): void {
+  const legacy = db.prepare('SELECT value FROM meta WHERE key = ?').get(LEGACY_DIMENSIONS_KEY) as { value: string } | undefined
+  if (!legacy)
+    return
+  db.exec('BEGIN')
+  try {
+    db.prepare(`UPDATE OR IGNORE embeddings SET text_hash = ? || text_hash WHERE instr(text_hash, ':') = 0`).run(`${DEFAULT_EMBEDDING_MODEL}:`)
+    // Anything left unprefixed collided with an already-namespaced row
+    db.exec(`DELETE FROM embeddings WHERE instr(text_hash, ':') = 0`)
+    db.prepare('INSERT OR IGNORE INTO meta (key, value) VALUES (?, ?)').run(`${MODEL_META_PREFIX}${DEFAULT_EMBEDDING_MODEL}`, legacy.value)
+    db.prepare('DELETE FROM meta WHERE key = ?').run(LEGACY_DIMENSIONS_KEY)
+    db.exec('COMMIT')
+  }
+  catch (err) {
+    db.exec('ROLLBACK')
+    throw err
+  }
+}
+
 function closeDb(): void {
   if (_db) {
     _db.close()
@@ -32,28 +61,30 @@ function closeDb(): void {
   }
 }
 
-function createSqliteStorage(db: DatabaseSync) {
+/** Cache keys are namespaced by model so vectors from different models never mix */
+function createSqliteStorage(db: DatabaseSync, model: string) {
   const getStmt = db.prepare('SELECT embedding FROM embeddings WHERE text_hash = ?')
   const setStmt = db.prepare('INSERT OR IGNORE INTO embeddings (text_hash, embedding) VALUES (?, ?)')
+  const key = (hash: string) => `${model}:${hash}`
 
   return {
     get: (hash: string): Embedding | null => {
-      const row = getStmt.get(hash) as { embedding: Buffer } | undefined
+      const row = getStmt.get(key(hash)) as { embedding: Buffer } | undefined
       if (!row)
         return null
       return new Float32Array(row.embedding.buffer, row.embedding.byteOffset, row.embedding.byteLength / 4)
     },
     set: (hash: string, embedding: Embedding): void => {
       const arr = embedding instanceof Float32Array ? embedding : new Float32Array(embedding)
-      setStmt.run(hash, Buffer.from(arr.buffer, arr.byteOffset, arr.byteLength))
+      setStmt.run(key(hash), Buffer.from(arr.buffer, arr.byteOffset, arr.byteLength))
     },
   }
 }
 
-export async function cachedEmbeddings(config: EmbeddingConfig): Promise<EmbeddingConfig> {
+export async function cachedEmbeddings(config: EmbeddingConfig, model: string): Promise<EmbeddingConfig> {
   const { cachedEmbeddings: retrivCached } = await import('retriv/embeddings/cached')
   const db = await openDb()
-  const storage = createSqliteStorage(db)
+  const storage = createSqliteStorage(db, model)
 
   const originalResolve = config.resolve
   const validatedConfig: EmbeddingConfig = {
@@ -62,11 +93,14 @@ export async function cachedEmbeddings(config: EmbeddingConfig): Promise<Embeddi
       const getMetaStmt = db.prepare('SELECT value FROM meta WHERE key = ?')
       const setMetaStmt = db.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)')
 
-      const storedDims = getMetaStmt.get('dimensions') as { value: string } | undefined
+      // Per-model dimensions guard (a model id re-published with a new size)
+      const metaKey = `${MODEL_META_PREFIX}${model}`
+      const storedDims = getMetaStmt.get(metaKey) as { value: string } | undefined
       if (storedDims && Number(storedDims.value) !== resolved.dimensions) {
-        db.exec('DELETE FROM embeddings')
+        const prefix = `${model}:`
+        db.prepare('DELETE FROM embeddings WHERE substr(text_hash, 1, ?) = ?').run(prefix.length, prefix)
       }
-      setMetaStmt.run('dimensions', String(resolved.dimensions))
+      setMetaStmt.run(metaKey, String(resolved.dimensions))
 
       return resolved
     },
@@ -79,3 +113,12 @@ export function clearEmbeddingCache(): void {
   closeDb()
   rmSync(EMBEDDINGS_DB_PATH, { force: true })
 }
+
+/** Models with vectors in the embeddings cache, with their dimensions */
+export async function listEmbeddingCacheModels(): Promise<Array<{ model: string, dimensions: number }>> {
+  if (!existsSync(EMBEDDINGS_DB_PATH))
+    return []
+  const db = await openDb()
+  const rows = db.prepare('SELECT key, value FROM meta WHERE substr(key, 1, ?) = ?').all(MODEL_META_PREFIX.length, MODEL_META_PREFIX) as Array<{ key: string, value: string }>
+  return rows.map(r => ({ model: r.key.slice(MODEL_META_PREFIX.length), dimensions: Number(r.value) }))
+}
@@ -0,0 +1,262 @@
+/**
+ * Search relevance evaluation against golden queries.
+ *
+ * A golden file lists queries with the sources (optionally line ranges) that
+ * should come back. Each query runs through `searchSnippets` and is scored
+ * with recall@k, reciprocal rank and nDCG@k (binary relevance). Scores from
+ * different package DBs aren't comparable, so each DB's results are scaled
+ * against its own top hit before merging. Reports are
+ * plain JSON so runs can be diffed after chunking or embedding changes.
+ *
+ * ```yaml
+ * k: 5
+ * queries:
+ *   - query: useFetch options
+ *     package: nuxt
+ *     expect:
+ *       - docs/api/use-fetch.md
+ *       - docs/guide/data-fetching.md:L10-40
+ * ```
+ */
+
+import type { Document, SearchSnippet } from './types.ts'
+import { existsSync, readdirSync, readFileSync } from 'node:fs'
+import { join, relative } from 'pathe'
+import { classifyCachedDoc } from '../cache/index.ts'
+import { yamlParseKV, yamlUnescape } from '../core/yaml.ts'
+import { createIndex, searchSnippets } from './index.ts'
+
+export const DEFAULT_EVAL_K = 5
+
+export interface ExpectedHit {
+  source: string
+  lineStart?: number
+  lineEnd?: number
+}
+
+export interface GoldenQuery {
+  query: string
+  /** Package whose index to search; all resolvable indexes when omitted */
+  package?: string
+  expect: ExpectedHit[]
+}
+
+export interface GoldenSet {
+  k: number
+  queries: GoldenQuery[]
+}
+
+export interface QueryEvalResult {
+  query: string
+  package?: string
+  recall: number
+  reciprocalRank: number
+  ndcg: number
+  /** 1-based rank of each expected hit within the top k, null when missed */
+  ranks: Array<{ expected: string, rank: number | null }>
+}
+
+export interface EvalReport {
+  k: number
+  summary: { queries: number, recall: number, mrr: number, ndcg: number }
+  queries: QueryEvalResult[]
+}
+
+/** Parse `path`, `path:L10` or `path:L10-40` */
+export function parseExpectedHit(raw: string): ExpectedHit {
+  const idx = raw.lastIndexOf(':L')
+  if (idx === -1)
+    return { source: raw }
+  const [start, end] = raw.slice(idx + 2).split('-').map(Number)
+  if (!start || Number.isNaN(start) || (end !== undefined && Number.isNaN(end)))
+    return { source: raw }
+  return { source: raw.slice(0, idx), lineStart: start, lineEnd: end ?? start }
+}
+
+function formatExpectedHit(hit: ExpectedHit): string {
+  if (!hit.lineStart)
+    return hit.source
+  return hit.lineEnd && hit.lineEnd !== hit.lineStart ? `${hit.source}:L${hit.lineStart}-${hit.lineEnd}` : `${hit.source}:L${hit.lineStart}`
+}
+
+/** Parse the golden queries YAML (the fixed shape documented above, not general YAML). */
+export function parseGoldenQueries(content: string): GoldenSet {
+  const set: GoldenSet = { k: DEFAULT_EVAL_K, queries: [] }
+  let current: GoldenQuery | null = null
+  let inExpect = false
+
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim()
+    if (!trimmed || trimmed.startsWith('#'))
+      continue
+    if (trimmed.startsWith('- query:')) {
+      current = { query: yamlUnescape(trimmed.slice('- query:'.length)), expect: [] }
+      set.queries.push(current)
+      inExpect = false
+      continue
+    }
+    if (inExpect && trimmed.startsWith('- ')) {
+      current!.expect.push(parseExpectedHit(yamlUnescape(trimmed.slice(2))))
+      continue
+    }
+    const kv = yamlParseKV(trimmed)
+    if (!kv)
+      continue
+    const [key, value] = kv
+    inExpect = key === 'expect' && !!current
+    if (!current) {
+      if (key === 'k' && Number(value) > 0)
+        set.k = Number(value)
+    }
+    else if (key === 'package' && value) {
+      current.package = value
+    }
+  }
+
+  set.queries = set.queries.filter(q => q.query && q.expect.length > 0)
+  return set
+}
+
+/** Snippet matches when sources agree and, if the expectation has lines, ranges overlap */
+function matchesExpected(snippet: SearchSnippet, hit: ExpectedHit): boolean {
+  if (snippet.source !== hit.source)
+    return false
+  if (!hit.lineStart)
+    return true
+  return snippet.lineStart <= (hit.lineEnd ?? hit.lineStart) && snippet.lineEnd >= hit.lineStart
+}
+
+/** Score one query's ranked results. Each expected hit counts once, at its best rank. */
+export function scoreQuery(results: SearchSnippet[], expected: ExpectedHit[], k: number): Omit<QueryEvalResult, 'query' | 'package'> {
+  const top = results.slice(0, k)
+  const ranks = expected.map((hit) => {
+    const idx = top.findIndex(r => matchesExpected(r, hit))
+    return { expected: formatExpectedHit(hit), rank: idx === -1 ? null : idx + 1 }
+  })
+  const found = ranks.filter(r => r.rank !== null).map(r => r.rank!)
+  const firstRank = found.length > 0 ? Math.min(...found) : null
+
+  const gain = (rank: number) => 1 / Math.log2(rank + 1)
+  const dcg = [...new Set(found)].reduce((sum, rank) => sum + gain(rank), 0)
+  const idealHits = Math.min(expected.length, k)
+  let idcg = 0
+  for (let rank = 1; rank <= idealHits; rank++)
+    idcg += gain(rank)
+
+  return {
+    recall: expected.length > 0 ? found.length / expected.length : 0,
+    reciprocalRank: firstRank ? 1 / firstRank : 0,
+    ndcg: idcg > 0 ? dcg / idcg : 0,
+    ranks,
+  }
+}
+
+const round = (n: number) => Math.round(n * 10000) / 10000
+
+export interface RunSearchEvalOptions {
+  /** search.db paths for a query's package filter */
+  resolveDbs: (packageFilter?: string) => string[]
+  /** Override k from the golden file */
+  k?: number
+  /** Injectable for tests; defaults to `searchSnippets` */
+  search?: typeof searchSnippets
+}
+
+/** Scale each DB's scores by its top hit, then merge into one ranking. Ties keep DB order. */
+export function mergeDbResults(perDb: SearchSnippet[][]): SearchSnippet[] {
+  return perDb
+    .flatMap((results) => {
+      const max = results.reduce((m, r) => Math.max(m, r.score), 0)
+      return results.map(r => ({ ...r, score: max > 0 ? r.score / max : 0 }))
+    })
+    .sort((a, b) => b.score - a.score)
+}
+
+/** Run every golden query (merging normalized results across DBs) and aggregate metrics. */
+export async function runSearchEval(golden: GoldenSet, opts: RunSearchEvalOptions): Promise<EvalReport> {
+  const k = opts.k ?? golden.k
+  const search = opts.search ?? searchSnippets
+  const queries: QueryEvalResult[] = []
+
+  for (const q of golden.queries) {
+    const dbs = opts.resolveDbs(q.package)
+    const perDb = await Promise.all(dbs.map(dbPath => search(q.query, { dbPath }, { limit: k })))
+    const scored = scoreQuery(mergeDbResults(perDb), q.expect, k)
+    queries.push({
+      query: q.query,
+      package: q.package,
+      recall: round(scored.recall),
+      reciprocalRank: round(scored.reciprocalRank),
+      ndcg: round(scored.ndcg),
+      ranks: scored.ranks,
+    })
+  }
+
+  const mean = (pick: (r: QueryEvalResult) => number) =>
+    queries.length > 0 ? round(queries.reduce((sum, r) => sum + pick(r), 0) / queries.length) : 0
+  return {
+    k,
+    summary: {
+      queries: queries.length,
+      recall: mean(r => r.recall),
+      mrr: mean(r => r.reciprocalRank),
+      ndcg: mean(r => r.ndcg),
+    },
+    queries,
+  }
+}
+
+/**
+ * Read a fixture tree into index documents, one package per top-level
+ * directory (`<dir>/<pkg>/docs/guide.md`, scoped as `<dir>/@scope/pkg/...`).
+ * Sources are relative to the package dir, like the reference cache.
+ */
+export function loadFixtureDocuments(dir: string): Map<string, Document[]> {
+  const packages = new Map<string, Document[]>()
+  const collect = (pkgDir: string, packageName: string) => {
+    const docs: Document[] = []
+    const walk = (current: string) => {
+      for (const entry of readdirSync(current, { withFileTypes: true })) {
+        const full = join(current, entry.name)
+        if (entry.isDirectory()) {
+          walk(full)
+          continue
+        }
+        if (!entry.name.endsWith('.md'))
+          continue
+        const source = relative(pkgDir, full)
+        docs.push({ id: source, content: readFileSync(full, 'utf-8'), metadata: { package: packageName, source, ...classifyCachedDoc(source) } })
+      }
+    }
+    walk(pkgDir)
+    if (docs.length > 0)
+      packages.set(packageName, docs.sort((a, b) => a.id.localeCompare(b.id)))
+  }
+
+  if (!existsSync(dir))
+    return packages
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (!entry.isDirectory())
+      continue
+    if (entry.name.startsWith('@')) {
+      for (const scoped of readdirSync(join(dir, entry.name), { withFileTypes: true })) {
+        if (scoped.isDirectory())
+          collect(join(dir, entry.name, scoped.name), `${entry.name}/${scoped.name}`)
+      }
+      continue
+    }
+    collect(join(dir, entry.name), entry.name)
+  }
+  return packages
+}
+
+/** Build one search.db per fixture package under `outDir`; returns package → dbPath. */
+export async function buildFixtureIndexes(fixturesDir: string, outDir: string): Promise<Map<string, string>> {
+  const dbs = new Map<string, string>()
+  for (const [packageName, docs] of loadFixtureDocuments(fixturesDir)) {
+    const dbPath = join(outDir, `${packageName.replace('/', '__')}.db`)
+    await createIndex(docs, { dbPath })
+    dbs.set(packageName, dbPath)
+  }
+  return dbs
+}
@@ -0,0 +1,76 @@
+/**
+ * Embedding model bookkeeping for search indexes.
+ *
+ * Each `search.db` records the model its vectors were built with, so a DB is
+ * always queried with the model that built it and a config change triggers a
+ * rebuild instead of mixing vectors from different models.
+ */
+
+import { existsSync, rmSync } from 'node:fs'
+import { readConfig } from '../core/config.ts'
+
+/** Placeholder id for retriv's built-in transformers.js model (no `embeddingModel` configured) */
+export const DEFAULT_EMBEDDING_MODEL = 'default'
+
+const META_TABLE = 'skilld_meta'
+const MODEL_KEY = 'embedding_model'
+
+function sqlite(): typeof import('node:sqlite') | undefined {
+  return globalThis.process?.getBuiltinModule?.('node:sqlite') as typeof import('node:sqlite') | undefined
+}
+
+/** Model id new indexes are built with (`embeddingModel` config, else the default) */
+export function resolveEmbeddingModel(): string {
+  return readConfig().embeddingModel || DEFAULT_EMBEDDING_MODEL
+}
+
+/**
+ * Model recorded in an existing index. Indexes built before model tracking
+ * report the default model; returns null when the DB doesn't exist.
+ */
+export function readIndexModel(dbPath: string): string | null {
+  const nodeSqlite = sqlite()
+  if (!nodeSqlite || !existsSync(dbPath))
+    return null
+  let db: import('node:sqlite').DatabaseSync | undefined
+  try {
+    db = new nodeSqlite.DatabaseSync(dbPath, { open: true, readOnly: true })
+    const row = db.prepare(`SELECT value FROM ${META_TABLE} WHERE key = ?`).get(MODEL_KEY) as { value: string } | undefined
+    return row?.value ?? DEFAULT_EMBEDDING_MODEL
+  }
+  catch {
+    // No meta table yet (legacy index)
+    return DEFAULT_EMBEDDING_MODEL
+  }
+  finally {
+    db?.close()
+  }
+}
+
+/** Record the model an index was built with */
+export function writeIndexModel(dbPath: string, model: string): void {
+  const nodeSqlite = sqlite()
+  if (!nodeSqlite)
+    return
+  const db = new nodeSqlite.DatabaseSync(dbPath)
+  try {
+    db.exec('PRAGMA busy_timeout=5000')
+    db.exec(`CREATE TABLE IF NOT EXISTS ${META_TABLE} (key TEXT PRIMARY KEY, value TEXT NOT NULL)`)
+    db.prepare(`INSERT OR REPLACE INTO ${META_TABLE} (key, value) VALUES (?, ?)`).run(MODEL_KEY, model)
+  }
+  finally {
+    db.close()
+  }
+}
+
+/** Whether an existing index was built with a different model than the configured one */
+export function isIndexModelStale(dbPath: string, model: string = resolveEmbeddingModel()): boolean {
+  const indexed = readIndexModel(dbPath)
+  return indexed !== null && indexed !== model
+}
+
+/** Delete an index and its sqlite sidecar files */
+export function removeSearchIndex(dbPath: string): void {
+  for (const file of [dbPath, `${dbPath}-wal`, `${dbPath}-shm`])
+    rmSync(file, { recursive: true, force: true })
+}
@@ -10,10 +10,11 @@
 import type { FeaturesConfig } from '../core/config.ts'
 import type { IndexDoc } from '../sources/content-resolver.ts'
 import { existsSync } from 'node:fs'
-import { getPackageDbPath } from '../cache/index.ts'
+import { classifyCachedDoc, createReferenceCache, getPackageDbPath } from '../cache/index.ts'
 import { defaultFeatures, readConfig } from '../core/config.ts'
 import { resolvePkgDir } from '../core/prepare.ts'
 import { resolveEntryFiles } from '../sources/index.ts'
+import { isIndexModelStale, removeSearchIndex } from './index-meta.ts'
 import { createIndex, listIndexIds, SearchDepsUnavailableError } from './index.ts'
 
 /** Max docs sent to the embedding pipeline to prevent oversized indexes */
@@ -62,7 +63,13 @@ export async function indexResources(opts: IndexResourcesOptions): Promise<void>
     return
 
   const dbPath = getPackageDbPath(packageName, version)
-  const dbExists = existsSync(dbPath)
+  let dbExists = existsSync(dbPath)
+  // Never mix vectors from different models: rebuild from scratch after an `embeddingModel` change
+  if (dbExists && isIndexModelStale(dbPath)) {
+    onProgress('Embedding model changed, rebuilding search index')
+    removeSearchIndex(dbPath)
+    dbExists = false
+  }
 
   const allDocs = [...opts.docsToIndex]
 
@@ -166,3 +173,82 @@ export async function indexResources(opts: IndexResourcesOptions): Promise<void>
       throw err
   }
 }
+
+/** A changed file under a package's reference cache; `content` is null when it was deleted */
+export interface ChangedDoc {
+  /** Path relative to the cache dir (`docs/guide.md`), the doc's index ID */
+  id: string
+  content: string | null
+}
+
+/**
+ * Diff changed docs against an existing index: every chunk of a changed doc
+ * is removed and docs that still exist are re-added whole.
+ */
+export function diffChangedDocs(existingIds: string[], changed: ChangedDoc[], packageName: string): { docs: IndexDoc[], removeIds: string[] } {
+  const changedIds = new Set(changed.map(c => c.id))
+  return {
+    removeIds: existingIds.filter(id => changedIds.has(parentDocId(id))),
+    docs: changed
+      .filter((c): c is ChangedDoc & { content: string } => c.content !== null)
+      .map(c => ({ id: c.id, content: c.content, metadata: { package: packageName, source: c.id, ...classifyCachedDoc(c.id) } })),
+  }
+}
+
+export interface IndexChangedDocsOptions {
+  packageName: string
+  version: string
+  changed: ChangedDoc[]
+  features?: FeaturesConfig
+  onProgress: (message: string) => void
+}
+
+/**
+ * Re-index only the changed docs of a package (`skilld watch`). Without an
+ * index yet (or after a model change) the whole reference cache is indexed.
+ */
+export async function indexChangedDocs(opts: IndexChangedDocsOptions): Promise<{ added: number, removed: number }> {
+  const { packageName, version, changed, onProgress } = opts
+  const features = opts.features ?? readConfig().features ?? defaultFeatures
+  if (!features.search || changed.length === 0)
+    return { added: 0, removed: 0 }
+
+  const dbPath = getPackageDbPath(packageName, version)
+  if (!existsSync(dbPath) || isIndexModelStale(dbPath)) {
+    const docsToIndex: IndexDoc[] = createReferenceCache(packageName, version).readDocs().map(doc => ({
+      id: doc.path,
+      content: doc.content,
+      metadata: { package: packageName, source: doc.path, ...classifyCachedDoc(doc.path) },
+    }))
+    await indexResources({ packageName, version, cwd: process.cwd(), docsToIndex, features, onProgress })
+    return { added: docsToIndex.length, removed: 0 }
+  }
+
+  let existingIds: string[]
+  try {
+    existingIds = await listIndexIds({ dbPath })
+  }
+  catch (err) {
+    if (err instanceof SearchDepsUnavailableError) {
+      onProgress('Search indexing skipped (native deps unavailable)')
+      return { added: 0, removed: 0 }
+    }
+    throw err
+  }
+
+  const { docs, removeIds } = diffChangedDocs(existingIds, changed, packageName)
+  if (docs.length === 0 && removeIds.length === 0)
+    return { added: 0, removed: 0 }
+
+  try {
+    await createIndex(docs, { dbPath, removeIds })
+  }
+  catch (err) {
+    if (err instanceof SearchDepsUnavailableError) {
+      onProgress('Search indexing skipped (native deps unavailable)')
+      return { added: 0, removed: 0 }
+    }
+    throw err
+  }
+  return { added: docs.length, removed: removeIds.length }
+}
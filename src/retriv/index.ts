@@ -1,7 +1,12 @@
 import type { ChunkEntity, Document, IndexConfig, IndexPhase, IndexProgress, SearchFilter, SearchOptions, SearchResult, SearchSnippet } from './types.ts'
+import { statSync } from 'node:fs'
 import { stripFrontmatter } from '../core/markdown.ts'
+import { DEFAULT_EMBEDDING_MODEL, readIndexModel, resolveEmbeddingModel } from './index-meta.ts'
+import { RERANK_CANDIDATES, rerankSnippets } from './rerank.ts'
 
 export type { ChunkEntity, Document, IndexConfig, IndexPhase, IndexProgress, SearchFilter, SearchOptions, SearchResult, SearchSnippet }
+export { DEFAULT_EMBEDDING_MODEL, isIndexModelStale, readIndexModel, removeSearchIndex, resolveEmbeddingModel, writeIndexModel } from './index-meta.ts'
+export { DEFAULT_RERANK_MODEL, RERANK_CANDIDATES, rerankSnippets } from './rerank.ts'
 
 type RetrivInstance = Awaited<ReturnType<typeof getDb>>
 
@@ -42,8 +47,14 @@ function checkFts5(): boolean {
   return _fts5Available
 }
 
-// Dynamic imports: retriv/chunkers/auto eagerly loads typescript which may not be installed (e.g. npx)
-export async function getDb(config: Pick<IndexConfig, 'dbPath'>) {
+/**
+ * Open a search DB. The embedding model is, in order: `config.model`, the model
+ * recorded in an existing index (so its vectors are never queried with another
+ * model), then the configured `embeddingModel`.
+ *
+ * Dynamic imports: retriv/chunkers/auto eagerly loads typescript which may not be installed (e.g. npx)
+ */
+export async function getDb(config: Pick<IndexConfig, 'dbPath' | 'model'>) {
   if (!checkFts5())
     throw new SearchDepsUnavailableError(new Error('FTS5 module not available'), 'SQLite FTS5 module not available. Search indexing skipped. On Windows, run from WSL where FTS5 is included.')
 
@@ -70,7 +81,8 @@ export async function getDb(config: Pick<IndexConfig, 'dbPath'>) {
       throw new SearchDepsUnavailableError(err)
     throw err
   }
-  const embeddings = await cachedEmbeddings(transformersJs())
+  const model = config.model ?? readIndexModel(config.dbPath) ?? resolveEmbeddingModel()
+  const embeddings = await cachedEmbeddings(model === DEFAULT_EMBEDDING_MODEL ? transformersJs() : transformersJs({ model }), model)
   return createRetriv({
     driver: sqliteMod.default({
       path: config.dbPath,
@@ -186,8 +198,10 @@ export async function searchPooled(
   pool: Map<string, RetrivInstance>,
   options: SearchOptions = {},
 ): Promise<SearchSnippet[]> {
-  const { limit = 10, filter } = options
-  const fetchLimit = limit * 2 // Over-fetch to compensate for dedup
+  const { limit = 10, filter, rerank } = options
+  // Reranking needs a wider candidate set than the final limit
+  const candidates = rerank ? Math.max(limit, RERANK_CANDIDATES) : limit
+  const fetchLimit = candidates * 2 // Over-fetch to compensate for dedup
   const allResults = await Promise.all(
     Array.from(pool.values(), async (db) => {
       const results = await db.search(query, { limit: fetchLimit, filter, returnContent: true, returnMetadata: true, returnMeta: true })
@@ -215,11 +229,112 @@ export async function searchPooled(
       seen.add(key)
       return true
     })
-    .slice(0, limit)
-  return toSnippets(merged)
+    .slice(0, candidates)
+  const snippets = toSnippets(merged)
+  if (!rerank)
+    return snippets
+  // Reranker unavailable (e.g. model download offline): keep raw score order
+  return rerankSnippets(query, snippets, { limit }).catch(() => snippets.slice(0, limit))
 }
 
 export async function closePool(pool: Map<string, RetrivInstance>): Promise<void> {
   await Promise.all(Array.from(pool.values(), db => db.close?.()))
   pool.clear()
 }
+
+/** Last modification of a search.db, including its WAL (writes land there before checkpoint) */
+function dbMtime(dbPath: string): number {
+  let mtime = 0
+  for (const file of [dbPath, `${dbPath}-wal`]) {
+    try {
+      mtime = Math.max(mtime, statSync(file).mtimeMs)
+    }
+    catch {}
+  }
+  return mtime
+}
+
+export interface LivePool {
+  /**
+   * Run `fn` with open instances for `dbPaths`, opening new DBs and reloading
+   * ones changed on disk. Instances stay open until `fn` settles.
+   */
+  use: <T>(dbPaths: string[], fn: (pool: Map<string, RetrivInstance>) => Promise<T>) => Promise<T>
+  close: () => Promise<void>
+}
+
+interface LivePoolEntry {
+  /** Shared by concurrent requests so a DB is only opened once */
+  db: Promise<RetrivInstance>
+  mtime: number
+  /** Searches currently using this instance */
+  refs: number
+  /** Replaced by a newer instance; closes once `refs` drops to zero */
+  retired: boolean
+}
+
+/**
+ * Pool for long-lived servers (`skilld mcp`, `skilld serve`). DBs open lazily on
+ * first use and stay open; a DB is reopened when its `search.db` changes on disk,
+ * and the old instance is closed once the searches still using it finish.
+ */
+export function createLivePool(open: (dbPath: string) => Promise<RetrivInstance> = dbPath => getDb({ dbPath })): LivePool {
+  const entries = new Map<string, LivePoolEntry>()
+
+  const closeEntry = (entry: LivePoolEntry): Promise<void> =>
+    entry.db.then(db => db.close?.()).catch(() => {})
+
+  function retire(entry: LivePoolEntry): Promise<void> {
+    entry.retired = true
+    return entry.refs === 0 ? closeEntry(entry) : Promise.resolve()
+  }
+
+  function checkout(dbPath: string): LivePoolEntry {
+    let entry = entries.get(dbPath)
+    if (entry && entry.mtime !== dbMtime(dbPath)) {
+      void retire(entry)
+      entry = undefined
+    }
+    if (!entry) {
+      const created: LivePoolEntry = { db: open(dbPath), mtime: dbMtime(dbPath), refs: 0, retired: false }
+      created.db.then(
+        () => { created.mtime = dbMtime(dbPath) },
+        // Don't keep a failed open around; the next search retries
+        () => {
+          if (entries.get(dbPath) === created)
+            entries.delete(dbPath)
+        },
+      )
+      entries.set(dbPath, created)
+      entry = created
+    }
+    entry.refs++
+    return entry
+  }
+
+  async function release(entry: LivePoolEntry): Promise<void> {
+    entry.refs--
+    if (entry.retired && entry.refs === 0)
+      await closeEntry(entry)
+  }
+
+  async function use<T>(dbPaths: string[], fn: (pool: Map<string, RetrivInstance>) => Promise<T>): Promise<T> {
+    const held = dbPaths.map(checkout)
+    try {
+      const dbs = await Promise.all(held.map(e => e.db))
+      return await fn(new Map(dbPaths.map((dbPath, i) => [dbPath, dbs[i]!])))
+    }
+    finally {
+      await Promise.all(held.map(release))
+    }
+  }
+
+  return {
+    use,
+    async close() {
+      const all = [...entries.values()]
+      entries.clear()
+      await Promise.all(all.map(retire))
+    },
+  }
+}
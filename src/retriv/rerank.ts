@@ -0,0 +1,66 @@
+/**
+ * Cross-encoder reranking for merged search results.
+ *
+ * Raw scores from separate search.db files aren't comparable, so merged
+ * multi-package results are rescored against the query by a small local
+ * cross-encoder (via `@huggingface/transformers`) before slicing to `limit`.
+ */
+
+import type { SearchSnippet } from './types.ts'
+
+export const DEFAULT_RERANK_MODEL = 'Xenova/ms-marco-MiniLM-L-6-v2'
+
+/** Merged candidates handed to the cross-encoder (top N by raw score) */
+export const RERANK_CANDIDATES = 30
+
+/** Chars of snippet content scored per candidate (model truncates to 512 tokens anyway) */
+const MAX_PASSAGE_CHARS = 2000
+
+type Scorer = (query: string, passages: string[]) => Promise<number[]>
+
+const scorers = new Map<string, Promise<Scorer>>()
+
+async function loadScorer(model: string): Promise<Scorer> {
+  const { AutoModelForSequenceClassification, AutoTokenizer } = await import('@huggingface/transformers')
+  const [tokenizer, classifier] = await Promise.all([
+    AutoTokenizer.from_pretrained(model),
+    AutoModelForSequenceClassification.from_pretrained(model, { dtype: 'q8' }),
+  ])
+  return async (query, passages) => {
+    const inputs = tokenizer(passages.map(() => query), { text_pair: passages, padding: true, truncation: true })
+    const { logits } = await classifier(inputs)
+    return (logits.tolist() as number[][]).map(([logit = 0]) => 1 / (1 + Math.exp(-logit)))
+  }
+}
+
+/** Cross-encoder scorer for `model`, loaded once per process. */
+function getScorer(model: string): Promise<Scorer> {
+  let scorer = scorers.get(model)
+  if (!scorer) {
+    scorer = loadScorer(model)
+    scorers.set(model, scorer)
+    // Don't cache a failed load (e.g. offline on first download)
+    scorer.catch(() => scorers.delete(model))
+  }
+  return scorer
+}
+
+/**
+ * Rescore snippets against the query and return the top `limit` by
+ * cross-encoder relevance (0-1). Snippet `score` is replaced with the new score.
+ */
+export async function rerankSnippets(
+  query: string,
+  snippets: SearchSnippet[],
+  options: { limit?: number, model?: string } = {},
+): Promise<SearchSnippet[]> {
+  const { limit = snippets.length, model = DEFAULT_RERANK_MODEL } = options
+  if (snippets.length <= 1)
+    return snippets.slice(0, limit)
+  const score = await getScorer(model)
+  const scores = await score(query, snippets.map(s => s.content.slice(0, MAX_PASSAGE_CHARS)))
+  return snippets
+    .map((s, i) => ({ ...s, score: scores[i] ?? 0 }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+}
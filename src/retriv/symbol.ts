@@ -0,0 +1,137 @@
+/**
+ * Symbol lookup for `skilld search --symbol <name>`.
+ *
+ * Finds chunks that define an exported symbol (exact entity name match from
+ * code chunking) or mention it (scope chain or identifier in prose), ranks
+ * definitions from type declarations ahead of source and docs, and folds
+ * everything into a "symbol card": signature, defining file, and the docs and
+ * issues that reference it.
+ */
+
+import type { ChunkEntity, SearchSnippet } from './types.ts'
+import { classifyCachedDoc } from '../cache/index.ts'
+import { searchSnippets } from './index.ts'
+
+/** Where a hit comes from: package type declarations, package source, or a cached reference doc */
+export type SymbolHitKind = 'types' | 'source' | 'doc' | 'issue' | 'discussion' | 'release'
+
+export interface SymbolHit {
+  snippet: SearchSnippet
+  kind: SymbolHitKind
+  /** Chunk defines the symbol (entity match), not just mentions it */
+  definition: boolean
+  /** Index the hit came from */
+  dbPath: string
+}
+
+export interface SymbolCard {
+  symbol: string
+  /** Signature of the best definition */
+  signature?: string
+  /** Entity type of the best definition (function, interface, ...) */
+  entityType?: string
+  definedIn?: { package: string, source: string, lineStart: number, lineEnd: number }
+  definitions: SymbolHit[]
+  /** Docs and release notes mentioning the symbol */
+  docs: SymbolHit[]
+  /** Issues and discussions mentioning the symbol */
+  issues: SymbolHit[]
+}
+
+export interface SearchSymbolOptions {
+  /** Max hits per card group (default 5) */
+  limit?: number
+  /** Injectable for tests; defaults to `searchSnippets` */
+  search?: typeof searchSnippets
+}
+
+const DECLARATION_FILE_RE = /\.d\.[cm]?ts$/
+const IDENTIFIER_CHAR_RE = /[\w$]/
+
+/** Candidates pulled per index before exact matching */
+const SYMBOL_CANDIDATES = 50
+
+const KIND_RANK: Record<SymbolHitKind, number> = { types: 0, source: 1, doc: 2, release: 3, issue: 4, discussion: 5 }
+
+export function classifySymbolSource(source: string): SymbolHitKind {
+  if (source.startsWith('pkg/'))
+    return DECLARATION_FILE_RE.test(source) ? 'types' : 'source'
+  return classifyCachedDoc(source).type as SymbolHitKind
+}
+
+function findEntity(entities: ChunkEntity[] | undefined, symbol: string): ChunkEntity | undefined {
+  return entities?.find(e => e.name === symbol)
+}
+
+/** Content contains `symbol` as a whole identifier (not part of a longer name) */
+export function mentionsSymbol(content: string, symbol: string): boolean {
+  for (let idx = content.indexOf(symbol); idx !== -1; idx = content.indexOf(symbol, idx + 1)) {
+    const before = content[idx - 1]
+    const after = content[idx + symbol.length]
+    if ((!before || !IDENTIFIER_CHAR_RE.test(before)) && (!after || !IDENTIFIER_CHAR_RE.test(after)))
+      return true
+  }
+  return false
+}
+
+/** Definitions first (types, then source, then anything else), each tier by score */
+function compareHits(a: SymbolHit, b: SymbolHit): number {
+  if (a.definition !== b.definition)
+    return a.definition ? -1 : 1
+  if (a.definition && KIND_RANK[a.kind] !== KIND_RANK[b.kind])
+    return KIND_RANK[a.kind] - KIND_RANK[b.kind]
+  return b.snippet.score - a.snippet.score
+}
+
+/**
+ * Keep snippets that define or mention `symbol` and group them into a card.
+ * Input may contain duplicates across queries; the highest-scored copy wins.
+ */
+export function buildSymbolCard(symbol: string, results: Array<{ snippet: SearchSnippet, dbPath: string }>, limit = 5): SymbolCard {
+  const best = new Map<string, SymbolHit>()
+  for (const { snippet, dbPath } of results) {
+    const definition = !!findEntity(snippet.entities, symbol)
+    if (!definition && !findEntity(snippet.scope, symbol) && !mentionsSymbol(snippet.content, symbol))
+      continue
+    const key = `${snippet.package}:${snippet.source}:${snippet.lineStart}-${snippet.lineEnd}`
+    const existing = best.get(key)
+    if (!existing || existing.snippet.score < snippet.score)
+      best.set(key, { snippet, kind: classifySymbolSource(snippet.source), definition, dbPath })
+  }
+
+  const ranked = [...best.values()].sort(compareHits)
+  const definitions = ranked.filter(h => h.definition).slice(0, limit)
+  const mentions = ranked.filter(h => !h.definition)
+  const card: SymbolCard = {
+    symbol,
+    definitions,
+    docs: mentions.filter(h => h.kind === 'doc' || h.kind === 'release').slice(0, limit),
+    issues: mentions.filter(h => h.kind === 'issue' || h.kind === 'discussion').slice(0, limit),
+  }
+
+  const top = definitions[0]
+  if (top) {
+    const entity = findEntity(top.snippet.entities, symbol)!
+    card.signature = entity.signature
+    card.entityType = entity.type
+    card.definedIn = { package: top.snippet.package, source: top.snippet.source, lineStart: top.snippet.lineStart, lineEnd: top.snippet.lineEnd }
+  }
+  return card
+}
+
+/**
+ * Look up `symbol` across indexes. Each index is queried twice: restricted to
+ * package code (where definitions live) and unrestricted (for prose
+ * mentions), so docs chatter can't crowd the declaration out.
+ */
+export async function searchSymbol(symbol: string, dbPaths: string[], opts: SearchSymbolOptions = {}): Promise<SymbolCard> {
+  const search = opts.search ?? searchSnippets
+  const perDb = await Promise.all(dbPaths.map(async (dbPath) => {
+    const [code, all] = await Promise.all([
+      search(symbol, { dbPath }, { limit: SYMBOL_CANDIDATES, filter: { type: { $in: ['types', 'source'] } } }),
+      search(symbol, { dbPath }, { limit: SYMBOL_CANDIDATES }),
+    ])
+    return [...code, ...all].map(snippet => ({ snippet, dbPath }))
+  }))
+  return buildSymbolCard(symbol, perDb.flat(), opts.limit)
+}
@@ -63,6 +63,8 @@ export interface SearchOptions {
   limit?: number
   /** Filter by metadata fields */
   filter?: SearchFilter
+  /** Rescore merged candidates with a local cross-encoder before slicing to `limit` */
+  rerank?: boolean
 }
 
 export interface SearchSnippet {
@@ -56,11 +56,15 @@ if (parentPort) {
         }
 
         const { getDb } = await import('./index.ts')
+        const { readIndexModel, resolveEmbeddingModel, writeIndexModel } = await import('./index-meta.ts')
+        // Incremental updates keep the index's own model; new indexes use the configured one
+        config.model = readIndexModel(dbPath) ?? resolveEmbeddingModel()
         const db = await getDb(config)
         if (msg.removeIds?.length)
           await db.remove?.(msg.removeIds)
         await db.index(documents, { onProgress: config.onProgress })
         await db.close?.()
+        writeIndexModel(dbPath, config.model)
 
         parentPort!.postMessage({ type: 'done', id } satisfies WorkerDoneResponse)
       }
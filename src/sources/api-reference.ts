@@ -0,0 +1,398 @@
+/**
+ * API reference extraction from `.d.ts` entry files.
+ *
+ * Walks the exported symbols of each declaration file (via oxc-parser) and
+ * captures signature, JSDoc description, `@deprecated`, `@since` and
+ * `@example`. Emits one markdown page per module under `api/` plus an
+ * `api/_INDEX.md`, so thin-docs packages still get a citable API reference.
+ */
+
+import type { Directive, ExportDefaultDeclarationKind, ModuleExportName, Statement } from 'oxc-parser'
+import type { EntryFile } from './entries.ts'
+import { parseSync } from 'oxc-parser'
+
+const DTS_EXT_RE = /\.d\.[mc]?ts$/
+const JSDOC_LINE_PREFIX_RE = /^\s*\* ?/
+const JSDOC_TAG_RE = /^@\w+/
+const LEADING_MODIFIERS_RE = /^(?:export\s+|default\s+|declare\s+)+/
+const FENCE_RE = /^```/m
+const TRAILING_SEMI_RE = /;\s*$/
+const FIRST_SENTENCE_RE = /^(.+?[.!?])(?:\s|$)/
+const JSDOC_OPEN_RE = /^\*/
+const SLUG_STRIP_RE = /[^\w\- ]/g
+const SPACE_RE = / /g
+const WHITESPACE_RE = /\s+/g
+
+/** Max lines kept per signature; long interfaces/classes are truncated */
+const MAX_SIGNATURE_LINES = 40
+/** Max symbols emitted across all modules */
+const MAX_API_SYMBOLS = 1000
+
+export type ApiSymbolKind = 'function' | 'class' | 'interface' | 'type' | 'const' | 'enum' | 'namespace'
+
+export interface ApiSymbol {
+  name: string
+  kind: ApiSymbolKind
+  /** Declaration source, `export`/`declare` stripped; overloads joined by newline */
+  signature: string
+  description: string
+  /** `@deprecated` message, or `true` when the tag has no text */
+  deprecated?: string | true
+  since?: string
+  examples: string[]
+  /** 1-based line of the declaration in the source file */
+  line: number
+}
+
+export interface ApiModule {
+  /** Source path relative to the package root, e.g. `dist/index.d.mts` */
+  source: string
+  symbols: ApiSymbol[]
+}
+
+interface JsDoc {
+  description: string
+  deprecated?: string | true
+  since?: string
+  examples: string[]
+  internal: boolean
+}
+
+interface LocalDecl {
+  kind: ApiSymbolKind
+  /** Node holding the declaration text */
+  node: { start: number, end: number }
+  /** Statement start, used to find the attached JSDoc */
+  statementStart: number
+  /** Prefix for variable declarators (`const`), which lose it when sliced */
+  prefix?: string
+}
+
+/** Parse a `/** ... *\/` comment body into description + known tags. */
+export function parseJsDoc(raw: string): JsDoc {
+  const lines = raw.replace(JSDOC_OPEN_RE, '').split('\n').map(l => l.replace(JSDOC_LINE_PREFIX_RE, ''))
+  const doc: JsDoc = { description: '', examples: [], internal: false }
+  const description: string[] = []
+  let tag: { name: string, lines: string[] } | null = null
+
+  const flush = () => {
+    if (!tag)
+      return
+    const text = tag.lines.join('\n').trim()
+    if (tag.name === 'deprecated')
+      doc.deprecated = text || true
+    else if (tag.name === 'since')
+      doc.since = text
+    else if (tag.name === 'example' && text)
+      doc.examples.push(text)
+    else if (tag.name === 'internal')
+      doc.internal = true
+    tag = null
+  }
+
+  for (const line of lines) {
+    const trimmed = line.trim()
+    const m = trimmed.match(JSDOC_TAG_RE)
+    // Tags inside an @example fence are content, not tags
+    if (m && !(tag?.name === 'example' && countFences(tag.lines) % 2 === 1)) {
+      flush()
+      const rest = trimmed.slice(m[0].length).trim()
+      tag = { name: m[0].slice(1), lines: rest ? [rest] : [] }
+      continue
+    }
+    if (tag)
+      tag.lines.push(line)
+    else
+      description.push(line)
+  }
+  flush()
+  doc.description = description.join('\n').trim()
+  return doc
+}
+
+function countFences(lines: string[]): number {
+  return lines.filter(l => l.trimStart().startsWith('```')).length
+}
+
+function declKind(type: string): ApiSymbolKind | null {
+  switch (type) {
+    case 'TSDeclareFunction':
+    case 'FunctionDeclaration':
+      return 'function'
+    case 'ClassDeclaration':
+      return 'class'
+    case 'TSInterfaceDeclaration':
+      return 'interface'
+    case 'TSTypeAliasDeclaration':
+      return 'type'
+    case 'TSEnumDeclaration':
+      return 'enum'
+    case 'TSModuleDeclaration':
+      return 'namespace'
+    default:
+      return null
+  }
+}
+
+/** Top-level statement or `export default` target that may declare a symbol */
+type DeclNode = Statement | Directive | ExportDefaultDeclarationKind
+
+function declName(decl: DeclNode): string | null {
+  const id = 'id' in decl ? decl.id : null
+  if (!id)
+    return null
+  return id.type === 'Identifier' ? id.name : (id.type === 'Literal' ? id.value : null)
+}
+
+function exportName(node: ModuleExportName): string {
+  return node.type === 'Identifier' ? node.name : node.value
+}
+
+/** Register a declaration's names into `locals`; returns the names it declares. */
+function collectDecl(decl: DeclNode, statementStart: number, locals: Map<string, LocalDecl[]>): string[] {
+  if (decl.type === 'VariableDeclaration') {
+    const names: string[] = []
+    for (const d of decl.declarations) {
+      if (d.id.type !== 'Identifier')
+        continue
+      const entry: LocalDecl = { kind: 'const', node: d, statementStart, prefix: `${decl.kind} ` }
+      locals.set(d.id.name, [...(locals.get(d.id.name) ?? []), entry])
+      names.push(d.id.name)
+    }
+    return names
+  }
+  const kind = declKind(decl.type)
+  const name = declName(decl)
+  if (!kind || !name)
+    return []
+  locals.set(name, [...(locals.get(name) ?? []), { kind, node: decl, statementStart }])
+  return [name]
+}
+
+function lineAt(content: string, offset: number): number {
+  let line = 1
+  for (let i = 0; i < offset && i < content.length; i++) {
+    if (content.charCodeAt(i) === 10)
+      line++
+  }
+  return line
+}
+
+function truncateSignature(text: string): string {
+  const lines = text.split('\n')
+  if (lines.length <= MAX_SIGNATURE_LINES)
+    return text
+  return [...lines.slice(0, MAX_SIGNATURE_LINES), '  // … truncated'].join('\n')
+}
+
+/**
+ * Extract exported symbols from one declaration file. Re-exports from other
+ * modules (`export { x } from './y'`, `export *`) are skipped — the target
+ * file is processed on its own. Symbols tagged `@internal` are dropped.
+ */
+export function extractApiSymbols(path: string, content: string): ApiSymbol[] {
+  let result: ReturnType<typeof parseSync>
+  try {
+    result = parseSync(path, content)
+  }
+  catch {
+    return []
+  }
+  const { program, comments } = result
+  const jsdocs = comments.filter(c => c.type === 'Block' && c.value.startsWith('*'))
+
+  /** JSDoc immediately preceding `start` (only whitespace in between) */
+  const docFor = (start: number): JsDoc | null => {
+    let match: (typeof jsdocs)[number] | undefined
+    for (const c of jsdocs) {
+      if (c.end > start)
+        break
+      match = c
+    }
+    if (!match || content.slice(match.end, start).trim())
+      return null
+    return parseJsDoc(match.value)
+  }
+
+  const locals = new Map<string, LocalDecl[]>()
+  const exported: Array<{ name: string, local: string }> = []
+
+  for (const stmt of program.body) {
+    if (stmt.type === 'ExportNamedDeclaration') {
+      if (stmt.declaration) {
+        for (const name of collectDecl(stmt.declaration, stmt.start, locals))
+          exported.push({ name, local: name })
+      }
+      else if (!stmt.source) {
+        for (const spec of stmt.specifiers)
+          exported.push({ name: exportName(spec.exported), local: exportName(spec.local) })
+      }
+    }
+    else if (stmt.type === 'ExportDefaultDeclaration') {
+      const decl = stmt.declaration
+      if (decl.type === 'Identifier') {
+        exported.push({ name: 'default', local: decl.name })
+      }
+      else {
+        const names = collectDecl(decl, stmt.start, locals)
+        if (names[0])
+          exported.push({ name: 'default', local: names[0] })
+      }
+    }
+    else {
+      collectDecl(stmt, stmt.start, locals)
+    }
+  }
+
+  const symbols: ApiSymbol[] = []
+  const seen = new Set<string>()
+  for (const { name, local } of exported) {
+    const decls = locals.get(local)
+    if (!decls?.length || seen.has(name) || name.startsWith('_'))
+      continue
+    seen.add(name)
+
+    const doc = decls.map(d => docFor(d.statementStart)).find(Boolean) ?? null
+    if (doc?.internal)
+      continue
+
+    const signature = decls
+      .map(d => `${d.prefix ?? ''}${content.slice(d.node.start, d.node.end).replace(LEADING_MODIFIERS_RE, '').replace(TRAILING_SEMI_RE, '')}`)
+      .join('\n')
+
+    symbols.push({
+      name: name === 'default' ? `${local} (default)` : name,
+      kind: decls[0]!.kind,
+      signature: truncateSignature(signature),
+      description: doc?.description ?? '',
+      ...(doc?.deprecated ? { deprecated: doc.deprecated } : {}),
+      ...(doc?.since ? { since: doc.since } : {}),
+      examples: doc?.examples ?? [],
+      line: lineAt(content, decls[0]!.node.start),
+    })
+  }
+  return symbols
+}
+
+/** Extract modules from entry files, deduping identical `.d.ts`/`.d.mts`/`.d.cts` twins. */
+export function extractApiModules(entries: EntryFile[]): ApiModule[] {
+  // Prefer ESM declarations when a package ships the same API in several flavours
+  const rank = (p: string) => p.endsWith('.d.mts') ? 0 : p.endsWith('.d.ts') ? 1 : 2
+  const sorted = entries
+    .filter(e => e.type === 'types')
+    .sort((a, b) => rank(a.path) - rank(b.path) || a.path.localeCompare(b.path))
+
+  const modules: ApiModule[] = []
+  const emitted = new Set<string>()
+  let total = 0
+  for (const entry of sorted) {
+    if (total >= MAX_API_SYMBOLS)
+      break
+    const symbols = extractApiSymbols(entry.path, entry.content)
+      .filter((s) => {
+        const key = `${s.name}\0${s.signature}`
+        if (emitted.has(key))
+          return false
+        emitted.add(key)
+        return true
+      })
+      .slice(0, MAX_API_SYMBOLS - total)
+    if (symbols.length === 0)
+      continue
+    total += symbols.length
+    modules.push({ source: entry.path, symbols })
+  }
+  return modules.sort((a, b) => a.source.localeCompare(b.source))
+}
+
+/** `dist/index.d.mts` → `dist/index` */
+export function apiModuleName(source: string): string {
+  return source.replace(DTS_EXT_RE, '')
+}
+
+/** GitHub-style heading slug of a symbol's `## name` heading, so `#anchor` citations resolve */
+export function apiSymbolAnchor(heading: string): string {
+  return heading.toLowerCase().replace(SLUG_STRIP_RE, '').trim().replace(SPACE_RE, '-')
+}
+
+function summarize(description: string): string {
+  const firstPara = description.split('\n\n')[0]!.replace(WHITESPACE_RE, ' ').trim()
+  const sentence = firstPara.match(FIRST_SENTENCE_RE)?.[1] ?? firstPara
+  return sentence.length > 120 ? `${sentence.slice(0, 117)}...` : sentence
+}
+
+function formatSymbol(symbol: ApiSymbol, source: string): string {
+  const meta = [`\`${symbol.kind}\``]
+  if (symbol.since)
+    meta.push(`since ${symbol.since}`)
+  if (symbol.deprecated)
+    meta.push(symbol.deprecated === true ? '**Deprecated**' : `**Deprecated:** ${symbol.deprecated.replace(WHITESPACE_RE, ' ')}`)
+
+  const lines = [`## ${symbol.name}`, '', meta.join(' · '), '']
+  if (symbol.description)
+    lines.push(symbol.description, '')
+  lines.push('```ts', symbol.signature, '```', '')
+  for (const example of symbol.examples) {
+    lines.push('**Example**', '')
+    lines.push(FENCE_RE.test(example) ? example : `\`\`\`ts\n${example}\n\`\`\``, '')
+  }
+  lines.push(`Source: \`pkg/${source}:L${symbol.line}\``, '')
+  return lines.join('\n')
+}
+
+/** Markdown page for one module. */
+export function formatApiModule(mod: ApiModule): string {
+  const deprecated = mod.symbols.filter(s => s.deprecated).length
+  return [
+    '---',
+    `module: ${mod.source}`,
+    `symbols: ${mod.symbols.length}`,
+    ...(deprecated ? [`deprecated: ${deprecated}`] : []),
+    '---',
+    '',
+    `# ${apiModuleName(mod.source)}`,
+    '',
+    ...mod.symbols.map(s => formatSymbol(s, mod.source)),
+  ].join('\n')
+}
+
+/** `api/_INDEX.md`: symbols grouped by module with kind, summary and deprecation marker. */
+export function generateApiIndex(modules: ApiModule[]): string {
+  const total = modules.reduce((n, m) => n + m.symbols.length, 0)
+  const deprecated = modules.reduce((n, m) => n + m.symbols.filter(s => s.deprecated).length, 0)
+  const sections: string[] = [
+    '---',
+    `total: ${total}`,
+    `modules: ${modules.length}`,
+    ...(deprecated ? [`deprecated: ${deprecated}`] : []),
+    '---',
+    '',
+    '# API Index',
+    '',
+  ]
+  for (const mod of modules) {
+    const name = apiModuleName(mod.source)
+    sections.push(`## ${name} (${mod.symbols.length})`, '')
+    for (const s of mod.symbols) {
+      const summary = s.description ? ` — ${summarize(s.description)}` : ''
+      const flag = s.deprecated ? ' **deprecated**' : ''
+      sections.push(`- [${s.name}](./${name}.md#${apiSymbolAnchor(s.name)}) \`${s.kind}\`${flag}${summary}`)
+    }
+    sections.push('')
+  }
+  return sections.join('\n')
+}
+
+/**
+ * Generate the `api/` reference tree from `.d.ts` entry files.
+ * Returns cache docs (`api/<module>.md` + `api/_INDEX.md`), empty when no exports were found.
+ */
+export function generateApiReference(entries: EntryFile[]): Array<{ path: string, content: string }> {
+  const modules = extractApiModules(entries)
+  if (modules.length === 0)
+    return []
+  return [
+    ...modules.map(mod => ({ path: `api/${apiModuleName(mod.source)}.md`, content: formatApiModule(mod) })),
+    { path: 'api/_INDEX.md', content: generateApiIndex(modules) },
+  ]
+}
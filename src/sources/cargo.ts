@@ -0,0 +1,383 @@
+/**
+ * Rust project discovery: reads `Cargo.toml` (including workspace members and
+ * `[workspace.dependencies]`) and `Cargo.lock` so crates surface alongside npm
+ * dependencies as `crate:<name>` entries with their locked versions.
+ *
+ * Only the TOML subset Cargo manifests actually use is parsed — section
+ * headers, strings, inline tables and (multi-line) string arrays.
+ */
+
+import type { LocalDependency } from './types.ts'
+import { existsSync, readdirSync, readFileSync, statSync } from 'node:fs'
+import { dirname, join, resolve } from 'pathe'
+import { semverGt, semverValid } from '../core/semver.ts'
+
+const TOML_HEADER_RE = /^\[\[?([^\]]+)\]\]?$/
+const TOML_KEY_VALUE_RE = /^("[^"]*"|'[^']*'|[\w.-]+)\s*=\s*(\S.*)$/
+const TOML_INLINE_PAIR_RE = /("[^"]*"|'[^']*'|[\w.-]+)\s*=\s*("[^"]*"|'[^']*'|true|false|[\d.]+)/g
+const TOML_STRING_RE = /"([^"]*)"|'([^']*)'/g
+const CARGO_REQ_PREFIX_RE = /^[\^~=>\s]+/
+const CARGO_DEP_SECTION_RE = /(?:^|\.)(?:dev-|build-)?dependencies$/
+const CARGO_DEP_TABLE_RE = /^(.*(?:^|\.)(?:dev-|build-)?dependencies)\.([^.]+)$/
+const RUST_IDENT_RE = /-/g
+
+export interface CargoDependency {
+  /** Crate name on crates.io (the `package = ` rename target when aliased) */
+  name: string
+  /** Identifier used in Rust source (`use <alias>::…`) */
+  alias: string
+  /** Version requirement from Cargo.toml, if any */
+  requirement?: string
+  /** Path or git dependencies aren't published crates */
+  local: boolean
+}
+
+interface CargoManifest {
+  packageName?: string
+  dependencies: CargoDependency[]
+  workspaceMembers: string[]
+  workspaceExclude: string[]
+  workspaceDependencies: Map<string, CargoDependency>
+}
+
+type TomlValue = string | boolean | string[] | Record<string, string>
+
+function unquote(s: string): string {
+  return (s.startsWith('"') && s.endsWith('"')) || (s.startsWith('\'') && s.endsWith('\''))
+    ? s.slice(1, -1)
+    : s
+}
+
+function stripComment(line: string): string {
+  let quote: string | null = null
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i]!
+    if (quote) {
+      if (ch === quote)
+        quote = null
+    }
+    else if (ch === '"' || ch === '\'') {
+      quote = ch
+    }
+    else if (ch === '#') {
+      return line.slice(0, i)
+    }
+  }
+  return line
+}
+
+function parseTomlValue(raw: string): TomlValue {
+  const value = raw.trim()
+  if (value.startsWith('{')) {
+    const table: Record<string, string> = {}
+    for (const m of value.matchAll(TOML_INLINE_PAIR_RE))
+      table[unquote(m[1]!)] = unquote(m[2]!)
+    return table
+  }
+  if (value.startsWith('['))
+    return Array.from(value.matchAll(TOML_STRING_RE), m => m[1] ?? m[2]!)
+  if (value === 'true' || value === 'false')
+    return value === 'true'
+  return unquote(value)
+}
+
+/**
+ * Walk a Cargo-flavoured TOML document, calling `onEntry` for every key/value
+ * with its enclosing section (`[[package]]` headers start a fresh section each time).
+ */
+function walkToml(content: string, onEntry: (section: string, key: string, value: TomlValue, sectionIndex: number) => void): void {
+  let section = ''
+  let sectionIndex = 0
+  let pending: { key: string, raw: string } | null = null
+
+  for (const rawLine of content.split('\n')) {
+    const line = stripComment(rawLine).trim()
+
+    // Multi-line arrays: `members = [\n "a",\n "b",\n]`
+    if (pending) {
+      pending.raw += ` ${line}`
+      if (line.includes(']')) {
+        onEntry(section, pending.key, parseTomlValue(pending.raw), sectionIndex)
+        pending = null
+      }
+      continue
+    }
+
+    if (!line)
+      continue
+
+    const header = line.match(TOML_HEADER_RE)
+    if (header && !line.includes('=')) {
+      section = header[1]!.split('.').map(s => unquote(s.trim())).join('.')
+      sectionIndex++
+      continue
+    }
+
+    const kv = line.match(TOML_KEY_VALUE_RE)
+    if (!kv)
+      continue
+    const key = unquote(kv[1]!)
+    const raw = kv[2]!
+    if (raw.startsWith('[') && !raw.includes(']')) {
+      pending = { key, raw }
+      continue
+    }
+    onEntry(section, key, parseTomlValue(raw), sectionIndex)
+  }
+}
+
+function toCargoDependency(key: string, value: TomlValue): CargoDependency {
+  if (typeof value === 'string')
+    return { name: key, alias: key, requirement: value, local: false }
+  const table = (typeof value === 'object' && !Array.isArray(value)) ? value : {}
+  return {
+    name: table.package || key,
+    alias: key,
+    requirement: table.version,
+    local: !!(table.path || table.git),
+  }
+}
+
+export function parseCargoToml(content: string): CargoManifest {
+  const manifest: CargoManifest = {
+    dependencies: [],
+    workspaceMembers: [],
+    workspaceExclude: [],
+    workspaceDependencies: new Map(),
+  }
+  // `[dependencies.foo]` table form: accumulate keys per table, resolve at the end
+  const tables = new Map<string, { section: string, key: string, table: Record<string, string> }>()
+  const inherited: Array<{ section: string, key: string, table: Record<string, string> }> = []
+
+  walkToml(content, (section, key, value) => {
+    if (section === 'package' && key === 'name' && typeof value === 'string') {
+      manifest.packageName = value
+      return
+    }
+    if (section === 'workspace' && Array.isArray(value)) {
+      if (key === 'members')
+        manifest.workspaceMembers = value
+      else if (key === 'exclude')
+        manifest.workspaceExclude = value
+      return
+    }
+
+    // `[dependencies.foo]` tables and dotted keys (`foo.workspace = true`)
+    const dotted = CARGO_DEP_SECTION_RE.test(section) && key.includes('.')
+    const depTable = dotted
+      ? [section, section, key.slice(0, key.indexOf('.'))]
+      : section.match(CARGO_DEP_TABLE_RE)
+    if (depTable) {
+      const id = `${depTable[1]}.${depTable[2]}`
+      const entry = tables.get(id) ?? { section: depTable[1]!, key: depTable[2]!, table: {} }
+      entry.table[dotted ? key.slice(key.indexOf('.') + 1) : key] = String(value)
+      tables.set(id, entry)
+      return
+    }
+
+    if (!CARGO_DEP_SECTION_RE.test(section))
+      return
+
+    const table = typeof value === 'object' && !Array.isArray(value) ? value : null
+    if (table?.workspace === 'true') {
+      inherited.push({ section, key, table })
+      return
+    }
+    const dep = toCargoDependency(key, value)
+    if (section === 'workspace.dependencies')
+      manifest.workspaceDependencies.set(key, dep)
+    else
+      manifest.dependencies.push(dep)
+  })
+
+  for (const { section, key, table } of tables.values()) {
+    if (table.workspace === 'true') {
+      inherited.push({ section, key, table })
+      continue
+    }
+    const dep = toCargoDependency(key, table)
+    if (section === 'workspace.dependencies')
+      manifest.workspaceDependencies.set(key, dep)
+    else
+      manifest.dependencies.push(dep)
+  }
+
+  // `foo = { workspace = true }` inherits name/version from the workspace root
+  for (const { key } of inherited)
+    manifest.dependencies.push(manifest.workspaceDependencies.get(key) ?? { name: key, alias: key, local: false })
+
+  return manifest
+}
+
+/** `[[package]]` entries of a Cargo.lock → crate name → every locked version. */
+export function parseCargoLock(content: string): Map<string, string[]> {
+  const entries = new Map<number, { name?: string, version?: string }>()
+  walkToml(content, (section, key, value, index) => {
+    if (section !== 'package' || typeof value !== 'string')
+      return
+    const entry = entries.get(index) ?? {}
+    if (key === 'name')
+      entry.name = value
+    else if (key === 'version')
+      entry.version = value
+    entries.set(index, entry)
+  })
+
+  const packages = new Map<string, string[]>()
+  for (const { name, version } of entries.values()) {
+    if (!name || !version)
+      continue
+    const versions = packages.get(name) ?? []
+    versions.push(version)
+    packages.set(name, versions)
+  }
+  return packages
+}
+
+/**
+ * Cargo's default (caret) compatibility: same leftmost non-zero component.
+ * `1.2` matches 1.x, `0.4` matches 0.4.x.
+ */
+function isCargoCompatible(requirement: string, version: string): boolean {
+  const req = requirement.split(',')[0]!.replace(CARGO_REQ_PREFIX_RE, '').split('.')
+  const ver = version.split('.')
+  for (let i = 0; i < req.length; i++) {
+    if (req[i] === '*' || req[i] === 'x')
+      return true
+    if (req[i] !== ver[i])
+      return false
+    if (req[i] !== '0')
+      return true
+  }
+  return true
+}
+
+function pickLockedVersion(versions: string[], requirement?: string): string | undefined {
+  const candidates = requirement
+    ? versions.filter(v => isCargoCompatible(requirement, v))
+    : versions
+  const pool = candidates.length > 0 ? candidates : versions
+  return pool.reduce<string | undefined>((best, v) => {
+    if (!best)
+      return v
+    return semverValid(v) && semverValid(best) && semverGt(v, best) ? v : best
+  }, undefined)
+}
+
+/** Nearest Cargo.lock at or above `cwd` (workspace members share the root lockfile). */
+export function findCargoLock(cwd: string): string | null {
+  let dir = resolve(cwd)
+  while (true) {
+    const path = join(dir, 'Cargo.lock')
+    if (existsSync(path))
+      return path
+    const parent = dirname(dir)
+    if (parent === dir)
+      return null
+    dir = parent
+  }
+}
+
+function expandWorkspaceMembers(root: string, patterns: string[], exclude: string[]): string[] {
+  const excluded = new Set(exclude.map(e => resolve(root, e)))
+  const dirs: string[] = []
+  for (const pattern of patterns) {
+    if (!pattern.endsWith('/*')) {
+      dirs.push(resolve(root, pattern))
+      continue
+    }
+    const base = resolve(root, pattern.slice(0, -2))
+    if (!existsSync(base))
+      continue
+    for (const entry of readdirSync(base, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+      if (entry.isDirectory())
+        dirs.push(join(base, entry.name))
+    }
+  }
+  return dirs.filter(d => !excluded.has(d) && existsSync(join(d, 'Cargo.toml')))
+}
+
+function readManifest(dir: string): CargoManifest | null {
+  const path = join(dir, 'Cargo.toml')
+  if (!existsSync(path))
+    return null
+  return parseCargoToml(readFileSync(path, 'utf-8'))
+}
+
+/**
+ * Every published crate the Cargo project at `cwd` depends on, across
+ * workspace members. Path/git dependencies and the workspace's own crates are skipped.
+ */
+export function readCargoDependencies(cwd: string): CargoDependency[] {
+  const root = readManifest(cwd)
+  if (!root)
+    return []
+
+  const manifests = [root]
+  for (const dir of expandWorkspaceMembers(cwd, root.workspaceMembers, root.workspaceExclude)) {
+    const member = readManifest(dir)
+    if (!member)
+      continue
+    // Members inherit `{ workspace = true }` deps from the root table
+    for (const [i, dep] of member.dependencies.entries()) {
+      if (dep.requirement === undefined && !dep.local)
+        member.dependencies[i] = root.workspaceDependencies.get(dep.alias) ?? dep
+    }
+    manifests.push(member)
+  }
+
+  const ownCrates = new Set(manifests.map(m => m.packageName).filter(Boolean))
+  const seen = new Map<string, CargoDependency>()
+  for (const manifest of manifests) {
+    for (const dep of manifest.dependencies) {
+      if (dep.local || ownCrates.has(dep.name) || seen.has(dep.name))
+        continue
+      seen.set(dep.name, dep)
+    }
+  }
+  return [...seen.values()]
+}
+
+/** Locked version of crate `name`, falling back to the Cargo.toml requirement. */
+export function readCargoLockVersion(cwd: string, name: string): string | undefined {
+  return readCargoLocalDependencies(cwd).find(d => d.name === `crate:${name}`)?.version
+}
+
+let lockCache: { path: string, mtimeMs: number, packages: Map<string, string[]> } | null = null
+
+function readCargoLockPackages(cwd: string): Map<string, string[]> {
+  const path = findCargoLock(cwd)
+  if (!path)
+    return new Map()
+  const mtimeMs = statSync(path).mtimeMs
+  if (lockCache?.path === path && lockCache.mtimeMs === mtimeMs)
+    return lockCache.packages
+  const packages = parseCargoLock(readFileSync(path, 'utf-8'))
+  lockCache = { path, mtimeMs, packages }
+  return packages
+}
+
+/**
+ * Cargo dependencies as `crate:<name>` local deps, versioned from Cargo.lock
+ * when present so outdated checks compare against what's actually built.
+ */
+export function readCargoLocalDependencies(cwd: string): LocalDependency[] {
+  const deps = readCargoDependencies(cwd)
+  if (deps.length === 0)
+    return []
+
+  const locked = readCargoLockPackages(cwd)
+  const results: LocalDependency[] = []
+  for (const dep of deps) {
+    const version = pickLockedVersion(locked.get(dep.name) ?? [], dep.requirement)
+      ?? dep.requirement?.replace(CARGO_REQ_PREFIX_RE, '')
+      ?? '*'
+    results.push({ name: `crate:${dep.name}`, version })
+  }
+  return results
+}
+
+/** Identifier a crate is referenced by in Rust source (`serde-json` → `serde_json`). */
+export function toRustCrateIdent(alias: string): string {
+  return alias.replace(RUST_IDENT_RE, '_')
+}
@@ -1,5 +1,7 @@
 import type { ResolveAttempt, ResolvedPackage, ResolveResult } from './types.ts'
-import { isLikelyCodeHostUrl, isUselessDocsUrl, normalizeRepoUrl, parseGitHubUrl } from '../core/url.ts'
+import { getGitHubEnterpriseHostnames } from '../core/github-hosts.ts'
+import { isLikelyCodeHostUrl, isUselessDocsUrl, normalizeRepoUrl } from '../core/url.ts'
+import { parseGitHubRepo } from './github-common.ts'
 import { resolveGitHubRepo } from './github.ts'
 import { fetchLlmsUrl } from './llms.ts'
 import { $fetch, createRateLimitedRunner } from './utils.ts'
@@ -131,10 +133,11 @@ export async function resolveCrateDocsWithAttempts(
   const repositoryRaw = pickPreferredUrl(versionEntry?.repository, data.crate.repository)
   const homepage = pickPreferredUrl(versionEntry?.homepage, data.crate.homepage)
   const documentation = pickPreferredUrl(versionEntry?.documentation, data.crate.documentation)
-  const normalizedRepo = repositoryRaw ? normalizeRepoUrl(repositoryRaw) : undefined
-  const repoUrl = normalizedRepo && isLikelyCodeHostUrl(normalizedRepo)
+  const ghHosts = getGitHubEnterpriseHostnames()
+  const normalizedRepo = repositoryRaw ? normalizeRepoUrl(repositoryRaw, ghHosts) : undefined
+  const repoUrl = normalizedRepo && isLikelyCodeHostUrl(normalizedRepo, ghHosts)
     ? normalizedRepo
-    : isLikelyCodeHostUrl(homepage)
+    : isLikelyCodeHostUrl(homepage, ghHosts)
       ? homepage
       : undefined
 
@@ -144,19 +147,19 @@ export async function resolveCrateDocsWithAttempts(
     releasedAt: versionEntry?.created_at || data.crate.updated_at || undefined,
     description: versionEntry?.description || data.crate.description,
     docsUrl: (() => {
-      if (documentation && !isUselessDocsUrl(documentation) && !isLikelyCodeHostUrl(documentation))
+      if (documentation && !isUselessDocsUrl(documentation) && !isLikelyCodeHostUrl(documentation, ghHosts))
         return documentation
-      if (homepage && !isUselessDocsUrl(homepage) && !isLikelyCodeHostUrl(homepage))
+      if (homepage && !isUselessDocsUrl(homepage) && !isLikelyCodeHostUrl(homepage, ghHosts))
         return homepage
       return docsRsUrl
     })(),
     repoUrl,
   }
 
-  const gh = repoUrl ? parseGitHubUrl(repoUrl) : null
+  const gh = repoUrl ? parseGitHubRepo(repoUrl) : null
   if (gh) {
     onProgress?.('GitHub enrichment')
-    const ghResolved = await resolveGitHubRepo(gh.owner, gh.repo)
+    const ghResolved = await resolveGitHubRepo(gh.owner, gh.repo, undefined, gh.host)
     if (ghResolved) {
       attempts.push({
         source: 'github-meta',
@@ -0,0 +1,140 @@
+/**
+ * Deprecation map: diffs exported declarations and `@deprecated` JSDoc
+ * between the installed version and the previous minor (or major) release.
+ *
+ * Deterministic — built from `.d.ts` entry files of both package tarballs,
+ * no LLM involved.
+ */
+
+import type { SemVer } from 'semver'
+import type { ApiModule, ApiSymbolKind } from './api-reference.ts'
+import { semverGt, semverParse } from '../core/semver.ts'
+import { extractApiModules } from './api-reference.ts'
+import { resolveEntryFiles } from './entries.ts'
+import { fetchNpmVersions, fetchPkgDist } from './npm-registry.ts'
+
+const LINK_TAG_RE = /\{@link(?:code|plain)?\s+([^}\s|]+)/
+const BACKTICK_REPLACEMENT_RE = /\b(?:use|prefer|replaced by|switch to|migrate to)\s+`([^`]+)`/i
+const BARE_REPLACEMENT_RE = /\b(?:use|prefer|replaced by|switch to|migrate to)\s+([A-Z_$][\w$.]*(?:\(\))?)/i
+const NON_SYMBOL_WORDS = new Set(['a', 'an', 'the', 'this', 'that', 'it', 'instead', 'with', 'of'])
+
+/** Max rows in the deprecation map; new deprecations and removals are kept first */
+const MAX_DEPRECATIONS = 40
+
+export interface DeprecationEntry {
+  name: string
+  kind: ApiSymbolKind
+  /** Declaration file the symbol came from, e.g. `dist/index.d.mts` */
+  source: string
+  /** `@deprecated` text (from the previous version for removed exports) */
+  message?: string
+  replacement?: string
+  since?: string
+  /**
+   * - `new`: deprecated in the installed version, not in the previous one
+   * - `existing`: already deprecated before (or no previous version to compare)
+   * - `removed`: exported by the previous version, gone now
+   */
+  status: 'new' | 'existing' | 'removed'
+}
+
+export interface DeprecationMap {
+  version: string
+  previousVersion?: string
+  entries: DeprecationEntry[]
+}
+
+/** Pull the suggested replacement out of a `@deprecated` message. */
+export function extractReplacement(message: string | undefined): string | undefined {
+  if (!message)
+    return undefined
+  const link = message.match(LINK_TAG_RE)?.[1]
+  if (link)
+    return link
+  const quoted = message.match(BACKTICK_REPLACEMENT_RE)?.[1]
+  if (quoted)
+    return quoted
+  const bare = message.match(BARE_REPLACEMENT_RE)?.[1]
+  return bare && !NON_SYMBOL_WORDS.has(bare.toLowerCase()) ? bare : undefined
+}
+
+/**
+ * Previous release to diff against: the latest stable version of an earlier
+ * minor in the same major, else the latest stable version of an earlier major.
+ */
+export function findPreviousVersion(versions: string[], current: string): string | null {
+  const cur = semverParse(current)
+  if (!cur)
+    return null
+  const stable = versions
+    .map(v => semverParse(v))
+    .filter((v): v is SemVer => !!v && v.prerelease.length === 0 && semverGt(current, v.version))
+
+  const pickLatest = (list: SemVer[]) => list.reduce<string | null>((best, v) => !best || semverGt(v.version, best) ? v.version : best, null)
+  return pickLatest(stable.filter(v => v.major === cur.major && v.minor < cur.minor))
+    ?? pickLatest(stable.filter(v => v.major < cur.major))
+}
+
+/** Diff deprecations between two extracted APIs. `previous` null means "no baseline". */
+export function diffDeprecations(current: ApiModule[], previous: ApiModule[] | null): DeprecationEntry[] {
+  const firstByName = (modules: ApiModule[]) => {
+    const map = new Map<string, { symbol: ApiModule['symbols'][number], source: string }>()
+    for (const mod of modules) {
+      for (const symbol of mod.symbols) {
+        if (!map.has(symbol.name))
+          map.set(symbol.name, { symbol, source: mod.source })
+      }
+    }
+    return map
+  }
+  const cur = firstByName(current)
+  const prev = previous ? firstByName(previous) : null
+
+  const entries: DeprecationEntry[] = []
+  for (const [name, { symbol, source }] of cur) {
+    if (!symbol.deprecated)
+      continue
+    const message = symbol.deprecated === true ? undefined : symbol.deprecated
+    entries.push({
+      name,
+      kind: symbol.kind,
+      source,
+      message,
+      replacement: extractReplacement(message),
+      since: symbol.since,
+      status: prev?.get(name)?.symbol.deprecated || !prev ? 'existing' : 'new',
+    })
+  }
+  for (const [name, { symbol, source }] of prev ?? []) {
+    if (cur.has(name))
+      continue
+    const message = typeof symbol.deprecated === 'string' ? symbol.deprecated : undefined
+    entries.push({ name, kind: symbol.kind, source, message, replacement: extractReplacement(message), status: 'removed' })
+  }
+
+  const order = { new: 0, removed: 1, existing: 2 }
+  return entries
+    .sort((a, b) => order[a.status] - order[b.status] || a.name.localeCompare(b.name))
+    .slice(0, MAX_DEPRECATIONS)
+}
+
+/**
+ * Build the deprecation map for an installed package directory. Downloads the
+ * previous release's tarball (cached like any other version) for the diff,
+ * honoring the `.npmrc` in `cwd`.
+ */
+export async function buildDeprecationMap(packageName: string, version: string, pkgDir: string, cwd?: string): Promise<DeprecationMap | null> {
+  const current = extractApiModules(await resolveEntryFiles(pkgDir))
+  if (current.length === 0)
+    return null
+
+  const previousVersion = findPreviousVersion(await fetchNpmVersions(packageName, cwd), version) ?? undefined
+  const previousDir = previousVersion ? await fetchPkgDist(packageName, previousVersion, cwd) : null
+  const previous = previousDir ? extractApiModules(await resolveEntryFiles(previousDir)) : null
+
+  return {
+    version,
+    previousVersion: previous ? previousVersion : undefined,
+    entries: diffDeprecations(current, previous),
+  }
+}
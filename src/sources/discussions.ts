@@ -1,12 +1,12 @@
 /**
- * GitHub discussions fetching via gh CLI GraphQL
+ * GitHub discussions fetching via GraphQL (gh CLI, or direct for enterprise hosts)
  * Prioritizes Q&A and Help categories, includes accepted answers
  * Comment quality filtering, smart truncation, noise removal
  */
 
-import { spawnSync } from 'node:child_process'
+import type { GraphqlComment } from './github-common.ts'
 import { mapInsert } from '../core/map.ts'
-import { BOT_USERS, buildFrontmatter, COMMENT_NOISE_RE, hasCodeBlock, isoDate, truncateBody } from './github-common.ts'
+import { BOT_USERS, buildFrontmatter, COMMENT_NOISE_RE, ghGraphql, hasCodeBlock, isoDate, truncateBody } from './github-common.ts'
 import { isGhAvailable } from './issues.ts'
 
 /** Categories most useful for skill generation (in priority order) */
@@ -44,6 +44,25 @@ export interface GitHubDiscussion {
   topComments: DiscussionComment[]
 }
 
+/** Discussion node as selected by the `fetchGitHubDiscussions()` query */
+interface DiscussionNode {
+  number: number
+  title: string
+  body?: string | null
+  category?: { name: string } | null
+  createdAt: string
+  url: string
+  upvoteCount?: number
+  comments?: { totalCount: number, nodes?: GraphqlComment[] }
+  answer?: GraphqlComment | null
+  author?: { login: string } | null
+  authorAssociation?: string
+}
+
+interface DiscussionsResponse {
+  data?: { repository?: { discussions?: { nodes?: DiscussionNode[] } } | null }
+}
+
 /** Off-topic or spam title patterns — instant reject */
 const TITLE_NOISE_RE = /looking .*(?:developer|engineer|freelanc)|hiring|job post|guide me to (?:complete|finish|build)|help me (?:complete|finish|build)|seeking .* tutorial|recommend.* course/i
 
@@ -109,6 +128,7 @@ export async function fetchGitHubDiscussions(
   limit = 20,
   releasedAt?: string,
   fromDate?: string,
+  host?: string,
 ): Promise<GitHubDiscussion[]> {
   if (!isGhAvailable())
     return []
@@ -130,31 +150,24 @@ export async function fetchGitHubDiscussions(
     // Fetch 10 comments per discussion so we can filter noise and pick best
     const query = `query($owner: String!, $repo: String!) { repository(owner: $owner, name: $repo) { discussions(first: ${fetchCount}, orderBy: {field: CREATED_AT, direction: DESC}) { nodes { number title body category { name } createdAt url upvoteCount comments(first: 10) { totalCount nodes { body author { login } authorAssociation reactions { totalCount } } } answer { body author { login } authorAssociation } author { login } authorAssociation } } } }`
 
-    const { stdout: result } = spawnSync('gh', ['api', 'graphql', '-f', `query=${query}`, '-f', `owner=${owner}`, '-f', `repo=${repo}`], {
-      encoding: 'utf-8',
-      maxBuffer: 10 * 1024 * 1024,
-    })
-    if (!result)
-      return []
-
-    const data = JSON.parse(result)
+    const data = await ghGraphql<DiscussionsResponse>(owner, repo, query, host)
     const nodes = data?.data?.repository?.discussions?.nodes
     if (!Array.isArray(nodes))
       return []
 
     const fromTs = fromDate ? new Date(fromDate).getTime() : null
     const discussions = nodes
-      .filter((d: any) => d.author && !BOT_USERS.has(d.author.login))
-      .filter((d: any) => {
+      .filter(d => d.author && !BOT_USERS.has(d.author.login))
+      .filter((d) => {
         const cat = (d.category?.name || '').toLowerCase()
         return !LOW_VALUE_CATEGORIES.has(cat)
       })
-      .filter((d: any) => !fromTs || new Date(d.createdAt).getTime() >= fromTs)
-      .map((d: any) => {
+      .filter(d => !fromTs || new Date(d.createdAt).getTime() >= fromTs)
+      .map((d): GitHubDiscussion => {
         // Process answer — tag maintainer status
         let answer: string | undefined
         if (d.answer?.body) {
-          const isMaintainer = ['OWNER', 'MEMBER', 'COLLABORATOR'].includes(d.answer.authorAssociation)
+          const isMaintainer = ['OWNER', 'MEMBER', 'COLLABORATOR'].includes(d.answer.authorAssociation ?? '')
           const author = d.answer.author?.login
           const tag = isMaintainer && author ? `**@${author}** [maintainer]:\n\n` : ''
           answer = `${tag}${d.answer.body}`
@@ -162,18 +175,18 @@ export async function fetchGitHubDiscussions(
 
         // Process comments — filter noise, score for quality, take best 3
         const comments: DiscussionComment[] = (d.comments?.nodes || [])
-          .filter((c: any) => c.author && !BOT_USERS.has(c.author.login))
-          .filter((c: any) => !COMMENT_NOISE_RE.test((c.body || '').trim()))
-          .map((c: any) => {
-            const isMaintainer = ['OWNER', 'MEMBER', 'COLLABORATOR'].includes(c.authorAssociation)
+          .filter(c => c.author && !BOT_USERS.has(c.author.login))
+          .filter(c => !COMMENT_NOISE_RE.test((c.body || '').trim()))
+          .map((c) => {
+            const isMaintainer = ['OWNER', 'MEMBER', 'COLLABORATOR'].includes(c.authorAssociation ?? '')
             return {
               body: c.body || '',
-              author: c.author.login,
+              author: c.author!.login,
               reactions: c.reactions?.totalCount || 0,
               isMaintainer,
             }
           })
-          .sort((a: DiscussionComment, b: DiscussionComment) => scoreComment(b) - scoreComment(a))
+          .sort((a, b) => scoreComment(b) - scoreComment(a))
           .slice(0, 3)
 
         return {
@@ -185,13 +198,13 @@ export async function fetchGitHubDiscussions(
           url: d.url,
           upvoteCount: d.upvoteCount || 0,
           comments: d.comments?.totalCount || 0,
-          isMaintainer: ['OWNER', 'MEMBER', 'COLLABORATOR'].includes(d.authorAssociation),
+          isMaintainer: ['OWNER', 'MEMBER', 'COLLABORATOR'].includes(d.authorAssociation ?? ''),
           answer,
           topComments: comments,
         }
       })
       // Score, filter low-quality, sort by category priority then score
-      .map((d: GitHubDiscussion) => ({ d, score: scoreDiscussion(d) }))
+      .map(d => ({ d, score: scoreDiscussion(d) }))
       .filter(({ score }) => score >= MIN_DISCUSSION_SCORE)
       .sort((a, b) => {
         const aHigh = HIGH_VALUE_CATEGORIES.has(a.d.category.toLowerCase()) ? 1 : 0
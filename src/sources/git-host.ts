@@ -0,0 +1,66 @@
+/**
+ * Code host abstraction for versioned doc discovery.
+ *
+ * The tag cascade and doc discovery only need four primitives: list files at a
+ * ref, list release tags, build raw file URLs and fetch raw files. GitHub
+ * (including enterprise hosts) goes through ungh.cc + the GitHub API; Gitea/Forgejo (Codeberg et al.) through
+ * the Gitea v1 API.
+ */
+
+import type { GiteaRepo } from './gitea.ts'
+import type { GitRefSource } from './github-tags.ts'
+import { fetchGiteaRaw, fetchGiteaTags, giteaRawBaseUrl, listGiteaFilesAtRef, parseGiteaUrl } from './gitea.ts'
+import { githubRawBaseUrl, githubRepoUrl, parseGitHubRepo } from './github-common.ts'
+import { fetchUnghReleases, listFilesAtRef } from './github-tags.ts'
+import { fetchGitHubRaw } from './utils.ts'
+
+export interface GitHost extends GitRefSource {
+  type: 'github' | 'gitea'
+  owner: string
+  repo: string
+  /** Enterprise hostname for GitHub repos not on github.com */
+  hostname?: string
+  /** Raw file URL prefix at a ref; append `/{path}` */
+  rawBaseUrl: (ref: string) => string
+  /** Browsable URL of a directory at a ref */
+  treeUrl: (ref: string, path: string) => string
+  /** Fetch a raw file URL produced by `rawBaseUrl`, with auth fallback for private repos */
+  fetchRaw: (url: string) => Promise<string | null>
+}
+
+export function createGitHubHost(owner: string, repo: string, hostname?: string): GitHost {
+  return {
+    type: 'github',
+    owner,
+    repo,
+    hostname,
+    listFilesAtRef: ref => listFilesAtRef(owner, repo, ref, hostname),
+    listReleaseTags: () => fetchUnghReleases(owner, repo, hostname),
+    rawBaseUrl: ref => githubRawBaseUrl(owner, repo, ref, hostname),
+    treeUrl: (ref, path) => `${githubRepoUrl(owner, repo, hostname)}/tree/${ref}/${path}`,
+    fetchRaw: fetchGitHubRaw,
+  }
+}
+
+export function createGiteaHost(gitea: GiteaRepo): GitHost {
+  const { baseUrl, owner, repo } = gitea
+  return {
+    type: 'gitea',
+    owner,
+    repo,
+    listFilesAtRef: ref => listGiteaFilesAtRef(gitea, ref),
+    listReleaseTags: () => fetchGiteaTags(gitea),
+    rawBaseUrl: ref => giteaRawBaseUrl(gitea, ref),
+    treeUrl: (ref, path) => `${baseUrl}/${owner}/${repo}/src/${ref}/${path}`,
+    fetchRaw: url => fetchGiteaRaw(gitea, url),
+  }
+}
+
+/** Resolve a repo URL to a supported code host, or null for unsupported hosts. */
+export function parseGitHostUrl(url: string): GitHost | null {
+  const gh = parseGitHubRepo(url)
+  if (gh)
+    return createGitHubHost(gh.owner, gh.repo, gh.host)
+  const gitea = parseGiteaUrl(url)
+  return gitea ? createGiteaHost(gitea) : null
+}
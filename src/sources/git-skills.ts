@@ -9,10 +9,11 @@ import { existsSync, readdirSync, readFileSync, rmSync } from 'node:fs'
 import { tmpdir } from 'node:os'
 import { downloadTemplate } from 'giget'
 import { join, resolve } from 'pathe'
+import { getGitHubEnterpriseHostnames } from '../core/github-hosts.ts'
 import { parseFrontmatter } from '../core/markdown.ts'
 import { GIT_SUFFIX_RE, LEADING_SLASH_RE } from '../core/regex.ts'
-import { normalizeRepoUrl, parseGitHubUrl } from '../core/url.ts'
-import { getGitHubToken } from './github-common.ts'
+import { normalizeRepoUrl } from '../core/url.ts'
+import { getGitHubToken, parseGitHubRepo } from './github-common.ts'
 import { $fetch, fetchGitHubRaw } from './utils.ts'
 
 const STATIC_REGEX_1 = /^[\w.-]+\/[\w.-]+$/
@@ -63,8 +64,8 @@ export function parseGitSkillInput(input: string): GitSkillSource | null {
 
   // SSH format: git@github.com:owner/repo
   if (trimmed.startsWith('git@')) {
-    const normalized = normalizeRepoUrl(trimmed)
-    const gh = parseGitHubUrl(normalized)
+    const normalized = normalizeRepoUrl(trimmed, getGitHubEnterpriseHostnames())
+    const gh = parseGitHubRepo(normalized)
     if (gh)
       return { type: 'github', owner: gh.owner, repo: gh.repo }
     return null
@@ -0,0 +1,225 @@
+/**
+ * Gitea / Forgejo repositories via the REST API (v1): tree listing, tags,
+ * releases and raw file fetch. Works against codeberg.org, gitea.com and a
+ * configured self-hosted instance (`giteaUrl` in config / `GITEA_URL`).
+ *
+ * Releases map onto `GitHubRelease` so the same selection, formatting and
+ * index generation as GitHub releases apply.
+ */
+
+import type { GitHubRelease } from './releases.ts'
+import { readConfig } from '../core/config.ts'
+import { buildHostReleaseNotes, changelogPaths } from './releases.ts'
+import { $fetch, fetchText } from './utils.ts'
+
+/** Public instances recognised without configuration */
+const KNOWN_GITEA_HOSTS = ['codeberg.org', 'gitea.com']
+const TRAILING_SLASHES_RE = /\/+$/
+const GIT_SUFFIX_RE = /\.git$/
+const WWW_PREFIX_RE = /^www\./
+/** Safety cap on paginated tree listings (1000 entries per page) */
+const MAX_TREE_PAGES = 20
+
+export interface GiteaRepo {
+  /** Instance origin, e.g. `https://codeberg.org` */
+  baseUrl: string
+  owner: string
+  repo: string
+}
+
+interface GiteaApiTree {
+  tree?: Array<{ path: string, type: string }>
+  truncated?: boolean
+}
+
+interface GiteaApiRelease {
+  id: number
+  tag_name: string
+  name: string | null
+  body: string | null
+  draft: boolean
+  prerelease: boolean
+  created_at: string
+  published_at: string | null
+}
+
+interface GiteaApiTag {
+  name: string
+  commit?: { created?: string }
+}
+
+interface CachedDoc {
+  path: string
+  content: string
+}
+
+/** Configured self-hosted instance origin, if any. */
+export function getGiteaBaseUrl(): string | null {
+  const raw = process.env.GITEA_URL || readConfig().giteaUrl
+  if (!raw)
+    return null
+  try {
+    return new URL(raw).origin
+  }
+  catch {
+    return null
+  }
+}
+
+/**
+ * Token for the configured instance. Never sent to codeberg.org/gitea.com
+ * unless one of them is the configured `giteaUrl`.
+ */
+export function getGiteaToken(): string | null {
+  return process.env.GITEA_TOKEN || readConfig().giteaToken || null
+}
+
+/**
+ * Parse a Gitea/Forgejo repo URL (known public instance or the configured one).
+ * Strips `/src/...`, `/releases`-style suffixes and `.git`.
+ */
+export function parseGiteaUrl(url: string): GiteaRepo | null {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  }
+  catch {
+    return null
+  }
+
+  const configured = getGiteaBaseUrl()
+  const hostname = parsed.hostname.replace(WWW_PREFIX_RE, '')
+  if (!KNOWN_GITEA_HOSTS.includes(hostname) && parsed.origin !== configured)
+    return null
+
+  const [owner, rawRepo] = parsed.pathname.replace(TRAILING_SLASHES_RE, '').split('/').filter(Boolean)
+  const repo = rawRepo?.replace(GIT_SUFFIX_RE, '')
+  if (!owner || !repo || owner === '..' || repo === '..')
+    return null
+
+  return { baseUrl: parsed.origin === configured ? configured : `https://${hostname}`, owner, repo }
+}
+
+function authHeaders(repo: GiteaRepo): Record<string, string> {
+  const token = repo.baseUrl === getGiteaBaseUrl() ? getGiteaToken() : null
+  return token ? { Authorization: `token ${token}` } : {}
+}
+
+async function giteaApi<T>(repo: GiteaRepo, path: string, query?: Record<string, string | number>): Promise<T | null> {
+  const url = `${repo.baseUrl}/api/v1/repos/${encodeURIComponent(repo.owner)}/${encodeURIComponent(repo.repo)}${path}`
+  return $fetch<T>(url, { query, headers: authHeaders(repo), retry: 0 }).catch(() => null)
+}
+
+/** Raw file URL prefix at a ref; append `/{path}`. */
+export function giteaRawBaseUrl(repo: GiteaRepo, ref: string): string {
+  return `${repo.baseUrl}/${repo.owner}/${repo.repo}/raw/${ref}`
+}
+
+/** Fetch a raw file, retrying with the instance token for private repos. */
+export async function fetchGiteaRaw(repo: GiteaRepo, url: string): Promise<string | null> {
+  const content = await fetchText(url)
+  if (content)
+    return content
+  const headers = authHeaders(repo)
+  if (!headers.Authorization)
+    return null
+  return await $fetch(url, { responseType: 'text', headers, retry: 0 }).catch(() => null) as string | null
+}
+
+/** List blob paths at a git ref (branch, tag or sha). Empty when the ref doesn't exist. */
+export async function listGiteaFilesAtRef(repo: GiteaRepo, ref: string): Promise<string[]> {
+  const files: string[] = []
+  for (let page = 1; page <= MAX_TREE_PAGES; page++) {
+    const data = await giteaApi<GiteaApiTree>(repo, `/git/trees/${encodeURIComponent(ref)}`, { recursive: 'true', per_page: 1000, page })
+    if (!data?.tree)
+      break
+    for (const entry of data.tree) {
+      if (entry.type === 'blob')
+        files.push(entry.path)
+    }
+    if (!data.truncated)
+      break
+  }
+  return files
+}
+
+/** Published releases, newest first. Drafts are skipped. */
+export async function fetchGiteaReleases(repo: GiteaRepo): Promise<GitHubRelease[]> {
+  const data = await giteaApi<GiteaApiRelease[]>(repo, '/releases', { limit: 50, draft: 'false' })
+  if (!Array.isArray(data))
+    return []
+  return data
+    .filter(r => !r.draft)
+    .map(r => ({
+      id: r.id,
+      tag: r.tag_name,
+      name: r.name || r.tag_name,
+      prerelease: r.prerelease,
+      createdAt: r.created_at,
+      publishedAt: r.published_at || r.created_at,
+      markdown: r.body || '',
+    }))
+}
+
+/**
+ * Release tags for version lookup. Falls back to plain git tags since many
+ * Codeberg projects tag versions without publishing releases.
+ */
+export async function fetchGiteaTags(repo: GiteaRepo): Promise<Array<{ tag: string, publishedAt?: string }>> {
+  const releases = await fetchGiteaReleases(repo)
+  if (releases.length > 0)
+    return releases.map(r => ({ tag: r.tag, publishedAt: r.publishedAt }))
+  const tags = await giteaApi<GiteaApiTag[]>(repo, '/tags', { limit: 50 })
+  return Array.isArray(tags) ? tags.map(t => ({ tag: t.name, publishedAt: t.commit?.created })) : []
+}
+
+/**
+ * Find the README raw URL at a ref (or main/master). The URL is plain HTTP,
+ * so `fetchReadmeContent` can read it back via `fetchGiteaRaw`.
+ */
+export async function fetchGiteaReadme(repo: GiteaRepo, subdir?: string, ref?: string): Promise<string | null> {
+  const basePath = subdir ? `${subdir}/` : ''
+  const headers = authHeaders(repo)
+  for (const b of ref ? [ref] : ['main', 'master']) {
+    for (const filename of ['README.md', 'Readme.md', 'readme.md']) {
+      const readmeUrl = `${giteaRawBaseUrl(repo, b)}/${basePath}${filename}`
+      const res = await $fetch.raw(readmeUrl, { headers, retry: 0 }).catch(() => null)
+      if (res?.ok)
+        return readmeUrl
+    }
+  }
+  return null
+}
+
+async function fetchGiteaChangelog(repo: GiteaRepo, refs: string[], packageName?: string): Promise<string | null> {
+  for (const ref of refs) {
+    for (const path of changelogPaths(packageName)) {
+      const content = await fetchGiteaRaw(repo, `${giteaRawBaseUrl(repo, ref)}/${path}`)
+      if (content)
+        return content
+    }
+  }
+  return null
+}
+
+/**
+ * Fetch release notes for a Gitea/Forgejo repo. Same selection and output
+ * layout as `fetchReleaseNotes`: `releases/{tag}.md` plus `releases/CHANGELOG.md`.
+ */
+export async function fetchGiteaReleaseNotes(
+  repo: GiteaRepo,
+  installedVersion: string,
+  gitRef?: string,
+  packageName?: string,
+  fromDate?: string,
+): Promise<CachedDoc[]> {
+  return buildHostReleaseNotes(
+    await fetchGiteaReleases(repo),
+    // Raw routes don't resolve `HEAD`, so guess the default branch when no tag is known
+    ref => fetchGiteaChangelog(repo, ref ? [ref] : ['main', 'master'], packageName),
+    installedVersion,
+    gitRef,
+    packageName,
+    fromDate,
+  )
+}
@@ -2,8 +2,11 @@
  * Shared constants and helpers for GitHub source modules (issues, discussions, releases)
  */
 
+import type { GitHubHost } from '../core/github-hosts.ts'
 import { spawnSync } from 'node:child_process'
 import { ofetch } from 'ofetch'
+import { findGitHubHost, getGitHubEnterpriseHostnames, GITHUB_COM_HOST } from '../core/github-hosts.ts'
+import { parseGitHubUrl } from '../core/url.ts'
 import { yamlEscape } from '../core/yaml.ts'
 
 const STATIC_REGEX_1 = /```[\s\S]*?```/
@@ -83,29 +86,75 @@ export function truncateBody(body: string, limit: number): string {
   return `${slice}...`
 }
 
+// ── Repo hosts ──
+
+/**
+ * Parse owner/repo from a github.com or configured enterprise URL. `host` is
+ * the enterprise hostname; pass it on to the fetchers so they talk to that instance.
+ */
+export function parseGitHubRepo(url: string): { owner: string, repo: string, host?: string } | null {
+  return parseGitHubUrl(url, getGitHubEnterpriseHostnames())
+}
+
+/** Host for a hostname from `parseGitHubRepo()`; github.com when omitted or no longer configured. */
+export function getRepoHost(hostname?: string): GitHubHost {
+  return (hostname && findGitHubHost(hostname)) || GITHUB_COM_HOST
+}
+
+/** Raw file URL prefix for owner/repo at a ref; append `/{path}`. */
+export function githubRawBaseUrl(owner: string, repo: string, ref: string, host?: string): string {
+  return `${getRepoHost(host).rawUrl}/${owner}/${repo}/${ref}`
+}
+
+/** Canonical web URL for owner/repo on its host. */
+export function githubRepoUrl(owner: string, repo: string, host?: string): string {
+  return `${getRepoHost(host).webUrl}/${owner}/${repo}`
+}
+
 // ── GitHub Auth ──
 
-let _ghToken: string | null | undefined
+const _ghTokens = new Map<string, string | null>()
 
 /**
- * Get GitHub auth token from gh CLI (cached).
+ * Get GitHub auth token for a host (cached per host). Enterprise hosts use
+ * their configured token first; otherwise the gh CLI token for that hostname.
  * Returns null if gh CLI is not available or not authenticated.
  */
-export function getGitHubToken(): string | null {
-  if (_ghToken !== undefined)
-    return _ghToken
+export function getGitHubToken(hostname = 'github.com'): string | null {
+  const host = findGitHubHost(hostname) ?? GITHUB_COM_HOST
+  if (host.token)
+    return host.token
+  if (_ghTokens.has(host.hostname))
+    return _ghTokens.get(host.hostname)!
+  let token: string | null
   try {
-    const { stdout } = spawnSync('gh', ['auth', 'token'], {
+    const args = host.enterprise ? ['auth', 'token', '--hostname', host.hostname] : ['auth', 'token']
+    const { stdout } = spawnSync('gh', args, {
       encoding: 'utf-8',
       timeout: 5_000,
       stdio: ['ignore', 'pipe', 'ignore'],
     })
-    _ghToken = stdout?.trim() || null
+    token = stdout?.trim() || null
   }
   catch {
-    _ghToken = null
+    token = null
+  }
+  _ghTokens.set(host.hostname, token)
+  return token
+}
+
+/**
+ * Extra `gh` CLI args/env so a call targets the repo's host: `--hostname`
+ * plus the configured token for enterprise hosts, nothing for github.com.
+ */
+export function ghCliHost(hostname?: string): { args: string[], env?: NodeJS.ProcessEnv } {
+  const host = getRepoHost(hostname)
+  if (!host.enterprise)
+    return { args: [] }
+  return {
+    args: ['--hostname', host.hostname],
+    env: host.token ? { ...process.env, GH_ENTERPRISE_TOKEN: host.token } : undefined,
   }
-  return _ghToken
 }
 
 // ── Private Repo Tracking ──
@@ -136,8 +185,10 @@ export async function fetchUnghOrApi<T>(
   repo: string,
   ungh: () => Promise<T | null>,
   api: () => Promise<T | null>,
+  host?: string,
 ): Promise<T | null> {
-  if (!isKnownPrivateRepo(owner, repo)) {
+  // ungh.cc only mirrors github.com
+  if (!isKnownPrivateRepo(owner, repo) && !getRepoHost(host).enterprise) {
     const r = await ungh().catch(() => null)
     if (r)
       return r
@@ -150,8 +201,6 @@ export async function fetchUnghOrApi<T>(
 
 // ── GitHub API (async, no process spawn) ──
 
-const GH_API = 'https://api.github.com'
-
 const ghApiFetch = ofetch.create({
   retry: 2,
   retryDelay: 500,
@@ -169,14 +218,16 @@ function parseLinkNext(header: string | null): string | null {
 }
 
 /**
- * Authenticated fetch against api.github.com. Returns null if no token or request fails.
+ * Authenticated fetch against the GitHub REST API (api.github.com or the
+ * enterprise `hostname`). Returns null if no token or request fails.
  * Endpoint should be relative, e.g. `repos/owner/repo/releases`.
  */
-export async function ghApi<T>(endpoint: string): Promise<T | null> {
-  const token = getGitHubToken()
+export async function ghApi<T>(endpoint: string, hostname?: string): Promise<T | null> {
+  const host = getRepoHost(hostname)
+  const token = getGitHubToken(host.hostname)
   if (!token)
     return null
-  return ghApiFetch<T>(`${GH_API}/${endpoint}`, {
+  return ghApiFetch<T>(`${host.apiUrl}/${endpoint}`, {
     headers: { Authorization: `token ${token}` },
   }).catch(() => null)
 }
@@ -185,14 +236,15 @@ export async function ghApi<T>(endpoint: string): Promise<T | null> {
  * Paginated GitHub API fetch. Follows Link headers, returns concatenated arrays.
  * Endpoint should return a JSON array, e.g. `repos/owner/repo/releases`.
  */
-export async function ghApiPaginated<T>(endpoint: string): Promise<T[]> {
-  const token = getGitHubToken()
+export async function ghApiPaginated<T>(endpoint: string, hostname?: string): Promise<T[]> {
+  const host = getRepoHost(hostname)
+  const token = getGitHubToken(host.hostname)
   if (!token)
     return []
 
   const headers = { Authorization: `token ${token}` }
   const results: T[] = []
-  let url: string | null = `${GH_API}/${endpoint}`
+  let url: string | null = `${host.apiUrl}/${endpoint}`
 
   while (url) {
     const res = await ghApiFetch.raw<T[]>(url, { headers }).catch(() => null)
@@ -204,3 +256,42 @@ export async function ghApiPaginated<T>(endpoint: string): Promise<T[]> {
 
   return results
 }
+
+/** Comment node as selected by the issue and discussion GraphQL queries */
+export interface GraphqlComment {
+  body?: string | null
+  author?: { login: string } | null
+  authorAssociation?: string
+  reactions?: { totalCount: number }
+}
+
+/**
+ * Run a GraphQL query taking `$owner` / `$repo` variables against `hostname`
+ * (github.com when omitted). Enterprise hosts with a configured token POST straight to their
+ * GraphQL endpoint; everything else goes through `gh api graphql`.
+ */
+export async function ghGraphql<T>(owner: string, repo: string, query: string, hostname?: string): Promise<T | null> {
+  const host = getRepoHost(hostname)
+  if (host.enterprise && host.token) {
+    return ghApiFetch<T>(host.graphqlUrl, {
+      method: 'POST',
+      headers: { Authorization: `bearer ${host.token}` },
+      body: { query, variables: { owner, repo } },
+    }).catch(() => null)
+  }
+
+  const cli = ghCliHost(hostname)
+  const { stdout } = spawnSync('gh', ['api', 'graphql', ...cli.args, '-f', `query=${query}`, '-f', `owner=${owner}`, '-f', `repo=${repo}`], {
+    encoding: 'utf-8',
+    maxBuffer: 10 * 1024 * 1024,
+    env: cli.env,
+  })
+  if (!stdout)
+    return null
+  try {
+    return JSON.parse(stdout) as T
+  }
+  catch {
+    return null
+  }
+}
@@ -7,11 +7,14 @@
  * bug surface.
  */
 
+import type { GitHost } from './git-host.ts'
 import type { LlmsLink } from './types.ts'
 import { mapInsert } from '../core/map.ts'
 import { LEADING_SLASH_RE, NPM_SCOPE_WITH_SLASH_RE } from '../core/regex.ts'
 import { extractBranchHint } from '../core/url.ts'
-import { findGitTag, listFilesAtRef } from './github-tags.ts'
+import { createGitHubHost } from './git-host.ts'
+import { githubRawBaseUrl } from './github-common.ts'
+import { findGitTagAt, listFilesAtRef } from './github-tags.ts'
 import { getDocOverride } from './package-registry.ts'
 
 const STATIC_REGEX_1 = /\.(?:md|mdx)$/
@@ -221,7 +224,7 @@ async function listDocsAtRef(owner: string, repo: string, ref: string, pathPrefi
  * Fetch versioned docs from GitHub repo's docs/ folder.
  * Pass packageName to check doc overrides (e.g. vue -> vuejs/docs).
  */
-export async function fetchGitDocs(owner: string, repo: string, version: string, packageName?: string, repoUrl?: string): Promise<GitDocsResult | null> {
+export async function fetchGitDocs(owner: string, repo: string, version: string, packageName?: string, repoUrl?: string, host?: string): Promise<GitDocsResult | null> {
   const override = packageName ? getDocOverride(packageName) : undefined
   if (override) {
     const ref = override.ref || 'main'
@@ -230,7 +233,7 @@ export async function fetchGitDocs(owner: string, repo: string, version: string,
     if (files.length === 0)
       return null
     return {
-      baseUrl: `https://raw.githubusercontent.com/${override.owner}/${override.repo}/${ref}`,
+      baseUrl: githubRawBaseUrl(override.owner, override.repo, ref),
       ref,
       files,
       fallback,
@@ -238,8 +241,16 @@ export async function fetchGitDocs(owner: string, repo: string, version: string,
     }
   }
 
+  return fetchGitHostDocs(createGitHubHost(owner, repo, host), version, packageName, repoUrl)
+}
+
+/**
+ * Fetch versioned docs from any supported code host (GitHub, Gitea/Forgejo).
+ * Same tag cascade and doc-dir heuristic as `fetchGitDocs`, minus overrides.
+ */
+export async function fetchGitHostDocs(host: GitHost, version: string, packageName?: string, repoUrl?: string): Promise<GitDocsResult | null> {
   const branchHint = repoUrl ? extractBranchHint(repoUrl) : undefined
-  const tag = await findGitTag(owner, repo, version, packageName, branchHint)
+  const tag = await findGitTagAt(host, version, packageName, branchHint)
   if (!tag)
     return null
 
@@ -262,7 +273,7 @@ export async function fetchGitDocs(owner: string, repo: string, version: string,
     return null
 
   return {
-    baseUrl: `https://raw.githubusercontent.com/${owner}/${repo}/${tag.ref}`,
+    baseUrl: host.rawBaseUrl(tag.ref),
     ref: tag.ref,
     files: docs,
     docsPrefix,
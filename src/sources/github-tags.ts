@@ -17,7 +17,7 @@ interface UnghFilesResponse {
  * List files at a git ref. Tries ungh.cc first (fast, no rate limits),
  * falls back to GitHub API for private repos.
  */
-export async function listFilesAtRef(owner: string, repo: string, ref: string): Promise<string[]> {
+export async function listFilesAtRef(owner: string, repo: string, ref: string, host?: string): Promise<string[]> {
   const files = await fetchUnghOrApi<string[]>(
     owner,
     repo,
@@ -26,9 +26,10 @@ export async function listFilesAtRef(owner: string, repo: string, ref: string):
       return data.files?.length ? data.files.map(f => f.path) : null
     },
     async () => {
-      const tree = await ghApi<{ tree?: Array<{ path: string }> }>(`repos/${owner}/${repo}/git/trees/${ref}?recursive=1`)
+      const tree = await ghApi<{ tree?: Array<{ path: string }> }>(`repos/${owner}/${repo}/git/trees/${ref}?recursive=1`, host)
       return tree?.tree?.length ? tree.tree.map(f => f.path) : null
     },
+    host,
   )
   return files ?? []
 }
@@ -40,26 +41,42 @@ export interface TagResult {
   fallback?: boolean
 }
 
+/** Minimal repo access the tag cascade needs; implemented per code host in `git-host.ts`. */
+export interface GitRefSource {
+  listFilesAtRef: (ref: string) => Promise<string[]>
+  /** Release tags, newest first */
+  listReleaseTags: () => Promise<Array<{ tag: string, publishedAt?: string }>>
+}
+
 /**
  * Find git tag for a version by checking if ungh can list files at that ref.
  * Tries v{version}, {version}, and optionally {packageName}@{version} (changeset convention).
  */
-export async function findGitTag(owner: string, repo: string, version: string, packageName?: string, branchHint?: string): Promise<TagResult | null> {
+export async function findGitTag(owner: string, repo: string, version: string, packageName?: string, branchHint?: string, host?: string): Promise<TagResult | null> {
+  return findGitTagAt({
+    listFilesAtRef: ref => listFilesAtRef(owner, repo, ref, host),
+    listReleaseTags: () => fetchUnghReleases(owner, repo, host),
+  }, version, packageName, branchHint)
+}
+
+/** Host-agnostic tag cascade behind `findGitTag`. */
+export async function findGitTagAt(source: GitRefSource, version: string, packageName?: string, branchHint?: string): Promise<TagResult | null> {
   const candidates = [`v${version}`, version]
   if (packageName)
     candidates.push(`${packageName}@${version}`)
 
   for (const tag of candidates) {
-    const files = await listFilesAtRef(owner, repo, tag)
+    const files = await source.listFilesAtRef(tag)
     if (files.length > 0)
       return { ref: tag, files }
   }
 
   // Fallback: find latest release tag matching {packageName}@* (version mismatch in monorepos)
   if (packageName) {
-    const latestTag = await findLatestReleaseTag(owner, repo, packageName)
+    const prefix = `${packageName}@`
+    const latestTag = (await source.listReleaseTags()).find(r => r.tag.startsWith(prefix))?.tag
     if (latestTag) {
-      const files = await listFilesAtRef(owner, repo, latestTag)
+      const files = await source.listFilesAtRef(latestTag)
       if (files.length > 0)
         return { ref: latestTag, files }
     }
@@ -70,7 +87,7 @@ export async function findGitTag(owner: string, repo: string, version: string, p
     ? [branchHint, ...['main', 'master'].filter(b => b !== branchHint)]
     : ['main', 'master']
   for (const branch of branches) {
-    const files = await listFilesAtRef(owner, repo, branch)
+    const files = await source.listFilesAtRef(branch)
     if (files.length > 0)
       return { ref: branch, files, fallback: true }
   }
@@ -84,7 +101,7 @@ interface GitHubApiRelease {
 }
 
 /** Fetch releases from ungh.cc first, fall back to GitHub API for private repos. */
-export async function fetchUnghReleases(owner: string, repo: string): Promise<Array<{ tag: string, publishedAt?: string }>> {
+export async function fetchUnghReleases(owner: string, repo: string, host?: string): Promise<Array<{ tag: string, publishedAt?: string }>> {
   const releases = await fetchUnghOrApi<Array<{ tag: string, publishedAt?: string }>>(
     owner,
     repo,
@@ -93,16 +110,10 @@ export async function fetchUnghReleases(owner: string, repo: string): Promise<Ar
       return data.releases?.length ? data.releases : null
     },
     async () => {
-      const raw = await ghApiPaginated<GitHubApiRelease>(`repos/${owner}/${repo}/releases`)
+      const raw = await ghApiPaginated<GitHubApiRelease>(`repos/${owner}/${repo}/releases`, host)
       return raw.length > 0 ? raw.map(r => ({ tag: r.tag_name, publishedAt: r.published_at })) : null
     },
+    host,
   )
   return releases ?? []
 }
-
-/** Find the latest release tag matching `{packageName}@*`. */
-export async function findLatestReleaseTag(owner: string, repo: string, packageName: string): Promise<string | null> {
-  const prefix = `${packageName}@`
-  const releases = await fetchUnghReleases(owner, repo)
-  return releases.find(r => r.tag.startsWith(prefix))?.tag ?? null
-}
@@ -9,9 +9,11 @@ import type { ResolvedPackage } from './types.ts'
 import { spawnSync } from 'node:child_process'
 import { existsSync as fsExistsSync, readFileSync as fsReadFileSync } from 'node:fs'
 import { fileURLToPath } from 'node:url'
+import { getGitHubEnterpriseHosts } from '../core/github-hosts.ts'
 import { NPM_SCOPE_PREFIX_RE, NPM_SCOPE_WITH_SLASH_RE, V_PREFIX_RE } from '../core/regex.ts'
 import { parseGitHubUrl } from '../core/url.ts'
-import { getGitHubToken, ghApi, isKnownPrivateRepo, markRepoPrivate } from './github-common.ts'
+import { fetchGiteaRaw, parseGiteaUrl } from './gitea.ts'
+import { getGitHubToken, getRepoHost, ghApi, githubRawBaseUrl, githubRepoUrl, isKnownPrivateRepo, markRepoPrivate } from './github-common.ts'
 import { fetchGitDocs } from './github-docs.ts'
 import { fetchUnghReleases } from './github-tags.ts'
 import { isGhAvailable } from './issues.ts'
@@ -21,7 +23,7 @@ import { $fetch, fetchGitHubRaw, fetchText } from './utils.ts'
 
 // Re-export doc-side public surface (callers used to import these from here)
 export type { GitDocsResult } from './github-docs.ts'
-export { fetchGitDocs, filterFrameworkDocs, isShallowGitDocs, MIN_GIT_DOCS, validateGitDocsWithLlms } from './github-docs.ts'
+export { fetchGitDocs, fetchGitHostDocs, filterFrameworkDocs, isShallowGitDocs, MIN_GIT_DOCS, validateGitDocsWithLlms } from './github-docs.ts'
 
 /**
  * Verify a GitHub repo is the source for an npm package by checking package.json name field.
@@ -120,21 +122,23 @@ export async function searchGitHubRepo(packageName: string): Promise<string | nu
  * Fetch GitHub repo metadata to get website URL.
  * Pass packageName to check doc overrides first (avoids API call).
  */
-export async function fetchGitHubRepoMeta(owner: string, repo: string, packageName?: string): Promise<{ homepage?: string } | null> {
+export async function fetchGitHubRepoMeta(owner: string, repo: string, packageName?: string, host?: string): Promise<{ homepage?: string } | null> {
   const override = packageName ? getDocOverride(packageName) : undefined
   if (override?.homepage)
     return { homepage: override.homepage }
 
-  const data = await ghApi<{ homepage?: string }>(`repos/${owner}/${repo}`)
-    ?? await $fetch<{ homepage?: string }>(`https://api.github.com/repos/${owner}/${repo}`).catch(() => null)
+  const data = await ghApi<{ homepage?: string }>(`repos/${owner}/${repo}`, host)
+    ?? await $fetch<{ homepage?: string }>(`${getRepoHost(host).apiUrl}/repos/${owner}/${repo}`).catch(() => null)
   return data?.homepage ? { homepage: data.homepage } : null
 }
 
 /** Resolve README URL for a GitHub repo, returns ungh:// pseudo-URL or raw URL */
-export async function fetchReadme(owner: string, repo: string, subdir?: string, ref?: string): Promise<string | null> {
+export async function fetchReadme(owner: string, repo: string, subdir?: string, ref?: string, hostname?: string): Promise<string | null> {
   const branch = ref || 'main'
+  const host = getRepoHost(hostname)
 
-  if (!isKnownPrivateRepo(owner, repo)) {
+  // ungh.cc only mirrors github.com
+  if (!isKnownPrivateRepo(owner, repo) && !host.enterprise) {
     const unghUrl = subdir
       ? `https://ungh.cc/repos/${owner}/${repo}/files/${branch}/${subdir}/README.md`
       : `https://ungh.cc/repos/${owner}/${repo}/readme${ref ? `?ref=${ref}` : ''}`
@@ -150,11 +154,11 @@ export async function fetchReadme(owner: string, repo: string, subdir?: string,
   // because raw.githubusercontent.com sometimes returns HTML on HEAD for valid URLs
   const basePath = subdir ? `${subdir}/` : ''
   const branches = ref ? [ref] : ['main', 'master']
-  const token = isKnownPrivateRepo(owner, repo) ? getGitHubToken() : null
+  const token = isKnownPrivateRepo(owner, repo) || host.enterprise ? getGitHubToken(host.hostname) : null
   const authHeaders: HeadersInit = token ? { Authorization: `token ${token}` } : {}
   for (const b of branches) {
     for (const filename of ['README.md', 'Readme.md', 'readme.md']) {
-      const readmeUrl = `https://raw.githubusercontent.com/${owner}/${repo}/${b}/${basePath}${filename}`
+      const readmeUrl = `${githubRawBaseUrl(owner, repo, b, hostname)}/${basePath}${filename}`
       const res = await $fetch.raw(readmeUrl, { headers: authHeaders }).catch(() => null)
       if (res?.ok)
         return readmeUrl
@@ -166,7 +170,7 @@ export async function fetchReadme(owner: string, repo: string, subdir?: string,
   const endpoint = subdir
     ? `repos/${owner}/${repo}/contents/${subdir}/README.md${refParam}`
     : `repos/${owner}/${repo}/readme${refParam}`
-  const apiData = await ghApi<{ download_url?: string }>(endpoint)
+  const apiData = await ghApi<{ download_url?: string }>(endpoint, hostname)
   if (apiData?.download_url) {
     markRepoPrivate(owner, repo)
     return apiData.download_url
@@ -216,9 +220,13 @@ export async function fetchReadmeContent(url: string): Promise<string | null> {
     }
   }
 
-  if (url.includes('raw.githubusercontent.com'))
+  if (url.includes('raw.githubusercontent.com') || getGitHubEnterpriseHosts().some(h => url.startsWith(`${h.rawUrl}/`)))
     return fetchGitHubRaw(url)
 
+  const gitea = parseGiteaUrl(url)
+  if (gitea)
+    return fetchGiteaRaw(gitea, url)
+
   return fetchText(url)
 }
 
@@ -230,17 +238,18 @@ export async function resolveGitHubRepo(
   owner: string,
   repo: string,
   onProgress?: (msg: string) => void,
+  host?: string,
 ): Promise<ResolvedPackage | null> {
   onProgress?.('Fetching repo metadata')
 
-  const repoUrl = `https://github.com/${owner}/${repo}`
-  const meta = await ghApi<{ homepage?: string, description?: string }>(`repos/${owner}/${repo}`)
-    ?? await $fetch<{ homepage?: string, description?: string }>(`https://api.github.com/repos/${owner}/${repo}`).catch(() => null)
+  const repoUrl = githubRepoUrl(owner, repo, host)
+  const meta = await ghApi<{ homepage?: string, description?: string }>(`repos/${owner}/${repo}`, host)
+    ?? await $fetch<{ homepage?: string, description?: string }>(`${getRepoHost(host).apiUrl}/repos/${owner}/${repo}`).catch(() => null)
   const homepage = meta?.homepage || undefined
   const description = meta?.description || undefined
 
   onProgress?.('Fetching latest release')
-  const releases = await fetchUnghReleases(owner, repo)
+  const releases = await fetchUnghReleases(owner, repo, host)
 
   let version = 'main'
   let releasedAt: string | undefined
@@ -251,12 +260,12 @@ export async function resolveGitHubRepo(
   }
 
   onProgress?.('Resolving docs')
-  const gitDocs = await fetchGitDocs(owner, repo, version)
+  const gitDocs = await fetchGitDocs(owner, repo, version, undefined, undefined, host)
   const gitDocsUrl = gitDocs ? `${repoUrl}/tree/${gitDocs.ref}/docs` : undefined
   const gitRef = gitDocs?.ref
 
   onProgress?.('Fetching README')
-  const readmeUrl = await fetchReadme(owner, repo)
+  const readmeUrl = await fetchReadme(owner, repo, undefined, undefined, host)
 
   let llmsUrl: string | undefined
   if (homepage) {
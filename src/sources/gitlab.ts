@@ -0,0 +1,367 @@
+/**
+ * GitLab timeline data via the REST API (v4): issues, merged merge requests,
+ * releases and CHANGELOG. Works against gitlab.com and a configured
+ * self-hosted instance (`gitlabUrl` in config / `GITLAB_URL`).
+ *
+ * Output mirrors the GitHub fetchers (`GitHubIssue`, `GitHubRelease`) so the
+ * same formatters and index generators produce identical markdown.
+ */
+
+import type { GitHubIssue, IssueComment } from './issues.ts'
+import type { GitHubRelease } from './releases.ts'
+import { readConfig } from '../core/config.ts'
+import { BOT_USERS, buildFrontmatter, COMMENT_NOISE_RE, hasCodeBlock, isoDate, truncateBody } from './github-common.ts'
+import { applyTypeQuotas, classifyIssue, freshnessScore, isNoiseIssue, isNonTechnical } from './issues.ts'
+import { buildHostReleaseNotes, changelogPaths } from './releases.ts'
+import { $fetch } from './utils.ts'
+
+const GITLAB_COM = 'https://gitlab.com'
+const TRAILING_SLASHES_RE = /\/+$/
+const GIT_SUFFIX_RE = /\.git$/
+
+export interface GitLabRepo {
+  /** Instance origin, e.g. `https://gitlab.com` */
+  baseUrl: string
+  /** Full project path including nested groups, e.g. `group/subgroup/project` */
+  projectPath: string
+}
+
+export interface GitLabMergeRequest {
+  number: number
+  title: string
+  body: string
+  labels: string[]
+  mergedAt: string
+  url: string
+  reactions: number
+}
+
+interface GitLabApiIssue {
+  iid: number
+  title: string
+  description: string | null
+  state: 'opened' | 'closed'
+  labels: string[]
+  created_at: string
+  web_url: string
+  upvotes: number
+  user_notes_count: number
+  author?: { username?: string, bot?: boolean }
+}
+
+interface GitLabApiNote {
+  body: string
+  system: boolean
+  author?: { username?: string, bot?: boolean }
+}
+
+interface GitLabApiMergeRequest {
+  iid: number
+  title: string
+  description: string | null
+  labels: string[]
+  merged_at: string | null
+  web_url: string
+  upvotes: number
+  author?: { username?: string, bot?: boolean }
+}
+
+interface GitLabApiRelease {
+  tag_name: string
+  name: string | null
+  description: string | null
+  created_at: string
+  released_at: string | null
+  upcoming_release?: boolean
+}
+
+interface CachedDoc {
+  path: string
+  content: string
+}
+
+/** Configured self-hosted instance origin, if any. */
+export function getGitLabBaseUrl(): string | null {
+  const raw = process.env.GITLAB_URL || readConfig().gitlabUrl
+  if (!raw)
+    return null
+  try {
+    return new URL(raw).origin
+  }
+  catch {
+    return null
+  }
+}
+
+/**
+ * Token sent as `PRIVATE-TOKEN` to the configured instance, or to gitlab.com
+ * when no instance is configured (see `authHeaders`).
+ */
+export function getGitLabToken(): string | null {
+  return process.env.GITLAB_TOKEN || readConfig().gitlabToken || null
+}
+
+/**
+ * Parse a GitLab project URL (gitlab.com or the configured instance).
+ * Handles nested groups and strips `/-/tree/...`-style suffixes.
+ */
+export function parseGitLabUrl(url: string): GitLabRepo | null {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  }
+  catch {
+    return null
+  }
+
+  const configured = getGitLabBaseUrl()
+  const isGitLabCom = parsed.hostname === 'gitlab.com' || parsed.hostname === 'www.gitlab.com'
+  if (!isGitLabCom && parsed.origin !== configured)
+    return null
+
+  const path = parsed.pathname.split('/-/')[0]!
+    .replace(TRAILING_SLASHES_RE, '')
+    .replace(GIT_SUFFIX_RE, '')
+    .slice(1)
+  const segments = path.split('/').filter(Boolean)
+  if (segments.length < 2 || segments.includes('..'))
+    return null
+
+  return { baseUrl: isGitLabCom ? GITLAB_COM : configured!, projectPath: segments.join('/') }
+}
+
+function projectApiUrl(repo: GitLabRepo, endpoint: string): string {
+  return `${repo.baseUrl}/api/v4/projects/${encodeURIComponent(repo.projectPath)}${endpoint}`
+}
+
+function authHeaders(repo: GitLabRepo): Record<string, string> {
+  const token = repo.baseUrl === (getGitLabBaseUrl() ?? GITLAB_COM) ? getGitLabToken() : null
+  return token ? { 'PRIVATE-TOKEN': token } : {}
+}
+
+async function gitlabApi<T>(repo: GitLabRepo, endpoint: string, query?: Record<string, string | number | undefined>): Promise<T | null> {
+  return $fetch<T>(projectApiUrl(repo, endpoint), { query, headers: authHeaders(repo) }).catch(() => null)
+}
+
+function isBot(author: { username?: string, bot?: boolean } | undefined): boolean {
+  return !!author?.bot || BOT_USERS.has(author?.username || '')
+}
+
+/** Same date windowing as the GitHub search queries, expressed as REST filters. */
+function issueDateFilters(state: 'opened' | 'closed', releasedAt?: string, fromDate?: string): Record<string, string | undefined> {
+  if (fromDate)
+    return state === 'closed' ? { updated_after: fromDate } : { created_after: fromDate }
+  if (state === 'closed') {
+    if (!releasedAt) {
+      const d = new Date()
+      d.setFullYear(d.getFullYear() - 1)
+      return { updated_after: isoDate(d.toISOString()) }
+    }
+    const cap = new Date(releasedAt)
+    cap.setMonth(cap.getMonth() + 6)
+    return {
+      updated_after: isoDate(releasedAt),
+      updated_before: cap < new Date() ? isoDate(cap.toISOString()) : undefined,
+    }
+  }
+  if (releasedAt) {
+    const cap = new Date(releasedAt)
+    cap.setMonth(cap.getMonth() + 6)
+    return { created_before: isoDate(cap.toISOString()) }
+  }
+  return {}
+}
+
+async function fetchIssuesByState(
+  repo: GitLabRepo,
+  state: 'opened' | 'closed',
+  count: number,
+  releasedAt?: string,
+  fromDate?: string,
+): Promise<GitHubIssue[]> {
+  const data = await gitlabApi<GitLabApiIssue[]>(repo, '/issues', {
+    state,
+    order_by: 'popularity',
+    sort: 'desc',
+    per_page: Math.min(count * 3, 100),
+    ...issueDateFilters(state, releasedAt, fromDate),
+  })
+  if (!Array.isArray(data))
+    return []
+
+  return data
+    .filter(issue => !isBot(issue.author))
+    .map(issue => ({
+      number: issue.iid,
+      title: issue.title,
+      state: issue.state === 'opened' ? 'open' : 'closed',
+      labels: issue.labels || [],
+      body: issue.description || '',
+      createdAt: issue.created_at,
+      url: issue.web_url,
+      reactions: issue.upvotes || 0,
+      comments: issue.user_notes_count || 0,
+      type: classifyIssue(issue.labels || []),
+      topComments: [] as IssueComment[],
+      score: freshnessScore(issue.upvotes || 0, issue.created_at),
+    }))
+    .filter(issue => !isNoiseIssue(issue) && !isNonTechnical(issue))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, count)
+}
+
+/** Attach the best non-system notes (code blocks first) to the top issues. */
+async function enrichWithNotes(repo: GitLabRepo, issues: GitHubIssue[], topN = 15): Promise<void> {
+  const worth = issues
+    .filter(i => i.comments > 0 && (i.type === 'bug' || i.type === 'question' || i.reactions >= 3))
+    .slice(0, topN)
+
+  await Promise.all(worth.map(async (issue) => {
+    const notes = await gitlabApi<GitLabApiNote[]>(repo, `/issues/${issue.number}/notes`, { sort: 'asc', per_page: 20 })
+    if (!Array.isArray(notes))
+      return
+    issue.topComments = notes
+      .filter(n => !n.system && !isBot(n.author) && !COMMENT_NOISE_RE.test((n.body || '').trim()))
+      .map(n => ({ body: n.body, author: n.author?.username || 'unknown', reactions: 0, _score: hasCodeBlock(n.body) ? 2 : 1 }))
+      .sort((a, b) => b._score - a._score)
+      .slice(0, 3)
+      .map(({ _score: _, ...c }) => c)
+  }))
+}
+
+/**
+ * Fetch issues from a GitLab project with the same scoring, quotas and noise
+ * filtering as `fetchGitHubIssues`. Upvotes stand in for reactions.
+ */
+export async function fetchGitLabIssues(
+  repo: GitLabRepo,
+  limit = 30,
+  releasedAt?: string,
+  fromDate?: string,
+): Promise<GitHubIssue[]> {
+  const openCount = Math.ceil(limit * 0.75)
+  const closedCount = limit - openCount
+
+  const [open, closed] = await Promise.all([
+    fetchIssuesByState(repo, 'opened', Math.min(openCount * 2, 100), releasedAt, fromDate),
+    fetchIssuesByState(repo, 'closed', Math.min(closedCount * 2, 50), releasedAt, fromDate),
+  ])
+  const selected = applyTypeQuotas([...open, ...closed], limit)
+  await enrichWithNotes(repo, selected)
+  return selected
+}
+
+/**
+ * Recently merged merge requests — GitLab has no Discussions equivalent, and
+ * merged MRs carry the "what changed and why" context that issues miss.
+ */
+export async function fetchGitLabMergeRequests(
+  repo: GitLabRepo,
+  limit = 20,
+  fromDate?: string,
+): Promise<GitLabMergeRequest[]> {
+  const data = await gitlabApi<GitLabApiMergeRequest[]>(repo, '/merge_requests', {
+    state: 'merged',
+    order_by: 'updated_at',
+    sort: 'desc',
+    per_page: Math.min(limit * 2, 100),
+    updated_after: fromDate,
+  })
+  if (!Array.isArray(data))
+    return []
+
+  return data
+    .filter(mr => mr.merged_at && !isBot(mr.author))
+    .filter(mr => !isNoiseIssue({ labels: mr.labels || [], title: mr.title, body: mr.description || '' }))
+    .slice(0, limit)
+    .map(mr => ({
+      number: mr.iid,
+      title: mr.title,
+      body: mr.description || '',
+      labels: mr.labels || [],
+      mergedAt: mr.merged_at!,
+      url: mr.web_url,
+      reactions: mr.upvotes || 0,
+    }))
+}
+
+export function formatMergeRequestAsMarkdown(mr: GitLabMergeRequest): string {
+  const fmFields: Record<string, string | number | boolean | undefined> = {
+    number: mr.number,
+    title: mr.title,
+    type: 'merge-request',
+    state: 'merged',
+    merged: isoDate(mr.mergedAt),
+    url: mr.url,
+    reactions: mr.reactions,
+  }
+  if (mr.labels.length > 0)
+    fmFields.labels = `[${mr.labels.join(', ')}]`
+
+  const lines = [buildFrontmatter(fmFields), '', `# ${mr.title}`]
+  if (mr.body)
+    lines.push('', truncateBody(mr.body, 1500))
+  return lines.join('\n')
+}
+
+/** Section appended to `issues/_INDEX.md` listing merged MRs. */
+export function generateMergeRequestIndexSection(mrs: GitLabMergeRequest[]): string {
+  if (mrs.length === 0)
+    return ''
+  const lines = [`## Merged Merge Requests (${mrs.length})`, '']
+  for (const mr of mrs)
+    lines.push(`- [!${mr.number}](./mr-${mr.number}.md): ${mr.title} (${isoDate(mr.mergedAt)})`)
+  lines.push('')
+  return lines.join('\n')
+}
+
+async function fetchAllGitLabReleases(repo: GitLabRepo): Promise<GitHubRelease[]> {
+  const data = await gitlabApi<GitLabApiRelease[]>(repo, '/releases', { per_page: 100 })
+  if (!Array.isArray(data))
+    return []
+  return data.map((r, i) => ({
+    id: i,
+    tag: r.tag_name,
+    name: r.name || r.tag_name,
+    prerelease: !!r.upcoming_release,
+    createdAt: r.created_at,
+    publishedAt: r.released_at || r.created_at,
+    markdown: r.description || '',
+  }))
+}
+
+async function fetchGitLabChangelog(repo: GitLabRepo, ref: string, packageName?: string): Promise<string | null> {
+  for (const path of changelogPaths(packageName)) {
+    const content = await $fetch(projectApiUrl(repo, `/repository/files/${encodeURIComponent(path)}/raw`), {
+      query: { ref },
+      headers: authHeaders(repo),
+      responseType: 'text',
+      retry: 0,
+    }).catch(() => null)
+    if (content)
+      return content
+  }
+  return null
+}
+
+/**
+ * Fetch release notes for a GitLab project. Same selection and output layout
+ * as `fetchReleaseNotes`: `releases/{tag}.md` plus `releases/CHANGELOG.md`.
+ */
+export async function fetchGitLabReleaseNotes(
+  repo: GitLabRepo,
+  installedVersion: string,
+  gitRef?: string,
+  packageName?: string,
+  fromDate?: string,
+): Promise<CachedDoc[]> {
+  return buildHostReleaseNotes(
+    await fetchAllGitLabReleases(repo),
+    // GitLab resolves `HEAD` to the default branch
+    ref => fetchGitLabChangelog(repo, ref || 'HEAD', packageName),
+    installedVersion,
+    gitRef,
+    packageName,
+    fromDate,
+  )
+}
@@ -0,0 +1,455 @@
+/**
+ * Go module source: resolves `go:<module path>` through the module proxy
+ * protocol (`@v/list`, `.info`, `.mod`, `.zip`) and extracts README / doc.go
+ * package docs from the module zip into the package cache.
+ */
+
+import type { ResolveAttempt, ResolvedPackage, ResolveResult } from './types.ts'
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { inflateRawSync } from 'node:zlib'
+import { dirname, join } from 'pathe'
+import { getCacheDir } from '../cache/index.ts'
+import { getGitHubEnterpriseHostnames } from '../core/github-hosts.ts'
+import { toGoIdentity, toStoragePackageName } from '../core/prefix.ts'
+import { semverGt, semverValid } from '../core/semver.ts'
+import { isUselessDocsUrl, normalizeRepoUrl } from '../core/url.ts'
+import { parseGitHubRepo } from './github-common.ts'
+import { resolveGitHubRepo } from './github.ts'
+import { fetchLlmsUrl } from './llms.ts'
+import { $fetch, fetchText, SKILLD_USER_AGENT } from './utils.ts'
+
+const DEFAULT_GO_PROXY = 'https://proxy.golang.org'
+const VALID_GO_MODULE_PATH = /^[a-z0-9][-a-z0-9.]*\.[a-z]{2,}(?:\/[-\w.~]+)*$/i
+const GO_PROXY_SEPARATOR_RE = /[,|]/
+const TRAILING_SLASHES_RE = /\/+$/
+const WHITESPACE_RE = /\s+/
+const GO_MOD_LINE_COMMENT_RE = /\/\/.*$/
+const UPPERCASE_RE = /[A-Z]/g
+const GOPKG_IN_SHORT_RE = /^([\w-]+)\.v\d+$/
+const GO_IMPORT_META_RE = /<meta\s+name=["']go-import["']\s+content=["']([^"']+)["']/gi
+const GO_MOD_REQUIRE_LINE_RE = /^require\s+(\S+)\s+(\S+)/
+const GO_MOD_REQUIRE_BLOCK_RE = /^require\s*\($/
+const GO_MOD_REQUIRE_ENTRY_RE = /^(\S+)\s+(v\S+)/
+const GO_MOD_DEPRECATED_RE = /^\/\/\s*Deprecated:\s*(\S.*)$/m
+const PACKAGE_CLAUSE_RE = /^package\s+\w+/
+const GO_DIRECTIVE_RE = /^\/\/(?:go:|\s*\+build)/
+const LINE_COMMENT_PREFIX_RE = /^\/\/ ?/
+const BLOCK_COMMENT_START_RE = /^\/\*+\s?/
+const BLOCK_COMMENT_END_RE = /\s*\*\/$/
+const GODOC_LIST_ITEM_RE = /^\s+(?:[-*+•]|\d+[.)])\s+/
+const GODOC_LIST_MARKER_RE = /^\s+(?:[-*+•]|(\d+)[.)])\s+/
+const INDENTED_RE = /^[\t ]/
+const ZIP_README_RE = /^readme(?:\.(?:md|markdown|txt))?$/i
+const ZIP_LICENSE_RE = /^(?:license|licence|copying)(?:\.\w+)?$/i
+const ZIP_SKIPPED_DIR_RE = /(?:^|\/)(?:internal|testdata|vendor|_[^/]*|\.[^/]*)\//
+
+/**
+ * Module proxy base URL: first HTTP(S) entry of `GOPROXY`, else proxy.golang.org.
+ * `direct` / `off` entries are skipped — we only speak the proxy protocol.
+ */
+function getGoProxyUrl(): string {
+  const entry = (process.env.GOPROXY || '')
+    .split(GO_PROXY_SEPARATOR_RE)
+    .map(e => e.trim())
+    .find(e => e.startsWith('https://') || e.startsWith('http://'))
+  return (entry || DEFAULT_GO_PROXY).replace(TRAILING_SLASHES_RE, '')
+}
+
+/** Proxy case-encoding: every uppercase letter becomes `!` + lowercase. */
+function escapeGoPath(path: string): string {
+  return path.replace(UPPERCASE_RE, c => `!${c.toLowerCase()}`)
+}
+
+function goProxyUrl(modulePath: string, suffix: string): string {
+  return `${getGoProxyUrl()}/${escapeGoPath(modulePath)}/${suffix}`
+}
+
+function toGoVersion(version: string): string {
+  return version.startsWith('v') ? version : `v${version}`
+}
+
+/** Newest stable tag from `@v/list`, falling back to the newest prerelease. */
+function selectGoVersion(versions: string[]): string | null {
+  const valid = versions.filter(v => semverValid(v))
+  if (valid.length === 0)
+    return null
+  const newest = (list: string[]) => list.reduce((a, b) => semverGt(b, a) ? b : a)
+  const stable = valid.filter(v => !v.includes('-'))
+  return newest(stable.length > 0 ? stable : valid)
+}
+
+/**
+ * Derive the source repo from a module path without network access for the
+ * common hosts. Major-version suffixes (`/v2`) and subpackages are dropped.
+ */
+export function goModuleRepoUrl(modulePath: string): string | undefined {
+  const [host, ...rest] = modulePath.split('/')
+  if (!host)
+    return undefined
+
+  if (['github.com', 'gitlab.com', 'bitbucket.org', 'codeberg.org'].includes(host) && rest.length >= 2)
+    return `https://${host}/${rest[0]}/${rest[1]}`
+
+  // golang.org/x/net → github.com/golang/net (official mirror)
+  if (host === 'golang.org' && rest[0] === 'x' && rest[1])
+    return `https://github.com/golang/${rest[1]}`
+
+  // gopkg.in/yaml.v3 → go-yaml/yaml, gopkg.in/user/pkg.v1 → user/pkg
+  if (host === 'gopkg.in') {
+    if (rest.length === 1) {
+      const name = rest[0]!.match(GOPKG_IN_SHORT_RE)?.[1]
+      return name ? `https://github.com/go-${name}/${name}` : undefined
+    }
+    const name = rest[1]?.match(GOPKG_IN_SHORT_RE)?.[1]
+    return name ? `https://github.com/${rest[0]}/${name}` : undefined
+  }
+
+  return undefined
+}
+
+/** Vanity import paths: follow the `go-import` meta tag served at `?go-get=1`. */
+async function discoverGoImportRepo(modulePath: string): Promise<string | undefined> {
+  const html = await fetchText(`https://${modulePath}?go-get=1`)
+  if (!html)
+    return undefined
+  for (const match of html.matchAll(GO_IMPORT_META_RE)) {
+    const [prefix, vcs, repoRoot] = match[1]!.trim().split(WHITESPACE_RE)
+    if (!prefix || vcs !== 'git' || !repoRoot)
+      continue
+    if (modulePath === prefix || modulePath.startsWith(`${prefix}/`))
+      return normalizeRepoUrl(repoRoot, getGitHubEnterpriseHostnames())
+  }
+  return undefined
+}
+
+/**
+ * Parse `require` directives from a go.mod file (single-line and block form).
+ * Returns module path → version.
+ */
+export function parseGoModRequires(content: string): Record<string, string> {
+  const requires: Record<string, string> = {}
+  let inBlock = false
+  for (const raw of content.split('\n')) {
+    const line = raw.replace(GO_MOD_LINE_COMMENT_RE, '').trim()
+    if (!line)
+      continue
+    if (inBlock) {
+      if (line === ')') {
+        inBlock = false
+        continue
+      }
+      const entry = line.match(GO_MOD_REQUIRE_ENTRY_RE)
+      if (entry)
+        requires[entry[1]!] = entry[2]!
+      continue
+    }
+    if (GO_MOD_REQUIRE_BLOCK_RE.test(line)) {
+      inBlock = true
+      continue
+    }
+    const single = line.match(GO_MOD_REQUIRE_LINE_RE)
+    if (single)
+      requires[single[1]!] = single[2]!
+  }
+  return requires
+}
+
+/** Version of `modulePath` required by the project's go.mod, if any. */
+export function readGoModVersion(cwd: string, modulePath: string): string | undefined {
+  const goModPath = join(cwd, 'go.mod')
+  if (!existsSync(goModPath))
+    return undefined
+  return parseGoModRequires(readFileSync(goModPath, 'utf-8'))[modulePath]
+}
+
+interface ZipEntry {
+  name: string
+  data: Buffer
+}
+
+/**
+ * Minimal zip reader: walks the central directory and inflates entries that
+ * pass `filter`. Module zips never need zip64 (proxy caps them at 500 MB).
+ */
+function readZipEntries(buf: Buffer, filter: (name: string) => boolean): ZipEntry[] {
+  let eocd = -1
+  for (let i = buf.length - 22; i >= Math.max(0, buf.length - 65557); i--) {
+    if (buf.readUInt32LE(i) === 0x06054B50) {
+      eocd = i
+      break
+    }
+  }
+  if (eocd === -1)
+    return []
+
+  const total = buf.readUInt16LE(eocd + 10)
+  let offset = buf.readUInt32LE(eocd + 16)
+  const entries: ZipEntry[] = []
+
+  for (let i = 0; i < total && buf.readUInt32LE(offset) === 0x02014B50; i++) {
+    const method = buf.readUInt16LE(offset + 10)
+    const compressedSize = buf.readUInt32LE(offset + 20)
+    const nameLen = buf.readUInt16LE(offset + 28)
+    const extraLen = buf.readUInt16LE(offset + 30)
+    const commentLen = buf.readUInt16LE(offset + 32)
+    const localOffset = buf.readUInt32LE(offset + 42)
+    const name = buf.toString('utf-8', offset + 46, offset + 46 + nameLen)
+    offset += 46 + nameLen + extraLen + commentLen
+
+    if (name.endsWith('/') || !filter(name))
+      continue
+    const dataStart = localOffset + 30 + buf.readUInt16LE(localOffset + 26) + buf.readUInt16LE(localOffset + 28)
+    const raw = buf.subarray(dataStart, dataStart + compressedSize)
+    if (method === 0)
+      entries.push({ name, data: Buffer.from(raw) })
+    else if (method === 8)
+      entries.push({ name, data: inflateRawSync(raw) })
+  }
+  return entries
+}
+
+/** Module-relative paths worth keeping: root README/LICENSE/go.mod and every public doc.go. */
+function isGoDocFile(relPath: string): boolean {
+  if (!relPath.includes('/'))
+    return relPath === 'go.mod' || ZIP_README_RE.test(relPath) || ZIP_LICENSE_RE.test(relPath) || relPath === 'doc.go'
+  return relPath.endsWith('/doc.go') && !ZIP_SKIPPED_DIR_RE.test(relPath)
+}
+
+/**
+ * Download the module zip from the proxy and extract docs to cache.
+ * Extracts to: ~/.skilld/references/@skilld-go/<path>@<version>/pkg/
+ * `goMod` (the proxy's `.mod`) backfills go.mod for pre-modules repos.
+ */
+export async function fetchGoModuleDist(modulePath: string, version: string, goMod?: string): Promise<string | null> {
+  const cacheDir = getCacheDir(toStoragePackageName(toGoIdentity(modulePath)), version)
+  const pkgDir = join(cacheDir, 'pkg')
+
+  if (existsSync(join(pkgDir, 'go.mod')))
+    return pkgDir
+
+  const res = await fetch(goProxyUrl(modulePath, `@v/${escapeGoPath(version)}.zip`), {
+    headers: { 'User-Agent': SKILLD_USER_AGENT },
+  }).catch(() => null)
+  if (!res?.ok)
+    return null
+
+  try {
+    const buf = Buffer.from(await res.arrayBuffer())
+    // Every entry is prefixed with `<module>@<version>/`
+    const prefix = `${modulePath}@${version}/`
+    const entries = readZipEntries(buf, name => name.startsWith(prefix) && isGoDocFile(name.slice(prefix.length)))
+
+    mkdirSync(pkgDir, { recursive: true })
+    for (const entry of entries) {
+      const filePath = join(pkgDir, entry.name.slice(prefix.length))
+      mkdirSync(dirname(filePath), { recursive: true })
+      writeFileSync(filePath, entry.data)
+    }
+    if (!existsSync(join(pkgDir, 'go.mod')))
+      writeFileSync(join(pkgDir, 'go.mod'), goMod || `module ${modulePath}\n`)
+
+    return pkgDir
+  }
+  catch {
+    rmSync(pkgDir, { recursive: true, force: true })
+    return null
+  }
+}
+
+/** Comment group directly above the `package` clause, with comment markers stripped. */
+function extractPackageComment(source: string): string[] | null {
+  const lines = source.split('\n')
+  const pkgIdx = lines.findIndex(l => PACKAGE_CLAUSE_RE.test(l))
+  if (pkgIdx <= 0)
+    return null
+
+  const above = lines[pkgIdx - 1]!.trim()
+  if (above.endsWith('*/')) {
+    let start = pkgIdx - 1
+    while (start > 0 && !lines[start]!.trimStart().startsWith('/*'))
+      start--
+    return lines.slice(start, pkgIdx)
+      .map((l, i, arr) => {
+        let out = l
+        if (i === 0)
+          out = out.trimStart().replace(BLOCK_COMMENT_START_RE, '')
+        if (i === arr.length - 1)
+          out = out.replace(BLOCK_COMMENT_END_RE, '')
+        return out
+      })
+  }
+
+  const group: string[] = []
+  for (let i = pkgIdx - 1; i >= 0; i--) {
+    const line = lines[i]!.trim()
+    if (!line.startsWith('//'))
+      break
+    if (!GO_DIRECTIVE_RE.test(line))
+      group.unshift(line.replace(LINE_COMMENT_PREFIX_RE, ''))
+  }
+  return group.length > 0 ? group : null
+}
+
+/**
+ * Render a doc.go package comment as markdown. Follows Go doc comment syntax:
+ * `# Heading`, indented lines → code blocks, indented `-`/`1.` → lists.
+ */
+export function goDocToMarkdown(source: string, importPath: string): string | null {
+  const comment = extractPackageComment(source)
+  if (!comment || comment.every(l => !l.trim()))
+    return null
+
+  const out: string[] = [`# ${importPath}`, '', '```go', `import "${importPath}"`, '```', '']
+  let inCode = false
+  for (const line of comment) {
+    const isList = GODOC_LIST_ITEM_RE.test(line)
+    const isCode = INDENTED_RE.test(line) && !isList && line.trim() !== ''
+    if (isCode && !inCode) {
+      out.push('```go')
+      inCode = true
+    }
+    else if (!isCode && inCode && line.trim() !== '') {
+      while (out.at(-1) === '')
+        out.pop()
+      out.push('```', '')
+      inCode = false
+    }
+
+    if (inCode)
+      out.push(line.trim() === '' ? '' : line.replace(INDENTED_RE, ''))
+    else if (isList)
+      out.push(line.replace(GODOC_LIST_MARKER_RE, (_, n) => n ? `${n}. ` : '- '))
+    else
+      out.push(line.startsWith('#') ? `#${line}` : line)
+  }
+  if (inCode) {
+    while (out.at(-1) === '')
+      out.pop()
+    out.push('```')
+  }
+  return `${out.join('\n').trim()}\n`
+}
+
+export async function resolveGoModuleDocsWithAttempts(
+  modulePath: string,
+  options: { version?: string, onProgress?: (message: string) => void } = {},
+): Promise<ResolveResult> {
+  const attempts: ResolveAttempt[] = []
+  const onProgress = options.onProgress
+  const path = modulePath.trim()
+
+  if (!path || !VALID_GO_MODULE_PATH.test(path)) {
+    attempts.push({
+      source: 'go',
+      status: 'error',
+      message: `Invalid Go module path: ${modulePath}`,
+    })
+    return { package: null, attempts }
+  }
+
+  onProgress?.('Go module proxy')
+  const listUrl = goProxyUrl(path, '@v/list')
+
+  let info: { Version?: string, Time?: string } | null = null
+  if (options.version) {
+    const requested = toGoVersion(options.version)
+    info = await $fetch<{ Version?: string, Time?: string }>(goProxyUrl(path, `@v/${escapeGoPath(requested)}.info`)).catch(() => null)
+  }
+  if (!info?.Version) {
+    const list = await $fetch(listUrl, { responseType: 'text' }).catch(() => null)
+    const latest = list ? selectGoVersion(list.split('\n').map(v => v.trim()).filter(Boolean)) : null
+    info = latest
+      ? await $fetch<{ Version?: string, Time?: string }>(goProxyUrl(path, `@v/${escapeGoPath(latest)}.info`)).catch(() => null)
+      // Untagged modules only have pseudo-versions, served via @latest
+      : await $fetch<{ Version?: string, Time?: string }>(goProxyUrl(path, '@latest')).catch(() => null)
+  }
+
+  if (!info?.Version) {
+    attempts.push({
+      source: 'go',
+      url: listUrl,
+      status: 'not-found',
+      message: 'Module not found on Go module proxy',
+    })
+    return { package: null, attempts }
+  }
+
+  const version = info.Version
+  attempts.push({
+    source: 'go',
+    url: listUrl,
+    status: 'success',
+    message: `Found module: ${path}@${version}`,
+  })
+
+  const goMod = await $fetch(goProxyUrl(path, `@v/${escapeGoPath(version)}.mod`), { responseType: 'text' }).catch(() => null)
+  const deprecated = goMod?.match(GO_MOD_DEPRECATED_RE)?.[1]?.trim()
+
+  onProgress?.('Module zip')
+  const goModuleDir = await fetchGoModuleDist(path, version, goMod ?? undefined) ?? undefined
+
+  const pkgGoDevUrl = `https://pkg.go.dev/${path}@${version}`
+  let repoUrl = goModuleRepoUrl(path)
+  if (!repoUrl) {
+    onProgress?.('go-import discovery')
+    repoUrl = await discoverGoImportRepo(path)
+  }
+
+  let resolved: ResolvedPackage = {
+    name: path,
+    version,
+    releasedAt: info.Time,
+    description: deprecated ? `Deprecated: ${deprecated}` : undefined,
+    docsUrl: pkgGoDevUrl,
+    repoUrl,
+    goModuleDir,
+  }
+
+  const gh = repoUrl ? parseGitHubRepo(repoUrl) : null
+  if (gh) {
+    onProgress?.('GitHub enrichment')
+    const ghResolved = await resolveGitHubRepo(gh.owner, gh.repo, undefined, gh.host)
+    if (ghResolved) {
+      attempts.push({
+        source: 'github-meta',
+        url: repoUrl,
+        status: 'success',
+        message: 'Enriched via GitHub repo metadata',
+      })
+      const ghDocsUrl = ghResolved.docsUrl && !isUselessDocsUrl(ghResolved.docsUrl) ? ghResolved.docsUrl : undefined
+      resolved = {
+        ...ghResolved,
+        name: path,
+        version,
+        releasedAt: resolved.releasedAt || ghResolved.releasedAt,
+        description: resolved.description || ghResolved.description,
+        docsUrl: ghDocsUrl || pkgGoDevUrl,
+        repoUrl,
+        goModuleDir,
+      }
+    }
+    else {
+      attempts.push({
+        source: 'github-meta',
+        url: repoUrl,
+        status: 'not-found',
+        message: 'GitHub enrichment failed, using module proxy metadata',
+      })
+    }
+  }
+
+  // pkg.go.dev has no llms.txt; only probe project-owned docs sites
+  if (!resolved.llmsUrl && resolved.docsUrl && resolved.docsUrl !== pkgGoDevUrl) {
+    onProgress?.('llms.txt discovery')
+    resolved.llmsUrl = await fetchLlmsUrl(resolved.docsUrl).catch(() => null) ?? undefined
+    if (resolved.llmsUrl) {
+      attempts.push({
+        source: 'llms.txt',
+        url: resolved.llmsUrl,
+        status: 'success',
+      })
+    }
+  }
+
+  return { package: resolved, attempts }
+}
@@ -3,8 +3,8 @@
  *
  * Two stages, per CONTEXT.md:
  *
- *   1. URL resolution — npm/crates/registry → ResolvedPackage with discovered URLs.
- *      Cascade-stateful, lives in `npm.ts` / `crates.ts` / `resolve-package.ts`.
+ *   1. URL resolution — npm/crates/PyPI/Go/registry → ResolvedPackage with discovered URLs.
+ *      Cascade-stateful, lives in `npm.ts` / `crates.ts` / `pypi.ts` / `go.ts` / `resolve-package.ts`.
  *
  *   2. Content resolution — ResolvedPackage → in-memory docs.
  *      Pure (no fs), lives in `content-resolver.ts`. Persistence is the caller's job.
@@ -14,11 +14,29 @@
 
 // ─ Stage 1: URL resolution ───────────────────────────────────────────────
 
+export type { ApiModule, ApiSymbol } from './api-reference.ts'
+export { apiSymbolAnchor, extractApiModules, extractApiSymbols, generateApiReference } from './api-reference.ts'
+
 export { fetchBlogReleases } from './blog-releases.ts'
+
+export type { CargoDependency } from './cargo.ts'
+export {
+  findCargoLock,
+  parseCargoLock,
+  parseCargoToml,
+  readCargoDependencies,
+  readCargoLocalDependencies,
+  readCargoLockVersion,
+  toRustCrateIdent,
+} from './cargo.ts'
+
 export { resolveCrateDocsWithAttempts } from './crates.ts'
 
 export { fetchCrawledDocs, toCrawlPattern } from './crawl.ts'
 
+export type { DeprecationEntry, DeprecationMap } from './deprecations.ts'
+export { buildDeprecationMap, diffDeprecations, findPreviousVersion } from './deprecations.ts'
+
 export type { GitHubDiscussion } from './discussions.ts'
 export {
   fetchGitHubDiscussions,
@@ -31,6 +49,9 @@ export { generateDocsIndex } from './docs.ts'
 export type { EntryFile } from './entries.ts'
 export { resolveEntryFiles } from './entries.ts'
 
+export type { GitHost } from './git-host.ts'
+export { createGiteaHost, createGitHubHost, parseGitHostUrl } from './git-host.ts'
+
 // ─ Stage 2: Content fetching (inputs to content-resolver) ────────────────
 
 export type { GitSkillSource, RemoteSkill } from './git-skills.ts'
@@ -40,10 +61,22 @@ export {
   parseSkillFrontmatterName,
 } from './git-skills.ts'
 
+export type { GiteaRepo } from './gitea.ts'
+export {
+  fetchGiteaReadme,
+  fetchGiteaReleaseNotes,
+  getGiteaBaseUrl,
+  getGiteaToken,
+  parseGiteaUrl,
+} from './gitea.ts'
+
+export { parseGitHubRepo } from './github-common.ts'
+
 export type { GitDocsResult } from './github.ts'
 
 export {
   fetchGitDocs,
+  fetchGitHostDocs,
   fetchGitHubRepoMeta,
   fetchReadme,
   fetchReadmeContent,
@@ -54,6 +87,18 @@ export {
   validateGitDocsWithLlms,
 } from './github.ts'
 
+export type { GitLabMergeRequest, GitLabRepo } from './gitlab.ts'
+export {
+  fetchGitLabIssues,
+  fetchGitLabMergeRequests,
+  fetchGitLabReleaseNotes,
+  getGitLabBaseUrl,
+  getGitLabToken,
+  parseGitLabUrl,
+} from './gitlab.ts'
+
+export { fetchGoModuleDist, resolveGoModuleDocsWithAttempts } from './go.ts'
+
 export type { GitHubIssue } from './issues.ts'
 
 export {
@@ -89,6 +134,7 @@ export {
   fetchLatestVersion,
   fetchNpmPackage,
   fetchNpmRegistryMeta,
+  fetchNpmVersions,
   fetchPkgDist,
   searchNpmPackages,
 } from './npm-registry.ts'
@@ -105,10 +151,20 @@ export {
   getRepoKeyForPackage,
 } from './package-registry.ts'
 
+export type { PmLockfile, PmLockfileType } from './pm-lockfile.ts'
+export {
+  findPmLockfile,
+  resolveCatalogVersion,
+  resolveLockfileVersion,
+  resolveWorkspaceVersion,
+} from './pm-lockfile.ts'
+
+export { resolvePypiDocsWithAttempts } from './pypi.ts'
+
 export type { GitHubRelease, ReleaseIndexOptions, SemVer } from './releases.ts'
 export { compareSemver, fetchReleaseNotes, generateReleaseIndex, isPrerelease, parseSemver } from './releases.ts'
 
-export type { PackageResolution, ResolvePackageOptions } from './resolve-package.ts'
+export type { PackageKind, PackageResolution, ResolvePackageOptions } from './resolve-package.ts'
 export { resolvePackageOrCrate } from './resolve-package.ts'
 
 // ─ Pre-authored skills from git repos (separate flow) ────────────────────
@@ -4,10 +4,11 @@
  * Categorized by labels, noise filtered out, non-technical issues detected
  */
 
-import { spawnSync } from 'node:child_process'
+import type { GraphqlComment } from './github-common.ts'
 
+import { spawnSync } from 'node:child_process'
 import { mapInsert } from '../core/map.ts'
-import { BOT_USERS, buildFrontmatter, COMMENT_NOISE_RE, hasCodeBlock, isoDate, truncateBody } from './github-common.ts'
+import { BOT_USERS, buildFrontmatter, COMMENT_NOISE_RE, ghCliHost, ghGraphql, hasCodeBlock, isoDate, truncateBody } from './github-common.ts'
 
 const STATIC_REGEX_1 = /\b(?:love|thank|awesome|great work)\b/i
 const STATIC_REGEX_2 = /\broadmap\b/i
@@ -150,7 +151,7 @@ export function classifyIssue(labels: string[]): IssueType {
 /**
  * Check if an issue should be filtered out entirely
  */
-function isNoiseIssue(issue: { labels: string[], title: string, body: string }): boolean {
+export function isNoiseIssue(issue: { labels: string[], title: string, body: string }): boolean {
   const lower = issue.labels.map(l => l.toLowerCase())
   if (lower.some(l => labelMatchesAny(l, NOISE_LABELS)))
     return true
@@ -191,7 +192,7 @@ export function freshnessScore(reactions: number, createdAt: string): number {
  * Type quotas — guarantee a mix of issue types.
  * Bugs and questions get priority; feature requests are hard-capped.
  */
-function applyTypeQuotas(issues: GitHubIssue[], limit: number): GitHubIssue[] {
+export function applyTypeQuotas(issues: GitHubIssue[], limit: number): GitHubIssue[] {
   const byType = new Map<IssueType, GitHubIssue[]>()
   for (const issue of issues) {
     mapInsert(byType, issue.type, () => []).push(issue)
@@ -262,6 +263,7 @@ function fetchIssuesByState(
   count: number,
   releasedAt?: string,
   fromDate?: string,
+  host?: string,
 ): GitHubIssue[] {
   const fetchCount = Math.min(count * 3, 100)
   let datePart = ''
@@ -295,12 +297,14 @@ function fetchIssuesByState(
 
   const q = `repo:${owner}/${repo}+is:issue+is:${state}${datePart}`
 
+  const cli = ghCliHost(host)
   const { stdout: result } = spawnSync('gh', [
     'api',
+    ...cli.args,
     `search/issues?q=${q}&sort=reactions&order=desc&per_page=${fetchCount}`,
     '-q',
     '.items[] | {number, title, state, labels: [.labels[]?.name], body, createdAt: .created_at, url: .html_url, reactions: .reactions["+1"], comments: .comments, user: .user.login, userType: .user.type, authorAssociation: .author_association}',
-  ], { encoding: 'utf-8', maxBuffer: 10 * 1024 * 1024 })
+  ], { encoding: 'utf-8', maxBuffer: 10 * 1024 * 1024, env: cli.env })
 
   if (!result)
     return []
@@ -333,13 +337,18 @@ function oneYearAgo(): string {
   return isoDate(d.toISOString())!
 }
 
+/** Aliased `i{n}: issue(...)` comment selections from `enrichWithComments()` */
+interface IssueCommentsResponse {
+  data?: { repository?: Record<string, { comments?: { nodes?: GraphqlComment[] } } | null> | null }
+}
+
 /**
  * Batch-fetch top comments for issues via GraphQL.
  * Enriches the top N highest-score issues with their best comments.
  * Prioritizes: comments with code blocks, from maintainers, with high reactions.
  * Filters out "+1", "any updates?", "same here" noise.
  */
-function enrichWithComments(owner: string, repo: string, issues: GitHubIssue[], topN = 15): void {
+async function enrichWithComments(owner: string, repo: string, issues: GitHubIssue[], topN = 15, host?: string): Promise<void> {
   // Only fetch comments for issues worth enriching
   const worth = issues
     .filter(i => i.comments > 0 && (i.type === 'bug' || i.type === 'question' || i.reactions >= 3))
@@ -358,21 +367,7 @@ function enrichWithComments(owner: string, repo: string, issues: GitHubIssue[],
   const query = `query($owner: String!, $repo: String!) { repository(owner: $owner, name: $repo) { ${fragments} } }`
 
   try {
-    const { stdout: result } = spawnSync('gh', [
-      'api',
-      'graphql',
-      '-f',
-      `query=${query}`,
-      '-f',
-      `owner=${owner}`,
-      '-f',
-      `repo=${repo}`,
-    ], { encoding: 'utf-8', maxBuffer: 10 * 1024 * 1024 })
-
-    if (!result)
-      return
-
-    const data = JSON.parse(result)
+    const data = await ghGraphql<IssueCommentsResponse>(owner, repo, query, host)
     const repo_ = data?.data?.repository
     if (!repo_)
       return
@@ -385,17 +380,17 @@ function enrichWithComments(owner: string, repo: string, issues: GitHubIssue[],
       const issue = worth[i]!
 
       const comments: (IssueComment & { _score: number })[] = nodes
-        .filter((c: any) => c.author && !BOT_USERS.has(c.author.login))
-        .filter((c: any) => !COMMENT_NOISE_RE.test((c.body || '').trim()))
-        .map((c: any) => {
-          const isMaintainer = ['OWNER', 'MEMBER', 'COLLABORATOR'].includes(c.authorAssociation)
+        .filter(c => c.author && !BOT_USERS.has(c.author.login))
+        .filter(c => !COMMENT_NOISE_RE.test((c.body || '').trim()))
+        .map((c) => {
+          const isMaintainer = ['OWNER', 'MEMBER', 'COLLABORATOR'].includes(c.authorAssociation ?? '')
           const body = c.body || ''
           const reactions = c.reactions?.totalCount || 0
           // Score: maintainers get 3x, code blocks get 2x, reactions add linearly
           const _score = (isMaintainer ? 3 : 1) * (hasCodeBlock(body) ? 2 : 1) * (1 + reactions)
-          return { body, author: c.author.login, reactions, isMaintainer, _score }
+          return { body, author: c.author!.login, reactions, isMaintainer, _score }
         })
-        .sort((a: any, b: any) => b._score - a._score)
+        .sort((a, b) => b._score - a._score)
 
       // Take top 3 quality comments
       issue.topComments = comments.slice(0, 3).map(({ _score: _, ...c }) => c)
@@ -444,6 +439,7 @@ export async function fetchGitHubIssues(
   limit = 30,
   releasedAt?: string,
   fromDate?: string,
+  host?: string,
 ): Promise<GitHubIssue[]> {
   if (!isGhAvailable())
     return []
@@ -453,11 +449,11 @@ export async function fetchGitHubIssues(
 
   try {
     // Fetch more than needed so type quotas have a pool to draw from
-    const open = fetchIssuesByState(owner, repo, 'open', Math.min(openCount * 2, 100), releasedAt, fromDate)
-    const closed = fetchIssuesByState(owner, repo, 'closed', Math.min(closedCount * 2, 50), releasedAt, fromDate)
+    const open = fetchIssuesByState(owner, repo, 'open', Math.min(openCount * 2, 100), releasedAt, fromDate, host)
+    const closed = fetchIssuesByState(owner, repo, 'closed', Math.min(closedCount * 2, 50), releasedAt, fromDate, host)
     const all = [...open, ...closed]
     const selected = applyTypeQuotas(all, limit)
-    enrichWithComments(owner, repo, selected)
+    await enrichWithComments(owner, repo, selected, undefined, host)
     return selected
   }
   catch {
@@ -1,6 +1,7 @@
 /**
  * Local package reading: parsing dependency specifiers (link:/npm:/workspace:/etc.),
- * resolving installed versions from node_modules, and reading package.json.
+ * resolving installed versions from node_modules or package-manager lockfiles,
+ * and reading package.json.
  */
 
 import type { LocalDependency, ResolvedPackage } from './types.ts'
@@ -8,10 +9,13 @@ import { existsSync, readdirSync, readFileSync } from 'node:fs'
 import { createRequire } from 'node:module'
 import { pathToFileURL } from 'node:url'
 import { basename, dirname, join, resolve } from 'pathe'
+import { getGitHubEnterpriseHostnames } from '../core/github-hosts.ts'
 import { readPackageJsonSafe } from '../core/package-json.ts'
 import { README_FILENAME_RE, VERSION_RANGE_PREFIX_RE } from '../core/regex.ts'
-import { normalizeRepoUrl, parseGitHubUrl } from '../core/url.ts'
+import { isGitHubRepoUrl, normalizeRepoUrl } from '../core/url.ts'
+import { parseGitHubRepo } from './github-common.ts'
 import { fetchGitDocs, fetchReadme } from './github.ts'
+import { resolveCatalogVersion, resolveLockfileVersion, resolveWorkspaceVersion } from './pm-lockfile.ts'
 
 const STATIC_REGEX_1 = /^[\^~>=<\d]/
 const STATIC_REGEX_4 = /^version:\s*"?([^"\n]+)"?/m
@@ -28,6 +32,7 @@ export function parseVersionSpecifier(
       return {
         name: (linkedPkg.parsed.name as string) || name,
         version: (linkedPkg.parsed.version as string) || '0.0.0',
+        localPath: linkPath,
       }
     }
     return null
@@ -46,20 +51,32 @@ export function parseVersionSpecifier(
     return null
   }
 
-  const installed = resolveInstalledVersion(name, cwd)
+  const installed = resolveInstalledVersion(name, cwd, version)
   if (installed)
     return { name, version: installed }
 
   if (STATIC_REGEX_1.test(version))
     return { name, version: version.replace(VERSION_RANGE_PREFIX_RE, '') }
 
-  if (version.startsWith('catalog:') || version.startsWith('workspace:'))
-    return { name, version: '*' }
+  if (version.startsWith('catalog:'))
+    return { name, version: resolveCatalogVersion(name, version, cwd) || '*' }
+
+  if (version.startsWith('workspace:'))
+    return { name, version: resolveWorkspaceVersion(name, cwd) || '*' }
 
   return null
 }
 
-export function resolveInstalledVersion(name: string, cwd: string): string | null {
+/**
+ * Installed version of `name`: node_modules first, then the nearest lockfile
+ * (fresh clones, CI, Yarn PnP). `specifier` is the package.json range, used
+ * to pick the matching yarn.lock entry.
+ */
+export function resolveInstalledVersion(name: string, cwd: string, specifier?: string): string | null {
+  return resolveNodeModulesVersion(name, cwd) ?? resolveLockfileVersion(name, cwd, specifier)
+}
+
+function resolveNodeModulesVersion(name: string, cwd: string): string | null {
   const directPackageJson = join(cwd, 'node_modules', ...name.split('/'), 'package.json')
   const direct = readPackageJsonSafe(directPackageJson)
   if (direct)
@@ -131,10 +148,10 @@ export function readLocalPackageInfo(localPath: string): LocalPackageInfo | null
 
   let repoUrl: string | undefined
   if (pkg.repository?.url) {
-    repoUrl = normalizeRepoUrl(pkg.repository.url)
+    repoUrl = normalizeRepoUrl(pkg.repository.url, getGitHubEnterpriseHostnames())
   }
   else if (typeof pkg.repository === 'string') {
-    repoUrl = normalizeRepoUrl(pkg.repository)
+    repoUrl = normalizeRepoUrl(pkg.repository, getGitHubEnterpriseHostnames())
   }
 
   return {
@@ -158,17 +175,17 @@ export async function resolveLocalPackageDocs(localPath: string): Promise<Resolv
     repoUrl: info.repoUrl,
   }
 
-  if (info.repoUrl?.includes('github.com')) {
-    const gh = parseGitHubUrl(info.repoUrl)
+  if (info.repoUrl && isGitHubRepoUrl(info.repoUrl, getGitHubEnterpriseHostnames())) {
+    const gh = parseGitHubRepo(info.repoUrl)
     if (gh) {
-      const gitDocs = await fetchGitDocs(gh.owner, gh.repo, info.version, info.name)
+      const gitDocs = await fetchGitDocs(gh.owner, gh.repo, info.version, info.name, undefined, gh.host)
       if (gitDocs) {
         result.gitDocsUrl = gitDocs.baseUrl
         result.gitRef = gitDocs.ref
         result.gitDocsFallback = gitDocs.fallback
       }
 
-      const readmeUrl = await fetchReadme(gh.owner, gh.repo, undefined, result.gitRef)
+      const readmeUrl = await fetchReadme(gh.owner, gh.repo, undefined, result.gitRef, gh.host)
       if (readmeUrl) {
         result.readmeUrl = readmeUrl
       }
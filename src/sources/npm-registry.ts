@@ -1,7 +1,13 @@
 /**
  * NPM registry I/O — search, package metadata, dist-tags, tarball download.
+ *
+ * Metadata and tarballs go to the registry `.npmrc` assigns the package
+ * (scoped or default), with that registry's credentials. The unpkg fast path
+ * only applies to packages on the public registry. Fetchers take the project
+ * dir whose `.npmrc` applies; without one, the working directory's is used.
  */
 
+import type { NpmrcConfig } from './npmrc.ts'
 import type { NpmPackageInfo } from './types.ts'
 import { spawnSync } from 'node:child_process'
 import { createWriteStream, existsSync, mkdirSync, rmSync } from 'node:fs'
@@ -9,6 +15,7 @@ import { Writable } from 'node:stream'
 import { join } from 'pathe'
 import { getCacheDir } from '../cache/index.ts'
 import { parsePackageSpec } from '../core/url.ts'
+import { getRegistryAuthHeaders, getRegistryPackageUrl, isPublicRegistryPackage, readNpmrc } from './npmrc.ts'
 import { $fetch, SKILLD_USER_AGENT } from './utils.ts'
 
 export async function searchNpmPackages(query: string, size = 5): Promise<Array<{ name: string, description?: string, version: string }>> {
@@ -26,11 +33,19 @@ export async function searchNpmPackages(query: string, size = 5): Promise<Array<
   }))
 }
 
-export async function fetchNpmPackage(packageName: string): Promise<NpmPackageInfo | null> {
-  const data = await $fetch<NpmPackageInfo>(`https://unpkg.com/${packageName}/package.json`).catch(() => null)
-  if (data)
-    return data
-  return $fetch<NpmPackageInfo>(`https://registry.npmjs.org/${packageName}/latest`).catch(() => null)
+/** GET a registry document with the matching `.npmrc` credentials. */
+function fetchRegistry<T>(url: string, npmrc: NpmrcConfig, headers: Record<string, string> = {}): Promise<T | null> {
+  return $fetch<T>(url, { headers: { ...headers, ...getRegistryAuthHeaders(url, npmrc) } }).catch(() => null)
+}
+
+export async function fetchNpmPackage(packageName: string, cwd?: string): Promise<NpmPackageInfo | null> {
+  const npmrc = readNpmrc(cwd)
+  if (isPublicRegistryPackage(packageName, npmrc)) {
+    const data = await $fetch<NpmPackageInfo>(`https://unpkg.com/${packageName}/package.json`).catch(() => null)
+    if (data)
+      return data
+  }
+  return fetchRegistry<NpmPackageInfo>(getRegistryPackageUrl(packageName, 'latest', npmrc), npmrc)
 }
 
 export interface DistTagInfo {
@@ -43,14 +58,13 @@ export interface NpmRegistryMeta {
   distTags?: Record<string, DistTagInfo>
 }
 
-export async function fetchNpmRegistryMeta(packageName: string, version: string): Promise<NpmRegistryMeta> {
+export async function fetchNpmRegistryMeta(packageName: string, version: string, cwd?: string): Promise<NpmRegistryMeta> {
   const { name: barePackageName } = parsePackageSpec(packageName)
-  const data = await $fetch<{
+  const npmrc = readNpmrc(cwd)
+  const data = await fetchRegistry<{
     'time'?: Record<string, string>
     'dist-tags'?: Record<string, string>
-  }>(`https://registry.npmjs.org/${barePackageName}`, {
-    headers: { Accept: 'application/vnd.npm.install-v1+json' },
-  }).catch(() => null)
+  }>(getRegistryPackageUrl(barePackageName, undefined, npmrc), npmrc, { Accept: 'application/vnd.npm.install-v1+json' })
 
   if (!data)
     return {}
@@ -70,20 +84,30 @@ export async function fetchNpmRegistryMeta(packageName: string, version: string)
   }
 }
 
+/** All published versions of a package (registry order), empty on failure. */
+export async function fetchNpmVersions(packageName: string, cwd?: string): Promise<string[]> {
+  const npmrc = readNpmrc(cwd)
+  const data = await fetchRegistry<{ versions?: Record<string, unknown> }>(
+    getRegistryPackageUrl(packageName, undefined, npmrc),
+    npmrc,
+    { Accept: 'application/vnd.npm.install-v1+json' },
+  )
+  return Object.keys(data?.versions ?? {})
+}
+
 /**
  * Download and extract npm package tarball to cache directory.
  * Extracts to: ~/.skilld/references/<pkg>@<version>/pkg/
  */
-export async function fetchPkgDist(name: string, version: string): Promise<string | null> {
+export async function fetchPkgDist(name: string, version: string, cwd?: string): Promise<string | null> {
   const cacheDir = getCacheDir(name, version)
   const pkgDir = join(cacheDir, 'pkg')
 
   if (existsSync(join(pkgDir, 'package.json')))
     return pkgDir
 
-  const data = await $fetch<{ dist?: { tarball?: string } }>(
-    `https://registry.npmjs.org/${name}/${version}`,
-  ).catch(() => null)
+  const npmrc = readNpmrc(cwd)
+  const data = await fetchRegistry<{ dist?: { tarball?: string } }>(getRegistryPackageUrl(name, version, npmrc), npmrc)
   if (!data)
     return null
   const tarballUrl = data.dist?.tarball
@@ -91,7 +115,7 @@ export async function fetchPkgDist(name: string, version: string): Promise<strin
     return null
 
   const tarballRes = await fetch(tarballUrl, {
-    headers: { 'User-Agent': SKILLD_USER_AGENT },
+    headers: { 'User-Agent': SKILLD_USER_AGENT, ...getRegistryAuthHeaders(tarballUrl, npmrc) },
   }).catch(() => null)
 
   if (!tarballRes?.ok || !tarballRes.body)
@@ -154,16 +178,20 @@ export async function fetchPkgDist(name: string, version: string): Promise<strin
   }
 }
 
-export async function fetchLatestVersion(packageName: string): Promise<string | null> {
-  const data = await $fetch<{ version?: string }>(
-    `https://unpkg.com/${packageName}/package.json`,
-  ).catch(() => null)
-  if (data?.version)
-    return data.version
-
-  const registry = await $fetch<{ 'dist-tags'?: Record<string, string> }>(
-    `https://registry.npmjs.org/${packageName}`,
-    { headers: { Accept: 'application/vnd.npm.install-v1+json' } },
-  ).catch(() => null)
+export async function fetchLatestVersion(packageName: string, cwd?: string): Promise<string | null> {
+  const npmrc = readNpmrc(cwd)
+  if (isPublicRegistryPackage(packageName, npmrc)) {
+    const data = await $fetch<{ version?: string }>(
+      `https://unpkg.com/${packageName}/package.json`,
+    ).catch(() => null)
+    if (data?.version)
+      return data.version
+  }
+
+  const registry = await fetchRegistry<{ 'dist-tags'?: Record<string, string> }>(
+    getRegistryPackageUrl(packageName, undefined, npmrc),
+    npmrc,
+    { Accept: 'application/vnd.npm.install-v1+json' },
+  )
   return registry?.['dist-tags']?.latest || null
 }
@@ -0,0 +1,155 @@
+/**
+ * `.npmrc` registry resolution: default `registry`, `@scope:registry` and
+ * per-registry credentials (`//host/path/:_authToken`, `:_auth`,
+ * `:username` + `:_password`).
+ *
+ * Reads the user config (`NPM_CONFIG_USERCONFIG` or `~/.npmrc`) and the
+ * nearest project `.npmrc` at or above the project dir (the working directory
+ * when callers don't pass one); project settings win. `${VAR}` references are expanded from the environment, as
+ * npm does.
+ */
+
+import { existsSync, readFileSync } from 'node:fs'
+import { homedir } from 'node:os'
+import { dirname, join, resolve } from 'pathe'
+
+export const NPM_PUBLIC_REGISTRY = 'https://registry.npmjs.org/'
+
+const ENV_REF_RE = /\$\{([^}]+)\}/g
+const SCOPE_REGISTRY_RE = /^(@[^:]+):registry$/
+const REGISTRY_AUTH_RE = /^(\/\/.+\/):(_authToken|_auth|username|_password)$/
+const URL_PROTOCOL_RE = /^https?:/
+const TRAILING_SLASH_RE = /\/?$/
+
+interface RegistryCredentials {
+  _authToken?: string
+  _auth?: string
+  username?: string
+  _password?: string
+}
+
+export interface NpmrcConfig {
+  /** Default registry, always with a trailing slash */
+  registry: string
+  /** `@scope` → registry URL (trailing slash) */
+  scopes: Record<string, string>
+  /** `//host/path/` → credentials */
+  auth: Record<string, RegistryCredentials>
+}
+
+function withTrailingSlash(url: string): string {
+  return url.replace(TRAILING_SLASH_RE, '/')
+}
+
+/** Parse `.npmrc` ini content into `into` (later calls override earlier ones). */
+export function parseNpmrc(content: string, into: NpmrcConfig = { registry: NPM_PUBLIC_REGISTRY, scopes: {}, auth: {} }): NpmrcConfig {
+  for (const raw of content.split('\n')) {
+    const line = raw.trim()
+    if (!line || line.startsWith('#') || line.startsWith(';'))
+      continue
+    const eq = line.indexOf('=')
+    if (eq === -1)
+      continue
+    const key = line.slice(0, eq).trim()
+    let value = line.slice(eq + 1).trim()
+    if ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith('\'') && value.endsWith('\'')))
+      value = value.slice(1, -1)
+    value = value.replace(ENV_REF_RE, (_, name: string) => process.env[name] ?? '')
+
+    if (key === 'registry') {
+      into.registry = withTrailingSlash(value)
+      continue
+    }
+    const scope = key.match(SCOPE_REGISTRY_RE)
+    if (scope) {
+      into.scopes[scope[1]!] = withTrailingSlash(value)
+      continue
+    }
+    const auth = key.match(REGISTRY_AUTH_RE)
+    if (auth)
+      (into.auth[auth[1]!] ??= {})[auth[2] as keyof RegistryCredentials] = value
+  }
+  return into
+}
+
+/** Nearest `.npmrc` at or above `cwd`, stopping at the filesystem root. */
+function findProjectNpmrc(cwd: string): string | null {
+  let dir = resolve(cwd)
+  while (true) {
+    const path = join(dir, '.npmrc')
+    if (existsSync(path))
+      return path
+    const parent = dirname(dir)
+    if (parent === dir)
+      return null
+    dir = parent
+  }
+}
+
+const _cache = new Map<string, NpmrcConfig>()
+
+/** Merged user + project `.npmrc` for `cwd` (cached per directory). */
+export function readNpmrc(cwd: string = process.cwd()): NpmrcConfig {
+  const cached = _cache.get(cwd)
+  if (cached)
+    return cached
+
+  const config: NpmrcConfig = { registry: NPM_PUBLIC_REGISTRY, scopes: {}, auth: {} }
+  const userPath = process.env.NPM_CONFIG_USERCONFIG || join(homedir(), '.npmrc')
+  const projectPath = findProjectNpmrc(cwd)
+  for (const path of [userPath, projectPath]) {
+    if (!path || !existsSync(path))
+      continue
+    try {
+      parseNpmrc(readFileSync(path, 'utf-8'), config)
+    }
+    catch {}
+  }
+  _cache.set(cwd, config)
+  return config
+}
+
+/** Registry base URL (trailing slash) serving `packageName`. */
+export function getRegistryUrl(packageName: string, config: NpmrcConfig = readNpmrc()): string {
+  if (packageName.startsWith('@')) {
+    const scope = packageName.slice(0, packageName.indexOf('/'))
+    if (config.scopes[scope])
+      return config.scopes[scope]
+  }
+  return config.registry
+}
+
+/** Package document URL, e.g. `{registry}@corp%2fui` or `{registry}@corp%2fui/1.0.0`. */
+export function getRegistryPackageUrl(packageName: string, path?: string, config: NpmrcConfig = readNpmrc()): string {
+  const encoded = packageName.replace('/', '%2f')
+  return `${getRegistryUrl(packageName, config)}${encoded}${path ? `/${path}` : ''}`
+}
+
+/**
+ * Authorization header for a registry or tarball URL. Matches the longest
+ * configured `//host/path/` prefix, so credentials never leak to other hosts.
+ */
+export function getRegistryAuthHeaders(url: string, config: NpmrcConfig = readNpmrc()): Record<string, string> {
+  const bare = url.replace(URL_PROTOCOL_RE, '')
+  const prefix = Object.keys(config.auth)
+    .filter(p => bare.startsWith(p))
+    .sort((a, b) => b.length - a.length)[0]
+  if (!prefix)
+    return {}
+  const creds = config.auth[prefix]!
+  if (creds._authToken)
+    return { Authorization: `Bearer ${creds._authToken}` }
+  if (creds._auth)
+    return { Authorization: `Basic ${creds._auth}` }
+  if (creds.username && creds._password) {
+    const password = Buffer.from(creds._password, 'base64').toString('utf-8')
+    return { Authorization: `Basic ${Buffer.from(`${creds.username}:${password}`).toString('base64')}` }
+  }
+  return {}
+}
+
+/** True when `packageName` resolves to the public npm registry without credentials. */
+export function isPublicRegistryPackage(packageName: string, config: NpmrcConfig = readNpmrc()): boolean {
+  const registry = getRegistryUrl(packageName, config)
+  return registry === NPM_PUBLIC_REGISTRY && !getRegistryAuthHeaders(registry, config).Authorization
+}
@@ -0,0 +1,409 @@
+/**
+ * Package-manager lockfile reading (pnpm-lock.yaml, package-lock.json,
+ * yarn.lock classic + berry, bun.lock) — not to be confused with skilld's own
+ * `skilld-lock.yaml` in `core/lockfile.ts`.
+ *
+ * Gives the exact installed version of a dependency when node_modules is
+ * missing (fresh clone, CI) or absent by design (Yarn PnP), and resolves
+ * `catalog:` / `workspace:` specifiers to concrete versions.
+ */
+
+import { existsSync, readFileSync, statSync } from 'node:fs'
+import { parse as parseJsonc } from 'jsonc-parser'
+import { dirname, join, relative, resolve } from 'pathe'
+import { readWorkspacePackages } from '../core/monorepo.ts'
+import { readPackageJsonSafe } from '../core/package-json.ts'
+import { VERSION_RANGE_PREFIX_RE } from '../core/regex.ts'
+import { semverGt, semverValid } from '../core/semver.ts'
+import { yamlParseKV, yamlUnescape } from '../core/yaml.ts'
+
+const PNPM_PEER_SUFFIX_RE = /[(_].*$/
+const LEADING_SPACES_RE = /^ */
+const YARN_VERSION_RE = /^version:?\s+"?([^"\s]+)"?/
+const DESCRIPTOR_SEPARATOR_RE = /,\s*/
+const TRAILING_COLON_RE = /:$/
+const LEADING_SLASH_RE = /^\//
+
+export type PmLockfileType = 'pnpm' | 'npm' | 'yarn' | 'bun'
+
+export interface PmLockfile {
+  type: PmLockfileType
+  path: string
+  /** Directory containing the lockfile (workspace root). */
+  root: string
+}
+
+/** Lockfile names in lookup priority; first match per directory wins. */
+const LOCKFILE_NAMES: Array<[string, PmLockfileType]> = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['bun.lock', 'bun'],
+  ['yarn.lock', 'yarn'],
+  ['package-lock.json', 'npm'],
+  ['npm-shrinkwrap.json', 'npm'],
+]
+
+/** Nearest lockfile at or above `cwd` (monorepo packages share the root lockfile). */
+export function findPmLockfile(cwd: string): PmLockfile | null {
+  let dir = resolve(cwd)
+  while (true) {
+    for (const [file, type] of LOCKFILE_NAMES) {
+      const path = join(dir, file)
+      if (existsSync(path))
+        return { type, path, root: dir }
+    }
+    const parent = dirname(dir)
+    if (parent === dir)
+      return null
+    dir = parent
+  }
+}
+
+interface PnpmLock {
+  /** importer path (`.`, `packages/foo`) → dependency name → version */
+  importers: Map<string, Map<string, string>>
+  /** package name → every version present in `packages:` */
+  packages: Map<string, string[]>
+}
+
+interface YarnEntry {
+  descriptors: string[]
+  version: string
+}
+
+type ParsedLock
+  = | { type: 'pnpm', data: PnpmLock }
+    | { type: 'npm', data: Record<string, any> }
+    | { type: 'yarn', data: YarnEntry[] }
+    | { type: 'bun', data: Record<string, any> }
+
+const parsedCache = new Map<string, { mtimeMs: number, parsed: ParsedLock | null }>()
+
+function readParsedLock(lock: PmLockfile): ParsedLock | null {
+  const mtimeMs = statSync(lock.path).mtimeMs
+  const cached = parsedCache.get(lock.path)
+  if (cached && cached.mtimeMs === mtimeMs)
+    return cached.parsed
+
+  let parsed: ParsedLock | null = null
+  try {
+    const raw = readFileSync(lock.path, 'utf-8')
+    switch (lock.type) {
+      case 'pnpm':
+        parsed = { type: 'pnpm', data: parsePnpmLock(raw) }
+        break
+      case 'npm':
+        parsed = { type: 'npm', data: JSON.parse(raw) }
+        break
+      case 'yarn':
+        parsed = { type: 'yarn', data: parseYarnLock(raw) }
+        break
+      case 'bun':
+        parsed = { type: 'bun', data: parseJsonc(raw) ?? {} }
+        break
+    }
+  }
+  catch {}
+
+  parsedCache.set(lock.path, { mtimeMs, parsed })
+  return parsed
+}
+
+function unquoteKey(line: string): string {
+  return yamlUnescape(line.trim().replace(TRAILING_COLON_RE, ''))
+}
+
+/** Split `name@version` / `@scope/name@version` at the version separator. */
+function splitNameVersion(spec: string): [string, string] | null {
+  const atIdx = spec.indexOf('@', 1)
+  if (atIdx === -1)
+    return null
+  return [spec.slice(0, atIdx), spec.slice(atIdx + 1)]
+}
+
+/**
+ * Line-based pnpm-lock.yaml reader covering lockfile v5 (inline versions,
+ * `/name/version` keys), v6 (`/name@version`) and v9 (`name@version`).
+ */
+export function parsePnpmLock(raw: string): PnpmLock {
+  const importers = new Map<string, Map<string, string>>()
+  const packages = new Map<string, string[]>()
+
+  let section = ''
+  let importer = '.'
+  let depName = ''
+  // Indent of dependency names: 6 under `importers:`, 2 for root-level sections
+  let depIndent = 2
+
+  const setDep = (name: string, version: string) => {
+    if (!importers.has(importer))
+      importers.set(importer, new Map())
+    importers.get(importer)!.set(name, version.replace(PNPM_PEER_SUFFIX_RE, ''))
+  }
+
+  for (const line of raw.split('\n')) {
+    if (!line.trim() || line.trimStart().startsWith('#'))
+      continue
+    const indent = line.match(LEADING_SPACES_RE)![0].length
+
+    if (indent === 0) {
+      section = unquoteKey(line.split(':')[0]!)
+      importer = '.'
+      depIndent = 2
+      depName = ''
+      continue
+    }
+
+    if (section === 'importers') {
+      if (indent === 2) {
+        importer = unquoteKey(line)
+        depName = ''
+        continue
+      }
+      depIndent = 6
+    }
+    else if (section === 'packages') {
+      if (indent !== 2)
+        continue
+      const key = unquoteKey(line).replace(LEADING_SLASH_RE, '')
+      // v5 keys: `name/version`; v6+: `name@version`
+      const split = splitNameVersion(key) ?? (() => {
+        const slashIdx = key.lastIndexOf('/')
+        return slashIdx > 0 ? [key.slice(0, slashIdx), key.slice(slashIdx + 1)] as [string, string] : null
+      })()
+      if (split) {
+        const [name, version] = split
+        packages.set(name, [...packages.get(name) ?? [], version.replace(PNPM_PEER_SUFFIX_RE, '')])
+      }
+      continue
+    }
+    else if (!['dependencies', 'devDependencies', 'optionalDependencies'].includes(section)) {
+      continue
+    }
+
+    if (indent === depIndent) {
+      const trimmed = line.trim()
+      if (trimmed.endsWith(':')) {
+        depName = unquoteKey(trimmed)
+        continue
+      }
+      // v5: `name: version` inline
+      const keyEnd = trimmed.startsWith('\'') || trimmed.startsWith('"')
+        ? trimmed.indexOf(trimmed[0]!, 1) + 1
+        : trimmed.indexOf(':')
+      setDep(yamlUnescape(trimmed.slice(0, keyEnd)), yamlUnescape(trimmed.slice(keyEnd + 1)))
+      depName = ''
+      continue
+    }
+
+    if (indent === depIndent + 2 && depName) {
+      const kv = yamlParseKV(line)
+      if (kv?.[0] === 'version')
+        setDep(depName, kv[1])
+    }
+  }
+
+  return { importers, packages }
+}
+
+/** Parse yarn.lock (classic `version "x"` and berry `version: x`). */
+export function parseYarnLock(raw: string): YarnEntry[] {
+  const entries: YarnEntry[] = []
+  let current: YarnEntry | null = null
+
+  for (const line of raw.split('\n')) {
+    if (!line.trim() || line.startsWith('#'))
+      continue
+    if (!line.startsWith(' ')) {
+      current = {
+        descriptors: line.replace(TRAILING_COLON_RE, '').split(DESCRIPTOR_SEPARATOR_RE).map(d => yamlUnescape(d)),
+        version: '',
+      }
+      if (current.descriptors[0] !== '__metadata')
+        entries.push(current)
+      continue
+    }
+    const match = current && !current.version && line.match(LEADING_SPACES_RE)![0].length === 2
+      ? line.trim().match(YARN_VERSION_RE)
+      : null
+    if (match)
+      current!.version = match[1]!
+  }
+
+  return entries
+}
+
+function newest(versions: string[]): string | null {
+  return versions
+    .filter(v => semverValid(v))
+    .reduce<string | null>((best, v) => !best || semverGt(v, best) ? v : best, null)
+}
+
+/** Resolve a `link:` / workspace path relative to the lock root to that package's version. */
+function versionFromLink(target: string, baseDir: string): string | null {
+  return (readPackageJsonSafe(join(resolve(baseDir, target), 'package.json'))?.parsed.version as string) || null
+}
+
+function lookupPnpm(data: PnpmLock, name: string, importer: string, root: string): string | null {
+  const owner = data.importers.get(importer)?.has(name) ? importer : '.'
+  const version = data.importers.get(owner)?.get(name)
+  // `link:` paths are relative to the importer that declares them
+  if (version?.startsWith('link:'))
+    return versionFromLink(version.slice('link:'.length), join(root, owner))
+  return version || newest(data.packages.get(name) ?? [])
+}
+
+function lookupNpm(data: Record<string, any>, name: string, importer: string, root: string): string | null {
+  const packages = data.packages as Record<string, { version?: string, link?: boolean, resolved?: string }> | undefined
+  if (packages) {
+    const entry = (importer !== '.' ? packages[`${importer}/node_modules/${name}`] : undefined)
+      ?? packages[`node_modules/${name}`]
+    if (entry?.link && entry.resolved)
+      return packages[entry.resolved]?.version ?? versionFromLink(entry.resolved, root)
+    if (entry?.version)
+      return entry.version
+  }
+  // lockfileVersion 1
+  return (data.dependencies as Record<string, { version?: string }> | undefined)?.[name]?.version ?? null
+}
+
+function lookupYarn(entries: YarnEntry[], name: string, specifier?: string): string | null {
+  const matching = entries.filter(e => e.version && e.version !== '0.0.0-use.local'
+    && e.descriptors.some(d => splitNameVersion(d)?.[0] === name))
+  if (specifier) {
+    const exact = matching.find(e => e.descriptors.includes(`${name}@${specifier}`) || e.descriptors.includes(`${name}@npm:${specifier}`))
+    if (exact)
+      return exact.version
+  }
+  return newest(matching.map(e => e.version))
+}
+
+function lookupBun(data: Record<string, any>, name: string, root: string): string | null {
+  const entry = (data.packages as Record<string, unknown[]> | undefined)?.[name]
+  const resolved = typeof entry?.[0] === 'string' ? splitNameVersion(entry[0]) : null
+  if (!resolved)
+    return null
+  const [, version] = resolved
+  if (version.startsWith('workspace:'))
+    return versionFromLink(version.slice('workspace:'.length), root)
+  return version.startsWith('npm:') ? splitNameVersion(version.slice(4))?.[1] ?? null : version
+}
+
+/**
+ * Exact version of `name` recorded in the nearest lockfile, scoped to the
+ * workspace importer for `cwd` when the format tracks importers.
+ * `specifier` (the package.json range) disambiguates yarn.lock entries.
+ */
+export function resolveLockfileVersion(name: string, cwd: string, specifier?: string): string | null {
+  const lock = findPmLockfile(cwd)
+  if (!lock)
+    return null
+  const parsed = readParsedLock(lock)
+  if (!parsed)
+    return null
+
+  const importer = relative(lock.root, resolve(cwd)) || '.'
+  switch (parsed.type) {
+    case 'pnpm':
+      return lookupPnpm(parsed.data, name, importer, lock.root)
+    case 'npm':
+      return lookupNpm(parsed.data, name, importer, lock.root)
+    case 'yarn':
+      return lookupYarn(parsed.data, name, specifier)
+    case 'bun':
+      return lookupBun(parsed.data, name, lock.root)
+  }
+}
+
+/** Nearest ancestor (inclusive) containing `file`. */
+function findUp(cwd: string, file: string): string | null {
+  let dir = resolve(cwd)
+  while (true) {
+    if (existsSync(join(dir, file)))
+      return dir
+    const parent = dirname(dir)
+    if (parent === dir)
+      return null
+    dir = parent
+  }
+}
+
+/** Read `catalog:` / `catalogs:` maps from pnpm-workspace.yaml. */
+function readPnpmCatalogs(path: string): Map<string, Map<string, string>> {
+  const catalogs = new Map<string, Map<string, string>>()
+  let section = ''
+  let named = ''
+  for (const line of readFileSync(path, 'utf-8').split('\n')) {
+    if (!line.trim() || line.trimStart().startsWith('#'))
+      continue
+    const indent = line.match(LEADING_SPACES_RE)![0].length
+    if (indent === 0) {
+      section = unquoteKey(line.split(':')[0]!)
+      continue
+    }
+    const target = section === 'catalog' && indent === 2
+      ? 'default'
+      : section === 'catalogs' && indent === 4 ? named : null
+    if (section === 'catalogs' && indent === 2) {
+      named = unquoteKey(line)
+      continue
+    }
+    const kv = target ? yamlParseKV(line) : null
+    if (target && kv) {
+      if (!catalogs.has(target))
+        catalogs.set(target, new Map())
+      catalogs.get(target)!.set(yamlUnescape(kv[0]), kv[1])
+    }
+  }
+  return catalogs
+}
+
+/**
+ * Concrete version for a `catalog:` / `catalog:<name>` specifier: lockfile
+ * first, then the catalog range from pnpm-workspace.yaml or the root
+ * package.json (`catalog` / `catalogs`, also under `workspaces`).
+ */
+export function resolveCatalogVersion(name: string, specifier: string, cwd: string): string | null {
+  const locked = resolveLockfileVersion(name, cwd, specifier)
+  if (locked)
+    return locked
+
+  const catalogName = specifier.slice('catalog:'.length) || 'default'
+  let range: string | undefined
+
+  const pnpmRoot = findUp(cwd, 'pnpm-workspace.yaml')
+  if (pnpmRoot)
+    range = readPnpmCatalogs(join(pnpmRoot, 'pnpm-workspace.yaml')).get(catalogName)?.get(name)
+
+  if (!range) {
+    let dir: string | null = resolve(cwd)
+    while (dir && !range) {
+      const pkg = readPackageJsonSafe(join(dir, 'package.json'))?.parsed as Record<string, any> | undefined
+      for (const scope of [pkg, pkg?.workspaces]) {
+        const catalog = catalogName === 'default' ? scope?.catalog : scope?.catalogs?.[catalogName]
+        range ??= catalog?.[name]
+      }
+      const parent = dirname(dir)
+      dir = parent === dir ? null : parent
+    }
+  }
+
+  return range ? range.replace(VERSION_RANGE_PREFIX_RE, '') : null
+}
+
+/** Version of a sibling workspace package referenced via `workspace:`. */
+export function resolveWorkspaceVersion(name: string, cwd: string): string | null {
+  const locked = resolveLockfileVersion(name, cwd)
+  if (locked)
+    return locked
+
+  let dir = resolve(cwd)
+  while (true) {
+    const match = readWorkspacePackages(dir).find(p => p.name === name)
+    if (match)
+      return match.version
+    const parent = dirname(dir)
+    if (parent === dir)
+      return null
+    dir = parent
+  }
+}
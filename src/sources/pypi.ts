@@ -0,0 +1,218 @@
+import type { ResolveAttempt, ResolvedPackage, ResolveResult } from './types.ts'
+import { getGitHubEnterpriseHostnames } from '../core/github-hosts.ts'
+import { normalizePypiName } from '../core/prefix.ts'
+import { isLikelyCodeHostUrl, isUselessDocsUrl, normalizeRepoUrl } from '../core/url.ts'
+import { parseGitHubRepo } from './github-common.ts'
+import { resolveGitHubRepo } from './github.ts'
+import { fetchLlmsUrl } from './llms.ts'
+import { $fetch } from './utils.ts'
+
+const VALID_PYPI_NAME = /^[a-z0-9](?:[a-z0-9-]*[a-z0-9])?$/
+const PYPI_PRERELEASE_RE = /[\d.](?:a|b|rc|alpha|beta|pre|preview|dev)\d*(?:$|[.+-])/i
+
+/** `project_urls` keys are free-form; match common spellings case-insensitively. */
+const DOCS_URL_KEYS = ['documentation', 'docs', 'doc']
+const SOURCE_URL_KEYS = ['source', 'source code', 'sourcecode', 'code', 'repository', 'github', 'gitlab']
+const CHANGELOG_URL_KEYS = ['changelog', 'changes', 'change log', 'release notes', 'releasenotes', 'history', 'whatsnew', 'what\'s new']
+const HOMEPAGE_URL_KEYS = ['homepage', 'home', 'home page']
+
+interface PypiReleaseFile {
+  yanked?: boolean
+  upload_time_iso_8601?: string
+}
+
+interface PypiApiResponse {
+  info?: {
+    name?: string
+    version?: string
+    summary?: string | null
+    home_page?: string | null
+    docs_url?: string | null
+    project_urls?: Record<string, string> | null
+    yanked?: boolean
+  }
+  releases?: Record<string, PypiReleaseFile[]>
+}
+
+function isPypiPrerelease(version: string): boolean {
+  return PYPI_PRERELEASE_RE.test(version)
+}
+
+/** A release is usable when it has at least one non-yanked file. */
+function isUsableRelease(files: PypiReleaseFile[] | undefined): boolean {
+  return !!files && files.length > 0 && files.some(f => !f.yanked)
+}
+
+function releaseUploadedAt(files: PypiReleaseFile[] | undefined): string | undefined {
+  return files
+    ?.map(f => f.upload_time_iso_8601)
+    .filter((t): t is string => !!t)
+    .sort()[0]
+}
+
+function selectPypiVersion(data: PypiApiResponse, requestedVersion?: string): string | null {
+  const releases = data.releases || {}
+
+  if (requestedVersion && isUsableRelease(releases[requestedVersion]))
+    return requestedVersion
+
+  const latest = data.info?.version
+  if (latest && !data.info?.yanked && (isUsableRelease(releases[latest]) || Object.keys(releases).length === 0))
+    return latest
+
+  const byUploadDesc = Object.entries(releases)
+    .filter(([, files]) => isUsableRelease(files))
+    .map(([version, files]) => ({ version, uploadedAt: releaseUploadedAt(files) || '' }))
+    .sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt))
+
+  return (byUploadDesc.find(r => !isPypiPrerelease(r.version)) ?? byUploadDesc[0])?.version ?? null
+}
+
+function pickProjectUrl(projectUrls: Record<string, string> | null | undefined, keys: string[]): string | undefined {
+  if (!projectUrls)
+    return undefined
+  for (const [label, url] of Object.entries(projectUrls)) {
+    if (keys.includes(label.trim().toLowerCase()) && url?.trim())
+      return url.trim()
+  }
+  return undefined
+}
+
+function pickPreferredUrl(...urls: Array<string | null | undefined>): string | undefined {
+  return urls.map(v => v?.trim()).find(v => !!v)
+}
+
+export async function resolvePypiDocsWithAttempts(
+  projectName: string,
+  options: { version?: string, onProgress?: (message: string) => void } = {},
+): Promise<ResolveResult> {
+  const attempts: ResolveAttempt[] = []
+  const onProgress = options.onProgress
+  const normalizedName = normalizePypiName(projectName)
+
+  if (!normalizedName || !VALID_PYPI_NAME.test(normalizedName)) {
+    attempts.push({
+      source: 'pypi',
+      status: 'error',
+      message: `Invalid PyPI project name: ${projectName}`,
+    })
+    return { package: null, attempts }
+  }
+
+  onProgress?.('PyPI metadata')
+  const apiUrl = `https://pypi.org/pypi/${encodeURIComponent(normalizedName)}/json`
+  const data = await $fetch<PypiApiResponse>(apiUrl).catch(() => null)
+
+  if (!data?.info) {
+    attempts.push({
+      source: 'pypi',
+      url: apiUrl,
+      status: 'not-found',
+      message: 'Project not found on PyPI',
+    })
+    return { package: null, attempts }
+  }
+
+  attempts.push({
+    source: 'pypi',
+    url: apiUrl,
+    status: 'success',
+    message: `Found project: ${data.info.name || normalizedName}`,
+  })
+
+  const version = selectPypiVersion(data, options.version)
+  if (!version) {
+    attempts.push({
+      source: 'pypi',
+      url: apiUrl,
+      status: 'error',
+      message: 'No usable PyPI releases found',
+    })
+    return { package: null, attempts }
+  }
+
+  // Project URLs can change between releases; prefer the selected release's metadata.
+  let info = data.info
+  if (version !== data.info.version) {
+    const versionUrl = `https://pypi.org/pypi/${encodeURIComponent(normalizedName)}/${encodeURIComponent(version)}/json`
+    const versionData = await $fetch<PypiApiResponse>(versionUrl).catch(() => null)
+    if (versionData?.info)
+      info = versionData.info
+  }
+
+  const projectUrls = info.project_urls
+  const repositoryRaw = pickProjectUrl(projectUrls, SOURCE_URL_KEYS)
+  const homepage = pickPreferredUrl(pickProjectUrl(projectUrls, HOMEPAGE_URL_KEYS), info.home_page)
+  const documentation = pickPreferredUrl(pickProjectUrl(projectUrls, DOCS_URL_KEYS), info.docs_url)
+  const changelogUrl = pickProjectUrl(projectUrls, CHANGELOG_URL_KEYS)
+  const ghHosts = getGitHubEnterpriseHostnames()
+  const normalizedRepo = repositoryRaw ? normalizeRepoUrl(repositoryRaw, ghHosts) : undefined
+  const repoUrl = normalizedRepo && isLikelyCodeHostUrl(normalizedRepo, ghHosts)
+    ? normalizedRepo
+    : isLikelyCodeHostUrl(homepage, ghHosts)
+      ? normalizeRepoUrl(homepage!, ghHosts)
+      : undefined
+
+  let resolved: ResolvedPackage = {
+    name: normalizedName,
+    version,
+    releasedAt: releaseUploadedAt(data.releases?.[version]),
+    description: info.summary || undefined,
+    docsUrl: (() => {
+      if (documentation && !isUselessDocsUrl(documentation) && !isLikelyCodeHostUrl(documentation, ghHosts))
+        return documentation
+      if (homepage && !isUselessDocsUrl(homepage) && !isLikelyCodeHostUrl(homepage, ghHosts))
+        return homepage
+      return undefined
+    })(),
+    repoUrl,
+    changelogUrl,
+  }
+
+  const gh = repoUrl ? parseGitHubRepo(repoUrl) : null
+  if (gh) {
+    onProgress?.('GitHub enrichment')
+    const ghResolved = await resolveGitHubRepo(gh.owner, gh.repo, undefined, gh.host)
+    if (ghResolved) {
+      attempts.push({
+        source: 'github-meta',
+        url: repoUrl,
+        status: 'success',
+        message: 'Enriched via GitHub repo metadata',
+      })
+      resolved = {
+        ...ghResolved,
+        name: normalizedName,
+        version,
+        releasedAt: resolved.releasedAt || ghResolved.releasedAt,
+        description: resolved.description || ghResolved.description,
+        docsUrl: resolved.docsUrl || ghResolved.docsUrl,
+        repoUrl,
+        readmeUrl: ghResolved.readmeUrl || resolved.readmeUrl,
+        changelogUrl,
+      }
+    }
+    else {
+      attempts.push({
+        source: 'github-meta',
+        url: repoUrl,
+        status: 'not-found',
+        message: 'GitHub enrichment failed, using PyPI metadata',
+      })
+    }
+  }
+
+  if (!resolved.llmsUrl && resolved.docsUrl) {
+    onProgress?.('llms.txt discovery')
+    resolved.llmsUrl = await fetchLlmsUrl(resolved.docsUrl).catch(() => null) ?? undefined
+    if (resolved.llmsUrl) {
+      attempts.push({
+        source: 'llms.txt',
+        url: resolved.llmsUrl,
+        status: 'success',
+      })
+    }
+  }
+
+  return { package: resolved, attempts }
+}
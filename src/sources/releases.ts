@@ -4,7 +4,7 @@
 
 import { NPM_SCOPE_PREFIX_RE, NPM_SCOPE_WITH_SLASH_RE, V_PREFIX_RE } from '../core/regex.ts'
 import { yamlEscape } from '../core/yaml.ts'
-import { ghApiPaginated, isoDate } from './github-common.ts'
+import { getRepoHost, ghApiPaginated, githubRawBaseUrl, isoDate } from './github-common.ts'
 import { $fetch, fetchGitHubRaw } from './utils.ts'
 
 const STATIC_REGEX_2 = /^(\d+)(?:\.(\d+))?(?:\.(\d+))?/
@@ -124,13 +124,15 @@ function mapApiRelease(r: GitHubApiRelease): GitHubRelease {
 /**
  * Fetch all releases — GitHub API first (authenticated, async), ungh.cc fallback
  */
-async function fetchAllReleases(owner: string, repo: string): Promise<GitHubRelease[]> {
+async function fetchAllReleases(owner: string, repo: string, host?: string): Promise<GitHubRelease[]> {
   // Try authenticated GitHub API first (no rate limits, works for private repos)
-  const apiReleases = await ghApiPaginated<GitHubApiRelease>(`repos/${owner}/${repo}/releases`)
+  const apiReleases = await ghApiPaginated<GitHubApiRelease>(`repos/${owner}/${repo}/releases`, host)
   if (apiReleases.length > 0)
     return apiReleases.map(mapApiRelease)
 
-  // Fallback: ungh.cc (fast, no auth needed for public repos)
+  // Fallback: ungh.cc (fast, no auth needed for public repos; github.com only)
+  if (getRepoHost(host).enterprise)
+    return []
   const data = await $fetch<UnghReleasesResponse>(
     `https://ungh.cc/repos/${owner}/${repo}/releases`,
     { signal: AbortSignal.timeout(15_000) },
@@ -201,7 +203,7 @@ export function selectReleases(releases: GitHubRelease[], packageName?: string,
 /**
  * Format a release as markdown with YAML frontmatter
  */
-function formatRelease(release: GitHubRelease, packageName?: string): string {
+export function formatRelease(release: GitHubRelease, packageName?: string): string {
   const date = isoDate(release.publishedAt || release.createdAt)
   const version = extractVersion(release.tag, packageName) || release.tag
 
@@ -292,13 +294,12 @@ export function isStubRelease(release: GitHubRelease): boolean {
 }
 
 /**
- * Fetch CHANGELOG.md from a GitHub repo at a specific ref as fallback.
- * For monorepos, also checks packages/{shortName}/CHANGELOG.md.
+ * Candidate CHANGELOG paths in lookup order. Monorepo package-specific paths
+ * (e.g. packages/pinia/CHANGELOG.md) come before root-level ones.
  */
-async function fetchChangelog(owner: string, repo: string, ref: string, packageName?: string): Promise<string | null> {
+export function changelogPaths(packageName?: string): string[] {
   const paths: string[] = []
 
-  // Monorepo: try package-specific paths first (e.g. packages/pinia/CHANGELOG.md)
   if (packageName) {
     const shortName = packageName.replace(NPM_SCOPE_WITH_SLASH_RE, '')
     const scopeless = packageName.replace(NPM_SCOPE_PREFIX_RE, '').replace('/', '-')
@@ -308,11 +309,17 @@ async function fetchChangelog(owner: string, repo: string, ref: string, packageN
     }
   }
 
-  // Root-level changelog
   paths.push('CHANGELOG.md', 'changelog.md', 'CHANGES.md')
+  return paths
+}
 
-  for (const path of paths) {
-    const url = `https://raw.githubusercontent.com/${owner}/${repo}/${ref}/${path}`
+/**
+ * Fetch CHANGELOG.md from a GitHub repo at a specific ref as fallback.
+ * For monorepos, also checks packages/{shortName}/CHANGELOG.md.
+ */
+async function fetchChangelog(owner: string, repo: string, ref: string, packageName?: string, host?: string): Promise<string | null> {
+  for (const path of changelogPaths(packageName)) {
+    const url = `${githubRawBaseUrl(owner, repo, ref, host)}/${path}`
     const content = await fetchGitHubRaw(url)
     if (content)
       return content
@@ -320,6 +327,16 @@ async function fetchChangelog(owner: string, repo: string, ref: string, packageN
   return null
 }
 
+/** `releases/{tag}.md` docs, skipping stub releases that just say "see CHANGELOG" */
+function releaseDocs(selected: GitHubRelease[], packageName?: string): CachedDoc[] {
+  return selected
+    .filter(r => !isStubRelease(r))
+    .map((r) => {
+      const filename = r.tag.includes('@') || r.tag.startsWith('v') ? r.tag : `v${r.tag}`
+      return { path: `releases/${filename}.md`, content: formatRelease(r, packageName) }
+    })
+}
+
 /**
  * Fetch release notes for a package. Returns CachedDoc[] with releases/{tag}.md files.
  *
@@ -335,27 +352,17 @@ export async function fetchReleaseNotes(
   packageName?: string,
   fromDate?: string,
   changelogRef?: string,
+  host?: string,
 ): Promise<CachedDoc[]> {
-  const releases = await fetchAllReleases(owner, repo)
+  const releases = await fetchAllReleases(owner, repo, host)
   const selected = selectReleases(releases, packageName, installedVersion, fromDate)
 
   if (selected.length > 0) {
-    // Filter out individual stub releases that just say "see CHANGELOG"
-    const substantive = selected.filter(r => !isStubRelease(r))
-
-    const docs = substantive.map((r) => {
-      const filename = r.tag.includes('@') || r.tag.startsWith('v')
-        ? r.tag
-        : `v${r.tag}`
-      return {
-        path: `releases/${filename}.md`,
-        content: formatRelease(r, packageName),
-      }
-    })
+    const docs = releaseDocs(selected, packageName)
 
     // Always fetch CHANGELOG.md alongside substantive releases
     const ref = changelogRef || gitRef || selected[0]!.tag
-    const changelog = await fetchChangelog(owner, repo, ref, packageName)
+    const changelog = await fetchChangelog(owner, repo, ref, packageName, host)
     if (changelog && changelog.length < 500_000) {
       docs.push({ path: 'releases/CHANGELOG.md', content: changelog })
     }
@@ -365,9 +372,31 @@ export async function fetchReleaseNotes(
 
   // Fallback: CHANGELOG.md (indexed as single file)
   const ref = changelogRef || gitRef || 'main'
-  const changelog = await fetchChangelog(owner, repo, ref, packageName)
+  const changelog = await fetchChangelog(owner, repo, ref, packageName, host)
   if (!changelog)
     return []
 
   return [{ path: 'releases/CHANGELOG.md', content: changelog }]
 }
+
+/**
+ * Release notes from a non-GitHub host's releases, with the same selection and
+ * layout as `fetchReleaseNotes`. `fetchChangelog` gets the git ref to read
+ * `CHANGELOG.md` at (the newest selected tag when `gitRef` is unset), or
+ * `undefined` to fall back to the host's default branch.
+ */
+export async function buildHostReleaseNotes(
+  releases: GitHubRelease[],
+  fetchChangelog: (ref?: string) => Promise<string | null>,
+  installedVersion: string,
+  gitRef?: string,
+  packageName?: string,
+  fromDate?: string,
+): Promise<CachedDoc[]> {
+  const selected = selectReleases(releases, packageName, installedVersion, fromDate)
+  const docs = releaseDocs(selected, packageName)
+  const changelog = await fetchChangelog(gitRef || selected[0]?.tag)
+  if (changelog && changelog.length < 500_000)
+    docs.push({ path: 'releases/CHANGELOG.md', content: changelog })
+  return docs
+}
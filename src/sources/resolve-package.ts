@@ -1,18 +1,23 @@
 /**
- * Unified entry for npm/crate package resolution.
+ * Unified entry for npm/crate/PyPI/Go package resolution.
  *
  * Owns the dispatch between `resolvePackageDocsWithAttempts` (npm),
- * `resolveCrateDocsWithAttempts` (crates.io), and the `link:` local
- * dependency fallback. Returns a single `PackageResolution` with all
+ * `resolveCrateDocsWithAttempts` (crates.io), `resolvePypiDocsWithAttempts`
+ * (PyPI), `resolveGoModuleDocsWithAttempts` (Go module proxy), and the `link:`
+ * local dependency fallback. Returns a single `PackageResolution` with all
  * the derived names callers need (identity, storage, lockfile, display).
  *
- * Used by every sync flow that takes a `package` or `crate:name` spec.
+ * Used by every sync flow that takes a `package`, `crate:name`, `pypi:name`
+ * or `go:module` spec.
  */
-import type { ResolveAttempt, ResolvedPackage } from './index.ts'
-import { isCrateSpec, toCrateIdentity, toStoragePackageName } from '../core/prefix.ts'
+import type { ResolveAttempt, ResolvedPackage, ResolveResult } from './index.ts'
+import { isCrateSpec, isGoSpec, isPypiSpec, normalizePypiName, toCrateIdentity, toGoIdentity, toPypiIdentity, toStoragePackageName } from '../core/prefix.ts'
 import { parsePackageSpec } from '../core/url.ts'
+import { readCargoLockVersion } from './cargo.ts'
 import { resolveCrateDocsWithAttempts } from './crates.ts'
+import { readGoModVersion, resolveGoModuleDocsWithAttempts } from './go.ts'
 import { readLocalDependencies, resolveLocalDep } from './local-package.ts'
+import { resolvePypiDocsWithAttempts } from './pypi.ts'
 import { resolvePackageDocsWithAttempts } from './resolver.ts'
 
 const RESOLVE_STEP_LABELS: Record<string, string> = {
@@ -26,17 +31,21 @@ const RESOLVE_STEP_LABELS: Record<string, string> = {
   'local': 'node_modules',
 }
 
+/** Registry a spec resolves against. */
+export type PackageKind = 'npm' | 'crate' | 'pypi' | 'go'
+
 export interface PackageResolution {
-  /** Bare package name (lower-cased for crates). */
+  /** Bare package name (lower-cased for crates, PEP 503 normalized for PyPI, module path for Go). */
   packageName: string
-  /** Public/lockfile name (`crate:` prefix retained). */
+  /** Public/lockfile name (`crate:` / `pypi:` / `go:` prefix retained). */
   identityPackageName: string
   /** Cache-safe name used for `~/.skilld/references/<name>@<version>/`. */
   storagePackageName: string
+  kind: PackageKind
   isCrate: boolean
   /** Tag/version requested in the spec (e.g. "beta" from "vue@beta"). */
   requestedTag?: string
-  /** Version pinned in the project's package.json, if any. */
+  /** Version pinned in the project's package.json (go.mod for Go modules), if any. */
   localVersion?: string
   /** Resolved package metadata, or null when no docs source matched. */
   resolved: ResolvedPackage | null
@@ -61,6 +70,8 @@ export interface ResolvePackageOptions {
  *   - bare npm name: `vue`, `@scope/pkg`
  *   - npm with tag/version: `vue@beta`, `vue@3.4.0`
  *   - crate spec: `crate:tokio`, `crate:serde@1`
+ *   - PyPI spec: `pypi:requests`, `pypi:django@5.0`
+ *   - Go spec: `go:github.com/gin-gonic/gin`, `go:golang.org/x/sync@v0.7.0`
  *
  * Always returns a result; `resolved` is null when no docs source matched.
  * The caller decides whether to fall through to shipped-skills, npm
@@ -71,30 +82,40 @@ export async function resolvePackageOrCrate(
   opts: ResolvePackageOptions,
 ): Promise<PackageResolution> {
   const { cwd, onProgress } = opts
-  const isCrate = isCrateSpec(packageSpec)
-  const normalizedSpec = isCrate ? packageSpec.slice('crate:'.length).trim() : packageSpec
+  const kind: PackageKind = isCrateSpec(packageSpec)
+    ? 'crate'
+    : isPypiSpec(packageSpec) ? 'pypi' : isGoSpec(packageSpec) ? 'go' : 'npm'
+  const isCrate = kind === 'crate'
+  const normalizedSpec = kind === 'npm' ? packageSpec : packageSpec.slice(packageSpec.indexOf(':') + 1).trim()
 
   const { name: parsedName, tag: requestedTag } = parsePackageSpec(normalizedSpec)
-  const packageName = isCrate ? parsedName.toLowerCase() : parsedName
-  const identityPackageName = isCrate ? toCrateIdentity(packageName) : packageName
+  const packageName = kind === 'crate'
+    ? parsedName.toLowerCase()
+    : kind === 'pypi' ? normalizePypiName(parsedName) : parsedName
+  const identityPackageName = kind === 'crate'
+    ? toCrateIdentity(packageName)
+    : kind === 'pypi'
+      ? toPypiIdentity(packageName)
+      : kind === 'go' ? toGoIdentity(packageName) : packageName
   const storagePackageName = toStoragePackageName(identityPackageName)
 
-  const localDeps = isCrate ? [] : await readLocalDependencies(cwd).catch(() => [])
-  const localVersion = isCrate ? undefined : localDeps.find(d => d.name === packageName)?.version
+  const localDeps = kind === 'npm' ? await readLocalDependencies(cwd).catch(() => []) : []
+  const localVersion = kind === 'npm'
+    ? localDeps.find(d => d.name === packageName)?.version
+    : kind === 'go'
+      ? readGoModVersion(cwd, packageName)
+      : kind === 'crate' ? readCargoLockVersion(cwd, packageName) : undefined
 
-  const resolveResult = isCrate
-    ? await resolveCrateDocsWithAttempts(packageName, {
-        version: requestedTag,
-        onProgress,
-      })
-    : await resolvePackageDocsWithAttempts(requestedTag ? normalizedSpec : packageName, {
-        version: localVersion,
-        cwd,
-        onProgress: step => onProgress?.(RESOLVE_STEP_LABELS[step] ?? step),
-      })
+  const resolveResult = await resolveByKind(kind, packageName, {
+    requestedTag,
+    localVersion,
+    normalizedSpec,
+    cwd,
+    onProgress,
+  })
 
   let resolved = resolveResult.package
-  if (!resolved && !isCrate) {
+  if (!resolved && kind === 'npm') {
     onProgress?.(RESOLVE_STEP_LABELS.local!)
     resolved = await resolveLocalDep(packageName, cwd)
   }
@@ -103,6 +124,7 @@ export async function resolvePackageOrCrate(
     packageName,
     identityPackageName,
     storagePackageName,
+    kind,
     isCrate,
     requestedTag,
     localVersion,
@@ -111,3 +133,25 @@ export async function resolvePackageOrCrate(
     registryVersion: resolveResult.registryVersion,
   }
 }
+
+function resolveByKind(
+  kind: PackageKind,
+  packageName: string,
+  opts: { requestedTag?: string, localVersion?: string, normalizedSpec: string, cwd: string, onProgress?: (message: string) => void },
+): Promise<ResolveResult> {
+  const { requestedTag, localVersion, normalizedSpec, cwd, onProgress } = opts
+  switch (kind) {
+    case 'crate':
+      return resolveCrateDocsWithAttempts(packageName, { version: requestedTag || localVersion, onProgress })
+    case 'pypi':
+      return resolvePypiDocsWithAttempts(packageName, { version: requestedTag, onProgress })
+    case 'go':
+      return resolveGoModuleDocsWithAttempts(packageName, { version: requestedTag || localVersion, onProgress })
+    case 'npm':
+      return resolvePackageDocsWithAttempts(requestedTag ? normalizedSpec : packageName, {
+        version: localVersion,
+        cwd,
+        onProgress: step => onProgress?.(RESOLVE_STEP_LABELS[step] ?? step),
+      })
+  }
+}
@@ -12,10 +12,9 @@ import type { CachedDoc, IndexDoc } from '../../content-resolver.ts'
 import type { StepResolver } from '../cascade.ts'
 import type { ContentCtx } from './types.ts'
 import { join } from 'pathe'
-import { parseGitHubUrl } from '../../../core/url.ts'
-import { fetchGitDocs, isShallowGitDocs } from '../../github.ts'
+import { parseGitHostUrl } from '../../git-host.ts'
+import { fetchGitDocs, fetchGitHostDocs, isShallowGitDocs } from '../../github.ts'
 import { downloadLlmsDocs, fetchLlmsTxt, normalizeLlmsLinks } from '../../llms.ts'
-import { fetchGitHubRaw } from '../../utils.ts'
 import { defineStep } from '../cascade.ts'
 
 const BATCH_SIZE = 20
@@ -24,12 +23,14 @@ export const gitDocsStep: StepResolver<ContentCtx> = defineStep<ContentCtx>({
   id: 'git-docs',
   canResolve: ctx => !!ctx.resolved.gitDocsUrl && !!ctx.resolved.repoUrl,
   async run(ctx) {
-    const gh = parseGitHubUrl(ctx.resolved.repoUrl!)
-    if (!gh)
+    const host = parseGitHostUrl(ctx.resolved.repoUrl!)
+    if (!host)
       return
 
     ctx.onProgress('Fetching git docs')
-    const gitDocs = await fetchGitDocs(gh.owner, gh.repo, ctx.version, ctx.packageName)
+    const gitDocs = host.type === 'github'
+      ? await fetchGitDocs(host.owner, host.repo, ctx.version, ctx.packageName, undefined, host.hostname)
+      : await fetchGitHostDocs(host, ctx.version, ctx.packageName)
     if (!gitDocs || gitDocs.files.length === 0)
       return
 
@@ -43,7 +44,7 @@ export const gitDocsStep: StepResolver<ContentCtx> = defineStep<ContentCtx>({
       const batchResults = await Promise.all(
         batch.map(async (file) => {
           const url = `${gitDocs.baseUrl}/${file}`
-          const content = await fetchGitHubRaw(url)
+          const content = await host.fetchRaw(url)
           return content ? { file, content } : null
         }),
       )
@@ -73,7 +74,9 @@ export const gitDocsStep: StepResolver<ContentCtx> = defineStep<ContentCtx>({
 
     ctx.docs.push(...docs)
     ctx.docsToIndex.push(...docsToIndex)
-    ctx.docSource = `${ctx.resolved.repoUrl}/tree/${gitDocs.ref}/docs`
+    ctx.docSource = host.type === 'github'
+      ? `${ctx.resolved.repoUrl}/tree/${gitDocs.ref}/docs`
+      : host.treeUrl(gitDocs.ref, 'docs')
     ctx.docsType = 'docs'
 
     // Always cache llms.txt alongside good git-docs as supplementary reference.
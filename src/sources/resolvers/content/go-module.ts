@@ -0,0 +1,58 @@
+/**
+ * Go module docs: README + doc.go package comments extracted from the module
+ * zip (`resolved.goModuleDir`). Used when no git docs or llms.txt committed.
+ */
+
+import type { StepResolver } from '../cascade.ts'
+import type { ContentCtx } from './types.ts'
+import { existsSync, readdirSync, readFileSync } from 'node:fs'
+import { dirname, join } from 'pathe'
+import { goDocToMarkdown } from '../../go.ts'
+import { defineStep } from '../cascade.ts'
+
+const README_RE = /^readme(?:\.(?:md|markdown|txt))?$/i
+
+export const goModuleStep: StepResolver<ContentCtx> = defineStep<ContentCtx>({
+  id: 'go-module',
+  canResolve: ctx => !!ctx.resolved.goModuleDir && existsSync(ctx.resolved.goModuleDir) && ctx.docs.length === 0,
+  async run(ctx) {
+    const moduleDir = ctx.resolved.goModuleDir!
+    const modulePath = ctx.resolved.name
+    ctx.onProgress('Reading Go module docs')
+
+    const files = readdirSync(moduleDir, { recursive: true, encoding: 'utf-8' })
+
+    const readme = files.find(f => README_RE.test(f))
+    if (readme) {
+      const content = readFileSync(join(moduleDir, readme), 'utf-8')
+      ctx.docs.push({ path: 'docs/README.md', content })
+      ctx.docsToIndex.push({
+        id: 'README.md',
+        content,
+        metadata: { package: ctx.packageName, source: 'docs/README.md', type: 'doc' },
+      })
+    }
+
+    let packages = 0
+    for (const file of files.filter(f => f === 'doc.go' || f.endsWith('/doc.go')).sort()) {
+      const dir = dirname(file)
+      const importPath = dir === '.' ? modulePath : `${modulePath}/${dir}`
+      const content = goDocToMarkdown(readFileSync(join(moduleDir, file), 'utf-8'), importPath)
+      if (!content)
+        continue
+      const path = dir === '.' ? 'docs/packages/index.md' : `docs/packages/${dir}/index.md`
+      ctx.docs.push({ path, content })
+      ctx.docsToIndex.push({
+        id: path,
+        content,
+        metadata: { package: ctx.packageName, source: path, type: 'doc' },
+      })
+      packages++
+    }
+
+    if (packages > 0) {
+      ctx.docSource = ctx.resolved.docsUrl || moduleDir
+      ctx.docsType = 'docs'
+    }
+  },
+})
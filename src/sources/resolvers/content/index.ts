@@ -4,8 +4,9 @@
  *   1. git-docs     — versioned docs/** at the package's git tag
  *   2. crawl-url    — registry-configured crawl pattern (e.g. motion-v)
  *   3. llms-txt     — package's llms.txt + linked docs
- *   4. docs-crawl   — sitemap-driven crawl of docsUrl
- *   5. readme       — README fallback
+ *   4. go-module    — README + doc.go from the Go module zip
+ *   5. docs-crawl   — sitemap-driven crawl of docsUrl
+ *   6. readme       — README fallback
  */
 
 import type { StepResolver } from '../cascade.ts'
@@ -13,6 +14,7 @@ import type { ContentCtx } from './types.ts'
 import { crawlUrlStep } from './crawl-url.ts'
 import { docsCrawlStep } from './docs-crawl.ts'
 import { gitDocsStep } from './git-docs.ts'
+import { goModuleStep } from './go-module.ts'
 import { llmsTxtStep } from './llms-txt.ts'
 import { readmeStep } from './readme.ts'
 
@@ -22,6 +24,7 @@ export const defaultContentSteps: ReadonlyArray<StepResolver<ContentCtx>> = [
   gitDocsStep,
   crawlUrlStep,
   llmsTxtStep,
+  goModuleStep,
   docsCrawlStep,
   readmeStep,
 ]
@@ -1,23 +1,24 @@
 /**
  * Versioned git docs resolver — fetches `docs/` at the package's git tag.
  *
- * Only runs when we have a GitHub repo URL. Honors a caller-supplied
+ * Only runs when the repo lives on a supported code host (GitHub, or
+ * Gitea/Forgejo such as Codeberg). Honors a caller-supplied
  * version override (`options.version`) but falls back to the npm version.
  * Records `gitDocsUrl`, `gitRef`, `gitDocsFallback`, and stashes
  * `gitDocsAllFiles` on the context for later llms.txt cross-validation.
  */
 
-import { parseGitHubUrl } from '../../core/url.ts'
-import { fetchGitDocs } from '../github.ts'
+import { parseGitHostUrl } from '../git-host.ts'
+import { fetchGitDocs, fetchGitHostDocs } from '../github.ts'
 import { defineResolver } from '../resolver-registry.ts'
 
 export const gitTagResolver = defineResolver({
   id: 'github-docs',
-  canResolve: ctx => !!ctx.result?.repoUrl?.includes('github.com'),
+  canResolve: ctx => !!ctx.result?.repoUrl && !!parseGitHostUrl(ctx.result.repoUrl),
   async run(ctx) {
     const result = ctx.result!
-    const gh = parseGitHubUrl(result.repoUrl!)
-    if (!gh)
+    const host = parseGitHostUrl(result.repoUrl!)
+    if (!host)
       return { kind: 'skip' }
 
     const targetVersion = ctx.options.version || ctx.npm?.version
@@ -25,7 +26,9 @@ export const gitTagResolver = defineResolver({
       return { kind: 'skip' }
 
     ctx.options.onProgress?.('github-docs')
-    const gitDocs = await fetchGitDocs(gh.owner, gh.repo, targetVersion, ctx.packageName, ctx.rawRepoUrl)
+    const gitDocs = host.type === 'github'
+      ? await fetchGitDocs(host.owner, host.repo, targetVersion, ctx.packageName, ctx.rawRepoUrl, host.hostname)
+      : await fetchGitHostDocs(host, targetVersion, ctx.packageName, ctx.rawRepoUrl)
     if (gitDocs) {
       result.gitDocsUrl = gitDocs.baseUrl
       result.gitRef = gitDocs.ref
@@ -43,7 +46,7 @@ export const gitTagResolver = defineResolver({
     }
     ctx.attempts.push({
       source: 'github-docs',
-      url: `${result.repoUrl}/tree/v${targetVersion}/docs`,
+      url: host.treeUrl(`v${targetVersion}`, 'docs'),
       status: 'not-found',
       message: 'No docs/ folder found at version tag',
     })
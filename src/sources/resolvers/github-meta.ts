@@ -5,21 +5,23 @@
  * (set earlier from npm `homepage`).
  */
 
-import { isUselessDocsUrl, parseGitHubUrl } from '../../core/url.ts'
+import { getGitHubEnterpriseHostnames } from '../../core/github-hosts.ts'
+import { isGitHubRepoUrl, isUselessDocsUrl } from '../../core/url.ts'
+import { parseGitHubRepo } from '../github-common.ts'
 import { fetchGitHubRepoMeta } from '../github.ts'
 import { defineResolver } from '../resolver-registry.ts'
 
 export const githubMetaResolver = defineResolver({
   id: 'github-meta',
-  canResolve: ctx => !!ctx.result?.repoUrl?.includes('github.com') && !ctx.result.docsUrl,
+  canResolve: ctx => !!ctx.result?.repoUrl && isGitHubRepoUrl(ctx.result.repoUrl, getGitHubEnterpriseHostnames()) && !ctx.result.docsUrl,
   async run(ctx) {
     const result = ctx.result!
-    const gh = parseGitHubUrl(result.repoUrl!)
+    const gh = parseGitHubRepo(result.repoUrl!)
     if (!gh)
       return { kind: 'skip' }
 
     ctx.options.onProgress?.('github-meta')
-    const repoMeta = await fetchGitHubRepoMeta(gh.owner, gh.repo, ctx.packageName)
+    const repoMeta = await fetchGitHubRepoMeta(gh.owner, gh.repo, ctx.packageName, gh.host)
     if (repoMeta?.homepage && !isUselessDocsUrl(repoMeta.homepage)) {
       result.docsUrl = repoMeta.homepage
       ctx.attempts.push({
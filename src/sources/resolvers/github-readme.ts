@@ -1,25 +1,32 @@
 /**
- * GitHub README resolver — fetches the readme URL at the resolved git ref.
+ * README resolver — fetches the readme URL at the resolved git ref.
  *
- * Runs whenever we have a GitHub repo URL. Uses any prior `gitRef` from
- * the git-tag step and the npm `repository.directory` subdir if present.
+ * Runs whenever we have a GitHub or Gitea/Forgejo repo URL. Uses any prior
+ * `gitRef` from the git-tag step and the npm `repository.directory` subdir
+ * if present.
  */
 
-import { parseGitHubUrl } from '../../core/url.ts'
+import { getGitHubEnterpriseHostnames } from '../../core/github-hosts.ts'
+import { isGitHubRepoUrl } from '../../core/url.ts'
+import { fetchGiteaReadme, parseGiteaUrl } from '../gitea.ts'
+import { parseGitHubRepo } from '../github-common.ts'
 import { fetchReadme } from '../github.ts'
 import { defineResolver } from '../resolver-registry.ts'
 
 export const githubReadmeResolver = defineResolver({
   id: 'readme',
-  canResolve: ctx => !!ctx.result?.repoUrl?.includes('github.com'),
+  canResolve: ctx => !!ctx.result?.repoUrl && (isGitHubRepoUrl(ctx.result.repoUrl, getGitHubEnterpriseHostnames()) || !!parseGiteaUrl(ctx.result.repoUrl)),
   async run(ctx) {
     const result = ctx.result!
-    const gh = parseGitHubUrl(result.repoUrl!)
-    if (!gh)
+    const gh = parseGitHubRepo(result.repoUrl!)
+    const gitea = gh ? null : parseGiteaUrl(result.repoUrl!)
+    if (!gh && !gitea)
       return { kind: 'skip' }
 
     ctx.options.onProgress?.('readme')
-    const readmeUrl = await fetchReadme(gh.owner, gh.repo, ctx.subdir, result.gitRef)
+    const readmeUrl = gh
+      ? await fetchReadme(gh.owner, gh.repo, ctx.subdir, result.gitRef, gh.host)
+      : await fetchGiteaReadme(gitea!, ctx.subdir, result.gitRef)
     if (readmeUrl) {
       result.readmeUrl = readmeUrl
       ctx.attempts.push({ source: 'readme', url: readmeUrl, status: 'success' })
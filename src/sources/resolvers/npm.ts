@@ -7,8 +7,11 @@
  */
 
 import type { ResolvedPackage } from '../types.ts'
-import { isGitHubRepoUrl, isUselessDocsUrl, normalizeRepoUrl, parseGitHubUrl } from '../../core/url.ts'
+import { getGitHubEnterpriseHostnames } from '../../core/github-hosts.ts'
+import { isGitHubRepoUrl, isUselessDocsUrl, normalizeRepoUrl } from '../../core/url.ts'
+import { githubRepoUrl, parseGitHubRepo } from '../github-common.ts'
 import { fetchNpmPackage, fetchNpmRegistryMeta } from '../npm-registry.ts'
+import { getRegistryPackageUrl, readNpmrc } from '../npmrc.ts'
 import { defineResolver } from '../resolver-registry.ts'
 
 const STATIC_REGEX_1 = /^github:/
@@ -17,11 +20,11 @@ export const npmResolver = defineResolver({
   id: 'npm',
   async run(ctx) {
     ctx.options.onProgress?.('npm')
-    const pkg = await fetchNpmPackage(ctx.packageName)
+    const pkg = await fetchNpmPackage(ctx.packageName, ctx.options.cwd)
     if (!pkg) {
       ctx.attempts.push({
         source: 'npm',
-        url: `https://registry.npmjs.org/${ctx.packageName}/latest`,
+        url: getRegistryPackageUrl(ctx.packageName, 'latest', readNpmrc(ctx.options.cwd)),
         status: 'not-found',
         message: 'Package not found on npm registry',
       })
@@ -30,13 +33,13 @@ export const npmResolver = defineResolver({
 
     ctx.attempts.push({
       source: 'npm',
-      url: `https://registry.npmjs.org/${ctx.packageName}/latest`,
+      url: getRegistryPackageUrl(ctx.packageName, 'latest', readNpmrc(ctx.options.cwd)),
       status: 'success',
       message: `Found ${pkg.name}@${pkg.version}`,
     })
 
     const registryMeta = pkg.version
-      ? await fetchNpmRegistryMeta(ctx.packageName, pkg.version)
+      ? await fetchNpmRegistryMeta(ctx.packageName, pkg.version, ctx.options.cwd)
       : {}
 
     const result: ResolvedPackage = {
@@ -50,7 +53,7 @@ export const npmResolver = defineResolver({
 
     if (typeof pkg.repository === 'object' && pkg.repository?.url) {
       ctx.rawRepoUrl = pkg.repository.url
-      const normalized = normalizeRepoUrl(pkg.repository.url)
+      const normalized = normalizeRepoUrl(pkg.repository.url, getGitHubEnterpriseHostnames())
       if (!normalized.includes('://') && normalized.includes('/') && !normalized.includes(':'))
         result.repoUrl = `https://github.com/${normalized}`
       else
@@ -59,9 +62,9 @@ export const npmResolver = defineResolver({
     }
     else if (typeof pkg.repository === 'string') {
       if (pkg.repository.includes('://')) {
-        const gh = parseGitHubUrl(pkg.repository)
+        const gh = parseGitHubRepo(pkg.repository)
         if (gh)
-          result.repoUrl = `https://github.com/${gh.owner}/${gh.repo}`
+          result.repoUrl = githubRepoUrl(gh.owner, gh.repo, gh.host)
       }
       else {
         const repo = pkg.repository.replace(STATIC_REGEX_1, '')
@@ -70,7 +73,7 @@ export const npmResolver = defineResolver({
       }
     }
 
-    if (pkg.homepage && !isGitHubRepoUrl(pkg.homepage) && !isUselessDocsUrl(pkg.homepage))
+    if (pkg.homepage && !isGitHubRepoUrl(pkg.homepage, getGitHubEnterpriseHostnames()) && !isUselessDocsUrl(pkg.homepage))
       result.docsUrl = pkg.homepage
 
     ctx.npm = pkg
@@ -0,0 +1,47 @@
+/**
+ * Changelog step: registry-declared changelog page (e.g. PyPI
+ * `project_urls.Changelog`) for packages without a GitHub repo. Cached per
+ * package under `releases/` so it links like GitHub release notes.
+ */
+
+import type { StepResolver } from '../cascade.ts'
+import type { TimelineCtx } from './types.ts'
+import { existsSync } from 'node:fs'
+import { htmlToMarkdown } from 'mdream'
+import { writeToCache } from '../../../cache/internal/storage.ts'
+import { generateReleaseIndex } from '../../releases.ts'
+import { fetchText } from '../../utils.ts'
+import { defineStep } from '../cascade.ts'
+
+const HTML_DOC_RE = /^\s*(?:<!doctype html|<html)/i
+
+export const changelogStep: StepResolver<TimelineCtx> = defineStep<TimelineCtx>({
+  id: 'changelog',
+  canResolve: ctx => ctx.features.releases && !!ctx.resolved.changelogUrl && !ctx.repoInfo && !existsSync(ctx.releasesPath),
+  async run(ctx) {
+    const { packageName, version, resolved } = ctx
+
+    ctx.onProgress('Fetching changelog')
+    const raw = await fetchText(resolved.changelogUrl!)
+    if (!raw)
+      return
+
+    const content = HTML_DOC_RE.test(raw) ? htmlToMarkdown(raw) : raw
+    if (!content?.trim())
+      return
+
+    const docs = [
+      { path: 'releases/CHANGELOG.md', content },
+      { path: 'releases/_INDEX.md', content: generateReleaseIndex({ releases: [], packageName, hasChangelog: true }) },
+    ]
+
+    writeToCache(packageName, version, docs)
+    for (const doc of docs) {
+      ctx.docsToIndex.push({
+        id: doc.path,
+        content: doc.content,
+        metadata: { package: packageName, source: doc.path, type: 'release' },
+      })
+    }
+  },
+})
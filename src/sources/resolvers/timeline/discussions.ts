@@ -16,9 +16,9 @@ export const discussionsStep: StepResolver<TimelineCtx> = defineStep<TimelineCtx
   id: 'discussions',
   canResolve: ctx => ctx.features.discussions && !!ctx.repoInfo && isGhAvailable() && !existsSync(ctx.discussionsDir),
   async run(ctx) {
-    const { owner, repo } = ctx.repoInfo!
+    const { owner, repo, host } = ctx.repoInfo!
     ctx.onProgress('Fetching discussions via GitHub API')
-    const discussions = await fetchGitHubDiscussions(owner, repo, 20, ctx.resolved.releasedAt, ctx.from).catch(() => [])
+    const discussions = await fetchGitHubDiscussions(owner, repo, 20, ctx.resolved.releasedAt, ctx.from, host).catch(() => [])
     if (discussions.length === 0)
       return
 
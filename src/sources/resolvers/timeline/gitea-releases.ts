@@ -0,0 +1,16 @@
+/**
+ * Gitea/Forgejo releases step: repo releases + CHANGELOG, written to the
+ * per-package `releases/` cache with the same index as GitHub releases.
+ */
+
+import type { StepResolver } from '../cascade.ts'
+import type { TimelineCtx } from './types.ts'
+import { fetchGiteaReleaseNotes } from '../../gitea.ts'
+import { defineHostReleasesStep } from './host-releases.ts'
+
+export const giteaReleasesStep: StepResolver<TimelineCtx> = defineHostReleasesStep({
+  id: 'gitea-releases',
+  label: 'Gitea',
+  repo: ctx => ctx.gitea,
+  fetchReleaseNotes: fetchGiteaReleaseNotes,
+})
@@ -0,0 +1,60 @@
+/**
+ * GitLab issues step: issues plus recently merged merge requests, written to
+ * the per-package `issues/` cache in the same format as GitHub issues.
+ *
+ * Skipped when cache already populated (existsSync guard).
+ */
+
+import type { StepResolver } from '../cascade.ts'
+import type { TimelineCtx } from './types.ts'
+import { existsSync } from 'node:fs'
+import { writeToCache } from '../../../cache/internal/storage.ts'
+import { sanitizeMarkdown } from '../../../core/sanitize.ts'
+import { fetchGitLabIssues, fetchGitLabMergeRequests, formatMergeRequestAsMarkdown, generateMergeRequestIndexSection } from '../../gitlab.ts'
+import { formatIssueAsMarkdown, generateIssueIndex } from '../../issues.ts'
+import { defineStep } from '../cascade.ts'
+
+export const gitlabIssuesStep: StepResolver<TimelineCtx> = defineStep<TimelineCtx>({
+  id: 'gitlab-issues',
+  canResolve: ctx => ctx.features.issues && !!ctx.gitlab && !existsSync(ctx.issuesDir),
+  async run(ctx) {
+    const repo = ctx.gitlab!
+    ctx.onProgress('Fetching issues via GitLab API')
+    const [issues, mergeRequests] = await Promise.all([
+      fetchGitLabIssues(repo, 30, ctx.resolved.releasedAt, ctx.from).catch(() => []),
+      fetchGitLabMergeRequests(repo, 20, ctx.from).catch(() => []),
+    ])
+    if (issues.length === 0 && mergeRequests.length === 0)
+      return
+
+    ctx.onProgress(`Caching ${issues.length} issues, ${mergeRequests.length} merge requests`)
+    const mrSection = generateMergeRequestIndexSection(mergeRequests)
+    const docs = [
+      ...issues.map(issue => ({
+        path: `issues/issue-${issue.number}.md`,
+        content: formatIssueAsMarkdown(issue),
+      })),
+      ...mergeRequests.map(mr => ({
+        path: `issues/mr-${mr.number}.md`,
+        content: formatMergeRequestAsMarkdown(mr),
+      })),
+      { path: 'issues/_INDEX.md', content: mrSection ? `${generateIssueIndex(issues)}\n${mrSection}` : generateIssueIndex(issues) },
+    ]
+    writeToCache(ctx.packageName, ctx.version, docs)
+
+    for (const issue of issues) {
+      ctx.docsToIndex.push({
+        id: `issue-${issue.number}`,
+        content: sanitizeMarkdown(`#${issue.number}: ${issue.title}\n\n${issue.body || ''}`),
+        metadata: { package: ctx.packageName, source: `issues/issue-${issue.number}.md`, type: 'issue', number: issue.number },
+      })
+    }
+    for (const mr of mergeRequests) {
+      ctx.docsToIndex.push({
+        id: `mr-${mr.number}`,
+        content: sanitizeMarkdown(`!${mr.number}: ${mr.title}\n\n${mr.body || ''}`),
+        metadata: { package: ctx.packageName, source: `issues/mr-${mr.number}.md`, type: 'issue', number: mr.number },
+      })
+    }
+  },
+})
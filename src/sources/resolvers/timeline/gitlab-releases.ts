@@ -0,0 +1,16 @@
+/**
+ * GitLab releases step: project releases + CHANGELOG, written to the
+ * per-package `releases/` cache with the same index as GitHub releases.
+ */
+
+import type { StepResolver } from '../cascade.ts'
+import type { TimelineCtx } from './types.ts'
+import { fetchGitLabReleaseNotes } from '../../gitlab.ts'
+import { defineHostReleasesStep } from './host-releases.ts'
+
+export const gitlabReleasesStep: StepResolver<TimelineCtx> = defineHostReleasesStep({
+  id: 'gitlab-releases',
+  label: 'GitLab',
+  repo: ctx => ctx.gitlab,
+  fetchReleaseNotes: fetchGitLabReleaseNotes,
+})
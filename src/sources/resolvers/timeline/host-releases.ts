@@ -0,0 +1,62 @@
+/**
+ * Shared releases step for code hosts that cache per-package (GitLab,
+ * Gitea/Forgejo): release notes + CHANGELOG written to the package `releases/`
+ * cache with the same index as GitHub releases.
+ */
+
+import type { StepResolver } from '../cascade.ts'
+import type { TimelineCtx } from './types.ts'
+import { existsSync } from 'node:fs'
+import { writeToCache } from '../../../cache/internal/storage.ts'
+import { parseFrontmatter } from '../../../core/markdown.ts'
+import { generateReleaseIndex } from '../../releases.ts'
+import { defineStep } from '../cascade.ts'
+
+export interface HostReleasesStepOptions<R> {
+  id: string
+  /** Host name shown in progress messages */
+  label: string
+  /** Host repo for this package, when it lives on the host */
+  repo: (ctx: TimelineCtx) => R | undefined
+  fetchReleaseNotes: (repo: R, installedVersion: string, gitRef?: string, packageName?: string, fromDate?: string) => Promise<Array<{ path: string, content: string }>>
+}
+
+export function defineHostReleasesStep<R>(opts: HostReleasesStepOptions<R>): StepResolver<TimelineCtx> {
+  return defineStep<TimelineCtx>({
+    id: opts.id,
+    canResolve: ctx => ctx.features.releases && !!opts.repo(ctx) && !existsSync(ctx.releasesPath),
+    async run(ctx) {
+      const { packageName, version, resolved, from } = ctx
+
+      ctx.onProgress(`Fetching releases via ${opts.label} API`)
+      const releaseDocs = await opts.fetchReleaseNotes(opts.repo(ctx)!, version, resolved.gitRef, packageName, from).catch(() => [])
+      if (releaseDocs.length === 0)
+        return
+
+      const releases = releaseDocs
+        .filter(d => !d.path.endsWith('CHANGELOG.md'))
+        .map((d) => {
+          const fm = parseFrontmatter(d.content)
+          const tag = fm.tag ?? ''
+          const published = fm.published ?? ''
+          return { id: 0, tag, name: fm.name ?? tag, prerelease: false, createdAt: published, publishedAt: published, markdown: '' }
+        })
+        .filter(r => r.tag)
+      const hasChangelog = releaseDocs.some(d => d.path === 'releases/CHANGELOG.md')
+      const docs = [
+        ...releaseDocs,
+        { path: 'releases/_INDEX.md', content: generateReleaseIndex({ releases, packageName, hasChangelog }) },
+      ]
+
+      ctx.onProgress(`Caching ${docs.length} releases`)
+      writeToCache(packageName, version, docs)
+      for (const doc of docs) {
+        ctx.docsToIndex.push({
+          id: doc.path,
+          content: doc.content,
+          metadata: { package: packageName, source: doc.path, type: 'release' },
+        })
+      }
+    },
+  })
+}
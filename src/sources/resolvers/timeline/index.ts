@@ -1,12 +1,19 @@
 /**
  * Default timeline cascade. Order is independent (each step has its own
  * existsSync guard) but kept stable for telemetry consistency:
- *   1. issues  2. discussions  3. releases
+ *   1. issues  2. discussions  3. releases  (GitHub)
+ *   4. gitlab-issues  5. gitlab-releases  (GitLab, per-package cache)
+ *   6. gitea-releases  (Gitea/Forgejo, per-package cache)
+ *   7. changelog (registry fallback when no code host data)
  */
 
 import type { StepResolver } from '../cascade.ts'
 import type { TimelineCtx } from './types.ts'
+import { changelogStep } from './changelog.ts'
 import { discussionsStep } from './discussions.ts'
+import { giteaReleasesStep } from './gitea-releases.ts'
+import { gitlabIssuesStep } from './gitlab-issues.ts'
+import { gitlabReleasesStep } from './gitlab-releases.ts'
 import { issuesStep } from './issues.ts'
 import { releasesStep } from './releases.ts'
 
@@ -16,4 +23,8 @@ export const defaultTimelineSteps: ReadonlyArray<StepResolver<TimelineCtx>> = [
   issuesStep,
   discussionsStep,
   releasesStep,
+  gitlabIssuesStep,
+  gitlabReleasesStep,
+  giteaReleasesStep,
+  changelogStep,
 ]
@@ -17,9 +17,9 @@ export const issuesStep: StepResolver<TimelineCtx> = defineStep<TimelineCtx>({
   id: 'issues',
   canResolve: ctx => ctx.features.issues && !!ctx.repoInfo && isGhAvailable() && !existsSync(ctx.issuesDir),
   async run(ctx) {
-    const { owner, repo } = ctx.repoInfo!
+    const { owner, repo, host } = ctx.repoInfo!
     ctx.onProgress('Fetching issues via GitHub API')
-    const issues = await fetchGitHubIssues(owner, repo, 30, ctx.resolved.releasedAt, ctx.from).catch(() => [])
+    const issues = await fetchGitHubIssues(owner, repo, 30, ctx.resolved.releasedAt, ctx.from, host).catch(() => [])
     if (issues.length === 0)
       return
 
@@ -20,12 +20,12 @@ export const releasesStep: StepResolver<TimelineCtx> = defineStep<TimelineCtx>({
   id: 'releases',
   canResolve: ctx => ctx.features.releases && !!ctx.repoInfo && isGhAvailable() && !existsSync(ctx.releasesPath),
   async run(ctx) {
-    const { owner, repo } = ctx.repoInfo!
+    const { owner, repo, host } = ctx.repoInfo!
     const { packageName, version, resolved, from } = ctx
 
     ctx.onProgress('Fetching releases via GitHub API')
     const changelogRef = isPrerelease(version) ? getPrereleaseChangelogRef(packageName) : undefined
-    const releaseDocs = await fetchReleaseNotes(owner, repo, version, resolved.gitRef, packageName, from, changelogRef).catch(() => [])
+    const releaseDocs = await fetchReleaseNotes(owner, repo, version, resolved.gitRef, packageName, from, changelogRef, host).catch(() => [])
 
     let blogDocs: Array<{ path: string, content: string }> = []
     if (getBlogPreset(packageName)) {
@@ -1,10 +1,13 @@
 /**
- * Shared types for the timeline cascade (GitHub issues, discussions, releases).
+ * Shared types for the timeline cascade (GitHub issues, discussions, releases,
+ * GitLab issues/MRs/releases, Gitea releases, registry changelogs).
  * Each step owns its own cache-write target (repo cache vs per-package cache).
  */
 
 import type { FeaturesConfig } from '../../../core/config.ts'
 import type { IndexDoc } from '../../content-resolver.ts'
+import type { GiteaRepo } from '../../gitea.ts'
+import type { GitLabRepo } from '../../gitlab.ts'
 import type { ResolvedPackage } from '../../types.ts'
 
 export interface TimelineCtx {
@@ -15,8 +18,12 @@ export interface TimelineCtx {
   /** Lower-bound date for release/issue/discussion collection (ISO date). */
   from?: string
   onProgress: (message: string) => void
-  /** When the repo is known on GitHub, timeline data caches per-repo. */
-  repoInfo?: { owner: string, repo: string }
+  /** When the repo is known on GitHub, timeline data caches per-repo. `host` is set for enterprise repos. */
+  repoInfo?: { owner: string, repo: string, host?: string }
+  /** GitLab project (gitlab.com or configured instance); data caches per-package. */
+  gitlab?: GitLabRepo
+  /** Gitea/Forgejo repo (Codeberg, gitea.com or configured instance); data caches per-package. */
+  gitea?: GiteaRepo
   /** Cache directories selected up-front based on repoInfo availability. */
   issuesDir: string
   discussionsDir: string
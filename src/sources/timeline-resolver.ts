@@ -4,9 +4,10 @@
  * Each step is a `StepResolver<TimelineCtx>` in `./resolvers/timeline/`,
  * with its own `existsSync` cache guard and feature-flag gate. Repo-level
  * data lives at `~/.skilld/references/<owner>/<repo>/{issues,discussions,releases}/`
- * when a GitHub repo is known; otherwise the cascade skips (no per-package
- * fallback — that path was unreachable since each step needs owner/repo to
- * call the GitHub API).
+ * when a GitHub repo is known. GitLab projects get issues/MRs/releases and
+ * Gitea/Forgejo repos get releases written to the per-package cache; otherwise
+ * only the changelog step can run (registry-declared changelog URL), also
+ * writing to the per-package cache.
  */
 
 import type { FeaturesConfig } from '../core/config.ts'
@@ -16,7 +17,9 @@ import type { ResolvedPackage } from './types.ts'
 import { existsSync } from 'node:fs'
 import { join } from 'pathe'
 import { getCacheDir, getRepoCacheDir } from '../cache/index.ts'
-import { parseGitHubUrl } from '../core/url.ts'
+import { parseGiteaUrl } from './gitea.ts'
+import { parseGitHubRepo } from './github-common.ts'
+import { parseGitLabUrl } from './gitlab.ts'
 import { walkSteps } from './resolvers/cascade.ts'
 import { defaultTimelineSteps } from './resolvers/timeline/index.ts'
 
@@ -25,7 +28,7 @@ export interface TimelineReferences {
   hasIssues: boolean
   hasDiscussions: boolean
   hasReleases: boolean
-  repoInfo?: { owner: string, repo: string }
+  repoInfo?: { owner: string, repo: string, host?: string }
 }
 
 export interface ResolveTimelineOptions {
@@ -41,8 +44,10 @@ export interface ResolveTimelineOptions {
 export async function resolveTimelineReferences(opts: ResolveTimelineOptions): Promise<TimelineReferences> {
   const { packageName, resolved, version, features, from, onProgress } = opts
 
-  const gh = resolved.repoUrl ? parseGitHubUrl(resolved.repoUrl) : null
-  const repoInfo = gh ? { owner: gh.owner, repo: gh.repo } : undefined
+  const gh = resolved.repoUrl ? parseGitHubRepo(resolved.repoUrl) : null
+  const repoInfo = gh ? { owner: gh.owner, repo: gh.repo, host: gh.host } : undefined
+  const gitlab = !gh && resolved.repoUrl ? parseGitLabUrl(resolved.repoUrl) ?? undefined : undefined
+  const gitea = !gh && !gitlab && resolved.repoUrl ? parseGiteaUrl(resolved.repoUrl) ?? undefined : undefined
   const repoCacheDir = repoInfo ? getRepoCacheDir(repoInfo.owner, repoInfo.repo) : null
   const cacheDir = getCacheDir(packageName, version)
 
@@ -54,6 +59,8 @@ export async function resolveTimelineReferences(opts: ResolveTimelineOptions): P
     from,
     onProgress,
     repoInfo,
+    gitlab,
+    gitea,
     issuesDir: repoCacheDir ? join(repoCacheDir, 'issues') : join(cacheDir, 'issues'),
     discussionsDir: repoCacheDir ? join(repoCacheDir, 'discussions') : join(cacheDir, 'discussions'),
     releasesPath: repoCacheDir ? join(repoCacheDir, 'releases') : join(cacheDir, 'releases'),
@@ -40,11 +40,17 @@ export interface ResolvedPackage {
   gitDocsFallback?: boolean
   /** URL pattern to crawl for docs */
   crawlUrl?: string
+  /** Changelog page declared in registry metadata (e.g. PyPI `project_urls.Changelog`) */
+  changelogUrl?: string
+  /** Extracted Go module zip (README, doc.go, go.mod) read by the go-module content step */
+  goModuleDir?: string
 }
 
 export interface LocalDependency {
   name: string
   version: string
+  /** Package directory of a `link:` dependency */
+  localPath?: string
 }
 
 export interface LlmsContent {
@@ -65,7 +71,7 @@ export interface FetchedDoc {
 }
 
 export interface ResolveAttempt {
-  source: 'npm' | 'crates' | 'github-docs' | 'github-meta' | 'github-search' | 'llms.txt' | 'readme'
+  source: 'npm' | 'crates' | 'pypi' | 'go' | 'github-docs' | 'github-meta' | 'github-search' | 'llms.txt' | 'readme'
   url?: string
   status: 'success' | 'not-found' | 'error'
   message?: string
@@ -3,6 +3,7 @@
  */
 
 import { ofetch } from 'ofetch'
+import { getGitHubEnterpriseHosts } from '../core/github-hosts.ts'
 import { getGitHubToken, isKnownPrivateRepo, markRepoPrivate } from './github-common.ts'
 
 export const SKILLD_USER_AGENT = 'skilld/1.0 (+https://github.com/harlan-zw/skilld)'
@@ -49,10 +50,19 @@ export async function fetchText(url: string): Promise<string | null> {
 
 const RAW_GH_RE = /raw\.githubusercontent\.com\/([^/]+)\/([^/]+)/
 
-/** Extract owner/repo from a GitHub raw content URL */
-function extractGitHubRepo(url: string): { owner: string, repo: string } | null {
+/** Extract owner/repo (and host) from a github.com or enterprise raw content URL */
+function extractGitHubRepo(url: string): { owner: string, repo: string, hostname: string } | null {
   const match = url.match(RAW_GH_RE)
-  return match ? { owner: match[1]!, repo: match[2]! } : null
+  if (match)
+    return { owner: match[1]!, repo: match[2]!, hostname: 'github.com' }
+  for (const host of getGitHubEnterpriseHosts()) {
+    if (!url.startsWith(`${host.rawUrl}/`))
+      continue
+    const [owner, repo] = url.slice(host.rawUrl.length + 1).split('/')
+    if (owner && repo)
+      return { owner, repo, hostname: host.hostname }
+  }
+  return null
 }
 
 /**
@@ -60,8 +70,9 @@ function extractGitHubRepo(url: string): { owner: string, repo: string } | null
  * Tries unauthenticated first (fast path), falls back to authenticated
  * request when the repo is known to be private or unauthenticated fails.
  *
- * Only sends auth tokens to raw.githubusercontent.com — returns null for
- * non-GitHub URLs that fail unauthenticated to prevent token leakage.
+ * Only sends auth tokens to raw.githubusercontent.com or a configured
+ * enterprise raw host (with that host's token) — returns null for other
+ * URLs that fail unauthenticated to prevent token leakage.
  */
 export async function fetchGitHubRaw(url: string): Promise<string | null> {
   const gh = extractGitHubRepo(url)
@@ -74,12 +85,12 @@ export async function fetchGitHubRaw(url: string): Promise<string | null> {
       return content
   }
 
-  // Only send auth tokens to raw.githubusercontent.com
+  // Only send auth tokens to known GitHub raw hosts
   if (!gh)
     return null
 
   // Fallback: authenticated request for private repos
-  const token = getGitHubToken()
+  const token = getGitHubToken(gh.hostname)
   if (!token)
     return null
 
@@ -0,0 +1,14 @@
+import { join } from 'pathe'
+import { describe, expect, it } from 'vitest'
+import { searchEval } from '../../src/commands/search-eval'
+
+const FIXTURES = join(__dirname, '../fixtures/search-eval')
+
+describe('e2e search eval', () => {
+  it('scores golden queries against indexes built from fixtures', async () => {
+    const report = await searchEval(join(FIXTURES, 'golden.yaml'), { fixtures: join(FIXTURES, 'packages') })
+    expect(report!.summary.queries).toBe(6)
+    expect(report!.summary.recall).toBeGreaterThanOrEqual(0.8)
+    expect(report!.summary.mrr).toBeGreaterThanOrEqual(0.6)
+  }, 300_000)
+})
@@ -0,0 +1,14 @@
+#[macro_use]
+extern crate log;
+
+mod config;
+
+use serde::Deserialize;
+use std::collections::HashMap;
+
+#[tokio::main]
+async fn main() {
+    let cfg: config::Config = serde_json::from_str("{}").unwrap();
+    info!("{:?}", cfg);
+    let _map: HashMap<String, String> = HashMap::new();
+}
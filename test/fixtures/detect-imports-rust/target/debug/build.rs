@@ -0,0 +1 @@
+use tokio::runtime::Runtime;
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest'
+import { extractApiModules, extractApiSymbols, generateApiReference, parseJsDoc } from '../../src/sources/api-reference'
+
+const INDEX_DTS = `import { Options } from './shared'
+
+/**
+ * Create an application instance.
+ * Mounts nothing until \`app.mount()\` is called.
+ * @since 3.0.0
+ * @example
+ * \`\`\`ts
+ * // @ts-expect-error demo
+ * const app = createApp({})
+ * \`\`\`
+ */
+export declare function createApp(options: Options): App;
+export declare function createApp(): App;
+
+/**
+ * @deprecated Use \`createApp\` instead.
+ */
+declare function legacyCreate(): App;
+
+interface App {
+  mount: (el: string) => void
+}
+
+/** @internal */
+export declare const __DEV__: boolean;
+
+/** @internal */
+declare function hidden(): void;
+
+export declare const version: string, build: number;
+export type Plugin = (app: App) => void;
+export { legacyCreate, legacyCreate as oldCreate, hidden, App }
+export { helper } from './helper'
+export * from './shared'
+`
+
+describe('parseJsDoc', () => {
+  it('splits description and tags', () => {
+    const doc = parseJsDoc('*\n * Hello world.\n * @deprecated since v2\n * @since 1.0.0\n ')
+    expect(doc).toEqual({ description: 'Hello world.', deprecated: 'since v2', since: '1.0.0', examples: [], internal: false })
+  })
+
+  it('keeps tag-like lines inside example fences', () => {
+    const doc = parseJsDoc('*\n * @example\n * ```ts\n * // @ts-ignore\n * run()\n * ```\n * @since 2.0.0\n ')
+    expect(doc.examples).toEqual(['```ts\n// @ts-ignore\nrun()\n```'])
+    expect(doc.since).toBe('2.0.0')
+  })
+
+  it('marks bare @deprecated as true', () => {
+    expect(parseJsDoc('* @deprecated ').deprecated).toBe(true)
+  })
+})
+
+describe('extractApiSymbols', () => {
+  const symbols = extractApiSymbols('dist/index.d.ts', INDEX_DTS)
+  const byName = Object.fromEntries(symbols.map(s => [s.name, s]))
+
+  it('collects direct and specifier exports, skipping re-exports and @internal', () => {
+    expect(symbols.map(s => s.name)).toEqual(['createApp', 'version', 'build', 'Plugin', 'legacyCreate', 'oldCreate', 'App'])
+  })
+
+  it('joins overloads and strips declare/export modifiers', () => {
+    expect(byName.createApp).toMatchObject({
+      kind: 'function',
+      signature: 'function createApp(options: Options): App\nfunction createApp(): App',
+      description: 'Create an application instance.\nMounts nothing until `app.mount()` is called.',
+      since: '3.0.0',
+      line: 13,
+    })
+    expect(byName.createApp!.examples[0]).toContain('const app = createApp({})')
+  })
+
+  it('reads JSDoc from the local declaration for specifier exports', () => {
+    expect(byName.legacyCreate!.deprecated).toBe('Use `createApp` instead.')
+    expect(byName.oldCreate!.deprecated).toBe('Use `createApp` instead.')
+    expect(byName.App!.kind).toBe('interface')
+  })
+
+  it('keeps the variable keyword for each declarator', () => {
+    expect(byName.version!.signature).toBe('const version: string')
+    expect(byName.build!.signature).toBe('const build: number')
+  })
+
+  it('returns nothing for unparseable input', () => {
+    expect(extractApiSymbols('broken.d.ts', 'export declare function (')).toEqual([])
+  })
+})
+
+describe('generateApiReference', () => {
+  it('dedupes .d.mts/.d.ts twins and writes module pages with an index', () => {
+    const docs = generateApiReference([
+      { path: 'dist/index.d.ts', content: INDEX_DTS, type: 'types' },
+      { path: 'dist/index.d.mts', content: INDEX_DTS, type: 'types' },
+      { path: 'dist/empty.d.ts', content: 'export {}', type: 'types' },
+    ])
+    expect(docs.map(d => d.path)).toEqual(['api/dist/index.md', 'api/_INDEX.md'])
+
+    const page = docs[0]!.content
+    expect(page).toContain('module: dist/index.d.mts')
+    expect(page).toContain('## createApp')
+    expect(page).toContain('`function` · since 3.0.0')
+    expect(page).toContain('**Deprecated:** Use `createApp` instead.')
+    expect(page).toContain('Source: `pkg/dist/index.d.mts:L13`')
+
+    const index = docs[1]!.content
+    expect(index).toContain('total: 7')
+    expect(index).toContain('deprecated: 2')
+    expect(index).toContain('- [createApp](./dist/index.md#createapp) `function` — Create an application instance.')
+    expect(index).toContain('- [legacyCreate](./dist/index.md#legacycreate) `function` **deprecated**')
+  })
+
+  it('returns no docs when there are no exports', () => {
+    expect(extractApiModules([{ path: 'index.d.ts', content: 'declare const x: 1', type: 'types' }])).toEqual([])
+    expect(generateApiReference([])).toEqual([])
+  })
+})
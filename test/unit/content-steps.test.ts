@@ -7,7 +7,10 @@
  */
 
 import type { ResolvedPackage } from '../../src/sources/types'
-import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'pathe'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 
 vi.mock('../../src/sources/github', async () => {
   const actual = await vi.importActual<typeof import('../../src/sources/github')>('../../src/sources/github')
@@ -42,6 +45,7 @@ const { fetchLlmsTxt } = await import('../../src/sources/llms')
 const { gitDocsStep } = await import('../../src/sources/resolvers/content/git-docs')
 const { readmeStep } = await import('../../src/sources/resolvers/content/readme')
 const { llmsTxtStep } = await import('../../src/sources/resolvers/content/llms-txt')
+const { goModuleStep } = await import('../../src/sources/resolvers/content/go-module')
 
 function makeCtx(resolved: Partial<ResolvedPackage> = {}) {
   return {
@@ -181,3 +185,41 @@ describe('llmsTxtStep', () => {
     expect(ctx.docsType).toBe('llms.txt')
   })
 })
+
+describe('goModuleStep', () => {
+  let moduleDir: string
+
+  beforeEach(() => {
+    moduleDir = mkdtempSync(join(tmpdir(), 'skilld-go-'))
+  })
+
+  afterEach(() => {
+    rmSync(moduleDir, { recursive: true, force: true })
+  })
+
+  it('skips without an extracted module dir', () => {
+    expect(goModuleStep.canResolve?.(makeCtx())).toBe(false)
+  })
+
+  it('writes README and doc.go package docs', async () => {
+    writeFileSync(join(moduleDir, 'README.md'), '# sync')
+    writeFileSync(join(moduleDir, 'go.mod'), 'module golang.org/x/sync\n')
+    mkdirSync(join(moduleDir, 'errgroup'))
+    writeFileSync(join(moduleDir, 'errgroup', 'doc.go'), [
+      '// Package errgroup provides synchronization for groups of goroutines.',
+      '//',
+      '//\tg := new(errgroup.Group)',
+      'package errgroup',
+    ].join('\n'))
+
+    const ctx = makeCtx({ name: 'golang.org/x/sync', goModuleDir: moduleDir, docsUrl: 'https://pkg.go.dev/golang.org/x/sync@v0.7.0' })
+    expect(goModuleStep.canResolve?.(ctx)).toBe(true)
+    await goModuleStep.run(ctx)
+
+    expect(ctx.docs.map(d => d.path)).toEqual(['docs/README.md', 'docs/packages/errgroup/index.md'])
+    expect(ctx.docs[1]!.content).toContain('import "golang.org/x/sync/errgroup"')
+    expect(ctx.docs[1]!.content).toContain('```go\ng := new(errgroup.Group)\n```')
+    expect(ctx.docsType).toBe('docs')
+    expect(ctx.docSource).toBe('https://pkg.go.dev/golang.org/x/sync@v0.7.0')
+  })
+})
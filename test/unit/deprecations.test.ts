@@ -0,0 +1,132 @@
+import { mkdirSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'pathe'
+import { describe, expect, it, vi } from 'vitest'
+import { selectExecutor } from '../../src/agent/clis/executors'
+import { optimizeDocs } from '../../src/agent/llm-enhancer'
+import { formatDeprecationMap } from '../../src/agent/prompts/optional/deprecations'
+import { isDeterministicSection } from '../../src/agent/prompts/optional/registry'
+import { buildAllSectionPrompts } from '../../src/agent/prompts/prompt'
+import { extractApiModules } from '../../src/sources/api-reference'
+import { buildDeprecationMap, diffDeprecations, extractReplacement, findPreviousVersion } from '../../src/sources/deprecations'
+
+vi.mock('../../src/agent/clis/executors', () => ({
+  selectExecutor: vi.fn(() => ({ error: 'No model available' })),
+}))
+
+vi.mock('../../src/cache/index', () => ({
+  createReferenceCache: vi.fn(() => ({ readSection: () => null, writeSections: vi.fn() })),
+}))
+
+vi.mock('../../src/sources/deprecations', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/sources/deprecations')>()
+  return { ...actual, buildDeprecationMap: vi.fn() }
+})
+
+const V1 = `
+export declare function createApp(): void;
+/** @deprecated */
+export declare function mountLegacy(): void;
+/** @deprecated Use \`defineStore\` instead. */
+export declare function createStore(): void;
+export declare function oldHelper(): void;
+`
+
+const V2 = `
+export declare function createApp(): void;
+/** @deprecated */
+export declare function mountLegacy(): void;
+/** @deprecated Use \`defineStore\` instead. */
+export declare function createStore(): void;
+/**
+ * @deprecated since 2.1 — see {@link createApp}
+ * @since 1.0.0
+ */
+export declare const config: { debug: boolean };
+`
+
+const modules = (content: string) => extractApiModules([{ path: 'dist/index.d.mts', content, type: 'types' }])
+
+describe('extractReplacement', () => {
+  it.each([
+    ['Use `defineStore` instead.', 'defineStore'],
+    ['Replaced by {@link useFetch}', 'useFetch'],
+    ['prefer createApp() for new code', 'createApp()'],
+    ['Use the new options API', undefined],
+    ['Will be removed in v3', undefined],
+  ])('%s', (message, expected) => {
+    expect(extractReplacement(message)).toBe(expected)
+  })
+})
+
+describe('findPreviousVersion', () => {
+  const versions = ['1.0.0', '1.9.3', '2.0.0', '2.0.4', '2.1.0-beta.1', '2.1.0', '2.1.2', '3.0.0-rc.1', '3.0.0']
+
+  it('prefers the latest release of an earlier minor', () => {
+    expect(findPreviousVersion(versions, '2.1.2')).toBe('2.0.4')
+  })
+
+  it('falls back to the previous major for x.0 releases', () => {
+    expect(findPreviousVersion(versions, '3.0.0')).toBe('2.1.2')
+    expect(findPreviousVersion(versions, '2.0.4')).toBe('1.9.3')
+  })
+
+  it('returns null without an earlier release', () => {
+    expect(findPreviousVersion(versions, '1.0.0')).toBeNull()
+    expect(findPreviousVersion(versions, 'not-a-version')).toBeNull()
+  })
+})
+
+describe('diffDeprecations', () => {
+  it('classifies new, removed and existing deprecations', () => {
+    expect(diffDeprecations(modules(V2), modules(V1))).toEqual([
+      { name: 'config', kind: 'const', source: 'dist/index.d.mts', message: 'since 2.1 — see {@link createApp}', replacement: 'createApp', since: '1.0.0', status: 'new' },
+      { name: 'oldHelper', kind: 'function', source: 'dist/index.d.mts', message: undefined, replacement: undefined, status: 'removed' },
+      { name: 'createStore', kind: 'function', source: 'dist/index.d.mts', message: 'Use `defineStore` instead.', replacement: 'defineStore', since: undefined, status: 'existing' },
+      { name: 'mountLegacy', kind: 'function', source: 'dist/index.d.mts', message: undefined, replacement: undefined, since: undefined, status: 'existing' },
+    ])
+  })
+
+  it('treats everything as existing without a baseline', () => {
+    expect(diffDeprecations(modules(V2), null).every(e => e.status === 'existing')).toBe(true)
+  })
+})
+
+describe('formatDeprecationMap', () => {
+  it('renders a replacement table citing api/ pages', () => {
+    const md = formatDeprecationMap({ version: '2.1.0', previousVersion: '2.0.4', entries: diffDeprecations(modules(V2), modules(V1)) })
+    expect(md).toContain('## Deprecated APIs')
+    expect(md).toContain('in v2.1.0 compared with v2.0.4')
+    expect(md).toContain('| `config` | `createApp` | new in v2.1.0 | since 2.1 — see {@link createApp} [source](./.skilld/api/dist/index.md#config) |')
+    expect(md).toContain('| `oldHelper()` | — | removed after v2.0.4 | — |')
+    expect(md).toContain('| `createStore()` | `defineStore` | deprecated | Use `defineStore` instead. [source](./.skilld/api/dist/index.md#createstore) |')
+  })
+})
+
+describe('deprecations section registry', () => {
+  it('is deterministic and never produces an LLM prompt', () => {
+    expect(isDeterministicSection('deprecations')).toBe(true)
+    expect(isDeterministicSection('api-changes')).toBe(false)
+    const prompts = buildAllSectionPrompts({ packageName: 'vue', skillDir: '/tmp/skill', sections: ['api-changes', 'deprecations'] })
+    expect([...prompts.keys()]).toEqual(['api-changes'])
+  })
+})
+
+describe('optimizeDocs with only deterministic sections', () => {
+  it('generates without selecting an executor', async () => {
+    const skillDir = mkdtempSync(join(tmpdir(), 'skilld-deprecations-'))
+    mkdirSync(join(skillDir, '.skilld/pkg'), { recursive: true })
+    vi.mocked(buildDeprecationMap).mockResolvedValue({ version: '2.1.0', previousVersion: '2.0.4', entries: diffDeprecations(modules(V2), modules(V1)) })
+
+    try {
+      const result = await optimizeDocs({ packageName: 'vue', skillDir, cwd: '/project', model: 'sonnet', version: '2.1.0', noCache: true, ledgerPath: false, sections: ['deprecations'] })
+      expect(selectExecutor).not.toHaveBeenCalled()
+      expect(buildDeprecationMap).toHaveBeenCalledWith('vue', '2.1.0', join(skillDir, '.skilld/pkg'), '/project')
+      expect(result.error).toBeUndefined()
+      expect(result.optimized).toContain('## Deprecated APIs')
+    }
+    finally {
+      rmSync(skillDir, { recursive: true, force: true })
+    }
+  })
+})
@@ -3,6 +3,7 @@ import { describe, expect, it } from 'vitest'
 import { detectImportedPackages } from '../../src/agent/detect-imports'
 
 const fixtures = join(import.meta.dirname, '../fixtures/detect-imports')
+const rustFixtures = join(import.meta.dirname, '../fixtures/detect-imports-rust')
 
 describe('detectImportedPackages', () => {
   it('detects static imports across file types', async () => {
@@ -65,3 +66,20 @@ describe('detectImportedPackages', () => {
     expect(packages).toEqual([])
   })
 })
+
+describe('detectImportedPackages (Rust)', () => {
+  it('detects Cargo dependencies referenced from .rs files', async () => {
+    const { packages, error } = await detectImportedPackages(rustFixtures)
+    expect(error).toBeUndefined()
+
+    expect(packages).toEqual([
+      // used in main.rs + config.rs
+      { name: 'crate:serde', count: 2, source: 'import' },
+      { name: 'crate:log', count: 1, source: 'import' },
+      // renamed dependency: `serde-json = { package = "serde_json" }`
+      { name: 'crate:serde_json', count: 1, source: 'import' },
+      // target/ is skipped
+      { name: 'crate:tokio', count: 1, source: 'import' },
+    ])
+  })
+})
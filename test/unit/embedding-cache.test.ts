@@ -9,7 +9,7 @@ vi.mock('../../src/cache', () => ({
   CACHE_DIR: TEST_DIR,
 }))
 
-const { cachedEmbeddings, clearEmbeddingCache } = await import('../../src/retriv/embedding-cache')
+const { cachedEmbeddings, clearEmbeddingCache, listEmbeddingCacheModels } = await import('../../src/retriv/embedding-cache')
 
 function fakeEmbeddingConfig(dims = 4, embedder?: (texts: string[]) => Promise<Float32Array[]>) {
   const calls: string[][] = []
@@ -43,7 +43,7 @@ describe('embedding-cache', () => {
 
   it('computes embeddings on first call (cache miss)', async () => {
     const { config, calls } = fakeEmbeddingConfig()
-    const wrapped = await cachedEmbeddings(config)
+    const wrapped = await cachedEmbeddings(config, 'default')
     const { embedder } = await wrapped.resolve()
 
     const result = await embedder(['hello', 'world'])
@@ -55,7 +55,7 @@ describe('embedding-cache', () => {
 
   it('serves cached embeddings on second call (cache hit)', async () => {
     const { config, calls } = fakeEmbeddingConfig()
-    const wrapped = await cachedEmbeddings(config)
+    const wrapped = await cachedEmbeddings(config, 'default')
     const { embedder } = await wrapped.resolve()
 
     await embedder(['hello', 'world'])
@@ -68,7 +68,7 @@ describe('embedding-cache', () => {
 
   it('computes only missed texts on partial cache hit', async () => {
     const { config, calls } = fakeEmbeddingConfig()
-    const wrapped = await cachedEmbeddings(config)
+    const wrapped = await cachedEmbeddings(config, 'default')
     const { embedder } = await wrapped.resolve()
 
     await embedder(['hello'])
@@ -87,7 +87,7 @@ describe('embedding-cache', () => {
         return new Float32Array([counter, counter * 10])
       })
     })
-    const wrapped = await cachedEmbeddings(config)
+    const wrapped = await cachedEmbeddings(config, 'default')
     const { embedder } = await wrapped.resolve()
 
     await embedder(['a', 'b'])
@@ -104,14 +104,14 @@ describe('embedding-cache', () => {
   it('wipes cache on dimension mismatch', async () => {
     // First: populate with 4-dim embeddings
     const { config: config4, calls: calls4 } = fakeEmbeddingConfig(4)
-    const wrapped4 = await cachedEmbeddings(config4)
+    const wrapped4 = await cachedEmbeddings(config4, 'default')
     const { embedder: embedder4 } = await wrapped4.resolve()
     await embedder4(['hello'])
     expect(calls4).toHaveLength(1)
 
     // Second: resolve with 8-dim → should wipe, recompute
     const { config: config8, calls: calls8 } = fakeEmbeddingConfig(8)
-    const wrapped8 = await cachedEmbeddings(config8)
+    const wrapped8 = await cachedEmbeddings(config8, 'default')
     const { embedder: embedder8 } = await wrapped8.resolve()
     const result = await embedder8(['hello'])
 
@@ -120,9 +120,43 @@ describe('embedding-cache', () => {
     expect((result[0] as Float32Array).length).toBe(8)
   })
 
+  it('keeps vectors from different models apart', async () => {
+    const { config: configA, calls: callsA } = fakeEmbeddingConfig(4)
+    const { embedder: embedderA } = await (await cachedEmbeddings(configA, 'model-a')).resolve()
+    await embedderA(['hello'])
+
+    const { config: configB, calls: callsB } = fakeEmbeddingConfig(4)
+    const { embedder: embedderB } = await (await cachedEmbeddings(configB, 'model-b')).resolve()
+    await embedderB(['hello'])
+
+    expect(callsA).toHaveLength(1)
+    expect(callsB).toHaveLength(1)
+    expect(await listEmbeddingCacheModels()).toEqual([
+      { model: 'model-a', dimensions: 4 },
+      { model: 'model-b', dimensions: 4 },
+    ])
+  })
+
+  it('moves pre-namespacing rows under the default model', async () => {
+    const { DatabaseSync } = await import('node:sqlite')
+    const dbPath = join(TEST_DIR, 'embeddings.db')
+    const legacy = new DatabaseSync(dbPath)
+    legacy.exec('CREATE TABLE embeddings (text_hash TEXT PRIMARY KEY, embedding BLOB NOT NULL)')
+    legacy.exec('CREATE TABLE meta (key TEXT PRIMARY KEY, value TEXT NOT NULL)')
+    legacy.prepare('INSERT INTO embeddings VALUES (?, ?)').run('abc123', Buffer.from(new Float32Array(4).buffer))
+    legacy.prepare('INSERT INTO meta VALUES (?, ?)').run('dimensions', '4')
+    legacy.close()
+
+    expect(await listEmbeddingCacheModels()).toEqual([{ model: 'default', dimensions: 4 }])
+    const check = new DatabaseSync(dbPath)
+    expect(check.prepare('SELECT text_hash FROM embeddings').all()).toEqual([{ text_hash: 'default:abc123' }])
+    expect(check.prepare('SELECT key FROM meta').all()).toEqual([{ key: 'model:default' }])
+    check.close()
+  })
+
   it('clearEmbeddingCache removes the db file', async () => {
     const { config } = fakeEmbeddingConfig()
-    const wrapped = await cachedEmbeddings(config)
+    const wrapped = await cachedEmbeddings(config, 'default')
     const { embedder } = await wrapped.resolve()
     await embedder(['hello'])
 
@@ -137,12 +171,12 @@ describe('embedding-cache', () => {
     const { config, calls } = fakeEmbeddingConfig()
 
     // First resolve + embed
-    const wrapped1 = await cachedEmbeddings(config)
+    const wrapped1 = await cachedEmbeddings(config, 'default')
     const { embedder: e1 } = await wrapped1.resolve()
     await e1(['hello'])
 
     // Second resolve (simulates new process opening same DB)
-    const wrapped2 = await cachedEmbeddings(config)
+    const wrapped2 = await cachedEmbeddings(config, 'default')
     const { embedder: e2 } = await wrapped2.resolve()
     await e2(['hello'])
 
@@ -152,7 +186,7 @@ describe('embedding-cache', () => {
 
   it('handles empty input', async () => {
     const { config, calls } = fakeEmbeddingConfig()
-    const wrapped = await cachedEmbeddings(config)
+    const wrapped = await cachedEmbeddings(config, 'default')
     const { embedder } = await wrapped.resolve()
 
     const result = await embedder([])
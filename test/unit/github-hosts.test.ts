@@ -0,0 +1,139 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'pathe'
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const tmp = mkdtempSync(join(tmpdir(), 'skilld-ghe-'))
+
+vi.mock('../../src/core/paths', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/core/paths')>()
+  return { ...actual, CACHE_DIR: tmp, CONFIG_PATH: join(tmp, 'config.yaml') }
+})
+
+const mockFetch = vi.fn()
+vi.mock('ofetch', () => ({
+  ofetch: { create: () => mockFetch },
+}))
+
+const mockSpawnSync = vi.fn(() => ({ stdout: '', status: 1 }))
+vi.mock('node:child_process', () => ({
+  spawnSync: (...args: any[]) => mockSpawnSync(...args),
+}))
+
+const { readConfig, writeConfig } = await import('../../src/core/config')
+const { getGitHubEnterpriseHostnames } = await import('../../src/core/github-hosts')
+const { isGitHubRepoUrl, isLikelyCodeHostUrl, normalizeRepoUrl, parseGitHubUrl } = await import('../../src/core/url')
+const { getRepoHost, ghApi, ghCliHost, githubRawBaseUrl, githubRepoUrl, parseGitHubRepo } = await import('../../src/sources/github-common')
+const { fetchGitHubRaw } = await import('../../src/sources/utils')
+
+const CONFIG = `githubHosts:
+  github.mycorp.com:
+    token: corp-token
+  ghe.other.io:
+    apiUrl: https://api.ghe.other.io/
+    rawUrl: https://raw.ghe.other.io
+`
+
+beforeEach(() => {
+  mockFetch.mockReset()
+  mockSpawnSync.mockClear()
+  writeFileSync(join(tmp, 'config.yaml'), CONFIG)
+  writeConfig(readConfig())
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+afterAll(() => {
+  rmSync(tmp, { recursive: true, force: true })
+})
+
+describe('githubHosts config', () => {
+  it('round-trips per-host settings', () => {
+    expect(readConfig().githubHosts).toEqual({
+      'github.mycorp.com': { token: 'corp-token' },
+      'ghe.other.io': { apiUrl: 'https://api.ghe.other.io/', rawUrl: 'https://raw.ghe.other.io' },
+    })
+  })
+})
+
+describe('enterprise URL parsing', () => {
+  it('treats configured hosts as GitHub', () => {
+    expect(isGitHubRepoUrl('https://github.mycorp.com/platform/ui-kit', getGitHubEnterpriseHostnames())).toBe(true)
+    expect(isGitHubRepoUrl('https://git.unknown.com/platform/ui-kit', getGitHubEnterpriseHostnames())).toBe(false)
+    expect(isLikelyCodeHostUrl('https://github.mycorp.com/platform/ui-kit', getGitHubEnterpriseHostnames())).toBe(true)
+    expect(parseGitHubRepo('https://github.mycorp.com/platform/ui-kit.git')).toEqual({ owner: 'platform', repo: 'ui-kit', host: 'github.mycorp.com' })
+    expect(parseGitHubRepo('https://github.com/platform/ui-kit')).toEqual({ owner: 'platform', repo: 'ui-kit' })
+    expect(parseGitHubRepo('https://git.unknown.com/platform/ui-kit')).toBeNull()
+  })
+
+  it('only matches enterprise hosts passed in to the core URL helpers', () => {
+    expect(isGitHubRepoUrl('https://github.mycorp.com/design/tokens')).toBe(false)
+    expect(isLikelyCodeHostUrl('https://github.mycorp.com/design/tokens')).toBe(false)
+    expect(normalizeRepoUrl('git@github.mycorp.com:design/tokens.git')).toBe('git@github.mycorp.com:design/tokens')
+    expect(parseGitHubUrl('https://github.mycorp.com/design/tokens')).toBeNull()
+    expect(parseGitHubUrl('https://github.mycorp.com/design/tokens', getGitHubEnterpriseHostnames())).toEqual({ owner: 'design', repo: 'tokens', host: 'github.mycorp.com' })
+  })
+
+  it('does not route a github.com repo to an enterprise host with the same owner/repo', () => {
+    const enterprise = parseGitHubRepo('https://github.mycorp.com/shared/lib')!
+    const dotcom = parseGitHubRepo('https://github.com/shared/lib')!
+    expect(githubRepoUrl(enterprise.owner, enterprise.repo, enterprise.host)).toBe('https://github.mycorp.com/shared/lib')
+    expect(githubRepoUrl(dotcom.owner, dotcom.repo, dotcom.host)).toBe('https://github.com/shared/lib')
+    expect(getRepoHost(dotcom.host).enterprise).toBe(false)
+  })
+
+  it('normalizes SSH remotes on enterprise hosts', () => {
+    const hosts = getGitHubEnterpriseHostnames()
+    expect(normalizeRepoUrl('git+ssh://git@github.mycorp.com/platform/ui-kit.git', hosts)).toBe('https://github.mycorp.com/platform/ui-kit')
+    expect(normalizeRepoUrl('git@github.mycorp.com:platform/ui-kit.git', hosts)).toBe('https://github.mycorp.com/platform/ui-kit')
+  })
+
+  it('routes enterprise hosts with GHES defaults', () => {
+    expect(getRepoHost('github.mycorp.com')).toMatchObject({
+      apiUrl: 'https://github.mycorp.com/api/v3',
+      graphqlUrl: 'https://github.mycorp.com/api/graphql',
+      enterprise: true,
+    })
+    expect(githubRawBaseUrl('platform', 'ui-kit', 'v1.0.0', 'github.mycorp.com')).toBe('https://github.mycorp.com/raw/platform/ui-kit/v1.0.0')
+    expect(githubRepoUrl('platform', 'ui-kit', 'github.mycorp.com')).toBe('https://github.mycorp.com/platform/ui-kit')
+    expect(githubRawBaseUrl('vuejs', 'core', 'main')).toBe('https://raw.githubusercontent.com/vuejs/core/main')
+  })
+
+  it('reads the env host with URL overrides and token', () => {
+    vi.stubEnv('GITHUB_ENTERPRISE_URL', 'https://ghe.env.dev')
+    vi.stubEnv('GITHUB_ENTERPRISE_API_URL', 'https://ghe.env.dev/custom/api')
+    vi.stubEnv('GITHUB_ENTERPRISE_TOKEN', 'env-token')
+    const gh = parseGitHubRepo('https://ghe.env.dev/team/lib')
+    expect(getRepoHost(gh?.host)).toMatchObject({ apiUrl: 'https://ghe.env.dev/custom/api', token: 'env-token' })
+  })
+})
+
+describe('enterprise requests', () => {
+  it('sends API calls to the host API with its own token', async () => {
+    mockFetch.mockResolvedValue({ homepage: 'https://ui.mycorp.com' })
+    await ghApi('repos/platform/ui-kit', 'github.mycorp.com')
+    expect(mockFetch).toHaveBeenCalledWith('https://github.mycorp.com/api/v3/repos/platform/ui-kit', {
+      headers: { Authorization: 'token corp-token' },
+    })
+  })
+
+  it('uses gh --hostname for enterprise repos', () => {
+    const cli = ghCliHost('github.mycorp.com')
+    expect(cli.args).toEqual(['--hostname', 'github.mycorp.com'])
+    expect(cli.env?.GH_ENTERPRISE_TOKEN).toBe('corp-token')
+    expect(ghCliHost()).toEqual({ args: [] })
+  })
+
+  it('authenticates raw fetches on a custom raw host', async () => {
+    mockSpawnSync.mockReturnValue({ stdout: 'gh-other-token\n', status: 0 })
+    mockFetch.mockImplementation(async (_url: string, opts?: { headers?: Record<string, string> }) => {
+      if (opts?.headers?.Authorization === 'token gh-other-token')
+        return '# Private'
+      throw new Error('404')
+    })
+    expect(await fetchGitHubRaw('https://raw.ghe.other.io/team/private/main/README.md')).toBe('# Private')
+    expect(mockSpawnSync).toHaveBeenCalledWith('gh', ['auth', 'token', '--hostname', 'ghe.other.io'], expect.anything())
+  })
+})
@@ -0,0 +1,56 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { DatabaseSync } from 'node:sqlite'
+import { join } from 'pathe'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const config: { embeddingModel?: string } = {}
+
+vi.mock('../../src/core/config.ts', () => ({
+  readConfig: () => ({ ...config }),
+}))
+
+const { isIndexModelStale, readIndexModel, removeSearchIndex, resolveEmbeddingModel, writeIndexModel } = await import('../../src/retriv/index-meta')
+
+describe('index model metadata', () => {
+  let dir: string
+  let dbPath: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'skilld-index-meta-'))
+    dbPath = join(dir, 'search.db')
+    delete config.embeddingModel
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('resolves the configured model or the default', () => {
+    expect(resolveEmbeddingModel()).toBe('default')
+    config.embeddingModel = 'Xenova/bge-small-en-v1.5'
+    expect(resolveEmbeddingModel()).toBe('Xenova/bge-small-en-v1.5')
+  })
+
+  it('returns null without an index and the default for legacy indexes', () => {
+    expect(readIndexModel(dbPath)).toBeNull()
+    new DatabaseSync(dbPath).close()
+    expect(readIndexModel(dbPath)).toBe('default')
+  })
+
+  it('round-trips the model and flags a mismatch as stale', () => {
+    writeIndexModel(dbPath, 'Xenova/bge-small-en-v1.5')
+    expect(readIndexModel(dbPath)).toBe('Xenova/bge-small-en-v1.5')
+    expect(isIndexModelStale(dbPath)).toBe(true)
+    config.embeddingModel = 'Xenova/bge-small-en-v1.5'
+    expect(isIndexModelStale(dbPath)).toBe(false)
+    expect(isIndexModelStale(join(dir, 'missing.db'))).toBe(false)
+  })
+
+  it('removes the index with its sidecar files', () => {
+    writeIndexModel(dbPath, 'default')
+    writeFileSync(`${dbPath}-wal`, '')
+    removeSearchIndex(dbPath)
+    expect(readIndexModel(dbPath)).toBeNull()
+  })
+})
@@ -0,0 +1,112 @@
+import { existsSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'pathe'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { isMigrationRange, migrationSection } from '../../src/agent/prompts/optional/migration'
+import { isVersionCachedSection } from '../../src/agent/prompts/optional/registry'
+import { buildAllSectionPrompts, getSectionValidator } from '../../src/agent/prompts/prompt'
+import { applyCachedSections } from '../../src/agent/skill-builder'
+
+vi.mock('../../src/cache/index.ts', async () => {
+  const actual = await vi.importActual<typeof import('../../src/cache/index.ts')>('../../src/cache/index.ts')
+  return {
+    ...actual,
+    // Every version-keyed section of the new version is already in the global cache
+    createReferenceCache: vi.fn(() => ({ readSection: (file: string) => `## ${file}\n\n- cached` })),
+    listReferenceFiles: vi.fn(() => []),
+  }
+})
+
+describe('isMigrationRange', () => {
+  it('only accepts major and minor bumps', () => {
+    expect(isMigrationRange('3.5.2', '4.0.0')).toBe(true)
+    expect(isMigrationRange('3.4.0', '3.5.1')).toBe(true)
+    expect(isMigrationRange('3.5.0', '4.0.0-beta.1')).toBe(true)
+    expect(isMigrationRange('3.5.0', '3.5.4')).toBe(false)
+    expect(isMigrationRange('3.5.0', '3.5.0')).toBe(false)
+    expect(isMigrationRange(undefined, '4.0.0')).toBe(false)
+    expect(isMigrationRange('main', '4.0.0')).toBe(false)
+  })
+})
+
+describe('migrationSection', () => {
+  it('skips fresh adds and patch updates', () => {
+    expect(migrationSection({ packageName: 'vue', version: '3.5.0' })).toBeNull()
+    expect(migrationSection({ packageName: 'vue', version: '3.5.1', previousVersion: '3.5.0' })).toBeNull()
+  })
+
+  it('scopes the task and format to the old → new range', () => {
+    const section = migrationSection({ packageName: 'vue', version: '3.5.0', previousVersion: '2.7.16', hasReleases: true, hasChangelog: 'CHANGELOG.md' })!
+    expect(section.task).toContain('from v2.7.16 to v3.5.0')
+    expect(section.format).toContain('## Migration (v2.7.16 → v3.5.0)')
+    expect(section.referenceWeights!.map(w => w.name)).toEqual(['Releases', 'Changelog'])
+    expect(section.rules).toContain('- Scan CHANGELOG.md between the v2.7.16 and v3.5.0 headings only')
+  })
+
+  it('only builds a prompt across major/minor updates and skips the version-keyed cache', () => {
+    const base = { packageName: 'vue', skillDir: '/tmp/skill', version: '3.5.0' }
+    expect([...buildAllSectionPrompts({ ...base, sections: ['api-changes', 'migration'] }).keys()]).toEqual(['api-changes'])
+    expect([...buildAllSectionPrompts({ ...base, previousVersion: '3.4.2', sections: ['api-changes', 'migration'] }).keys()]).toEqual(['api-changes', 'migration'])
+    expect(isVersionCachedSection('migration')).toBe(false)
+    expect(isVersionCachedSection('api-changes')).toBe(true)
+  })
+})
+
+describe('migration validator', () => {
+  const validate = getSectionValidator('migration')!
+
+  it('accepts a sourced before/after checklist', () => {
+    const content = [
+      '## Migration (v2.7.16 → v3.5.0)',
+      '',
+      '- [ ] Before: `new Vue()` → After: `createApp()` [source](./.skilld/docs/migration.md:L12)',
+      '- [ ] Before: `$listeners` → After: `$attrs` [source](./.skilld/releases/v3.0.0.md#removed)',
+      '- [ ] Before: `Vue.filter()` → After: computed or methods [source](./.skilld/docs/migration.md:L40)',
+    ].join('\n')
+    expect(validate(content)).toEqual([])
+  })
+
+  it('warns on missing heading and missing before/after pairs', () => {
+    const content = [
+      '- [ ] Replace `new Vue()` [source](./.skilld/docs/migration.md:L12)',
+      '- [ ] Drop `$listeners` [source](./.skilld/releases/v3.0.0.md)',
+      '- [ ] Before: `Vue.filter()` → After: computed [source](./.skilld/docs/migration.md:L40)',
+    ].join('\n')
+    expect(validate(content).map(w => w.warning)).toEqual([
+      'Only 1/3 checklist items have Before:/After: pairs',
+      'Missing required "## Migration" heading',
+    ])
+  })
+})
+
+describe('cached sections on update', () => {
+  let skillDir: string
+
+  beforeEach(() => {
+    skillDir = mkdtempSync(join(tmpdir(), 'skilld-migration-'))
+  })
+
+  afterEach(() => {
+    rmSync(skillDir, { recursive: true, force: true })
+  })
+
+  const ctx = () => ({
+    packageName: 'vue',
+    version: '4.0.0',
+    previousVersion: '3.5.2',
+    skillDir,
+    references: { docsType: 'readme' as const, hasShippedDocs: false, pkgFiles: [], hasIssues: false, hasDiscussions: false, hasReleases: true, hasChangelog: false as const },
+    resolved: {},
+    relatedSkills: [],
+  })
+
+  it('falls through to generation when the bump selects migration', () => {
+    expect(applyCachedSections(ctx(), ['api-changes', 'best-practices', 'migration'])).toBe(false)
+    expect(existsSync(join(skillDir, 'SKILL.md'))).toBe(false)
+  })
+
+  it('reuses the cache for patch updates', () => {
+    expect(applyCachedSections(ctx(), ['api-changes', 'best-practices'])).toBe(true)
+    expect(existsSync(join(skillDir, 'SKILL.md'))).toBe(true)
+  })
+})
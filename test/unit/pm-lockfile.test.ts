@@ -0,0 +1,250 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'pathe'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { clearPackageJsonCache } from '../../src/core/package-json'
+import { parseVersionSpecifier } from '../../src/sources/local-package'
+import {
+  findPmLockfile,
+  parsePnpmLock,
+  parseYarnLock,
+  resolveCatalogVersion,
+  resolveLockfileVersion,
+  resolveWorkspaceVersion,
+} from '../../src/sources/pm-lockfile'
+
+let root: string
+
+function write(path: string, content: string | object) {
+  const full = join(root, path)
+  mkdirSync(join(full, '..'), { recursive: true })
+  writeFileSync(full, typeof content === 'string' ? content : JSON.stringify(content, null, 2))
+}
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), 'skilld-pm-lock-'))
+  clearPackageJsonCache()
+})
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true })
+})
+
+describe('findPmLockfile', () => {
+  it('walks up to the workspace root lockfile', () => {
+    write('pnpm-lock.yaml', 'lockfileVersion: \'9.0\'\n')
+    mkdirSync(join(root, 'packages/app'), { recursive: true })
+
+    expect(findPmLockfile(join(root, 'packages/app'))).toEqual({
+      type: 'pnpm',
+      path: join(root, 'pnpm-lock.yaml'),
+      root,
+    })
+  })
+
+  it('returns null without a lockfile', () => {
+    expect(findPmLockfile(root)).toBeNull()
+  })
+})
+
+describe('pnpm-lock.yaml', () => {
+  const v9 = `lockfileVersion: '9.0'
+
+importers:
+
+  .:
+    dependencies:
+      vue:
+        specifier: catalog:
+        version: 3.4.21(typescript@5.4.2)
+      '@nuxt/kit':
+        specifier: ^3.11.0
+        version: 3.11.2(rollup@4.0.0)
+
+  packages/app:
+    dependencies:
+      vue:
+        specifier: ^3.3.0
+        version: 3.3.13
+      shared:
+        specifier: workspace:*
+        version: link:../shared
+
+packages:
+
+  vue@3.3.13:
+    resolution: {integrity: sha512-x}
+
+  vue@3.4.21:
+    resolution: {integrity: sha512-y}
+
+  defu@6.1.4:
+    resolution: {integrity: sha512-z}
+`
+
+  it('parses importers and packages, stripping peer suffixes', () => {
+    const lock = parsePnpmLock(v9)
+    expect(lock.importers.get('.')?.get('vue')).toBe('3.4.21')
+    expect(lock.importers.get('.')?.get('@nuxt/kit')).toBe('3.11.2')
+    expect(lock.packages.get('vue')).toEqual(['3.3.13', '3.4.21'])
+  })
+
+  it('scopes lookups to the importer for cwd', () => {
+    write('pnpm-lock.yaml', v9)
+    write('packages/shared/package.json', { name: 'shared', version: '2.1.0' })
+    mkdirSync(join(root, 'packages/app'), { recursive: true })
+
+    expect(resolveLockfileVersion('vue', root)).toBe('3.4.21')
+    expect(resolveLockfileVersion('vue', join(root, 'packages/app'))).toBe('3.3.13')
+    expect(resolveLockfileVersion('shared', join(root, 'packages/app'))).toBe('2.1.0')
+    // Transitive-only packages fall back to the packages: section
+    expect(resolveLockfileVersion('defu', root)).toBe('6.1.4')
+  })
+
+  it('reads v5 inline versions', () => {
+    const lock = parsePnpmLock(`lockfileVersion: 5.4
+
+dependencies:
+  vue: 3.2.47
+  '@vueuse/core': 9.13.0_vue@3.2.47
+
+packages:
+
+  /vue/3.2.47:
+    resolution: {integrity: sha512-x}
+`)
+    expect(lock.importers.get('.')?.get('vue')).toBe('3.2.47')
+    expect(lock.importers.get('.')?.get('@vueuse/core')).toBe('9.13.0')
+    expect(lock.packages.get('vue')).toEqual(['3.2.47'])
+  })
+})
+
+describe('package-lock.json', () => {
+  it('reads hoisted, workspace-nested and linked entries', () => {
+    write('package-lock.json', {
+      lockfileVersion: 3,
+      packages: {
+        '': { name: 'root' },
+        'node_modules/vue': { version: '3.4.21' },
+        'packages/app/node_modules/vue': { version: '3.3.13' },
+        'node_modules/shared': { link: true, resolved: 'packages/shared' },
+        'packages/shared': { name: 'shared', version: '2.1.0' },
+      },
+    })
+    mkdirSync(join(root, 'packages/app'), { recursive: true })
+
+    expect(resolveLockfileVersion('vue', root)).toBe('3.4.21')
+    expect(resolveLockfileVersion('vue', join(root, 'packages/app'))).toBe('3.3.13')
+    expect(resolveLockfileVersion('shared', root)).toBe('2.1.0')
+  })
+
+  it('reads lockfileVersion 1 dependencies', () => {
+    write('package-lock.json', { lockfileVersion: 1, dependencies: { vue: { version: '2.7.16' } } })
+    expect(resolveLockfileVersion('vue', root)).toBe('2.7.16')
+  })
+})
+
+describe('yarn.lock', () => {
+  it('parses classic entries and matches by specifier', () => {
+    write('yarn.lock', `# yarn lockfile v1
+
+
+"@vue/shared@^3.3.0", "@vue/shared@^3.4.0":
+  version "3.4.21"
+  resolved "https://registry.yarnpkg.com/@vue/shared/-/shared-3.4.21.tgz"
+
+vue@^2.6.0:
+  version "2.6.14"
+
+vue@^3.4.0:
+  version "3.4.21"
+`)
+    expect(resolveLockfileVersion('@vue/shared', root, '^3.3.0')).toBe('3.4.21')
+    expect(resolveLockfileVersion('vue', root, '^2.6.0')).toBe('2.6.14')
+    // No specifier → newest locked version
+    expect(resolveLockfileVersion('vue', root)).toBe('3.4.21')
+  })
+
+  it('parses berry entries and skips workspace placeholders', () => {
+    const entries = parseYarnLock(`__metadata:
+  version: 8
+
+"app@workspace:.":
+  version: 0.0.0-use.local
+
+"vue@npm:^3.4.0":
+  version: 3.4.21
+  resolution: "vue@npm:3.4.21"
+`)
+    expect(entries).toEqual([
+      { descriptors: ['app@workspace:.'], version: '0.0.0-use.local' },
+      { descriptors: ['vue@npm:^3.4.0'], version: '3.4.21' },
+    ])
+
+    write('yarn.lock', `"vue@npm:^3.4.0":\n  version: 3.4.21\n`)
+    expect(resolveLockfileVersion('vue', root, '^3.4.0')).toBe('3.4.21')
+  })
+})
+
+describe('bun.lock', () => {
+  it('reads package tuples (JSONC with trailing commas)', () => {
+    write('bun.lock', `{
+  "lockfileVersion": 1,
+  "workspaces": {
+    "": { "name": "app", "dependencies": { "vue": "^3.4.0", "shared": "workspace:*" } },
+  },
+  "packages": {
+    "vue": ["vue@3.4.21", "", {}, "sha512-x"],
+    "@vue/shared": ["@vue/shared@3.4.21", "", {}, "sha512-y"],
+    "shared": ["shared@workspace:packages/shared"],
+  },
+}
+`)
+    write('packages/shared/package.json', { name: 'shared', version: '2.1.0' })
+
+    expect(resolveLockfileVersion('vue', root)).toBe('3.4.21')
+    expect(resolveLockfileVersion('@vue/shared', root)).toBe('3.4.21')
+    expect(resolveLockfileVersion('shared', root)).toBe('2.1.0')
+  })
+})
+
+describe('catalog: and workspace: specifiers', () => {
+  it('resolves catalogs from pnpm-workspace.yaml without a lockfile', () => {
+    write('pnpm-workspace.yaml', `packages:
+  - packages/*
+
+catalog:
+  vue: ^3.4.0
+
+catalogs:
+  deps:
+    defu: ~6.1.0
+`)
+    expect(resolveCatalogVersion('vue', 'catalog:', root)).toBe('3.4.0')
+    expect(resolveCatalogVersion('defu', 'catalog:deps', root)).toBe('6.1.0')
+    expect(resolveCatalogVersion('missing', 'catalog:deps', root)).toBeNull()
+  })
+
+  it('resolves workspace siblings by scanning workspace patterns', () => {
+    write('package.json', { name: 'root', private: true, workspaces: ['packages/*'] })
+    write('packages/shared/package.json', { name: 'shared', version: '2.1.0', private: true })
+    mkdirSync(join(root, 'packages/app'), { recursive: true })
+
+    expect(resolveWorkspaceVersion('shared', join(root, 'packages/app'))).toBe('2.1.0')
+  })
+
+  it('parseVersionSpecifier prefers the locked version over the catalog range', () => {
+    write('pnpm-workspace.yaml', 'catalog:\n  vue: ^3.4.0\n')
+    write('pnpm-lock.yaml', `lockfileVersion: '9.0'
+
+importers:
+
+  .:
+    dependencies:
+      vue:
+        specifier: 'catalog:'
+        version: 3.4.21
+`)
+    expect(parseVersionSpecifier('vue', 'catalog:', root)).toEqual({ name: 'vue', version: '3.4.21' })
+  })
+})
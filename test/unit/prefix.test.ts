@@ -82,6 +82,50 @@ describe('prefix parser', () => {
     })
   })
 
+  describe('pypi: prefix', () => {
+    it('parses project name', () => {
+      expect(parseSkillInput('pypi:requests')).toEqual({
+        type: 'pypi',
+        package: 'requests',
+        version: undefined,
+      })
+    })
+
+    it('parses project name with version', () => {
+      expect(parseSkillInput('pypi:requests@2.32.3')).toEqual({
+        type: 'pypi',
+        package: 'requests',
+        version: '2.32.3',
+      })
+    })
+
+    it('normalizes project name per PEP 503', () => {
+      expect(parseSkillInput('pypi:Typing_Extensions')).toEqual({
+        type: 'pypi',
+        package: 'typing-extensions',
+        version: undefined,
+      })
+    })
+  })
+
+  describe('go: prefix', () => {
+    it('parses module path', () => {
+      expect(parseSkillInput('go:github.com/gin-gonic/gin')).toEqual({
+        type: 'go',
+        package: 'github.com/gin-gonic/gin',
+        version: undefined,
+      })
+    })
+
+    it('parses module path with version and keeps case', () => {
+      expect(parseSkillInput('go:github.com/BurntSushi/toml@v1.4.0')).toEqual({
+        type: 'go',
+        package: 'github.com/BurntSushi/toml',
+        version: 'v1.4.0',
+      })
+    })
+  })
+
   describe('@ prefix (curator and scoped npm)', () => {
     it('parses @handle as curator', () => {
       expect(parseSkillInput('@antfu')).toEqual({
@@ -185,5 +229,13 @@ describe('prefix parser', () => {
     it('returns crate:<name> for crate inputs', () => {
       expect(resolveSkillName('crate:serde')).toBe('crate:serde')
     })
+
+    it('returns pypi:<name> for pypi inputs', () => {
+      expect(resolveSkillName('pypi:Flask')).toBe('pypi:flask')
+    })
+
+    it('returns go:<module> for go inputs', () => {
+      expect(resolveSkillName('go:golang.org/x/sync@v0.7.0')).toBe('go:golang.org/x/sync')
+    })
   })
 })
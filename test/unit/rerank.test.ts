@@ -0,0 +1,41 @@
+import type { SearchSnippet } from '../../src/retriv/types'
+import { describe, expect, it, vi } from 'vitest'
+
+const from_pretrained = vi.fn()
+
+vi.mock('@huggingface/transformers', () => ({
+  AutoTokenizer: { from_pretrained: async () => (queries: string[], { text_pair }: { text_pair: string[] }) => ({ queries, text_pair }) },
+  AutoModelForSequenceClassification: {
+    from_pretrained: async (model: string) => {
+      from_pretrained(model)
+      // Logit = passage length, so longer passages rank higher
+      return async ({ text_pair }: { text_pair: string[] }) => ({ logits: { tolist: () => text_pair.map(t => [t.length - 5]) } })
+    },
+  },
+}))
+
+const { rerankSnippets } = await import('../../src/retriv/rerank')
+
+function snippet(content: string, score: number): SearchSnippet {
+  return { package: 'pkg', source: 'docs/a.md', lineStart: 1, lineEnd: 1, content, score, highlights: [] }
+}
+
+describe('rerankSnippets', () => {
+  it('reorders by cross-encoder score and slices to limit', async () => {
+    const results = await rerankSnippets('query', [snippet('a', 9), snippet('abcdefghij', 0.1), snippet('abcde', 5)], { limit: 2 })
+    expect(results.map(r => r.content)).toEqual(['abcdefghij', 'abcde'])
+    expect(results[0]!.score).toBeCloseTo(1 / (1 + Math.exp(-5)))
+    expect(results[1]!.score).toBeCloseTo(0.5)
+  })
+
+  it('loads the model once per process', async () => {
+    await rerankSnippets('q', [snippet('a', 1), snippet('b', 2)])
+    expect(from_pretrained).toHaveBeenCalledTimes(1)
+  })
+
+  it('skips the model for a single candidate', async () => {
+    const single = [snippet('only', 1)]
+    expect(await rerankSnippets('q', single, { model: 'other/model' })).toEqual(single)
+    expect(from_pretrained).toHaveBeenCalledTimes(1)
+  })
+})
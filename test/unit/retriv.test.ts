@@ -1,5 +1,8 @@
-import { describe, expect, it } from 'vitest'
-import { SearchDepsUnavailableError } from '../../src/retriv/index'
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'pathe'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createLivePool, SearchDepsUnavailableError } from '../../src/retriv/index'
 
 describe('searchDepsUnavailableError', () => {
   it('wraps ERR_MODULE_NOT_FOUND with descriptive message', () => {
@@ -16,3 +19,62 @@ describe('searchDepsUnavailableError', () => {
     expect(err).toBeInstanceOf(SearchDepsUnavailableError)
   })
 })
+
+describe('createLivePool', () => {
+  let dir: string
+  let dbPath: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'skilld-pool-'))
+    dbPath = join(dir, 'search.db')
+    writeFileSync(dbPath, '')
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  function fakeOpen() {
+    const opened: Array<{ close: ReturnType<typeof vi.fn> }> = []
+    const open = vi.fn(async () => {
+      await new Promise(resolve => setTimeout(resolve, 5))
+      const db = { close: vi.fn(async () => {}) }
+      opened.push(db)
+      return db as any
+    })
+    return { open, opened }
+  }
+
+  it('opens a DB once for concurrent searches', async () => {
+    const { open, opened } = fakeOpen()
+    const pool = createLivePool(open)
+    const [a, b] = await Promise.all([
+      pool.use([dbPath], async p => p.get(dbPath)),
+      pool.use([dbPath], async p => p.get(dbPath)),
+    ])
+    expect(open).toHaveBeenCalledTimes(1)
+    expect(a).toBe(b)
+    await pool.close()
+    expect(opened[0]!.close).toHaveBeenCalledTimes(1)
+  })
+
+  it('keeps a reloaded DB open until in-flight searches finish', async () => {
+    const { open, opened } = fakeOpen()
+    const pool = createLivePool(open)
+    let finish!: () => void
+    const inFlight = pool.use([dbPath], p => new Promise<unknown>((resolve) => {
+      finish = () => resolve(p.get(dbPath))
+    }))
+    await vi.waitFor(() => expect(finish).toBeDefined())
+
+    utimesSync(dbPath, new Date(), new Date(Date.now() + 60_000))
+    const fresh = await pool.use([dbPath], async p => p.get(dbPath))
+    expect(fresh).toBe(opened[1])
+    expect(opened[0]!.close).not.toHaveBeenCalled()
+
+    finish()
+    expect(await inFlight).toBe(opened[0])
+    expect(opened[0]!.close).toHaveBeenCalledTimes(1)
+    expect(opened[1]!.close).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,134 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'pathe'
+import { afterAll, describe, expect, it, vi } from 'vitest'
+
+const { refsDir } = vi.hoisted(() => ({ refsDir: { path: '' } }))
+
+vi.mock('../../src/agent/index.ts', () => ({ agents: {}, detectTargetAgent: () => null }))
+vi.mock('../../src/cache/index.ts', () => ({
+  get REFERENCES_DIR() { return refsDir.path },
+  getPackageDbPath: (name: string, version: string) => join(refsDir.path, `${name}@${version}`, 'search.db'),
+}))
+
+const { expandSnippetContext, findAllPackageDbs, findPackageVersionDbs, findVersionExclusiveSnippets, listCachedPackageDbs } = await import('../../src/commands/search-helpers')
+
+refsDir.path = mkdtempSync(join(tmpdir(), 'skilld-refs-'))
+for (const dir of ['vue@3.4.0', 'vue@3.5.1', 'vue@2.7.16', '@vue/shared@3.5.1', 'pinia@2.1.0', 'vite-plugin@main', 'vite-plugin@1.0.0', 'edge@canary', 'edge@main'])
+  mkdirSync(join(refsDir.path, dir), { recursive: true })
+for (const dir of ['vue@3.4.0', 'vue@3.5.1', 'vue@2.7.16', '@vue/shared@3.5.1', 'vite-plugin@main', 'vite-plugin@1.0.0', 'edge@canary', 'edge@main'])
+  writeFileSync(join(refsDir.path, dir, 'search.db'), '')
+mkdirSync(join(refsDir.path, 'vue@3.4.0', 'docs'))
+mkdirSync(join(refsDir.path, 'vue@3.5.1', 'docs'))
+writeFileSync(join(refsDir.path, 'vue@3.4.0', 'docs', 'api.md'), '# API\n\nUse `ref()` for state.\n\nUse  reactivity transform.\n')
+writeFileSync(join(refsDir.path, 'vue@3.5.1', 'docs', 'api.md'), '# API\n\nUse `ref()`\nfor state.\n\nUse `defineModel()` for v-model.\n')
+// Issues for packages with a GitHub repo live in the repo cache, not next to search.db
+const repoDir = join(refsDir.path, '_repos', 'vuejs', 'core')
+mkdirSync(join(repoDir, 'issues'), { recursive: true })
+writeFileSync(join(repoDir, 'issues', 'issue-12.md'), '# ref() loses reactivity\n\nSteps:\n\n1. Destructure a ref\n')
+
+afterAll(() => rmSync(refsDir.path, { recursive: true, force: true }))
+
+describe('listCachedPackageDbs', () => {
+  it('lists indexed versions including scoped packages', () => {
+    const found = listCachedPackageDbs().map(d => `${d.name}@${d.version}`).sort()
+    expect(found).toEqual(['@vue/shared@3.5.1', 'edge@canary', 'edge@main', 'vite-plugin@1.0.0', 'vite-plugin@main', 'vue@2.7.16', 'vue@3.4.0', 'vue@3.5.1'])
+  })
+})
+
+describe('findAllPackageDbs', () => {
+  it('keeps the newest version per package', () => {
+    expect(findAllPackageDbs().map(d => `${d.name}@${d.version}`)).toEqual(['@vue/shared@3.5.1', 'edge@main', 'vite-plugin@1.0.0', 'vue@3.5.1'])
+  })
+
+  it('ranks non-semver cache names below releases', () => {
+    expect(findAllPackageDbs('vite-plugin').map(d => d.version)).toEqual(['1.0.0'])
+    expect(findAllPackageDbs('edge').map(d => d.version)).toEqual(['main'])
+  })
+
+  it('applies the package filter', () => {
+    expect(findAllPackageDbs('shared').map(d => d.name)).toEqual(['@vue/shared'])
+  })
+
+  it('picks the newest version matching a selector', () => {
+    expect(findAllPackageDbs('vue', '3.4').map(d => `${d.name}@${d.version}`)).toEqual(['vue@3.4.0'])
+    expect(findAllPackageDbs('vue', '2').map(d => d.dbPath)).toEqual([join(refsDir.path, 'vue@2.7.16', 'search.db')])
+    expect(findAllPackageDbs('vue', '^4')).toEqual([])
+  })
+})
+
+describe('findPackageVersionDbs', () => {
+  it('resolves one index per selector and reports missing ones', () => {
+    const { dbs, missing } = findPackageVersionDbs('vue', ['3.4', '3.5', '4'])
+    expect(dbs.map(d => `${d.name}@${d.version}`)).toEqual(['vue@3.4.0', 'vue@3.5.1'])
+    expect(missing).toEqual(['4'])
+  })
+
+  it('does not repeat an index matched by several selectors', () => {
+    expect(findPackageVersionDbs('vue', ['3', '3.5']).dbs).toHaveLength(1)
+  })
+})
+
+describe('findVersionExclusiveSnippets', () => {
+  const snippet = (lineStart: number, lineEnd: number, content = '') => ({
+    package: 'vue',
+    source: 'docs/api.md',
+    lineStart,
+    lineEnd,
+    content,
+    score: 1,
+    highlights: [],
+  })
+
+  it('flags chunks missing from the other version, ignoring whitespace changes', () => {
+    const { dbs } = findPackageVersionDbs('vue', ['3.4', '3.5'])
+    const [v34, v35] = dbs as [typeof dbs[number], typeof dbs[number]]
+    const shared = snippet(3, 3)
+    const removed = snippet(5, 5)
+    const added = snippet(6, 6)
+    const exclusive = findVersionExclusiveSnippets([
+      { snippet: shared, db: v34 },
+      { snippet: removed, db: v34 },
+      { snippet: added, db: v35 },
+    ], dbs)
+    expect(exclusive.has(shared)).toBe(false)
+    expect(exclusive.has(removed)).toBe(true)
+    expect(exclusive.has(added)).toBe(true)
+  })
+
+  it('never flags issues shared by the compared versions', () => {
+    const { dbs } = findPackageVersionDbs('vue', ['3.4', '3.5'])
+    const issue = (content: string) => ({ ...snippet(1, 1, content), source: 'issues/issue-12.md' })
+    const hits = [{ snippet: issue('# ref() loses reactivity'), db: dbs[0]! }, { snippet: issue('# ref() loses reactivity'), db: dbs[1]! }]
+    expect(findVersionExclusiveSnippets(hits, dbs).size).toBe(0)
+  })
+
+  it('never flags when only one version is compared', () => {
+    const { dbs } = findPackageVersionDbs('vue', ['3.5'])
+    expect(findVersionExclusiveSnippets([{ snippet: snippet(6, 6), db: dbs[0]! }], dbs).size).toBe(0)
+  })
+})
+
+describe('expandSnippetContext', () => {
+  const refDir = () => join(refsDir.path, 'vue@3.5.1')
+  const snippet = { package: 'vue', source: 'docs/api.md', lineStart: 3, lineEnd: 4, content: 'Use `ref()`\nfor state.', score: 0.5, highlights: [] }
+
+  it('widens the line range from the cached file, clamped to its bounds', () => {
+    expect(expandSnippetContext(snippet, refDir(), 2)).toMatchObject({
+      lineStart: 1,
+      lineEnd: 6,
+      content: '# API\n\nUse `ref()`\nfor state.\n\nUse `defineModel()` for v-model.',
+    })
+  })
+
+  it('reads issues from the repo cache dir', () => {
+    const issue = { ...snippet, source: 'issues/issue-12.md', lineStart: 3, lineEnd: 3, content: 'Steps:' }
+    expect(expandSnippetContext(issue, refDir(), 2)).toBe(issue)
+    expect(expandSnippetContext(issue, refDir(), 2, repoDir)).toMatchObject({ lineStart: 1, lineEnd: 5, content: '# ref() loses reactivity\n\nSteps:\n\n1. Destructure a ref' })
+  })
+
+  it('returns the snippet unchanged when the file is missing or escapes the reference dir', () => {
+    expect(expandSnippetContext({ ...snippet, source: 'docs/missing.md' }, refDir(), 2)).toMatchObject({ lineStart: 3, lineEnd: 4 })
+    expect(expandSnippetContext({ ...snippet, source: '../vue@3.4.0/docs/api.md' }, refDir(), 2)).toMatchObject({ lineStart: 3, lineEnd: 4 })
+  })
+})
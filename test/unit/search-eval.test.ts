@@ -0,0 +1,103 @@
+import type { SearchSnippet } from '../../src/retriv/types'
+import { readFileSync } from 'node:fs'
+import { join } from 'pathe'
+import { describe, expect, it } from 'vitest'
+import { loadFixtureDocuments, mergeDbResults, parseExpectedHit, parseGoldenQueries, runSearchEval, scoreQuery } from '../../src/retriv/eval'
+
+const FIXTURES = join(__dirname, '../fixtures/search-eval')
+
+function snippet(source: string, lineStart = 1, lineEnd = 10, score = 1): SearchSnippet {
+  return { package: 'vue', source, lineStart, lineEnd, content: '', score, highlights: [] }
+}
+
+describe('parseGoldenQueries', () => {
+  it('reads k, queries, packages and expectations', () => {
+    const golden = parseGoldenQueries(readFileSync(join(FIXTURES, 'golden.yaml'), 'utf-8'))
+    expect(golden.k).toBe(5)
+    expect(golden.queries).toHaveLength(6)
+    expect(golden.queries[0]).toEqual({
+      query: 'declare reactive state with ref',
+      package: 'vue',
+      expect: [{ source: 'docs/guide/reactivity.md', lineStart: 3, lineEnd: 13 }],
+    })
+    expect(golden.queries[5]!.package).toBeUndefined()
+    expect(golden.queries[5]!.expect.map(e => e.source)).toEqual(['docs/getters.md', 'docs/guide/computed.md'])
+  })
+
+  it('drops queries without expectations', () => {
+    expect(parseGoldenQueries('queries:\n  - query: "a: b"\n').queries).toEqual([])
+  })
+
+  it('parses line suffixes', () => {
+    expect(parseExpectedHit('docs/a.md:L7')).toEqual({ source: 'docs/a.md', lineStart: 7, lineEnd: 7 })
+    expect(parseExpectedHit('docs/a.md:Lx')).toEqual({ source: 'docs/a.md:Lx' })
+  })
+})
+
+describe('scoreQuery', () => {
+  it('computes recall, reciprocal rank and nDCG', () => {
+    const results = [snippet('docs/x.md'), snippet('docs/b.md'), snippet('docs/a.md')]
+    const scored = scoreQuery(results, [{ source: 'docs/a.md' }, { source: 'docs/b.md' }, { source: 'docs/c.md' }], 5)
+    expect(scored.recall).toBeCloseTo(2 / 3)
+    expect(scored.reciprocalRank).toBe(0.5)
+    // DCG = 1/log2(3) + 1/log2(4); IDCG = 1 + 1/log2(3) + 1/log2(4)
+    expect(scored.ndcg).toBeCloseTo((1 / Math.log2(3) + 0.5) / (1 + 1 / Math.log2(3) + 0.5))
+    expect(scored.ranks).toEqual([
+      { expected: 'docs/a.md', rank: 3 },
+      { expected: 'docs/b.md', rank: 2 },
+      { expected: 'docs/c.md', rank: null },
+    ])
+  })
+
+  it('requires overlapping lines and respects k', () => {
+    const hit = [{ source: 'docs/a.md', lineStart: 20, lineEnd: 30 }]
+    expect(scoreQuery([snippet('docs/a.md', 1, 10)], hit, 5).recall).toBe(0)
+    expect(scoreQuery([snippet('docs/a.md', 25, 40)], hit, 5).recall).toBe(1)
+    expect(scoreQuery([snippet('docs/x.md'), snippet('docs/a.md', 25, 40)], hit, 1).recall).toBe(0)
+  })
+})
+
+describe('runSearchEval', () => {
+  it('merges results across DBs and averages metrics', async () => {
+    const golden = { k: 3, queries: [
+      { query: 'ref', package: 'vue', expect: [{ source: 'docs/a.md' }] },
+      { query: 'store', expect: [{ source: 'docs/b.md' }] },
+    ] }
+    const report = await runSearchEval(golden, {
+      resolveDbs: pkg => pkg ? ['vue.db'] : ['vue.db', 'pinia.db'],
+      search: async (query, { dbPath }) => dbPath === 'vue.db'
+        ? (query === 'ref' ? [snippet('docs/a.md', 1, 10, 0.9)] : [])
+        : [snippet('docs/b.md', 1, 10, 0.5)],
+    })
+    expect(report.k).toBe(3)
+    expect(report.summary).toEqual({ queries: 2, recall: 1, mrr: 1, ndcg: 1 })
+  })
+
+  it('ranks by scores normalized per DB, not raw scores', async () => {
+    const golden = { k: 3, queries: [{ query: 'store', expect: [{ source: 'docs/d.md' }] }] }
+    const report = await runSearchEval(golden, {
+      resolveDbs: () => ['vue.db', 'pinia.db'],
+      search: async (_query, { dbPath }) => dbPath === 'vue.db'
+        ? [snippet('docs/a.md', 1, 10, 0.9), snippet('docs/c.md', 1, 10, 0.3)]
+        : [snippet('docs/b.md', 1, 10, 0.05), snippet('docs/d.md', 1, 10, 0.04)],
+    })
+    expect(report.queries[0]!.ranks).toEqual([{ expected: 'docs/d.md', rank: 3 }])
+  })
+})
+
+describe('mergeDbResults', () => {
+  it('scales each DB against its own top hit', () => {
+    const merged = mergeDbResults([[snippet('docs/a.md', 1, 10, 8), snippet('docs/c.md', 1, 10, 2)], [snippet('docs/b.md', 1, 10, 0.5)]])
+    expect(merged.map(r => [r.source, r.score])).toEqual([['docs/a.md', 1], ['docs/b.md', 1], ['docs/c.md', 0.25]])
+  })
+})
+
+describe('loadFixtureDocuments', () => {
+  it('reads one package per directory with classified sources', () => {
+    const packages = loadFixtureDocuments(join(FIXTURES, 'packages'))
+    expect([...packages.keys()].sort()).toEqual(['pinia', 'vue'])
+    const pinia = packages.get('pinia')!
+    expect(pinia.map(d => d.id)).toEqual(['docs/getters.md', 'docs/stores.md', 'issues/issue-12.md'])
+    expect(pinia[2]!.metadata).toEqual({ package: 'pinia', source: 'issues/issue-12.md', type: 'issue', number: 12 })
+  })
+})
@@ -1,8 +1,13 @@
 import type { SearchSnippet } from '../../src/retriv/types'
-import { describe, expect, it } from 'vitest'
-import { generateSearchGuide, parseFilterPrefix, parseJsonFilter } from '../../src/commands/search'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { generateSearchGuide, parseFilterPrefix, parseJsonFilter, searchCommand, symbolSearchCommand } from '../../src/commands/search'
 import { normalizeScores, scoreLabel } from '../../src/core/formatting'
 
+vi.mock('../../src/commands/search-helpers', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/commands/search-helpers')>()
+  return { ...actual, findPackageDbs: () => [], listLockPackages: () => [] }
+})
+
 function snippet(overrides: Partial<SearchSnippet> = {}): SearchSnippet {
   return {
     package: 'test-pkg',
@@ -201,3 +206,22 @@ describe('scoreLabel', () => {
     expect(scoreLabel(20)).toContain('20%')
   })
 })
+
+describe('structured output without an index', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+    process.exitCode = undefined
+  })
+
+  it('prints an error document and exits non-zero', async () => {
+    const write = vi.spyOn(process.stdout, 'write').mockReturnValue(true)
+    vi.spyOn(process.stderr, 'write').mockReturnValue(true)
+
+    await searchCommand('useFetch', { packageFilter: 'nuxt', format: 'json' })
+    expect(JSON.parse(write.mock.calls[0]![0] as string)).toEqual({ query: 'useFetch', results: [], error: 'no-index' })
+    expect(process.exitCode).toBe(1)
+
+    await symbolSearchCommand('useFetch', { format: 'ndjson' })
+    expect(write.mock.calls[1]![0]).toBe('{"error":"no-index"}\n')
+  })
+})
@@ -0,0 +1,130 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'pathe'
+import { afterEach, describe, expect, it } from 'vitest'
+import { getRegisteredSections, getSectionModule, isPluginSection, isVersionCachedSection, registerProjectSections, registerSection, SECTION_MERGE_ORDER, SECTION_OUTPUT_FILES } from '../../src/agent/prompts/optional/registry'
+import { buildAllSectionPrompts, extractMarkedSections, getSectionValidator, wrapSection } from '../../src/agent/prompts/prompt'
+import { parseProjectSections, readProjectConfig } from '../../src/core/project-config'
+
+const testing = { id: 'testing-patterns', heading: 'Testing Patterns', prompt: 'How we test code using this package.' }
+
+describe('parseProjectSections', () => {
+  it('fills defaults', () => {
+    expect(parseProjectSections([testing])).toEqual({
+      sections: [{ ...testing, outputFile: '_TESTING_PATTERNS.md', maxLines: undefined, maxItems: undefined, after: undefined, default: true, validate: undefined }],
+      errors: [],
+    })
+  })
+
+  it('reports and drops invalid entries, keeping the rest', () => {
+    const { sections, errors } = parseProjectSections([
+      { id: 'SSR Gotchas', heading: 'SSR', prompt: 'x' },
+      { id: 'conventions', heading: 'Our Conventions', prompt: '', maxLines: 0 },
+      { id: 'bad-regex', heading: 'Bad', prompt: 'x', validate: { forbid: ['('] } },
+      testing,
+      testing,
+    ])
+    expect(sections.map(s => s.id)).toEqual(['testing-patterns'])
+    expect(errors).toEqual([
+      'sections["SSR Gotchas"].id must be kebab-case (e.g. "testing-patterns")',
+      'sections["conventions"].prompt is required',
+      'sections["conventions"].maxLines must be a positive integer',
+      expect.stringContaining('sections["bad-regex"].validate.forbid: invalid pattern "("'),
+      'sections["testing-patterns"] is declared more than once',
+    ])
+    expect(parseProjectSections({}).errors).toEqual(['"sections" must be an array'])
+  })
+})
+
+describe('readProjectConfig', () => {
+  let root: string
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  it('finds the nearest config above cwd and accepts comments', () => {
+    root = mkdtempSync(join(tmpdir(), 'skilld-project-config-'))
+    const skilldDir = join(root, '.claude/skills/vue/.skilld')
+    mkdirSync(skilldDir, { recursive: true })
+    writeFileSync(join(root, 'skilld.config.json'), `{
+      // house sections
+      "sections": [${JSON.stringify(testing)},],
+    }`)
+    const config = readProjectConfig(skilldDir)!
+    expect(config.path).toBe(join(root, 'skilld.config.json'))
+    expect(config.sections.map(s => s.id)).toEqual(['testing-patterns'])
+    expect(config.errors).toEqual([])
+  })
+})
+
+describe('registerProjectSections', () => {
+  let unregister: (() => void) | undefined
+
+  afterEach(() => {
+    unregister?.()
+    unregister = undefined
+  })
+
+  it('merges before custom by default or after the given section', () => {
+    const { sections } = parseProjectSections([testing, { id: 'ssr-gotchas', heading: 'SSR Gotchas', prompt: 'x', after: 'api-changes', default: false }])
+    const result = registerProjectSections(sections)
+    unregister = result.unregister
+    expect(result).toMatchObject({ registered: ['testing-patterns', 'ssr-gotchas'], errors: [] })
+    expect(SECTION_MERGE_ORDER).toEqual(['api-changes', 'ssr-gotchas', 'migration', 'deprecations', 'best-practices', 'testing-patterns', 'custom'])
+    expect(SECTION_OUTPUT_FILES['testing-patterns']).toBe('_TESTING_PATTERNS.md')
+    expect(getRegisteredSections().map(s => [s.id, s.selectedByDefault])).toEqual([['ssr-gotchas', false], ['testing-patterns', true]])
+
+    unregister()
+    unregister = undefined
+    expect(SECTION_MERGE_ORDER).not.toContain('testing-patterns')
+    expect(SECTION_OUTPUT_FILES['testing-patterns']).toBeUndefined()
+  })
+
+  it('keeps house sections out of the version-keyed references cache', () => {
+    unregister = registerProjectSections(parseProjectSections([testing]).sections).unregister
+    expect(isPluginSection('testing-patterns')).toBe(true)
+    expect(isVersionCachedSection('testing-patterns')).toBe(false)
+    expect(isPluginSection('best-practices')).toBe(false)
+    expect(isVersionCachedSection('best-practices')).toBe(true)
+  })
+
+  it('rejects clashes with existing sections', () => {
+    const result = registerProjectSections([
+      { ...testing, id: 'best-practices', outputFile: '_BP.md' },
+      { ...testing, outputFile: '_API_CHANGES.md' },
+      { ...testing, after: 'nope', outputFile: '_T.md' },
+    ])
+    unregister = result.unregister
+    expect(result.registered).toEqual([])
+    expect(result.errors).toEqual([
+      'sections["best-practices"]: Section "best-practices" already exists',
+      'sections["testing-patterns"]: Output file _API_CHANGES.md is already used by "api-changes"',
+      'sections["testing-patterns"]: Unknown section "nope" in "after"',
+    ])
+    expect(() => registerSection({ id: 'custom', outputFile: '_X.md', build: () => null })).toThrow('already exists')
+  })
+
+  it('builds prompts, validators and markers like built-ins', () => {
+    const { sections } = parseProjectSections([{ ...testing, maxLines: 40, validate: { require: ['vitest'], forbid: ['jest'] } }])
+    unregister = registerProjectSections(sections).unregister
+
+    const prompts = buildAllSectionPrompts({ packageName: 'vue', skillDir: '/tmp/skill', sections: ['best-practices', 'testing-patterns'] })
+    const prompt = prompts.get('testing-patterns')!
+    expect(prompt).toContain('How we test code using this package.')
+    expect(prompt).toContain('use `## Testing Patterns` heading')
+    expect(prompt).toContain('/tmp/skill/.skilld/_TESTING_PATTERNS.md')
+    expect(getSectionModule('testing-patterns')?.heading).toBe('Testing Patterns')
+
+    const validate = getSectionValidator('testing-patterns')!
+    expect(validate('## Testing Patterns\n\nUse vitest with `mount()`\n[source](./.skilld/docs/testing.md:L3)')).toEqual([])
+    expect(validate('Use jest\n\nmore\nlines').map(w => w.warning)).toEqual([
+      'Output must match /vitest/',
+      'Output must not match /jest/',
+      'Missing required "## Testing Patterns" heading',
+    ])
+
+    const md = `${wrapSection('best-practices', 'bp')}\n\n${wrapSection('testing-patterns', 'tp')}`
+    expect([...extractMarkedSections(md).keys()]).toEqual(['best-practices', 'testing-patterns'])
+  })
+})
@@ -0,0 +1,177 @@
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'pathe'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { wrapSection } from '../../src/agent/prompts/prompt'
+import { diffSection, formatReviewFile, mergeSectionReview, parseReviewFile, readMarkedSections, replaceMarkedSections, reviewSections, splitSectionItems } from '../../src/agent/section-review'
+import { applyPendingReview, collectReviewTargets, pendingReviewSkills, reviewSkillUpdates } from '../../src/commands/sync/review'
+
+const OLD = `## Best Practices
+
+- Use \`createApp()\` per request in SSR — a shared instance leaks state [source](./.skilld/docs/ssr.md#state)
+
+- Prefer \`shallowRef()\` for large immutable data — skips deep reactivity [source](./.skilld/docs/reactivity.md:L40)
+
+- Our team always wraps stores in \`useStore()\` helpers`
+
+const NEW = `## Best Practices
+
+- Use \`createApp()\` per request in SSR — a shared instance leaks state [source](./.skilld/docs/ssr.md#state)
+
+- Prefer \`shallowRef()\` for large immutable data like API payloads — skips deep reactivity overhead [source](./.skilld/docs/reactivity.md:L42)
+
+- Use \`useId()\` for SSR-stable ids — \`Math.random()\` causes hydration mismatches [source](./.skilld/docs/ssr.md#ids)
+
+  \`\`\`ts
+  const id = useId()
+  \`\`\``
+
+describe('splitSectionItems', () => {
+  it('keeps code blocks with their bullet and splits trailing paragraphs', () => {
+    const { preamble, items } = splitSectionItems(`## API Changes
+
+Intro line.
+
+- NEW: \`a()\` — added
+
+\`\`\`ts
+- not a bullet
+\`\`\`
+
+- BREAKING: \`b()\` — removed
+**Also changed:** \`c()\` stable`)
+    expect(preamble).toBe('## API Changes\n\nIntro line.')
+    expect(items).toEqual([
+      '- NEW: `a()` — added\n\n```ts\n- not a bullet\n```',
+      '- BREAKING: `b()` — removed\n**Also changed:** `c()` stable',
+    ])
+  })
+})
+
+describe('diffSection', () => {
+  it('classifies added, changed and removed items', () => {
+    const review = diffSection('best-practices', OLD, NEW)
+    expect(review.changes.map(c => [c.id, c.kind, c.edited])).toEqual([
+      ['best-practices#1', 'changed', false],
+      ['best-practices#2', 'added', false],
+      ['best-practices#3', 'removed', false],
+    ])
+    expect(review.changes[0]!.before).toContain('large immutable data — skips')
+    expect(review.changes[0]!.after).toContain('like API payloads')
+  })
+
+  it('flags items missing from the baseline as hand-edited', () => {
+    const baseline = OLD.split('\n\n- Our team')[0]
+    const review = diffSection('best-practices', OLD, NEW, baseline)
+    expect(review.changes.find(c => c.kind === 'removed')?.edited).toBe(true)
+    expect(review.changes.find(c => c.kind === 'changed')?.edited).toBe(false)
+  })
+})
+
+describe('mergeSectionReview', () => {
+  it('keeps rejected items in place and accepts the rest', () => {
+    const review = diffSection('best-practices', OLD, NEW)
+    const merged = mergeSectionReview(review, new Map([
+      ['best-practices#1', { accept: false }],
+      ['best-practices#3', { accept: false }],
+    ]))
+    expect(splitSectionItems(merged).items.map(i => i.slice(0, 24))).toEqual([
+      '- Use `createApp()` per ',
+      '- Prefer `shallowRef()` ',
+      '- Our team always wraps ',
+      '- Use `useId()` for SSR-',
+    ])
+    expect(merged).toContain('large immutable data — skips')
+    expect(merged.startsWith('## Best Practices\n\n- Use')).toBe(true)
+  })
+
+  it('defaults to keeping hand-edited items', () => {
+    const review = diffSection('best-practices', OLD, NEW, OLD.split('\n\n- Our team')[0])
+    const merged = mergeSectionReview(review)
+    expect(merged).toContain('Our team always wraps')
+    expect(merged).toContain('useId()')
+  })
+})
+
+describe('review file', () => {
+  it('round-trips decisions and edited text', () => {
+    const reviews = reviewSections(new Map([['best-practices', OLD]]), new Map([['best-practices', NEW]]))
+    const file = formatReviewFile(reviews, { name: 'vue', from: '3.4.0', to: '3.5.0', applyCommand: 'skilld update vue --apply' })
+    expect(file).toContain('# Section review: vue 3.4.0 → 3.5.0')
+    expect(file).toContain('- [x] best-practices#2 added')
+
+    const edited = file
+      .replace('- [x] best-practices#3 removed', '- [ ] best-practices#3 removed')
+      .replace('+ - Use `useId()` for SSR-stable ids', '+ - Always use `useId()` for SSR-stable ids')
+    const decisions = parseReviewFile(edited, reviews)
+    expect(decisions.get('best-practices#1')).toEqual({ accept: true })
+    expect(decisions.get('best-practices#3')).toEqual({ accept: false })
+    expect(decisions.get('best-practices#2')?.text).toMatch(/^- Always use `useId\(\)`[\s\S]*const id = useId\(\)\n {2}```$/)
+  })
+})
+
+describe('marked sections', () => {
+  const md = `---\nname: vue\n---\n# Vue\n\n${wrapSection('api-changes', '## API Changes\n\n- NEW: x')}\n\nRelated: nuxt\n`
+
+  it('reads, replaces, inserts and removes sections', () => {
+    expect(readMarkedSections(md)).toEqual(new Map([['api-changes', '## API Changes\n\n- NEW: x']]))
+    const next = replaceMarkedSections(md, new Map([['api-changes', '## API Changes\n\n- NEW: y'], ['best-practices', '## Best Practices\n\n- z']]))
+    expect(next).toContain('- NEW: y\n<!-- /skilld:api-changes -->\n\n<!-- skilld:best-practices -->')
+    expect(next.trimEnd().endsWith('Related: nuxt')).toBe(true)
+
+    const removed = replaceMarkedSections(next, new Map([['api-changes', '']]))
+    expect([...readMarkedSections(removed).keys()]).toEqual(['best-practices'])
+    expect(removed).toContain('# Vue\n\n<!-- skilld:best-practices -->')
+  })
+})
+
+describe('reviewSkillUpdates', () => {
+  let root: string
+  let skillDir: string
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'skilld-review-'))
+    skillDir = join(root, 'vue')
+    mkdirSync(skillDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  const skillMd = (body: string) => `---\nname: vue\n---\n# Vue\n\n${wrapSection('best-practices', body)}\n`
+  const skill = () => ({ name: 'vue', dir: skillDir, agent: 'claude-code' as const, info: { packageName: 'vue', version: '3.4.0' }, scope: 'local' as const })
+
+  it('parks a patch review, then applies the edited file and keeps a baseline', async () => {
+    writeFileSync(join(skillDir, 'SKILL.md'), skillMd(OLD))
+    const targets = collectReviewTargets([skill()], ['vue'])
+    expect(targets[0]?.before.get('best-practices')).toBe(OLD)
+
+    // The sync regenerates the section wholesale
+    writeFileSync(join(skillDir, 'SKILL.md'), skillMd(NEW))
+    await reviewSkillUpdates(targets, { mode: 'patch', cwd: root })
+
+    expect(readFileSync(join(skillDir, 'SKILL.md'), 'utf-8')).toContain('Our team always wraps')
+    expect(pendingReviewSkills([skill()], ['vue'])).toHaveLength(1)
+
+    const reviewFile = join(skillDir, '.skilld/review/REVIEW.md')
+    writeFileSync(reviewFile, readFileSync(reviewFile, 'utf-8').replace('- [x] best-practices#3 removed', '- [ ] best-practices#3 removed'))
+    applyPendingReview(skillDir, root)
+
+    const merged = readFileSync(join(skillDir, 'SKILL.md'), 'utf-8')
+    expect(merged).toContain('Our team always wraps')
+    expect(merged).toContain('useId()')
+    expect(merged).toContain('like API payloads')
+    expect(existsSync(join(skillDir, '.skilld/review'))).toBe(false)
+    expect(readFileSync(join(skillDir, '.skilld/baseline/_BEST_PRACTICES.md'), 'utf-8').trim()).toBe(readMarkedSections(merged).get('best-practices'))
+  })
+
+  it('merges defaults without prompting', async () => {
+    writeFileSync(join(skillDir, 'SKILL.md'), skillMd(OLD))
+    const targets = collectReviewTargets([skill()], ['vue'])
+    writeFileSync(join(skillDir, 'SKILL.md'), skillMd(NEW))
+    await reviewSkillUpdates(targets, { mode: 'defaults', cwd: root })
+    expect(readMarkedSections(readFileSync(join(skillDir, 'SKILL.md'), 'utf-8')).get('best-practices')).toBe(NEW)
+    expect(pendingReviewSkills([skill()])).toEqual([])
+  })
+})
@@ -0,0 +1,77 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'pathe'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { writeLock } from '../../src/core/lockfile'
+
+const use = vi.fn(async (dbPaths: string[], fn: (pool: Map<string, object>) => Promise<unknown>) => fn(new Map(dbPaths.map(p => [p, {}]))))
+const searchPooled = vi.fn()
+
+vi.mock('../../src/retriv/index.ts', () => ({
+  SearchDepsUnavailableError: class extends Error {},
+  createLivePool: () => ({ use, close: vi.fn() }),
+  searchPooled: (...args: any[]) => searchPooled(...args),
+}))
+
+vi.mock('../../src/commands/search-helpers.ts', async importOriginal => ({
+  ...await importOriginal<typeof import('../../src/commands/search-helpers')>(),
+  findPackageDbs: (filter?: string) => filter === 'nope' ? [] : ['/cache/vue@3.5.0/search.db'],
+}))
+
+const { startServer } = await import('../../src/commands/serve')
+
+describe('skilld serve', () => {
+  let cwd: string
+  let running: Awaited<ReturnType<typeof startServer>>
+  const get = async (path: string) => {
+    const res = await fetch(`http://127.0.0.1:${running.port}${path}`)
+    return { status: res.status, body: await res.json() as any }
+  }
+
+  beforeAll(async () => {
+    cwd = mkdtempSync(join(tmpdir(), 'skilld-serve-'))
+    const skillDir = join(cwd, '.skills', 'vue-skilld')
+    mkdirSync(join(skillDir, '.skilld', 'docs', 'guide'), { recursive: true })
+    mkdirSync(join(skillDir, '.skilld', 'pkg'), { recursive: true })
+    writeFileSync(join(skillDir, 'SKILL.md'), '# Vue<!-- hidden -->')
+    writeFileSync(join(skillDir, '.skilld', 'docs', 'guide', 'intro.md'), '# Intro')
+    writeFileSync(join(skillDir, '.skilld', 'pkg', 'package.json'), '{}')
+    writeLock(join(cwd, '.skills'), 'vue-skilld', { packageName: 'vue', version: '3.5.0', source: 'npm' })
+    running = await startServer(0, cwd)
+  })
+
+  afterAll(async () => {
+    await running.close()
+    rmSync(cwd, { recursive: true, force: true })
+  })
+
+  it('searches with prefix and JSON filters merged', async () => {
+    searchPooled.mockResolvedValueOnce([{ package: 'vue', source: 'docs/guide/intro.md', lineStart: 1, lineEnd: 1, content: 'Intro<!-- x -->', score: 1, highlights: [] }])
+    const { status, body } = await get(`/search?q=issues:reactivity&limit=3&filter=${encodeURIComponent('{"state":{"$ne":"closed"}}')}`)
+    expect(status).toBe(200)
+    expect(searchPooled.mock.calls[0]!.slice(0, 1)).toEqual(['reactivity'])
+    expect(searchPooled.mock.calls[0]![2]).toEqual({ limit: 3, filter: { type: 'issue', state: { $ne: 'closed' } } })
+    expect(body.results[0]).toMatchObject({ package: 'vue', version: '3.5.0', content: 'Intro' })
+  })
+
+  it('rejects invalid filters and missing queries', async () => {
+    expect((await get('/search?q=x&filter=%7B%22a%22%3A%7B%22%24bad%22%3A1%7D%7D')).status).toBe(400)
+    expect((await get('/search')).status).toBe(400)
+    expect((await get('/search?q=x&package=nope')).status).toBe(404)
+    expect((await get('/packages/%E0%A4%A/skill')).status).toBe(400)
+  })
+
+  it('clamps the result limit to 1-50', async () => {
+    searchPooled.mockResolvedValue([])
+    await get('/search?q=x&limit=-5')
+    await get('/search?q=x&limit=500')
+    expect(searchPooled.mock.calls.slice(-2).map(call => call[2].limit)).toEqual([1, 50])
+  })
+
+  it('lists packages, references and SKILL.md', async () => {
+    expect((await get('/packages')).body.skills).toMatchObject([{ name: 'vue-skilld', packageName: 'vue', version: '3.5.0' }])
+    expect((await get('/packages/vue-skilld/references')).body.files).toEqual(['docs/guide/intro.md'])
+    expect((await get('/packages/vue-skilld/skill')).body.content).toBe('# Vue')
+    expect((await get('/packages/other/skill')).status).toBe(404)
+  })
+})
@@ -1,6 +1,6 @@
-import type { SkillEntry } from '../../src/core/skills.ts'
+import type { ProjectState, SkillEntry } from '../../src/core/skills.ts'
 import { describe, expect, it } from 'vitest'
-import { isOutdated } from '../../src/core/skills.ts'
+import { getUpdateSpecs, isOutdated } from '../../src/core/skills.ts'
 
 function makeSkill(version: string | undefined): SkillEntry {
   return {
@@ -43,3 +43,36 @@ describe('isOutdated', () => {
     expect(isOutdated(makeSkill('1.0.0'), 'next')).toBe(false)
   })
 })
+
+describe('getUpdateSpecs', () => {
+  const skill = (name: string, packageName: string): SkillEntry => ({
+    name,
+    dir: `/skills/${name}`,
+    agent: 'claude-code',
+    info: { version: '1.0.0', generator: 'skilld', packageName },
+    scope: 'local',
+  })
+
+  function state(skills: SkillEntry[], outdated: SkillEntry[], deps = new Map<string, string>()): ProjectState {
+    return { skills, deps, missing: [], outdated, synced: [], unmatched: [], shipped: [] }
+  }
+
+  it('syncs an outdated crate once', () => {
+    const serde = skill('serde', 'crate:serde')
+    const vue = skill('vue', 'vue')
+    const specs = getUpdateSpecs(state([serde, vue, skill('requests', 'pypi:requests')], [
+      { ...serde, packageName: 'crate:serde', latestVersion: '1.1.0' },
+      { ...vue, packageName: 'vue', latestVersion: '3.5.0' },
+    ]))
+    expect(specs).toEqual(['crate:serde', 'vue', 'pypi:requests'])
+  })
+
+  it('skips up-to-date crates tracked by Cargo.toml', () => {
+    const specs = getUpdateSpecs(state(
+      [skill('serde', 'crate:serde'), skill('tokio', 'crate:tokio')],
+      [],
+      new Map([['crate:serde', '1.0.0']]),
+    ))
+    expect(specs).toEqual(['crate:tokio'])
+  })
+})
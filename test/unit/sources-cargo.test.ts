@@ -0,0 +1,186 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'pathe'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+  findCargoLock,
+  parseCargoLock,
+  parseCargoToml,
+  readCargoLocalDependencies,
+  readCargoLockVersion,
+} from '../../src/sources/cargo'
+
+let root: string
+
+function write(path: string, content: string) {
+  const full = join(root, path)
+  mkdirSync(join(full, '..'), { recursive: true })
+  writeFileSync(full, content)
+}
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), 'skilld-cargo-'))
+})
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true })
+})
+
+describe('parseCargoToml', () => {
+  it('reads every dependency form', () => {
+    const manifest = parseCargoToml(`
+[package]
+name = "app" # trailing comment
+
+[dependencies]
+serde = "1.0"
+tokio = { version = "1.38", features = ["full"] }
+json = { package = "serde_json", version = "1" }
+local = { path = "../local" }
+from-git = { git = "https://github.com/a/b" }
+anyhow.workspace = true
+
+[dependencies.reqwest]
+version = "0.12"
+default-features = false
+
+[dev-dependencies]
+insta = "1"
+
+[target.'cfg(unix)'.dependencies]
+nix = "0.29"
+`)
+
+    expect(manifest.packageName).toBe('app')
+    expect(manifest.dependencies).toEqual([
+      { name: 'serde', alias: 'serde', requirement: '1.0', local: false },
+      { name: 'tokio', alias: 'tokio', requirement: '1.38', local: false },
+      { name: 'serde_json', alias: 'json', requirement: '1', local: false },
+      { name: 'local', alias: 'local', requirement: undefined, local: true },
+      { name: 'from-git', alias: 'from-git', requirement: undefined, local: true },
+      { name: 'insta', alias: 'insta', requirement: '1', local: false },
+      { name: 'nix', alias: 'nix', requirement: '0.29', local: false },
+      { name: 'reqwest', alias: 'reqwest', requirement: '0.12', local: false },
+      { name: 'anyhow', alias: 'anyhow', local: false },
+    ])
+  })
+
+  it('reads workspace members and shared dependencies', () => {
+    const manifest = parseCargoToml(`
+[workspace]
+members = [
+  "crates/*",
+  "tools/cli", # inline comment
+]
+exclude = ["crates/skip"]
+
+[workspace.dependencies]
+serde = { version = "1", features = ["derive"] }
+`)
+
+    expect(manifest.workspaceMembers).toEqual(['crates/*', 'tools/cli'])
+    expect(manifest.workspaceExclude).toEqual(['crates/skip'])
+    expect(manifest.workspaceDependencies.get('serde')).toEqual({ name: 'serde', alias: 'serde', requirement: '1', local: false })
+  })
+})
+
+describe('parseCargoLock', () => {
+  it('collects every locked version per crate', () => {
+    const packages = parseCargoLock(`
+version = 3
+
+[[package]]
+name = "syn"
+version = "1.0.109"
+
+[[package]]
+name = "syn"
+version = "2.0.66"
+source = "registry+https://github.com/rust-lang/crates.io-index"
+dependencies = [
+ "proc-macro2",
+]
+
+[[package]]
+name = "proc-macro2"
+version = "1.0.85"
+`)
+
+    expect(packages.get('syn')).toEqual(['1.0.109', '2.0.66'])
+    expect(packages.get('proc-macro2')).toEqual(['1.0.85'])
+  })
+})
+
+describe('readCargoLocalDependencies', () => {
+  it('returns crate:-prefixed deps with locked versions across workspace members', () => {
+    write('Cargo.toml', `
+[workspace]
+members = ["crates/*"]
+exclude = ["crates/ignored"]
+
+[workspace.dependencies]
+serde = "1"
+`)
+    write('crates/core/Cargo.toml', `
+[package]
+name = "core"
+
+[dependencies]
+serde = { workspace = true }
+syn = "1"
+`)
+    write('crates/cli/Cargo.toml', `
+[package]
+name = "cli"
+
+[dependencies]
+core = { path = "../core" }
+clap = "4.5"
+syn = "2"
+`)
+    write('crates/ignored/Cargo.toml', `
+[dependencies]
+rand = "0.8"
+`)
+    write('Cargo.lock', `
+[[package]]
+name = "serde"
+version = "1.0.203"
+
+[[package]]
+name = "syn"
+version = "1.0.109"
+
+[[package]]
+name = "syn"
+version = "2.0.66"
+`)
+
+    expect(readCargoLocalDependencies(root)).toEqual([
+      // Not in Cargo.lock: falls back to the manifest requirement
+      { name: 'crate:clap', version: '4.5' },
+      // Two locked majors: picks the one matching the requirement
+      { name: 'crate:syn', version: '2.0.66' },
+      { name: 'crate:serde', version: '1.0.203' },
+    ])
+  })
+
+  it('uses the root Cargo.lock from a workspace member', () => {
+    write('Cargo.lock', `
+[[package]]
+name = "log"
+version = "0.4.21"
+`)
+    write('member/Cargo.toml', `
+[dependencies]
+log = "0.4"
+`)
+
+    expect(findCargoLock(join(root, 'member'))).toBe(join(root, 'Cargo.lock'))
+    expect(readCargoLockVersion(join(root, 'member'), 'log')).toBe('0.4.21')
+  })
+
+  it('returns nothing without a Cargo.toml', () => {
+    expect(readCargoLocalDependencies(root)).toEqual([])
+  })
+})
@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mockFetch = vi.fn()
+
+vi.mock('ofetch', () => ({
+  ofetch: { create: () => mockFetch },
+}))
+vi.mock('../../src/core/config', () => ({
+  readConfig: () => ({}),
+}))
+
+const { fetchGiteaReleaseNotes, fetchGiteaTags, listGiteaFilesAtRef, parseGiteaUrl } = await import('../../src/sources/gitea')
+const { parseGitHostUrl } = await import('../../src/sources/git-host')
+const { fetchGitHostDocs } = await import('../../src/sources/github-docs')
+
+const API = 'https://codeberg.org/api/v1/repos/owner/lib'
+const repo = { baseUrl: 'https://codeberg.org', owner: 'owner', repo: 'lib' }
+
+type Handler = (opts?: { query?: Record<string, unknown>, headers?: Record<string, string> }) => unknown
+
+function route(routes: Record<string, unknown | Handler>) {
+  mockFetch.mockImplementation(async (url: string, opts?: { query?: Record<string, unknown>, headers?: Record<string, string> }) => {
+    if (url in routes) {
+      const value = routes[url]
+      return typeof value === 'function' ? (value as Handler)(opts) : value
+    }
+    throw new Error(`404 ${url}`)
+  })
+}
+
+beforeEach(() => {
+  mockFetch.mockReset()
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('parseGiteaUrl', () => {
+  it('parses codeberg and gitea.com repos', () => {
+    expect(parseGiteaUrl('https://codeberg.org/owner/lib.git')).toEqual(repo)
+    expect(parseGiteaUrl('https://codeberg.org/owner/lib/src/branch/main/docs')).toEqual(repo)
+    expect(parseGiteaUrl('https://gitea.com/org/tool')).toEqual({ baseUrl: 'https://gitea.com', owner: 'org', repo: 'tool' })
+  })
+
+  it('rejects other hosts and bare owners', () => {
+    expect(parseGiteaUrl('https://github.com/owner/lib')).toBeNull()
+    expect(parseGiteaUrl('https://git.example.com/owner/lib')).toBeNull()
+    expect(parseGiteaUrl('https://codeberg.org/owner')).toBeNull()
+  })
+
+  it('accepts the configured self-hosted instance', () => {
+    vi.stubEnv('GITEA_URL', 'https://git.example.com/')
+    expect(parseGiteaUrl('https://git.example.com/team/lib')).toEqual({ baseUrl: 'https://git.example.com', owner: 'team', repo: 'lib' })
+  })
+})
+
+describe('parseGitHostUrl', () => {
+  it('picks the host implementation by URL', () => {
+    expect(parseGitHostUrl('https://github.com/vuejs/core')?.type).toBe('github')
+    expect(parseGitHostUrl('https://codeberg.org/owner/lib')?.type).toBe('gitea')
+    expect(parseGitHostUrl('https://gitlab.com/group/project')).toBeNull()
+  })
+
+  it('builds raw and tree URLs for gitea hosts', () => {
+    const host = parseGitHostUrl('https://codeberg.org/owner/lib')!
+    expect(host.rawBaseUrl('v1.0.0')).toBe('https://codeberg.org/owner/lib/raw/v1.0.0')
+    expect(host.treeUrl('v1.0.0', 'docs')).toBe('https://codeberg.org/owner/lib/src/v1.0.0/docs')
+  })
+})
+
+describe('listGiteaFilesAtRef', () => {
+  it('pages through truncated trees and keeps blobs only', async () => {
+    route({
+      [`${API}/git/trees/v1.0.0`]: (opts: any) => opts.query.page === 1
+        ? { tree: [{ path: 'docs', type: 'tree' }, { path: 'docs/a.md', type: 'blob' }], truncated: true }
+        : { tree: [{ path: 'docs/b.md', type: 'blob' }], truncated: false },
+    })
+    expect(await listGiteaFilesAtRef(repo, 'v1.0.0')).toEqual(['docs/a.md', 'docs/b.md'])
+  })
+
+  it('returns empty for unknown refs', async () => {
+    route({})
+    expect(await listGiteaFilesAtRef(repo, 'nope')).toEqual([])
+  })
+
+  it('only sends the token to the configured instance', async () => {
+    vi.stubEnv('GITEA_TOKEN', 'secret')
+    route({ [`${API}/git/trees/main`]: { tree: [] } })
+    await listGiteaFilesAtRef(repo, 'main')
+    expect(mockFetch.mock.calls[0]![1].headers).toEqual({})
+
+    vi.stubEnv('GITEA_URL', 'https://codeberg.org')
+    await listGiteaFilesAtRef(repo, 'main')
+    expect(mockFetch.mock.calls[1]![1].headers).toEqual({ Authorization: 'token secret' })
+  })
+})
+
+describe('fetchGiteaTags', () => {
+  it('falls back to git tags when there are no releases', async () => {
+    route({
+      [`${API}/releases`]: [],
+      [`${API}/tags`]: [{ name: 'v2.0.0', commit: { created: '2024-01-01T00:00:00Z' } }],
+    })
+    expect(await fetchGiteaTags(repo)).toEqual([{ tag: 'v2.0.0', publishedAt: '2024-01-01T00:00:00Z' }])
+  })
+})
+
+describe('fetchGitHostDocs (gitea)', () => {
+  it('resolves docs at the version tag with raw URLs on the instance', async () => {
+    route({
+      [`${API}/git/trees/v1.2.0`]: { tree: ['docs/index.md', 'docs/guide.md', 'src/index.ts'].map(path => ({ path, type: 'blob' })) },
+    })
+    const result = await fetchGitHostDocs(parseGitHostUrl('https://codeberg.org/owner/lib')!, '1.2.0')
+    expect(result).toMatchObject({
+      baseUrl: 'https://codeberg.org/owner/lib/raw/v1.2.0',
+      ref: 'v1.2.0',
+      files: ['docs/index.md', 'docs/guide.md'],
+    })
+    expect(result?.fallback).toBeUndefined()
+  })
+
+  it('finds monorepo tags through the release list', async () => {
+    route({
+      [`${API}/releases`]: [{ id: 1, tag_name: 'lib@1.3.0', name: null, body: '', draft: false, prerelease: false, created_at: '2024-01-01T00:00:00Z', published_at: null }],
+      [`${API}/git/trees/lib%401.3.0`]: { tree: [{ path: 'docs/a.md', type: 'blob' }] },
+    })
+    const result = await fetchGitHostDocs(parseGitHostUrl('https://codeberg.org/owner/lib')!, '1.2.0', 'lib')
+    expect(result?.ref).toBe('lib@1.3.0')
+  })
+})
+
+describe('fetchGiteaReleaseNotes', () => {
+  it('writes release docs and the changelog at the release tag', async () => {
+    route({
+      [`${API}/releases`]: [
+        { id: 2, tag_name: 'v1.1.0', name: 'v1.1.0', body: '## Features\n\n- New API for everything', draft: false, prerelease: false, created_at: '2024-02-01T00:00:00Z', published_at: '2024-02-01T00:00:00Z' },
+        { id: 3, tag_name: 'v1.2.0-draft', name: null, body: 'wip', draft: true, prerelease: false, created_at: '2024-03-01T00:00:00Z', published_at: null },
+      ],
+      'https://codeberg.org/owner/lib/raw/v1.1.0/CHANGELOG.md': '# Changelog',
+    })
+    const docs = await fetchGiteaReleaseNotes(repo, '1.1.0')
+    expect(docs.map(d => d.path)).toEqual(['releases/v1.1.0.md', 'releases/CHANGELOG.md'])
+  })
+})
@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mockFetch = vi.fn()
+
+vi.mock('ofetch', () => ({
+  ofetch: { create: () => mockFetch },
+}))
+vi.mock('../../src/core/config', () => ({
+  readConfig: () => ({}),
+}))
+
+const { fetchGitLabIssues, fetchGitLabMergeRequests, fetchGitLabReleaseNotes, parseGitLabUrl } = await import('../../src/sources/gitlab')
+
+const API = 'https://gitlab.com/api/v4/projects/group%2Fsub%2Fproject'
+const repo = { baseUrl: 'https://gitlab.com', projectPath: 'group/sub/project' }
+
+function route(routes: Record<string, unknown>) {
+  mockFetch.mockImplementation(async (url: string, opts?: { query?: Record<string, unknown> }) => {
+    const key = opts?.query?.state ? `${url}?state=${opts.query.state}` : url
+    if (key in routes)
+      return routes[key]
+    throw new Error(`404 ${key}`)
+  })
+}
+
+beforeEach(() => {
+  mockFetch.mockReset()
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('parseGitLabUrl', () => {
+  it('parses gitlab.com projects with nested groups', () => {
+    expect(parseGitLabUrl('https://gitlab.com/group/sub/project.git')).toEqual(repo)
+    expect(parseGitLabUrl('https://gitlab.com/group/sub/project/-/tree/main/docs')).toEqual(repo)
+  })
+
+  it('rejects other hosts and bare groups', () => {
+    expect(parseGitLabUrl('https://github.com/owner/repo')).toBeNull()
+    expect(parseGitLabUrl('https://gitlab.example.com/group/project')).toBeNull()
+    expect(parseGitLabUrl('https://gitlab.com/group')).toBeNull()
+  })
+
+  it('accepts the configured self-hosted instance', () => {
+    vi.stubEnv('GITLAB_URL', 'https://gitlab.example.com/')
+    expect(parseGitLabUrl('https://gitlab.example.com/team/lib')).toEqual({ baseUrl: 'https://gitlab.example.com', projectPath: 'team/lib' })
+  })
+})
+
+describe('fetchGitLabIssues', () => {
+  it('maps issues to the GitHub issue shape, filters noise and attaches notes', async () => {
+    route({
+      [`${API}/issues?state=opened`]: [
+        { iid: 1, title: 'Crash on start', description: 'stack trace', state: 'opened', labels: ['bug'], created_at: new Date().toISOString(), web_url: 'https://gitlab.com/group/sub/project/-/issues/1', upvotes: 4, user_notes_count: 2, author: { username: 'alice' } },
+        { iid: 2, title: 'Dupe', description: '', state: 'opened', labels: ['duplicate'], created_at: new Date().toISOString(), web_url: '', upvotes: 0, user_notes_count: 0 },
+        { iid: 3, title: 'Bump deps', description: '', state: 'opened', labels: [], created_at: new Date().toISOString(), web_url: '', upvotes: 0, user_notes_count: 0, author: { username: 'renovate', bot: true } },
+      ],
+      [`${API}/issues?state=closed`]: [],
+      [`${API}/issues/1/notes`]: [
+        { body: 'changed the description', system: true, author: { username: 'alice' } },
+        { body: '+1', system: false, author: { username: 'bob' } },
+        { body: 'Workaround:\n```ts\nfoo()\n```', system: false, author: { username: 'carol' } },
+      ],
+    })
+
+    const issues = await fetchGitLabIssues(repo)
+    expect(issues).toHaveLength(1)
+    expect(issues[0]).toMatchObject({ number: 1, state: 'open', type: 'bug', reactions: 4, comments: 2 })
+    expect(issues[0]!.topComments).toEqual([
+      { body: 'Workaround:\n```ts\nfoo()\n```', author: 'carol', reactions: 0 },
+    ])
+  })
+
+  it('sends the token to the GitLab API', async () => {
+    vi.stubEnv('GITLAB_TOKEN', 'glpat-test')
+    route({ [`${API}/issues?state=opened`]: [], [`${API}/issues?state=closed`]: [] })
+    await fetchGitLabIssues(repo)
+    expect(mockFetch.mock.calls[0]![1].headers).toEqual({ 'PRIVATE-TOKEN': 'glpat-test' })
+  })
+
+  it('keeps a self-hosted token away from gitlab.com', async () => {
+    vi.stubEnv('GITLAB_URL', 'https://gitlab.example.com')
+    vi.stubEnv('GITLAB_TOKEN', 'glpat-test')
+    route({ [`${API}/issues?state=opened`]: [], [`${API}/issues?state=closed`]: [] })
+    await fetchGitLabIssues(repo)
+    expect(mockFetch.mock.calls[0]![1].headers).toEqual({})
+
+    mockFetch.mockReset()
+    const selfHosted = parseGitLabUrl('https://gitlab.example.com/group/sub/project')!
+    route({ [`https://gitlab.example.com/api/v4/projects/group%2Fsub%2Fproject/issues?state=opened`]: [], [`https://gitlab.example.com/api/v4/projects/group%2Fsub%2Fproject/issues?state=closed`]: [] })
+    await fetchGitLabIssues(selfHosted)
+    expect(mockFetch.mock.calls[0]![1].headers).toEqual({ 'PRIVATE-TOKEN': 'glpat-test' })
+  })
+})
+
+describe('fetchGitLabMergeRequests', () => {
+  it('returns merged, non-bot merge requests', async () => {
+    route({
+      [`${API}/merge_requests?state=merged`]: [
+        { iid: 10, title: 'Add feature', description: 'details', labels: [], merged_at: '2024-05-01T00:00:00Z', web_url: 'u', upvotes: 1, author: { username: 'alice' } },
+        { iid: 11, title: 'chore(deps)', description: '', labels: [], merged_at: '2024-05-02T00:00:00Z', web_url: 'u', upvotes: 0, author: { username: 'renovate[bot]', bot: true } },
+      ],
+    })
+
+    const mrs = await fetchGitLabMergeRequests(repo)
+    expect(mrs).toEqual([{ number: 10, title: 'Add feature', body: 'details', labels: [], mergedAt: '2024-05-01T00:00:00Z', url: 'u', reactions: 1 }])
+  })
+})
+
+describe('fetchGitLabReleaseNotes', () => {
+  it('selects releases up to the installed version and adds the CHANGELOG', async () => {
+    route({
+      [`${API}/releases`]: [
+        { tag_name: 'v2.0.0', name: 'v2.0.0', description: 'new major', created_at: '2024-06-01T00:00:00Z', released_at: '2024-06-01T00:00:00Z' },
+        { tag_name: 'v1.1.0', name: 'Minor', description: 'features', created_at: '2024-03-01T00:00:00Z', released_at: '2024-03-01T00:00:00Z' },
+      ],
+      [`${API}/repository/files/CHANGELOG.md/raw`]: '# Changelog',
+    })
+
+    const docs = await fetchGitLabReleaseNotes(repo, '1.1.0')
+    expect(docs.map(d => d.path)).toEqual(['releases/v1.1.0.md', 'releases/CHANGELOG.md'])
+    expect(docs[0]!.content).toContain('name: Minor')
+    const changelogCall = mockFetch.mock.calls.find(c => c[0].endsWith('/raw'))!
+    expect(changelogCall[1].query).toEqual({ ref: 'v1.1.0' })
+  })
+})
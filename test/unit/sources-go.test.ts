@@ -0,0 +1,209 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mockFetch = vi.fn<(
+  url: string,
+  opts?: { responseType?: string, method?: string },
+) => Promise<{ ok?: boolean, json?: () => Promise<unknown>, text?: () => Promise<string> }>>()
+
+function createMockFetch() {
+  async function $fetch(url: string, opts?: { responseType?: string, method?: string }): Promise<unknown> {
+    const response = await mockFetch(url, opts)
+    if (!response?.ok)
+      throw new Error('fetch failed')
+    if (opts?.responseType === 'text')
+      return response.text?.() ?? null
+    return response.json?.() ?? null
+  }
+
+  $fetch.raw = async (url: string, opts?: { responseType?: string, method?: string }) => {
+    return mockFetch(url, opts)
+  }
+
+  return $fetch
+}
+
+vi.mock('ofetch', () => ({
+  ofetch: { create: () => createMockFetch() },
+}))
+
+vi.mock('../../src/sources/github', () => ({
+  resolveGitHubRepo: vi.fn(),
+}))
+
+vi.mock('../../src/sources/llms', () => ({
+  fetchLlmsUrl: vi.fn(),
+}))
+
+const { goDocToMarkdown, goModuleRepoUrl, parseGoModRequires, resolveGoModuleDocsWithAttempts } = await import('../../src/sources/go')
+
+function respond(body: unknown) {
+  return {
+    ok: true,
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(typeof body === 'string' ? body : JSON.stringify(body)),
+  }
+}
+
+describe('sources/go', () => {
+  beforeEach(() => {
+    vi.resetAllMocks()
+    // Module zip download goes through global fetch; keep it offline
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false }))
+  })
+
+  describe('goModuleRepoUrl', () => {
+    it.each([
+      ['github.com/gin-gonic/gin', 'https://github.com/gin-gonic/gin'],
+      ['github.com/jackc/pgx/v5', 'https://github.com/jackc/pgx'],
+      ['golang.org/x/sync', 'https://github.com/golang/sync'],
+      ['gopkg.in/yaml.v3', 'https://github.com/go-yaml/yaml'],
+      ['gopkg.in/src-d/go-git.v4', 'https://github.com/src-d/go-git'],
+      ['go.uber.org/zap', undefined],
+    ])('%s → %s', (modulePath, expected) => {
+      expect(goModuleRepoUrl(modulePath)).toBe(expected)
+    })
+  })
+
+  it('parses single-line and block require directives', () => {
+    const requires = parseGoModRequires([
+      'module example.com/app',
+      '',
+      'go 1.22',
+      '',
+      'require github.com/gin-gonic/gin v1.10.0',
+      '',
+      'require (',
+      '\tgolang.org/x/sync v0.7.0 // indirect',
+      '\tgithub.com/BurntSushi/toml v1.4.0',
+      ')',
+    ].join('\n'))
+
+    expect(requires).toEqual({
+      'github.com/gin-gonic/gin': 'v1.10.0',
+      'golang.org/x/sync': 'v0.7.0',
+      'github.com/BurntSushi/toml': 'v1.4.0',
+    })
+  })
+
+  it('renders doc.go package comments as markdown', () => {
+    const md = goDocToMarkdown([
+      '// Copyright 2024 The Authors.',
+      '',
+      '// Package zap provides fast, structured logging.',
+      '//',
+      '// # Configuring',
+      '//',
+      '//   - Use NewProduction for JSON output',
+      '//',
+      '//\tlogger, _ := zap.NewProduction()',
+      '//\tdefer logger.Sync()',
+      '//',
+      '// See the FAQ for more.',
+      '//go:generate stringer -type=Level',
+      'package zap',
+    ].join('\n'), 'go.uber.org/zap')
+
+    expect(md).toBe([
+      '# go.uber.org/zap',
+      '',
+      '```go',
+      'import "go.uber.org/zap"',
+      '```',
+      '',
+      'Package zap provides fast, structured logging.',
+      '',
+      '## Configuring',
+      '',
+      '- Use NewProduction for JSON output',
+      '',
+      '```go',
+      'logger, _ := zap.NewProduction()',
+      'defer logger.Sync()',
+      '```',
+      '',
+      'See the FAQ for more.',
+      '',
+    ].join('\n'))
+  })
+
+  it('returns null for doc.go without a package comment', () => {
+    expect(goDocToMarkdown('package zap\n', 'go.uber.org/zap')).toBeNull()
+  })
+
+  it('returns error attempt for invalid module path', async () => {
+    const result = await resolveGoModuleDocsWithAttempts('not a module')
+
+    expect(result.package).toBeNull()
+    expect(result.attempts).toEqual([
+      {
+        source: 'go',
+        status: 'error',
+        message: 'Invalid Go module path: not a module',
+      },
+    ])
+  })
+
+  it('returns not-found attempt when the proxy has no versions', async () => {
+    mockFetch.mockRejectedValue(new Error('404'))
+
+    const result = await resolveGoModuleDocsWithAttempts('github.com/acme/missing')
+
+    expect(result.package).toBeNull()
+    expect(result.attempts).toEqual([
+      {
+        source: 'go',
+        url: 'https://proxy.golang.org/github.com/acme/missing/@v/list',
+        status: 'not-found',
+        message: 'Module not found on Go module proxy',
+      },
+    ])
+  })
+
+  it('picks the newest stable version and case-encodes proxy paths', async () => {
+    const { resolveGitHubRepo } = await import('../../src/sources/github')
+    vi.mocked(resolveGitHubRepo).mockResolvedValue(null)
+
+    mockFetch.mockImplementation(async (url) => {
+      if (url.endsWith('/@v/list'))
+        return respond('v1.3.0\nv1.4.0\nv1.5.0-rc.1\nv1.2.1\n')
+      if (url.endsWith('/@v/v1.4.0.info'))
+        return respond({ Version: 'v1.4.0', Time: '2024-06-01T00:00:00Z' })
+      if (url.endsWith('/@v/v1.4.0.mod'))
+        return respond('module github.com/BurntSushi/toml\n')
+      return { ok: false }
+    })
+
+    const progress: string[] = []
+    const result = await resolveGoModuleDocsWithAttempts('github.com/BurntSushi/toml', {
+      onProgress: step => progress.push(step),
+    })
+
+    expect(mockFetch.mock.calls[0]![0]).toBe('https://proxy.golang.org/github.com/!burnt!sushi/toml/@v/list')
+    expect(result.package).toMatchObject({
+      name: 'github.com/BurntSushi/toml',
+      version: 'v1.4.0',
+      releasedAt: '2024-06-01T00:00:00Z',
+      docsUrl: 'https://pkg.go.dev/github.com/BurntSushi/toml@v1.4.0',
+      repoUrl: 'https://github.com/BurntSushi/toml',
+    })
+    expect(progress).toEqual(['Go module proxy', 'Module zip', 'GitHub enrichment'])
+  })
+
+  it('uses the requested version and surfaces go.mod deprecation', async () => {
+    mockFetch.mockImplementation(async (url) => {
+      if (url.endsWith('/@v/v0.7.0.info'))
+        return respond({ Version: 'v0.7.0', Time: '2024-03-01T00:00:00Z' })
+      if (url.endsWith('/@v/v0.7.0.mod'))
+        return respond('// Deprecated: use example.com/new instead.\nmodule example.com/old\n')
+      return { ok: false }
+    })
+
+    const result = await resolveGoModuleDocsWithAttempts('example.com/old', { version: '0.7.0' })
+
+    expect(result.package).toMatchObject({
+      name: 'example.com/old',
+      version: 'v0.7.0',
+      description: 'Deprecated: use example.com/new instead.',
+    })
+  })
+})
@@ -0,0 +1,121 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'pathe'
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mockFetch = vi.fn()
+vi.mock('ofetch', () => ({
+  ofetch: { create: () => mockFetch },
+}))
+
+const { getRegistryAuthHeaders, getRegistryPackageUrl, getRegistryUrl, isPublicRegistryPackage, parseNpmrc, readNpmrc } = await import('../../src/sources/npmrc')
+const { fetchNpmPackage, fetchNpmRegistryMeta } = await import('../../src/sources/npm-registry')
+
+const tmp = mkdtempSync(join(tmpdir(), 'skilld-npmrc-'))
+
+const NPMRC = `
+; corp registries
+@corp:registry=https://npm.corp.dev/repository/npm-private
+//npm.corp.dev/repository/npm-private/:_authToken=\${CORP_NPM_TOKEN}
+//npm.corp.dev/:_authToken=wrong-scope
+registry = "https://registry.npmjs.org/"
+`
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+  mockFetch.mockReset()
+})
+
+afterAll(() => {
+  rmSync(tmp, { recursive: true, force: true })
+})
+
+describe('parseNpmrc', () => {
+  it('reads scoped registries and expands env tokens', () => {
+    vi.stubEnv('CORP_NPM_TOKEN', 'secret')
+    const config = parseNpmrc(NPMRC)
+    expect(config.registry).toBe('https://registry.npmjs.org/')
+    expect(config.scopes).toEqual({ '@corp': 'https://npm.corp.dev/repository/npm-private/' })
+    expect(config.auth['//npm.corp.dev/repository/npm-private/']).toEqual({ _authToken: 'secret' })
+  })
+
+  it('routes packages by scope', () => {
+    const config = parseNpmrc(NPMRC)
+    expect(getRegistryUrl('@corp/ui', config)).toBe('https://npm.corp.dev/repository/npm-private/')
+    expect(getRegistryUrl('vue', config)).toBe('https://registry.npmjs.org/')
+    expect(getRegistryPackageUrl('@corp/ui', 'latest', config)).toBe('https://npm.corp.dev/repository/npm-private/@corp%2fui/latest')
+  })
+
+  it('uses the longest matching credential prefix and never leaks to other hosts', () => {
+    vi.stubEnv('CORP_NPM_TOKEN', 'secret')
+    const config = parseNpmrc(NPMRC)
+    expect(getRegistryAuthHeaders('https://npm.corp.dev/repository/npm-private/@corp/ui/-/ui-1.0.0.tgz', config))
+      .toEqual({ Authorization: 'Bearer secret' })
+    expect(getRegistryAuthHeaders('https://npm.corp.dev/other/pkg', config)).toEqual({ Authorization: 'Bearer wrong-scope' })
+    expect(getRegistryAuthHeaders('https://registry.npmjs.org/vue', config)).toEqual({})
+  })
+
+  it('supports username/_password basic auth', () => {
+    const config = parseNpmrc(`//verdaccio.local:4873/:username=ci\n//verdaccio.local:4873/:_password=${Buffer.from('pw').toString('base64')}`)
+    expect(getRegistryAuthHeaders('http://verdaccio.local:4873/pkg', config))
+      .toEqual({ Authorization: `Basic ${Buffer.from('ci:pw').toString('base64')}` })
+  })
+
+  it('treats a private default registry as non-public', () => {
+    expect(isPublicRegistryPackage('vue', parseNpmrc(''))).toBe(true)
+    expect(isPublicRegistryPackage('vue', parseNpmrc('registry=https://artifactory.corp.dev/api/npm/npm/'))).toBe(false)
+    expect(isPublicRegistryPackage('@corp/ui', parseNpmrc(NPMRC))).toBe(false)
+  })
+})
+
+describe('readNpmrc', () => {
+  it('layers the project .npmrc over the user config', () => {
+    const user = join(tmp, 'user.npmrc')
+    const project = join(tmp, 'project')
+    mkdirSync(join(project, 'packages', 'app'), { recursive: true })
+    writeFileSync(user, 'registry=https://user.registry/\n@corp:registry=https://user.corp/\n')
+    writeFileSync(join(project, '.npmrc'), '@corp:registry=https://project.corp/\n')
+    vi.stubEnv('NPM_CONFIG_USERCONFIG', user)
+
+    const config = readNpmrc(join(project, 'packages', 'app'))
+    expect(config.registry).toBe('https://user.registry/')
+    expect(config.scopes['@corp']).toBe('https://project.corp/')
+  })
+})
+
+describe('private registry fetches', () => {
+  const project = join(tmp, 'fetch')
+  beforeEach(() => {
+    mkdirSync(project, { recursive: true })
+    writeFileSync(join(project, '.npmrc'), '@corp:registry=https://npm.corp.dev/\n//npm.corp.dev/:_authToken=corp-token\n')
+    vi.stubEnv('NPM_CONFIG_USERCONFIG', join(tmp, 'missing.npmrc'))
+  })
+
+  it('skips unpkg and sends the registry token', async () => {
+    mockFetch.mockResolvedValue({ name: '@corp/ui', version: '2.0.0' })
+    const pkg = await fetchNpmPackage('@corp/ui', project)
+    expect(pkg?.version).toBe('2.0.0')
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(mockFetch).toHaveBeenCalledWith('https://npm.corp.dev/@corp%2fui/latest', { headers: { Authorization: 'Bearer corp-token' } })
+  })
+
+  it('reads dist-tags from the private registry', async () => {
+    mockFetch.mockResolvedValue({ 'dist-tags': { latest: '2.0.0' }, 'time': { '2.0.0': '2024-05-01T00:00:00Z' } })
+    const meta = await fetchNpmRegistryMeta('@corp/ui', '2.0.0', project)
+    expect(meta.releasedAt).toBe('2024-05-01T00:00:00Z')
+    expect(mockFetch.mock.calls[0]![1].headers.Authorization).toBe('Bearer corp-token')
+  })
+
+  it('uses the project dir\'s .npmrc, not the working directory\'s', async () => {
+    const cwd = process.cwd()
+    process.chdir(project)
+    try {
+      mockFetch.mockResolvedValue({ name: '@corp/ui', version: '1.0.0' })
+      await fetchNpmPackage('@corp/ui', tmp)
+      expect(mockFetch).toHaveBeenCalledWith('https://unpkg.com/@corp/ui/package.json')
+    }
+    finally {
+      process.chdir(cwd)
+    }
+  })
+})
@@ -0,0 +1,182 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mockFetch = vi.fn<(
+  url: string,
+  opts?: { responseType?: string, method?: string },
+) => Promise<{ ok?: boolean, json?: () => Promise<unknown>, text?: () => Promise<string> }>>()
+
+function createMockFetch() {
+  async function $fetch(url: string, opts?: { responseType?: string, method?: string }): Promise<unknown> {
+    const response = await mockFetch(url, opts)
+    if (!response?.ok)
+      throw new Error('fetch failed')
+    if (opts?.responseType === 'text')
+      return response.text?.() ?? null
+    return response.json?.() ?? null
+  }
+
+  $fetch.raw = async (url: string, opts?: { responseType?: string, method?: string }) => {
+    return mockFetch(url, opts)
+  }
+
+  return $fetch
+}
+
+vi.mock('ofetch', () => ({
+  ofetch: { create: () => createMockFetch() },
+}))
+
+vi.mock('../../src/sources/github', () => ({
+  resolveGitHubRepo: vi.fn(),
+}))
+
+vi.mock('../../src/sources/llms', () => ({
+  fetchLlmsUrl: vi.fn(),
+}))
+
+const { resolvePypiDocsWithAttempts } = await import('../../src/sources/pypi')
+
+describe('sources/pypi', () => {
+  beforeEach(() => {
+    vi.resetAllMocks()
+  })
+
+  it('returns error attempt for invalid project name', async () => {
+    const result = await resolvePypiDocsWithAttempts('requests!')
+
+    expect(result.package).toBeNull()
+    expect(result.attempts).toEqual([
+      {
+        source: 'pypi',
+        status: 'error',
+        message: 'Invalid PyPI project name: requests!',
+      },
+    ])
+  })
+
+  it('returns not-found attempt when PyPI metadata cannot be fetched', async () => {
+    mockFetch.mockRejectedValueOnce(new Error('network'))
+
+    const result = await resolvePypiDocsWithAttempts('Requests')
+
+    expect(result.package).toBeNull()
+    expect(result.attempts).toEqual([
+      {
+        source: 'pypi',
+        url: 'https://pypi.org/pypi/requests/json',
+        status: 'not-found',
+        message: 'Project not found on PyPI',
+      },
+    ])
+  })
+
+  it('maps project_urls to docs, repo and changelog urls', async () => {
+    const { fetchLlmsUrl } = await import('../../src/sources/llms')
+    const { resolveGitHubRepo } = await import('../../src/sources/github')
+
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({
+        info: {
+          name: 'requests',
+          version: '2.32.3',
+          summary: 'Python HTTP for Humans.',
+          home_page: 'https://requests.readthedocs.io',
+          project_urls: {
+            Documentation: 'https://requests.readthedocs.io',
+            Source: 'https://github.com/psf/requests',
+            Changelog: 'https://github.com/psf/requests/blob/main/HISTORY.md',
+          },
+        },
+        releases: {
+          '2.32.3': [{ yanked: false, upload_time_iso_8601: '2024-05-29T15:37:47.000Z' }],
+        },
+      }),
+    })
+
+    vi.mocked(resolveGitHubRepo).mockResolvedValue(null)
+    vi.mocked(fetchLlmsUrl).mockResolvedValue(null)
+
+    const progress: string[] = []
+    const result = await resolvePypiDocsWithAttempts('requests', {
+      onProgress: step => progress.push(step),
+    })
+
+    expect(result.package).toMatchObject({
+      name: 'requests',
+      version: '2.32.3',
+      description: 'Python HTTP for Humans.',
+      docsUrl: 'https://requests.readthedocs.io',
+      repoUrl: 'https://github.com/psf/requests',
+      changelogUrl: 'https://github.com/psf/requests/blob/main/HISTORY.md',
+      releasedAt: '2024-05-29T15:37:47.000Z',
+    })
+    expect(progress).toEqual([
+      'PyPI metadata',
+      'GitHub enrichment',
+      'llms.txt discovery',
+    ])
+  })
+
+  it('skips yanked releases and prefers the newest stable one', async () => {
+    const { fetchLlmsUrl } = await import('../../src/sources/llms')
+
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({
+          info: { name: 'demo', version: '2.0.0', yanked: true, project_urls: null },
+          releases: {
+            '1.0.0': [{ yanked: false, upload_time_iso_8601: '2024-01-01T00:00:00Z' }],
+            '1.1.0': [{ yanked: false, upload_time_iso_8601: '2024-02-01T00:00:00Z' }],
+            '2.0.0': [{ yanked: true, upload_time_iso_8601: '2024-03-01T00:00:00Z' }],
+            '2.1.0rc1': [{ yanked: false, upload_time_iso_8601: '2024-04-01T00:00:00Z' }],
+          },
+        }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({
+          info: {
+            name: 'demo',
+            version: '1.1.0',
+            project_urls: { Documentation: 'https://demo.example.com/1.1/' },
+          },
+        }),
+      })
+
+    vi.mocked(fetchLlmsUrl).mockResolvedValue(null)
+
+    const result = await resolvePypiDocsWithAttempts('demo')
+
+    expect(mockFetch).toHaveBeenNthCalledWith(2, 'https://pypi.org/pypi/demo/1.1.0/json', undefined)
+    expect(result.package).toMatchObject({
+      name: 'demo',
+      version: '1.1.0',
+      docsUrl: 'https://demo.example.com/1.1/',
+      releasedAt: '2024-02-01T00:00:00Z',
+    })
+  })
+
+  it('returns error attempt when every release is yanked', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({
+        info: { name: 'gone', version: '0.1.0', yanked: true },
+        releases: {
+          '0.1.0': [{ yanked: true, upload_time_iso_8601: '2024-01-01T00:00:00Z' }],
+        },
+      }),
+    })
+
+    const result = await resolvePypiDocsWithAttempts('gone')
+
+    expect(result.package).toBeNull()
+    expect(result.attempts.at(-1)).toEqual({
+      source: 'pypi',
+      url: 'https://pypi.org/pypi/gone/json',
+      status: 'error',
+      message: 'No usable PyPI releases found',
+    })
+  })
+})
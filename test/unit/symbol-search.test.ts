@@ -0,0 +1,78 @@
+import type { SearchSnippet } from '../../src/retriv/types'
+import { describe, expect, it, vi } from 'vitest'
+import { buildSymbolCard, classifySymbolSource, mentionsSymbol, searchSymbol } from '../../src/retriv/symbol'
+
+function snippet(source: string, overrides: Partial<SearchSnippet> = {}): SearchSnippet {
+  return { package: 'nuxt', source, lineStart: 1, lineEnd: 10, content: '', score: 1, highlights: [], ...overrides }
+}
+
+const useFetchEntity = { name: 'useFetch', type: 'function', signature: 'function useFetch<T>(url: string, opts?: UseFetchOptions<T>): AsyncData<T>' }
+
+describe('classifySymbolSource', () => {
+  it('separates declarations, source and cached docs', () => {
+    expect(classifySymbolSource('pkg/dist/index.d.ts')).toBe('types')
+    expect(classifySymbolSource('pkg/dist/index.d.mts')).toBe('types')
+    expect(classifySymbolSource('pkg/src/fetch.ts')).toBe('source')
+    expect(classifySymbolSource('docs/api/use-fetch.md')).toBe('doc')
+    expect(classifySymbolSource('issues/issue-12.md')).toBe('issue')
+    expect(classifySymbolSource('releases/v3.0.0.md')).toBe('release')
+  })
+})
+
+describe('mentionsSymbol', () => {
+  it('matches whole identifiers only', () => {
+    expect(mentionsSymbol('Call `useFetch()` in setup', 'useFetch')).toBe(true)
+    expect(mentionsSymbol('useFetch', 'useFetch')).toBe(true)
+    expect(mentionsSymbol('see useLazyFetch and useFetchOptions', 'useFetch')).toBe(false)
+    expect(mentionsSymbol('$useFetch is internal, useFetch is not', 'useFetch')).toBe(true)
+  })
+})
+
+describe('buildSymbolCard', () => {
+  it('ranks type definitions ahead of source and prose mentions', () => {
+    const card = buildSymbolCard('useFetch', [
+      { snippet: snippet('docs/api/use-fetch.md', { content: 'useFetch is a composable', score: 9 }), dbPath: '/db' },
+      { snippet: snippet('pkg/src/fetch.ts', { entities: [useFetchEntity], score: 5 }), dbPath: '/db' },
+      { snippet: snippet('pkg/dist/index.d.ts', { entities: [useFetchEntity], score: 2 }), dbPath: '/db' },
+      { snippet: snippet('issues/issue-7.md', { content: 'useFetch refetches twice', score: 3 }), dbPath: '/db' },
+      { snippet: snippet('docs/guide.md', { content: 'useLazyFetch only', score: 8 }), dbPath: '/db' },
+    ])
+    expect(card.definitions.map(h => h.snippet.source)).toEqual(['pkg/dist/index.d.ts', 'pkg/src/fetch.ts'])
+    expect(card.docs.map(h => h.snippet.source)).toEqual(['docs/api/use-fetch.md'])
+    expect(card.issues.map(h => h.snippet.source)).toEqual(['issues/issue-7.md'])
+    expect(card.signature).toBe(useFetchEntity.signature)
+    expect(card.entityType).toBe('function')
+    expect(card.definedIn).toEqual({ package: 'nuxt', source: 'pkg/dist/index.d.ts', lineStart: 1, lineEnd: 10 })
+  })
+
+  it('counts scope matches as mentions and dedupes by highest score', () => {
+    const scoped = snippet('pkg/src/fetch.ts', { scope: [{ name: 'useFetch', type: 'function' }], entities: [{ name: 'inner', type: 'function' }] })
+    const card = buildSymbolCard('useFetch', [
+      { snippet: { ...scoped, score: 1 }, dbPath: '/db' },
+      { snippet: { ...scoped, score: 4 }, dbPath: '/db' },
+    ])
+    expect(card.definitions).toEqual([])
+    expect(card.definedIn).toBeUndefined()
+    // Code mentions aren't docs or issues
+    expect(card.docs).toEqual([])
+  })
+
+  it('limits each group', () => {
+    const results = Array.from({ length: 4 }, (_, i) => ({ snippet: snippet(`docs/${i}.md`, { content: 'useFetch', score: i }), dbPath: '/db' }))
+    expect(buildSymbolCard('useFetch', results, 2).docs.map(h => h.snippet.source)).toEqual(['docs/3.md', 'docs/2.md'])
+  })
+})
+
+describe('searchSymbol', () => {
+  it('queries code and prose per index and merges the results', async () => {
+    const search = vi.fn(async (_query: string, _config: { dbPath: string }, options?: { filter?: unknown }) =>
+      options?.filter
+        ? [snippet('pkg/dist/index.d.ts', { entities: [useFetchEntity] })]
+        : [snippet('pkg/dist/index.d.ts', { entities: [useFetchEntity] }), snippet('docs/a.md', { content: 'use useFetch' })])
+    const card = await searchSymbol('useFetch', ['/a.db', '/b.db'], { search: search as any })
+    expect(search).toHaveBeenCalledTimes(4)
+    expect(search).toHaveBeenCalledWith('useFetch', { dbPath: '/a.db' }, { limit: 50, filter: { type: { $in: ['types', 'source'] } } })
+    expect(card.definitions).toHaveLength(1)
+    expect(card.docs).toHaveLength(1)
+  })
+})
@@ -21,6 +21,13 @@ vi.mock('../../src/sources/discussions', () => ({
   formatDiscussionAsMarkdown: (d: { title: string }) => `# ${d.title}`,
   generateDiscussionIndex: () => '# Index',
 }))
+vi.mock('../../src/sources/gitlab', () => ({
+  fetchGitLabIssues: vi.fn(),
+  fetchGitLabMergeRequests: vi.fn(),
+  fetchGitLabReleaseNotes: vi.fn(),
+  formatMergeRequestAsMarkdown: (mr: { title: string }) => `# ${mr.title}`,
+  generateMergeRequestIndexSection: () => '## Merged Merge Requests',
+}))
 vi.mock('../../src/cache/internal/storage', () => ({
   writeToRepoCache: vi.fn(),
   writeToCache: vi.fn(),
@@ -28,10 +35,13 @@ vi.mock('../../src/cache/internal/storage', () => ({
 
 const { existsSync } = await import('node:fs')
 const { isGhAvailable, fetchGitHubIssues } = await import('../../src/sources/issues')
-const { writeToRepoCache } = await import('../../src/cache/internal/storage')
+const { fetchGitLabIssues, fetchGitLabMergeRequests, fetchGitLabReleaseNotes } = await import('../../src/sources/gitlab')
+const { writeToCache, writeToRepoCache } = await import('../../src/cache/internal/storage')
 const { issuesStep } = await import('../../src/sources/resolvers/timeline/issues')
 const { discussionsStep } = await import('../../src/sources/resolvers/timeline/discussions')
 const { releasesStep } = await import('../../src/sources/resolvers/timeline/releases')
+const { gitlabIssuesStep } = await import('../../src/sources/resolvers/timeline/gitlab-issues')
+const { gitlabReleasesStep } = await import('../../src/sources/resolvers/timeline/gitlab-releases')
 
 function makeCtx(overrides: Partial<TimelineCtx> = {}): TimelineCtx {
   return {
@@ -122,3 +132,62 @@ describe('issuesStep.run', () => {
     expect(writeToRepoCache).not.toHaveBeenCalled()
   })
 })
+
+describe('gitlab steps', () => {
+  const gitlab = { baseUrl: 'https://gitlab.com', projectPath: 'group/sub/project' }
+  const gitlabCtx = (overrides: Partial<TimelineCtx> = {}) => makeCtx({
+    repoInfo: undefined,
+    gitlab,
+    issuesDir: '/cache/pkg@1.0.0/issues',
+    releasesPath: '/cache/pkg@1.0.0/releases',
+    ...overrides,
+  })
+
+  beforeEach(() => {
+    vi.resetAllMocks()
+    vi.mocked(existsSync).mockReturnValue(false)
+  })
+
+  it('only fire for GitLab projects', () => {
+    for (const step of [gitlabIssuesStep, gitlabReleasesStep]) {
+      expect(step.canResolve?.(gitlabCtx())).toBe(true)
+      expect(step.canResolve?.(makeCtx())).toBe(false)
+    }
+    // GitHub steps stay out of the way
+    expect(issuesStep.canResolve?.(gitlabCtx())).toBe(false)
+  })
+
+  it('respects feature flags and the cache guard', () => {
+    expect(gitlabIssuesStep.canResolve?.(gitlabCtx({ features: { search: false, issues: false, discussions: true, releases: true } }))).toBe(false)
+    expect(gitlabReleasesStep.canResolve?.(gitlabCtx({ features: { search: false, issues: true, discussions: true, releases: false } }))).toBe(false)
+    vi.mocked(existsSync).mockReturnValue(true)
+    expect(gitlabIssuesStep.canResolve?.(gitlabCtx())).toBe(false)
+  })
+
+  it('writes issues and merge requests to the package cache', async () => {
+    vi.mocked(fetchGitLabIssues).mockResolvedValue([{ number: 3, title: 'Crash', body: 'boom' } as never])
+    vi.mocked(fetchGitLabMergeRequests).mockResolvedValue([{ number: 7, title: 'Fix crash', body: 'fixes #3' } as never])
+    const ctx = gitlabCtx()
+    await gitlabIssuesStep.run(ctx)
+
+    expect(writeToRepoCache).not.toHaveBeenCalled()
+    const [name, version, docs] = vi.mocked(writeToCache).mock.calls[0]!
+    expect([name, version]).toEqual(['pkg', '1.0.0'])
+    expect(docs.map(d => d.path)).toEqual(['issues/issue-3.md', 'issues/mr-7.md', 'issues/_INDEX.md'])
+    expect(docs[2]!.content).toContain('## Merged Merge Requests')
+    expect(ctx.docsToIndex.map(d => d.id)).toEqual(['issue-3', 'mr-7'])
+  })
+
+  it('writes releases with a generated index', async () => {
+    vi.mocked(fetchGitLabReleaseNotes).mockResolvedValue([
+      { path: 'releases/v1.0.0.md', content: '---\ntag: v1.0.0\nversion: 1.0.0\npublished: 2024-01-01\n---\n\n# v1.0.0' },
+    ])
+    const ctx = gitlabCtx()
+    await gitlabReleasesStep.run(ctx)
+
+    const docs = vi.mocked(writeToCache).mock.calls[0]![2]
+    expect(docs.map(d => d.path)).toEqual(['releases/v1.0.0.md', 'releases/_INDEX.md'])
+    expect(docs[1]!.content).toContain('[v1.0.0](./v1.0.0.md)')
+    expect(ctx.docsToIndex).toHaveLength(2)
+  })
+})
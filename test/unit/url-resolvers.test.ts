@@ -18,13 +18,14 @@ vi.mock('../../src/sources/github', () => ({
   searchGitHubRepo: vi.fn(),
   fetchGitHubRepoMeta: vi.fn(),
   fetchGitDocs: vi.fn(),
+  fetchGitHostDocs: vi.fn(),
 }))
 vi.mock('../../src/sources/package-registry', () => ({
   getCrawlUrl: vi.fn(),
 }))
 
 const { fetchNpmPackage, fetchNpmRegistryMeta } = await import('../../src/sources/npm-registry')
-const { searchGitHubRepo, fetchGitHubRepoMeta, fetchGitDocs } = await import('../../src/sources/github')
+const { searchGitHubRepo, fetchGitHubRepoMeta, fetchGitDocs, fetchGitHostDocs } = await import('../../src/sources/github')
 const { getCrawlUrl } = await import('../../src/sources/package-registry')
 
 const { npmResolver } = await import('../../src/sources/resolvers/npm')
@@ -263,6 +264,24 @@ describe('gitTagResolver — versioned docs', () => {
     expect(vi.mocked(fetchGitDocs).mock.calls[0]?.[2]).toBe('9.9.9')
   })
 
+  it('resolves versioned docs from Codeberg repos via the host abstraction', async () => {
+    vi.mocked(fetchGitHostDocs).mockResolvedValue({
+      baseUrl: 'https://codeberg.org/owner/repo/raw/v1.0.0',
+      ref: 'v1.0.0',
+      files: ['docs/a.md'],
+    })
+    const ctx = makeCtx({
+      result: { name: 'pkg', repoUrl: 'https://codeberg.org/owner/repo' },
+      options: { version: '1.0.0' },
+    })
+    expect(gitTagResolver.canResolve?.(ctx)).toBe(true)
+    const outcome = await gitTagResolver.run(ctx)
+    expect(outcome.kind).toBe('ok')
+    expect(vi.mocked(fetchGitHostDocs).mock.calls[0]?.[0]).toMatchObject({ type: 'gitea', owner: 'owner', repo: 'repo' })
+    expect(ctx.result?.gitDocsUrl).toBe('https://codeberg.org/owner/repo/raw/v1.0.0')
+    expect(fetchGitDocs).not.toHaveBeenCalled()
+  })
+
   it('returns skip when fetchGitDocs finds nothing', async () => {
     vi.mocked(fetchGitDocs).mockResolvedValue(null)
     const ctx = makeCtx({
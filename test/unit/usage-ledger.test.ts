@@ -0,0 +1,132 @@
+import type { LedgerEntry } from '../../src/agent/clis/usage-ledger'
+import { appendFileSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'pathe'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { selectExecutor } from '../../src/agent/clis/executors'
+import { appendLedger, createRunBudget, readLedger, summarizeLedger } from '../../src/agent/clis/usage-ledger'
+import { optimizeDocs } from '../../src/agent/llm-enhancer'
+
+vi.mock('../../src/agent/clis/executors', () => ({ selectExecutor: vi.fn() }))
+// No stagger between spawns, so parallel sections would all start before any usage is in
+vi.mock('node:timers/promises', () => ({ setTimeout: vi.fn(async () => {}) }))
+
+function entry(overrides: Partial<LedgerEntry>): LedgerEntry {
+  return {
+    timestamp: '2026-09-12T10:00:00.000Z',
+    package: 'vue',
+    model: 'sonnet',
+    section: 'best-practices',
+    inputTokens: 1000,
+    outputTokens: 200,
+    cost: 0.01,
+    ...overrides,
+  }
+}
+
+describe('usage ledger', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'skilld-ledger-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('appends across runs and skips malformed lines', () => {
+    const path = join(dir, 'nested/usage.jsonl')
+    expect(readLedger(path)).toEqual([])
+
+    appendLedger([entry({}), entry({ section: 'api-changes' })], path)
+    appendFileSync(path, '{"timestamp":"2026-09\n')
+    appendLedger([entry({ package: 'nuxt', cost: undefined })], path)
+
+    expect(readLedger(path).map(e => [e.package, e.section])).toEqual([
+      ['vue', 'best-practices'],
+      ['vue', 'api-changes'],
+      ['nuxt', 'best-practices'],
+    ])
+  })
+})
+
+describe('summarizeLedger', () => {
+  const entries = [
+    entry({ timestamp: '2026-10-01T00:00:00.000Z', package: 'nuxt', model: 'haiku', cost: 0.002 }),
+    entry({ timestamp: '2026-08-30T00:00:00.000Z', cost: 0.05 }),
+    entry({ timestamp: '2026-10-02T00:00:00.000Z', model: 'gemini-3-flash', cost: undefined, outputTokens: 500 }),
+  ]
+
+  it('groups by package, sorted by cost', () => {
+    expect(summarizeLedger(entries, 'package')).toEqual([
+      { key: 'vue', runs: 2, inputTokens: 2000, outputTokens: 700, cost: 0.05, unpriced: 1 },
+      { key: 'nuxt', runs: 1, inputTokens: 1000, outputTokens: 200, cost: 0.002, unpriced: 0 },
+    ])
+  })
+
+  it('groups by model and month', () => {
+    expect(summarizeLedger(entries, 'model').map(r => r.key)).toEqual(['sonnet', 'haiku', 'gemini-3-flash'])
+    expect(summarizeLedger(entries, 'month').map(r => [r.key, r.runs])).toEqual([['2026-08', 1], ['2026-10', 2]])
+  })
+})
+
+describe('createRunBudget', () => {
+  it('has room until the cost limit is reached', () => {
+    const budget = createRunBudget({ maxCost: 0.1 })
+    budget.charge({ input: 5000, output: 1000 }, 0.06)
+    expect(budget.exhausted()).toBeNull()
+    budget.charge(undefined, 0.05)
+    expect(budget.exhausted()).toBe('cost budget exhausted ($0.11 of $0.10 per run)')
+  })
+
+  it('counts input and output tokens', () => {
+    const budget = createRunBudget({ maxTokens: 10_000 })
+    budget.charge({ input: 8000, output: 2500 })
+    expect(budget.spent).toEqual({ tokens: 10_500, cost: 0 })
+    expect(budget.exhausted()).toBe('token budget exhausted (10,500 of 10,000 per run)')
+  })
+
+  it('never exhausts without limits', () => {
+    const budget = createRunBudget({})
+    budget.charge({ input: 1e9, output: 1e9 }, 1000)
+    expect(budget.exhausted()).toBeNull()
+  })
+})
+
+describe('optimizeDocs with a run budget', () => {
+  let skillDir: string
+
+  beforeEach(() => {
+    skillDir = mkdtempSync(join(tmpdir(), 'skilld-budget-'))
+  })
+
+  afterEach(() => {
+    rmSync(skillDir, { recursive: true, force: true })
+  })
+
+  it('skips sections once earlier ones use up the budget', async () => {
+    const started: string[] = []
+    vi.mocked(selectExecutor).mockReturnValue({
+      cliCleanup: false,
+      run: async ({ section }) => {
+        started.push(section)
+        await new Promise(resolve => setTimeout(resolve, 10))
+        return { text: `## ${section}\n\n- generated`, usage: { input: 6000, output: 0 } }
+      },
+    })
+
+    const result = await optimizeDocs({
+      packageName: 'vue',
+      skillDir,
+      model: 'sonnet',
+      noCache: true,
+      ledgerPath: false,
+      maxTokensPerRun: 5000,
+      sections: ['api-changes', 'best-practices'],
+    })
+
+    expect(started).toEqual(['api-changes'])
+    expect(result.error).toBe('best-practices: skipped, token budget exhausted (6,000 of 5,000 per run)')
+  })
+})
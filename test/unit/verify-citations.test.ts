@@ -0,0 +1,96 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'pathe'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { extractCodeIdentifiers, summarizeCitationReport, verifyCitations } from '../../src/agent/clis/verify-citations'
+
+describe('extractCodeIdentifiers', () => {
+  it('takes identifiers from inline code, skipping fenced examples and short names', () => {
+    const bullet = [
+      '- Prefer `useFetch()` over `$fetch` in `app.vue`, pass `{ lazy: true }` and `id`',
+      '',
+      '```ts',
+      'const { data } = await useAsyncData(\'x\')',
+      '```',
+    ].join('\n')
+    expect(extractCodeIdentifiers(bullet)).toEqual(['useFetch', '$fetch', 'vue'])
+    expect(extractCodeIdentifiers('- Use `<NuxtLink>` for routes')).toEqual(['NuxtLink'])
+  })
+})
+
+describe('verifyCitations', () => {
+  let skilldDir: string
+
+  beforeEach(() => {
+    skilldDir = mkdtempSync(join(tmpdir(), 'skilld-citations-'))
+    mkdirSync(join(skilldDir, 'docs'), { recursive: true })
+    writeFileSync(join(skilldDir, 'docs/fetch.md'), '# Data fetching\n\nUse useFetch for SSR-safe requests.\n\nPass lazy to defer.\n')
+    writeFileSync(join(skilldDir, 'docs/state.md'), '# State\n\nuseState shares state.\n')
+  })
+
+  afterEach(() => {
+    rmSync(skilldDir, { recursive: true, force: true })
+  })
+
+  it('keeps supported items', () => {
+    const content = '## Best Practices\n\n- Use `useFetch` in setup [source](./.skilld/docs/fetch.md#L3)\n- Share with `useState` [source](./.skilld/docs/state.md:L3)'
+    const report = verifyCitations(content, skilldDir, { drop: true })
+    expect(report.content).toBe(content)
+    expect(report.issues).toEqual([])
+    expect(report.checked).toBe(2)
+  })
+
+  it('drops items citing missing files or with no identifier in the cited file', () => {
+    const content = [
+      '## Best Practices',
+      '',
+      '- Use `useFetch` [source](./.skilld/docs/nope.md)',
+      '',
+      '- Call `refreshNuxtData` after mutations [source](./.skilld/docs/fetch.md)',
+      '',
+      '  ```ts',
+      '  - not a bullet',
+      '  ```',
+      '',
+      '- Share with `useState` [source](./.skilld/docs/state.md)',
+    ].join('\n')
+    const report = verifyCitations(content, skilldDir, { drop: true })
+    expect(report.content).toBe('## Best Practices\n\n- Share with `useState` [source](./.skilld/docs/state.md)')
+    expect(report.unsupported).toEqual(['Use `useFetch` [source](./.skilld/docs/nope.md)', 'Call `refreshNuxtData` after mutations [source](./.skilld/docs/fetch.md)'])
+    expect(report.issues.map(i => i.kind)).toEqual(['missing-file', 'unverified-identifier'])
+
+    // Report-only mode leaves content alone
+    expect(verifyCitations(content, skilldDir).content).toBe(content)
+  })
+
+  it('reads :L and #L line references, ignoring heading anchors', () => {
+    const content = '- `useFetch` [source](./.skilld/docs/fetch.md:L3:5)\n- `useFetch` [source](./.skilld/docs/fetch.md:L9)\n- `useFetch` [source](./.skilld/docs/fetch.md#data-fetching)'
+    const report = verifyCitations(content, skilldDir)
+    expect(report.issues.map(i => i.detail)).toEqual([':L9 is outside ./.skilld/docs/fetch.md (6 lines)'])
+  })
+
+  it('flags anchors outside the file and partially supported items without dropping them', () => {
+    const content = '- Use `useFetch` with `pick` [source](./.skilld/docs/fetch.md#L4-L40)'
+    const report = verifyCitations(content, skilldDir, { drop: true })
+    expect(report.content).toBe(content)
+    expect(report.issues).toEqual([
+      { kind: 'broken-anchor', bullet: 'Use `useFetch` with `pick` [source](./.skilld/docs/fetch.md#L4-L40)', path: 'docs/fetch.md', detail: '#L4-L40 is outside ./.skilld/docs/fetch.md (6 lines)' },
+      { kind: 'unverified-identifier', bullet: 'Use `useFetch` with `pick` [source](./.skilld/docs/fetch.md#L4-L40)', detail: '`pick` not found in cited files' },
+    ])
+  })
+
+  it('accepts support from any of an item\'s citations and blocks traversal', () => {
+    const supported = '- `useState` and `useFetch` [source](./.skilld/docs/fetch.md) [source](./.skilld/docs/state.md)'
+    expect(verifyCitations(supported, skilldDir).issues).toEqual([])
+    const traversal = verifyCitations('- Read `secret` [source](./.skilld/../../etc/passwd)', skilldDir)
+    expect(traversal.issues[0]!.kind).toBe('missing-file')
+  })
+
+  it('summarizes issues into one warning per kind', () => {
+    const report = verifyCitations('- `useFetch` [source](./.skilld/docs/a.md)\n- `useFetch` [source](./.skilld/docs/b.md)', skilldDir, { drop: true })
+    expect(summarizeCitationReport(report, true)).toEqual([
+      '2 cited files don\'t exist: ./.skilld/docs/a.md, ./.skilld/docs/b.md',
+      'Dropped 2/2 unsupported items: "`useFetch` [source](./.skilld/docs/a.md)", "`useFetch` [source](./.skilld/docs/b.md)"',
+    ])
+  })
+})
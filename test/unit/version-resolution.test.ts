@@ -122,7 +122,7 @@ describe('version resolution stability gaps', () => {
 
       const result = parseVersionSpecifier('some-pkg', 'catalog:deps', '/test')
 
-      // Currently falls to * — ideally would resolve from lockfile
+      // No lockfile or catalog definition reachable → wildcard
       expect(result).toEqual({ name: 'some-pkg', version: '*' })
     })
 
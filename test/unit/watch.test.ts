@@ -0,0 +1,123 @@
+import type { FSWatcher } from 'node:fs'
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, symlinkSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'pathe'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { writeLock } from '../../src/core/lockfile'
+
+const indexChangedDocs = vi.fn(async (opts: { changed: unknown[] }) => ({ added: opts.changed.length, removed: 0 }))
+
+const { fsWatchers } = vi.hoisted(() => ({ fsWatchers: [] as FSWatcher[] }))
+
+vi.mock('node:fs', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('node:fs')>()
+  return {
+    ...actual,
+    watch: (...args: Parameters<typeof actual.watch>) => {
+      const watcher = actual.watch(...args)
+      fsWatchers.push(watcher)
+      return watcher
+    },
+  }
+})
+
+vi.mock('../../src/retriv/index-pipeline.ts', async importOriginal => ({
+  ...await importOriginal<typeof import('../../src/retriv/index-pipeline')>(),
+  indexChangedDocs: (opts: any) => indexChangedDocs(opts),
+}))
+
+const { resolveWatchTargets, watchDocs } = await import('../../src/commands/watch')
+const { diffChangedDocs } = await import('../../src/retriv/index-pipeline')
+
+describe('diffChangedDocs', () => {
+  it('drops every chunk of changed docs and re-adds the ones that still exist', () => {
+    const existing = ['docs/a.md#chunk-0', 'docs/a.md#chunk-1', 'docs/b.md', 'docs/c.md#chunk-0']
+    const { docs, removeIds } = diffChangedDocs(existing, [
+      { id: 'docs/a.md', content: '# A v2' },
+      { id: 'docs/c.md', content: null },
+      { id: 'issues/issue-1.md', content: '# New issue' },
+    ], 'vue')
+    expect(removeIds).toEqual(['docs/a.md#chunk-0', 'docs/a.md#chunk-1', 'docs/c.md#chunk-0'])
+    expect(docs.map(d => d.id)).toEqual(['docs/a.md', 'issues/issue-1.md'])
+    expect(docs[1]!.metadata).toMatchObject({ package: 'vue', source: 'issues/issue-1.md', type: 'issue' })
+  })
+})
+
+describe('skilld watch', () => {
+  let cwd: string
+  let refDocs: string
+
+  beforeEach(() => {
+    cwd = realpathSync(mkdtempSync(join(tmpdir(), 'skilld-watch-')))
+    refDocs = join(cwd, 'refs', 'vue@3.5.0', 'docs')
+    mkdirSync(refDocs, { recursive: true })
+    const skilldDir = join(cwd, '.skills', 'vue-skilld', '.skilld')
+    mkdirSync(join(skilldDir, 'pkg'), { recursive: true })
+    symlinkSync(refDocs, join(skilldDir, 'docs'))
+    writeLock(join(cwd, '.skills'), 'vue-skilld', { packageName: 'vue', version: '3.5.0', source: 'npm' })
+    indexChangedDocs.mockClear()
+    fsWatchers.length = 0
+  })
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true })
+  })
+
+  it('resolves the real dirs behind .skilld symlinks, skipping pkg', async () => {
+    expect(await resolveWatchTargets(cwd)).toEqual([{ packageName: 'vue', version: '3.5.0', dir: refDocs, prefix: 'docs' }])
+  })
+
+  it('watches docs/ of link: dependencies as mirrored targets', async () => {
+    const linked = join(cwd, 'packages', 'ui')
+    mkdirSync(join(linked, 'docs'), { recursive: true })
+    writeFileSync(join(linked, 'package.json'), JSON.stringify({ name: '@acme/ui', version: '0.2.0' }))
+    writeFileSync(join(cwd, 'package.json'), JSON.stringify({ dependencies: { '@acme/ui': 'link:./packages/ui' } }))
+    writeLock(join(cwd, '.skills'), 'acme-ui-skilld', { packageName: '@acme/ui', version: '0.2.0', source: 'npm' })
+
+    expect(await resolveWatchTargets(cwd)).toContainEqual({ packageName: '@acme/ui', version: '0.2.0', dir: join(linked, 'docs'), prefix: 'docs', mirror: true })
+  })
+
+  it('batches markdown changes per package and skips unchanged content', async () => {
+    const watcher = watchDocs(await resolveWatchTargets(cwd), { debounceMs: 20 })
+    try {
+      writeFileSync(join(refDocs, 'guide.md'), '# Guide')
+      writeFileSync(join(refDocs, 'notes.txt'), 'ignored')
+      await vi.waitFor(() => expect(indexChangedDocs).toHaveBeenCalledTimes(1))
+      await watcher.flush()
+      expect(indexChangedDocs.mock.calls[0]![0]).toMatchObject({
+        packageName: 'vue',
+        version: '3.5.0',
+        changed: [{ id: 'docs/guide.md', content: '# Guide' }],
+      })
+
+      // Same content again (editor double-write) is not reindexed
+      writeFileSync(join(refDocs, 'guide.md'), '# Guide')
+      await new Promise(r => setTimeout(r, 100))
+      await watcher.flush()
+      expect(indexChangedDocs).toHaveBeenCalledTimes(1)
+
+      rmSync(join(refDocs, 'guide.md'))
+      await vi.waitFor(() => expect(indexChangedDocs).toHaveBeenCalledTimes(2))
+      expect(indexChangedDocs.mock.calls[1]![0].changed).toEqual([{ id: 'docs/guide.md', content: null }])
+    }
+    finally {
+      await watcher.close()
+    }
+  })
+
+  it('re-creates a watcher after it errors', async () => {
+    const onWatchError = vi.fn()
+    const watcher = watchDocs(await resolveWatchTargets(cwd), { debounceMs: 20, onWatchError })
+    try {
+      fsWatchers[0]!.emit('error', new Error('EMFILE: too many open files'))
+      expect(onWatchError).toHaveBeenCalledWith(expect.objectContaining({ dir: refDocs }), expect.objectContaining({ message: 'EMFILE: too many open files' }))
+      await vi.waitFor(() => expect(fsWatchers).toHaveLength(2), { timeout: 3000 })
+
+      writeFileSync(join(refDocs, 'guide.md'), '# Guide')
+      await vi.waitFor(() => expect(indexChangedDocs).toHaveBeenCalledTimes(1))
+    }
+    finally {
+      await watcher.close()
+    }
+  })
+})